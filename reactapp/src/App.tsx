@@ -6,11 +6,15 @@ import axiosInstance from "@/types/shared/axiosInstance.ts";
 import { HomeErrorFallback } from "@components/shared/ErrorScreen.tsx";
 import Routes from "@routes/Routes.tsx";
 import useAppHeight from "@hooks/useAppHeight.ts";
+import useSessionClock from "@hooks/useSessionClock.ts";
+import useTrackingQueue from "@hooks/useTrackingQueue.ts";
 import "@styles/shared/buttons.scss";
 import "./i18n";
 
 export default function App() {
     useAppHeight();
+    useTrackingQueue();
+    useSessionClock();
     configure({ axios: axiosInstance });
 
     return (
@@ -4,7 +4,7 @@ import { faRotateLeft, faRotateRight } from "@fortawesome/free-solid-svg-icons";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import { produce } from "immer";
 import { Fraction, evaluate } from "mathjs";
-import React, { ReactElement, ReactNode, useMemo, useState } from "react";
+import React, { ReactElement, ReactNode, useEffect, useMemo, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { useNavigate } from "react-router-dom";
 import { useImmer } from "use-immer";
@@ -14,11 +14,11 @@ import { EliminationTranslations } from "@/types/elimination/eliminationTranslat
 import { InputError, NotebookState } from "@/types/elimination/enums.ts";
 import { OperationOutOfRangeError } from "@/types/elimination/operationOutOfRangeError.ts";
 import { Row } from "@/types/elimination/row.ts";
+import { SolutionType } from "@/types/math/enums.ts";
 import { math } from "@/types/math/math.ts";
 import { GameError, GameErrorType } from "@/types/shared/error.ts";
 import { TranslationInterpolation } from "@/types/shared/translationInterpolation.ts";
 import { CKExerciseType } from "@/types/studies/enums.ts";
-import { IUser } from "@/types/studies/user.ts";
 import HeadEntry, { HeadEntryForCosts } from "@components/elimination/HeadEntry.tsx";
 import PostIt from "@components/elimination/PostIt.tsx";
 import TableInputRow from "@components/elimination/TableInputRow.tsx";
@@ -31,11 +31,15 @@ import EquationChoice from "@components/elimination/notebookActions/EquationChoi
 import EquationSelection from "@components/elimination/notebookActions/EquationSelection.tsx";
 import FirstSolution from "@components/elimination/notebookActions/FirstSolution.tsx";
 import InitialAction, { MaxRowsWarning } from "@components/elimination/notebookActions/InitialAction.tsx";
+import SystemClassification, { ClassificationResult } from "@components/elimination/notebookActions/SystemClassification.tsx";
 import HintPopover from "@components/shared/HintPopover.tsx";
 import Switch from "@components/shared/Switch.tsx";
 import { Paths } from "@routes/paths.ts";
 import useCKTracker from "@hooks/useCKTracker.ts";
+import useExerciseOutcomes from "@hooks/useExerciseOutcomes.ts";
+import { ExerciseModule } from "@/types/shared/exerciseOutcome.ts";
 import { setCKExerciseCompleted, setCKStudyExerciseCompleted } from "@utils/storageUtils.ts";
+import { formatFraction } from "@utils/utils.ts";
 
 export default function EliminationGame({ exercise, actionOverlay, isStudy = false, studyId, collectData = true }: { exercise: EliminationExercise; actionOverlay?: ReactNode; isStudy?: boolean; studyId?: number; collectData?: boolean }): ReactElement {
     const { t } = useTranslation(TranslationNamespaces.Elimination);
@@ -50,9 +54,11 @@ export default function EliminationGame({ exercise, actionOverlay, isStudy = fal
             throw new GameError(GameErrorType.STUDY_ID_ERROR);
         }
     }
-    const { trackAction, trackHint, trackError, endTracking, trackChoice } = useCKTracker(isStudy && collectData, user as IUser, CKExerciseType.Elimination, studyId as number, exercise.id, performance.now());
+    const { trackAction, trackHint: recordHint, trackError: recordError, endTracking, trackChoice, trackSnapshot } = useCKTracker(isStudy && collectData, user, CKExerciseType.Elimination, studyId as number, exercise.id, performance.now(), !isStudy && collectData);
+    const { emitStepCorrect, emitError, emitHintUsed, emitSolved } = useExerciseOutcomes(ExerciseModule.Elimination, exercise.id, CKExerciseType.Elimination);
 
     const hints: TranslationInterpolation[] = useMemo(() => EliminationTranslations.getHints(), []);
+    const solutionType: SolutionType = useMemo(() => Row.solveRows(Row.initializeRows(exercise)), [exercise]);
 
     const [gameHistory, setGameHistory] = useImmer([Row.initializeRows(exercise)]);
     const [currentStep, setCurrentStep] = useState<number>(0);
@@ -71,11 +77,46 @@ export default function EliminationGame({ exercise, actionOverlay, isStudy = fal
 
     const [firstEquationSelected, setFirstEquationSelected] = useState<boolean>(false);
 
-    if (![NotebookState.FirstSolution, NotebookState.EquationSelection, NotebookState.GoodChoice, NotebookState.BadChoice, NotebookState.NeutralChoice].includes(notebookState)) {
+    // Every table shown to the student is recorded (including undo and redo), so that the session can be replayed later
+    useEffect(() => {
+        trackSnapshot(currentStep, {
+            firstVariable: exercise.firstVariable.name,
+            secondVariable: exercise.secondVariable.name,
+            rows: rows.map((row: Row): [string, string, string] => [formatFraction(row.first), formatFraction(row.second), formatFraction(row.costs)])
+        });
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [rows, currentStep]);
+
+    // Finding the first variable completes a step, choosing the equation for the second variable completes the exercise
+    useEffect(() => {
+        if (notebookState === NotebookState.FirstSolution || notebookState === NotebookState.SystemClassification) {
+            emitStepCorrect();
+        } else if ([NotebookState.GoodChoice, NotebookState.BadChoice, NotebookState.NeutralChoice, NotebookState.ClassificationResult].includes(notebookState)) {
+            endTracking();
+            emitSolved();
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [notebookState]);
+
+    const finalStates: NotebookState[] = [
+        NotebookState.FirstSolution,
+        NotebookState.EquationSelection,
+        NotebookState.GoodChoice,
+        NotebookState.BadChoice,
+        NotebookState.NeutralChoice,
+        NotebookState.SystemClassification,
+        NotebookState.ClassificationResult
+    ];
+    if (!finalStates.includes(notebookState)) {
         const index: number = rows.findIndex((row: Row) => (math.isZero(row.first) && row.second.n === row.second.d && row.second.s !== -1) || (row.first.n === row.first.d && row.first.s !== -1 && math.isZero(row.second)));
+        // Without a unique solution, both variables vanish at once, the resulting row 0 = c or 0 = 0 has to be classified by the student
+        const classificationIndex: number = solutionType !== SolutionType.Unique ? rows.findIndex((row: Row) => Row.classify(row) === solutionType) : -1;
         if (index !== -1) {
             setSelectedRows([index]);
             setNotebookState(NotebookState.FirstSolution);
+        } else if (classificationIndex !== -1) {
+            setSelectedRows([classificationIndex]);
+            setNotebookState(NotebookState.SystemClassification);
         }
     }
 
@@ -151,14 +192,12 @@ export default function EliminationGame({ exercise, actionOverlay, isStudy = fal
         }
 
         case NotebookState.GoodChoice: {
-            endTracking();
             const textGoodChoice: TranslationInterpolation = EliminationTranslations.getTextForGoodChoice(firstEquationSelected);
             actions = <EquationChoice exercise={exercise} showFractions={displayFractions} text={textGoodChoice} handleClick={handleEnd} />;
             break;
         }
 
         case NotebookState.BadChoice: {
-            endTracking();
             const firstIsZero: boolean = math.isZero(rows[selectedRows[0]].first);
             const textBadChoice: TranslationInterpolation = EliminationTranslations.getTextBadChoice(firstIsZero ? exercise.secondVariable.name : exercise.firstVariable.name, firstEquationSelected);
             actions = <EquationChoice exercise={exercise} showFractions={displayFractions} text={textBadChoice} handleClick={handleEnd} />;
@@ -166,14 +205,23 @@ export default function EliminationGame({ exercise, actionOverlay, isStudy = fal
         }
 
         case NotebookState.NeutralChoice: {
-            endTracking();
             const textNeutralChoice: TranslationInterpolation = EliminationTranslations.getTextForNeutralChoice();
             actions = <EquationChoice exercise={exercise} showFractions={displayFractions} text={textNeutralChoice} handleClick={handleEnd} />;
             break;
         }
+
+        case NotebookState.SystemClassification: {
+            actions = <SystemClassification row={rows[selectedRows[0]]} solutionType={solutionType} showFractions={displayFractions} setNotebookState={setNotebookState} trackAction={trackAction} trackChoice={trackChoice} trackError={trackError} />;
+            break;
+        }
+
+        case NotebookState.ClassificationResult: {
+            actions = <ClassificationResult exercise={exercise} solutionType={solutionType} handleClick={handleEnd} />;
+            break;
+        }
     }
 
-    const buttonsDisabled: boolean = [NotebookState.FirstSolution, NotebookState.EquationSelection, NotebookState.GoodChoice, NotebookState.BadChoice, NotebookState.NeutralChoice].includes(notebookState);
+    const buttonsDisabled: boolean = finalStates.includes(notebookState);
 
     return (
         <React.Fragment>
@@ -188,7 +236,7 @@ export default function EliminationGame({ exercise, actionOverlay, isStudy = fal
                         <PostIt exercise={exercise} />
                     </div>
                     <div className={"notebook"}>
-                        {![NotebookState.EquationSelection, NotebookState.BadChoice, NotebookState.GoodChoice, NotebookState.NeutralChoice].includes(notebookState) ? (
+                        {![NotebookState.EquationSelection, NotebookState.BadChoice, NotebookState.GoodChoice, NotebookState.NeutralChoice, NotebookState.ClassificationResult].includes(notebookState) ? (
                             <React.Fragment>
                                 <table>
                                     <thead>
@@ -352,6 +400,16 @@ export default function EliminationGame({ exercise, actionOverlay, isStudy = fal
         );
     }
 
+    function trackHint(): void {
+        recordHint();
+        emitHintUsed();
+    }
+
+    function trackError(): void {
+        recordError();
+        emitError();
+    }
+
     function cancelAction(useTracking: boolean = true): void {
         if (useTracking) {
             trackAction("CANCEL");
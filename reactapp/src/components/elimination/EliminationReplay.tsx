@@ -0,0 +1,31 @@
+import { ReactElement } from "react";
+import { EliminationConstants } from "@/types/elimination/eliminationConstants.ts";
+import { EliminationSnapshot } from "@/types/studies/sessionReplay.ts";
+import { getImageSourceByName } from "@utils/itemImageLoader.ts";
+
+export default function EliminationReplay({ snapshot }: { snapshot: EliminationSnapshot }): ReactElement {
+    const columns: string[] = [snapshot.firstVariable, snapshot.secondVariable, EliminationConstants.BILL];
+
+    return (
+        <table className={"session-replay__table"}>
+            <thead>
+                <tr>
+                    {columns.map((column: string) => (
+                        <th key={column}>
+                            <img src={getImageSourceByName(column)} alt={column} />
+                        </th>
+                    ))}
+                </tr>
+            </thead>
+            <tbody>
+                {snapshot.rows.map((row: [string, string, string], index: number) => (
+                    <tr key={index}>
+                        {row.map((entry: string, column: number) => (
+                            <td key={column}>{entry}</td>
+                        ))}
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+}
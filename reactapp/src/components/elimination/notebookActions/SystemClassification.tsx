@@ -0,0 +1,94 @@
+import { TranslationNamespaces } from "@/i18n.ts";
+import { faArrowRight } from "@fortawesome/free-solid-svg-icons";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import React, { ReactElement, useState } from "react";
+import { Trans, useTranslation } from "react-i18next";
+import { EliminationConstants } from "@/types/elimination/eliminationConstants.ts";
+import { EliminationExercise } from "@/types/elimination/eliminationExercise.ts";
+import { EliminationTranslations } from "@/types/elimination/eliminationTranslations.ts";
+import { NotebookState } from "@/types/elimination/enums.ts";
+import { Row } from "@/types/elimination/row.ts";
+import { SolutionType } from "@/types/math/enums.ts";
+import { GeneralTranslations } from "@/types/shared/generalTranslations.ts";
+import { TranslationInterpolation } from "@/types/shared/translationInterpolation.ts";
+import { EliminationChoice } from "@/types/studies/enums.ts";
+import { TermFromRow } from "@components/elimination/notebookActions/EquationFromRow.tsx";
+import ImageEquation from "@components/math/conceptual-knowledge/ImageEquation.tsx";
+
+const CLASSIFICATION_OPTIONS: [SolutionType, string][] = [
+    [SolutionType.Unique, EliminationTranslations.CLASSIFICATION_UNIQUE],
+    [SolutionType.None, EliminationTranslations.CLASSIFICATION_NONE],
+    [SolutionType.Infinite, EliminationTranslations.CLASSIFICATION_INFINITE]
+];
+
+export default function SystemClassification({ row, solutionType, showFractions, setNotebookState, trackAction, trackChoice, trackError }: {
+    row: Row;
+    solutionType: SolutionType;
+    showFractions: boolean;
+    setNotebookState: (value: React.SetStateAction<NotebookState>) => void;
+    trackAction: (action: string) => void;
+    trackChoice: (choice: EliminationChoice) => void;
+    trackError: () => void;
+}): ReactElement {
+    const { t } = useTranslation(TranslationNamespaces.Elimination);
+
+    const [isWrong, setIsWrong] = useState<boolean>(false);
+
+    return (
+        <React.Fragment>
+            <p>{t(EliminationTranslations.CLASSIFICATION_INSTR)}</p>
+            <div className={"action__equation-solution"}>
+                <p>0</p>
+                <p>&#61;</p>
+                <TermFromRow variable={EliminationConstants.BILL} coefficient={row.costs} showFractions={showFractions} displayOperator={false} />
+            </div>
+            <p>{t(EliminationTranslations.CLASSIFICATION_QUESTION)}</p>
+            <div className={"action__buttons"}>
+                {CLASSIFICATION_OPTIONS.map(([option, label]: [SolutionType, string]) => (
+                    <button key={option} className={"button notebook-button"} onClick={() => classify(option)}>
+                        {t(label)}
+                    </button>
+                ))}
+            </div>
+            {isWrong && <p className={"notebook__input-feedback"}>{t(EliminationTranslations.CLASSIFICATION_ERROR)}</p>}
+        </React.Fragment>
+    );
+
+    function classify(option: SolutionType): void {
+        trackAction(`CLASSIFY ${SolutionType[option]}`);
+        if (option !== solutionType) {
+            trackChoice(EliminationChoice.Bad);
+            trackError();
+            setIsWrong(true);
+            return;
+        }
+        trackChoice(EliminationChoice.Good);
+        setNotebookState(NotebookState.ClassificationResult);
+    }
+}
+
+export function ClassificationResult({ exercise, solutionType, handleClick }: { exercise: EliminationExercise; solutionType: SolutionType; handleClick: () => void }): ReactElement {
+    const { t } = useTranslation([TranslationNamespaces.General, TranslationNamespaces.Elimination]);
+
+    const textResult: TranslationInterpolation = EliminationTranslations.getTextForClassificationResult(solutionType);
+
+    return (
+        <div className={"notebook__page"}>
+            <p>
+                <Trans ns={TranslationNamespaces.Elimination} i18nKey={textResult.translationKey} />
+            </p>
+            <div className={"action__system-equation"}>
+                <p>1.</p>
+                <ImageEquation equation={exercise.firstEquation} style={{ color: "var(--dark-text)" }} />
+            </div>
+            <div className={"action__system-equation"}>
+                <p>2.</p>
+                <ImageEquation equation={exercise.secondEquation} style={{ color: "var(--dark-text)" }} />
+            </div>
+            <button className={"button primary-button"} onClick={handleClick}>
+                {t(GeneralTranslations.BUTTON_CONTINUE, { ns: TranslationNamespaces.General })}
+                <FontAwesomeIcon icon={faArrowRight} />
+            </button>
+        </div>
+    );
+}
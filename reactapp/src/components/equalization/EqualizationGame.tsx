@@ -44,8 +44,8 @@ import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import { produce } from "immer";
 
 // React is the core library for building our UI components.
-// We pull in hooks like useRef (for referencing DOM elements), useState (for state), and useTranslation (for i18n).
-import React, { ReactElement, ReactNode, useRef, useState } from "react";
+// We pull in hooks like useEffect (for side effects), useRef (for referencing DOM elements), useState (for state), and useTranslation (for i18n).
+import React, { ReactElement, ReactNode, useEffect, useRef, useState } from "react";
 
 // Trans and useTranslation come from react-i18next, which is our internationalization library.
 // Trans is a component that helps insert translated text into JSX.
@@ -93,9 +93,6 @@ import { TranslationInterpolation } from "@/types/shared/translationInterpolatio
 // CKExerciseType is for tracking user progress in a larger study/exercise flow.
 import { CKExerciseType, EqualizationPhase } from "@/types/studies/enums.ts";
 
-// IUser represents our authenticated user object.
-import { IUser } from "@/types/studies/user.ts";
-
 // HighlightedArea draws a visual hint area around the scales and system image when explaining relationships.
 import HighlightedArea from "@components/equalization/HighlightedArea.tsx";
 
@@ -108,6 +105,10 @@ import { Paths } from "@routes/paths.ts";
 // Hooks for tracking analytics or study progress (e.g., which buttons the user clicked).
 import useCKTracker from "@hooks/useCKTracker.ts";
 
+// Hook that reports typed outcomes (errors, hints, solved exercises) to interested listeners such as the goal tracking.
+import useExerciseOutcomes from "@hooks/useExerciseOutcomes.ts";
+import { ExerciseModule } from "@/types/shared/exerciseOutcome.ts";
+
 // Utility functions for saving progress to local storage.
 import { setCKExerciseCompleted, setCKStudyExerciseCompleted } from "@utils/storageUtils.ts";
 
@@ -147,7 +148,7 @@ export default function EqualizationGame({
   actionOverlay,       // Optional overlay component shown when exercise completes
   isStudy = false,     // Flag: are we in a research "study" flow?
   studyId,             // Identifier of the study, if applicable
-  collectData = true   // Should we track analytics data for this session?
+  collectData = true   // Should we track analytics data and record completion for this session?
 }: {
   exercise: EqualizationExercise;
   actionOverlay?: ReactNode;
@@ -202,20 +203,47 @@ export default function EqualizationGame({
   // Hooks to track analytics / study events across different phases of the exercise.
   const {
     trackActionInPhase,
-    trackHintInPhase,
-    trackErrorInPhase,
-    setNextTrackingPhase,
+    trackHintInPhase: recordHintInPhase,
+    trackErrorInPhase: recordErrorInPhase,
+    setNextTrackingPhase: recordNextPhase,
     endTrackingPhase,
-    endTracking
+    endTracking,
+    trackSnapshot,
+    trackDrag
   } = useCKTracker(
     isStudy && collectData,   // only track if both flags are true
-    user as IUser,
+    user,
     CKExerciseType.Equalization,
     studyId as number,
     exercise.id,
-    performance.now()
+    performance.now(),
+    !isStudy && collectData   // outside of studies, the performance feeds the local learner model
+  );
+
+  // Emits "started" once and provides the remaining outcome events of this exercise.
+  const { emitStepCorrect, emitError, emitHintUsed, emitSolved } = useExerciseOutcomes(
+    ExerciseModule.Equalization,
+    exercise.id,
+    CKExerciseType.Equalization
   );
 
+  // Every hint and error is tracked and reported as an outcome at the same time.
+  function trackHintInPhase(): void {
+    recordHintInPhase();
+    emitHintUsed();
+  }
+
+  function trackErrorInPhase(): void {
+    recordErrorInPhase();
+    emitError();
+  }
+
+  // A new phase is only loaded once the previous step has been solved correctly.
+  function setNextTrackingPhase(newPhase: EqualizationPhase): void {
+    recordNextPhase(newPhase);
+    emitStepCorrect();
+  }
+
   // The game history is a list of all past game states, so we can undo/redo.
   // We initialize with a single state created from our exercise data.
   const [gameHistory, setGameHistory] = useImmer<EqualizationGameState[]>([
@@ -228,6 +256,16 @@ export default function EqualizationGame({
   // Convenience variable: the game state at the current step.
   const currentGameState: EqualizationGameState = gameHistory[currentStep];
 
+  // Every state shown to the student is recorded (including undo/redo), so that the session can be replayed later.
+  useEffect(() => {
+    trackSnapshot(currentStep, {
+      ...currentGameState,
+      isolatedVariable: exercise.isolatedVariable.name,
+      secondVariable: exercise.secondVariable.name
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentGameState, currentStep]);
+
   // A "Goal" describes what's expected in the current game phase (e.g. equalize, simplify, solve).
   const [goal, setGoal] = useState<Goal>(Goal.getEqualizationGoal(exercise));
 
@@ -353,7 +391,10 @@ export default function EqualizationGame({
                 }
                 navigate(Paths.CKStudyPath + studyId);
               } else {
-                setCKExerciseCompleted(exercise.id, "equalization");
+                // Generated practice exercises are not part of the persisted progress
+                if (collectData) {
+                  setCKExerciseCompleted(exercise.id, "equalization");
+                }
                 setShowActionOverlay(true);
               }
             }}
@@ -588,6 +629,13 @@ export default function EqualizationGame({
 
     const { over, active } = event;
 
+    // Record where the item was dropped, no matter whether the drop changes the game state
+    trackDrag(
+      active.data.current.item.name,
+      active.data.current.source,
+      over !== null ? over.data.current.target : null
+    );
+
     // If dropped back into the same source zone, just track and exit
     if (over !== null && over.data.current.target === active.data.current.source) {
       let sourceName = "";
@@ -1167,6 +1215,7 @@ export default function EqualizationGame({
     if (weight === exercise.isolatedVariable.weight) {
       endTrackingPhase();
       endTracking();
+      emitSolved();
       setShowTransparentOverlay(true);
       setShowHints(false);
       setInstructionType(InstructionType.Solution);
@@ -0,0 +1,54 @@
+import { faScaleBalanced } from "@fortawesome/free-solid-svg-icons";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { ReactElement } from "react";
+import { IItem } from "@/types/shared/item";
+import { EqualizationSnapshot } from "@/types/studies/sessionReplay.ts";
+import { getImageSourceByName } from "@utils/itemImageLoader.ts";
+
+export default function EqualizationReplay({ snapshot }: { snapshot: EqualizationSnapshot }): ReactElement {
+    const shelf: IItem[] = [
+        { name: snapshot.isolatedVariable, amount: snapshot.isolatedVariableCount },
+        { name: snapshot.secondVariable, amount: snapshot.secondVariableCount },
+        ...snapshot.weights
+    ];
+
+    return (
+        <div className={"session-replay__equalization"}>
+            <ReplayItems items={shelf} />
+            <div className={"session-replay__scale"}>
+                <ReplayItems items={groupItems(snapshot.leftItems)} />
+                <FontAwesomeIcon icon={faScaleBalanced} size={"2x"} />
+                <ReplayItems items={groupItems(snapshot.rightItems)} />
+            </div>
+        </div>
+    );
+}
+
+function ReplayItems({ items }: { items: IItem[] }): ReactElement {
+    return (
+        <div className={"session-replay__items"}>
+            {items
+                .filter((item: IItem): boolean => item.amount > 0)
+                .map((item: IItem) => (
+                    <div key={item.name} className={"session-replay__item"}>
+                        <img src={getImageSourceByName(item.name)} alt={item.name} />
+                        <p>{`× ${item.amount}`}</p>
+                    </div>
+                ))}
+        </div>
+    );
+}
+
+// Items on the scale are stored one by one, so equal items are combined to keep the replay readable
+function groupItems(items: IItem[]): IItem[] {
+    const groupedItems: IItem[] = [];
+    items.forEach((item: IItem): void => {
+        const index: number = groupedItems.findIndex((entry: IItem): boolean => entry.name === item.name);
+        if (index !== -1) {
+            groupedItems[index] = { name: item.name, amount: groupedItems[index].amount + item.amount };
+        } else {
+            groupedItems.push({ name: item.name, amount: item.amount });
+        }
+    });
+    return groupedItems;
+}
@@ -22,6 +22,8 @@ export function EfficientMethodSelection(
         transformationRequired,
         loadNextStep,
         question,
+        offerSelfExplanation = true,
+        offerGraphicalMethod = false,
         agentType,
         additionalMessage,
         trackAction,
@@ -34,6 +36,9 @@ export function EfficientMethodSelection(
         transformationRequired: boolean;
         loadNextStep: (method: Method, selfExplain: boolean) => void;
         question?: string;
+        offerSelfExplanation?: boolean;
+        // The graphical method is the last option, so the other options keep their position without it
+        offerGraphicalMethod?: boolean;
         agentType?: AgentType;
         additionalMessage?: string;
         trackAction: (action: string) => void;
@@ -54,8 +59,8 @@ export function EfficientMethodSelection(
             <p>{t(FlexibilityTranslations.INTRO_SYSTEM)}</p>
             <LinearSystem firstEquation={firstEquation} secondEquation={secondEquation} />
             <div className={"method-selection"}>
-                <p>{question !== null ? question : t(efficientMethods.length > 1 ? FlexibilityTranslations.MULTIPLE_EFFICIENT_INSTR : FlexibilityTranslations.SINGLE_EFFICIENT_INSTR)}</p>
-                <SingleChoice options={[t(FlexibilityTranslations.EQUALIZATION), t(FlexibilityTranslations.SUBSTITUTION), t(FlexibilityTranslations.ELIMINATION)]}
+                <p>{question !== undefined && question !== null ? question : t(efficientMethods.length > 1 ? FlexibilityTranslations.MULTIPLE_EFFICIENT_INSTR : FlexibilityTranslations.SINGLE_EFFICIENT_INSTR)}</p>
+                <SingleChoice options={[t(FlexibilityTranslations.EQUALIZATION), t(FlexibilityTranslations.SUBSTITUTION), t(FlexibilityTranslations.ELIMINATION), ...(offerGraphicalMethod ? [t(FlexibilityTranslations.GRAPHICAL)] : [])]}
                               selectedOption={selectedOption} setSelectedOption={setSelectedOption} disabled={intervention !== undefined}
                               optionClassname={"method-selection__option"} />
             </div>
@@ -88,8 +93,8 @@ export function EfficientMethodSelection(
     );
 
     function evaluateChoice(): void {
-        let method: Method = Method.Elimination;
-        let feedback: string = transformationRequired ? FlexibilityTranslations.ELIMINATION_NOT_EFFICIENT_NO_TRANSFORMATION : FlexibilityTranslations.ELIMINATION_NOT_EFFICIENT;
+        let method: Method = Method.Graphical;
+        let feedback: string = FlexibilityTranslations.GRAPHICAL_NOT_EFFICIENT;
         if (selectedOption === 0) {
             method = Method.Equalization;
             feedback = transformationRequired ? FlexibilityTranslations.EQUALIZATION_NOT_EFFICIENT_NO_TRANSFORMATION : FlexibilityTranslations.EQUALIZATION_NOT_EFFICIENT;
@@ -98,12 +103,20 @@ export function EfficientMethodSelection(
             method = Method.Substitution;
             feedback = transformationRequired ? FlexibilityTranslations.SUBSTITUTION_NOT_EFFICIENT_NO_TRANSFORMATION : FlexibilityTranslations.SUBSTITUTION_NOT_EFFICIENT;
             setSelectedMethod(Method.Substitution);
-        } else {
+        } else if (selectedOption === 2) {
+            method = Method.Elimination;
+            feedback = transformationRequired ? FlexibilityTranslations.ELIMINATION_NOT_EFFICIENT_NO_TRANSFORMATION : FlexibilityTranslations.ELIMINATION_NOT_EFFICIENT;
             setSelectedMethod(Method.Elimination);
+        } else {
+            setSelectedMethod(Method.Graphical);
         }
 
         if (efficientMethods.includes(method)) {
             trackAction(`selected ${Method[method]},\nSUCCESS`);
+            if (!offerSelfExplanation) {
+                loadNextStep(method, false);
+                return;
+            }
             const question = FlexibilityTranslations.getQuestionForSEInterventionForEfficiency(method);
             setIntervention(question);
         } else {
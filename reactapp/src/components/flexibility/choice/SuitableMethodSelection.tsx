@@ -6,23 +6,30 @@ import { useTranslation } from "react-i18next";
 import { AgentExpression, AgentType, Method } from "@/types/flexibility/enums.ts";
 import { FlexibilityTranslations } from "@/types/flexibility/flexibilityTranslations.ts";
 import { FlexibilityEquation } from "@/types/math/linearEquation.ts";
+import { ExerciseModule } from "@/types/shared/exerciseOutcome.ts";
 import { GeneralTranslations } from "@/types/shared/generalTranslations.ts";
 import { SingleChoice } from "@components/flexibility/choice/SingleChoice.tsx";
 import { FlexibilityHint } from "@components/flexibility/interventions/FlexibilityHint.tsx";
 import { FlexibilityPopover } from "@components/flexibility/interventions/FlexibilityPopover.tsx";
 import { LinearSystem } from "@components/math/procedural-knowledge/LinearSystem.tsx";
+import { getEasierGoal } from "@utils/goalCatalog.ts";
+import { requestGoalAdjustment } from "@utils/goalAdjustment.ts";
+import { getGoalStore } from "@utils/goalStore.ts";
 
 export function SuitableMethodSelection({
     firstEquation,
     secondEquation,
     question,
     loadNextStep,
+    offerGraphicalMethod = false,
     agentType
 }: {
     firstEquation: FlexibilityEquation;
     secondEquation: FlexibilityEquation;
     question: string;
     loadNextStep: (method: Method) => void;
+    // Studies only offer the methods their exercises were designed for
+    offerGraphicalMethod?: boolean;
     agentType?: AgentType;
 }): ReactElement {
     const { t } = useTranslation([TranslationNamespaces.Flexibility, TranslationNamespaces.General]);
@@ -35,7 +42,9 @@ export function SuitableMethodSelection({
         ? Method.Equalization
         : selectedOption === 1
         ? Method.Substitution
-        : Method.Elimination;
+        : selectedOption === 2
+        ? Method.Elimination
+        : Method.Graphical;
 
     return (
         <>
@@ -47,7 +56,8 @@ export function SuitableMethodSelection({
                     options={[
                         t(FlexibilityTranslations.EQUALIZATION),
                         t(FlexibilityTranslations.SUBSTITUTION),
-                        t(FlexibilityTranslations.ELIMINATION)
+                        t(FlexibilityTranslations.ELIMINATION),
+                        ...(offerGraphicalMethod ? [t(FlexibilityTranslations.GRAPHICAL)] : [])
                     ]}
                     selectedOption={selectedOption}
                     setSelectedOption={setSelectedOption}
@@ -97,6 +107,7 @@ export function SuitableMethodSelection({
                             <div style={{ display: "flex", gap: "1rem" }}>
                                 <button
                                     className="button primary-button"
+                                    onClick={() => handleChangeGoal()}
                                 >
                                     {t("change-goal")}
                                 </button>
@@ -124,4 +135,13 @@ export function SuitableMethodSelection({
     function handleChoice(): void {
         loadNextStep(chosenMethod);
     }
+
+    // Suggests an easier goal for the flexibility training and continues with the chosen method once the goal is confirmed
+    function handleChangeGoal(): void {
+        requestGoalAdjustment({
+            suggestedGoalId: getEasierGoal(getGoalStore().activeGoal?.goalId)?.id,
+            suggestedMethod: ExerciseModule.Flexibility,
+            onConfirm: handleChoice
+        });
+    }
 }
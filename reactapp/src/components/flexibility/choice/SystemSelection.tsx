@@ -123,5 +123,7 @@ function getFeedback(method: Method): string {
             return FlexibilityTranslations.SUBSTITUTION_NOT_EFFICIENT;
         case Method.Elimination:
             return FlexibilityTranslations.ELIMINATION_NOT_EFFICIENT;
+        case Method.Graphical:
+            return FlexibilityTranslations.GRAPHICAL_NOT_EFFICIENT;
     }
 }
\ No newline at end of file
@@ -8,9 +8,11 @@ import { FlexibilityTranslations, getMethodTranslation } from "@/types/flexibili
 import { SubstitutionParameters } from "@/types/flexibility/substitutionParameters.ts";
 import { Variable } from "@/types/flexibility/variable.ts";
 import { FlexibilityEquation as FlexibilityEquationProps, ParenthesisEquation as ParenthesisEquationProps } from "@/types/math/linearEquation.ts";
+import { GameError, GameErrorType } from "@/types/shared/error.ts";
 import { TranslationInterpolation } from "@/types/shared/translationInterpolation.ts";
 import { DescriptionFirstStep } from "@components/flexibility/comparison/DescriptionFirstStep.tsx";
 import { DescriptionSecondStep } from "@components/flexibility/comparison/DescriptionSecondStep.tsx";
+import { GraphicalResult } from "@components/flexibility/graphical/GraphicalSolution.tsx";
 import { ContinueMessage } from "@components/flexibility/interventions/ContinueMessage.tsx";
 import { FlexibilityPopover } from "@components/flexibility/interventions/FlexibilityPopover.tsx";
 import { VariableSolution } from "@components/flexibility/solution/VariableSolution.tsx";
@@ -49,10 +51,11 @@ export function ComparisonExercise(
         comparisonMethod: Method;
         transformedSystem?: [FlexibilityEquationProps, FlexibilityEquationProps];
         transformationInfo: [IsolatedIn, IsolatedIn];
-        methodEquation: [FlexibilityEquationProps, boolean];
+        // Not given if the student applied the graphical method, which consists of a single step
+        methodEquation?: [FlexibilityEquationProps, boolean];
         substitutionInfo?: SubstitutionParameters;
         eliminationInfo?: EliminationParameters;
-        selectedEquation: [FlexibilityEquationProps, SelectedEquation];
+        selectedEquation?: [FlexibilityEquationProps, SelectedEquation];
         loadNextStep: () => void;
         agentType?: AgentType;
         endTrackingPhase: (choice?: string) => void;
@@ -139,32 +142,42 @@ function Comparison(
         comparisonMethod: Method;
         transformedSystem?: [FlexibilityEquationProps, FlexibilityEquationProps];
         transformationInfo: [IsolatedIn, IsolatedIn];
-        methodEquation: [FlexibilityEquationProps, boolean];
+        methodEquation?: [FlexibilityEquationProps, boolean];
         substitutionInfo?: SubstitutionParameters;
         eliminationInfo?: EliminationParameters;
-        selectedEquation: [FlexibilityEquationProps, SelectedEquation];
+        selectedEquation?: [FlexibilityEquationProps, SelectedEquation];
     }
 ): ReactElement {
     const { t } = useTranslation(TranslationNamespaces.Flexibility);
 
-    const descriptionStep3: TranslationInterpolation = FlexibilityTranslations.getDescriptionForStep3(methodEquation[1] ? firstVariable.name : secondVariable.name, !methodEquation[1] ? firstVariable.name : secondVariable.name, selectedEquation[1]);
-
-    const equivalenceSymbol: ReactElement = <img style={{ width: "1.75rem", height: "auto", marginTop: "0.125rem" }} src={EquivalenceSymbol} alt={"equivalent"} />;
-
     const borderStyle: CSSProperties = {
         borderBottom: (transformedSystem !== undefined || !nullOrUndefined(comparison.steps[0].equations)) ? "0.5px dashed var(--light-text-50)" : "none"
     };
 
-    const paddingStyleSecondRowLeft: CSSProperties = {
-        paddingTop: (transformedSystem !== undefined || eliminationInfo !== undefined) ? "1rem" : 0,
-        paddingBottom: (transformedSystem !== undefined || eliminationInfo !== undefined) ? "1rem" : 0
-    };
-
     const paddingStyleSecondRowRight: CSSProperties = {
         paddingTop: nullOrUndefined(comparison.steps[0].description) ? 0 : "1rem",
         paddingBottom: nullOrUndefined(comparison.steps[0].description) ? 0 : "1rem"
     };
 
+    let ownApproach: ReactElement;
+    if (firstMethod === Method.Graphical) {
+        ownApproach = (
+            <div className="comparison__graphical comparison__column1-2">
+                <p>{t(FlexibilityTranslations.GRAPHICAL_COMPARISON_DESCRIPTION)}</p>
+                <GraphicalResult initialSystem={initialSystem} firstVariable={firstVariable} secondVariable={secondVariable} />
+            </div>
+        );
+    } else {
+        if (methodEquation === undefined || selectedEquation === undefined) {
+            throw new GameError(GameErrorType.GAME_LOGIC_ERROR);
+        }
+        ownApproach = (
+            <AlgebraicApproach initialSystem={initialSystem} firstVariable={firstVariable} secondVariable={secondVariable} firstMethod={firstMethod}
+                               transformedSystem={transformedSystem} transformationInfo={transformationInfo} methodEquation={methodEquation}
+                               substitutionInfo={substitutionInfo} eliminationInfo={eliminationInfo} selectedEquation={selectedEquation} borderStyle={borderStyle} />
+        );
+    }
+
     return (
         <div className={"comparison__grid"}>
             <div className="comparison__row1 comparison__column1-2">
@@ -176,6 +189,67 @@ function Comparison(
                 <p className={"method"}>{t(getMethodTranslation(comparisonMethod))}</p>
             </div>
 
+            {ownApproach}
+
+            <div className="comparison__row2 comparison__column3" style={{ ...paddingStyleSecondRowRight, ...borderStyle }}>
+                {comparison.steps[0].equations?.map((equation: ParenthesisEquationProps, index: number) => {
+                    return <ParenthesisEquation key={index} equation={equation} />;
+                })}
+            </div>
+            <div className="comparison__row2 comparison__column4" style={{ ...paddingStyleSecondRowRight, ...borderStyle }}>
+                {!nullOrUndefined(comparison.steps[0].description) && <p>{comparison.steps[0].description}</p>}
+            </div>
+
+            <div className="comparison__row3 comparison__column3">{!nullOrUndefined(comparison.steps[1].equations) &&
+                <EquationsInStep equations={comparison.steps[1].equations as ParenthesisEquationProps[]} />}</div>
+            <div className="comparison__row3 comparison__column4">{!nullOrUndefined(comparison.steps[1].description) && <p>{comparison.steps[1].description}</p>}</div>
+
+            <div className="comparison__row4 comparison__column3">{!nullOrUndefined(comparison.steps[2].equations) &&
+                <EquationsInStep equations={comparison.steps[2].equations as ParenthesisEquationProps[]} />}</div>
+            <div className="comparison__row4 comparison__column4">{!nullOrUndefined(comparison.steps[2].description) && <p>{comparison.steps[2].description}</p>}</div>
+        </div>
+    );
+}
+
+// Cells of the left half of the comparison, which show the three steps of an algebraic method as the student applied it
+function AlgebraicApproach(
+    {
+        initialSystem,
+        firstVariable,
+        secondVariable,
+        firstMethod,
+        transformedSystem,
+        transformationInfo,
+        methodEquation,
+        substitutionInfo,
+        eliminationInfo,
+        selectedEquation,
+        borderStyle
+    }: {
+        initialSystem: [FlexibilityEquationProps, FlexibilityEquationProps];
+        firstVariable: Variable;
+        secondVariable: Variable;
+        firstMethod: Method;
+        transformedSystem?: [FlexibilityEquationProps, FlexibilityEquationProps];
+        transformationInfo: [IsolatedIn, IsolatedIn];
+        methodEquation: [FlexibilityEquationProps, boolean];
+        substitutionInfo?: SubstitutionParameters;
+        eliminationInfo?: EliminationParameters;
+        selectedEquation: [FlexibilityEquationProps, SelectedEquation];
+        borderStyle: CSSProperties;
+    }
+): ReactElement {
+    const descriptionStep3: TranslationInterpolation = FlexibilityTranslations.getDescriptionForStep3(methodEquation[1] ? firstVariable.name : secondVariable.name, !methodEquation[1] ? firstVariable.name : secondVariable.name, selectedEquation[1]);
+
+    const equivalenceSymbol: ReactElement = <img style={{ width: "1.75rem", height: "auto", marginTop: "0.125rem" }} src={EquivalenceSymbol} alt={"equivalent"} />;
+
+    const paddingStyleSecondRowLeft: CSSProperties = {
+        paddingTop: (transformedSystem !== undefined || eliminationInfo !== undefined) ? "1rem" : 0,
+        paddingBottom: (transformedSystem !== undefined || eliminationInfo !== undefined) ? "1rem" : 0
+    };
+
+    return (
+        <React.Fragment>
             <div className="comparison__row2 comparison__column1" style={{ ...paddingStyleSecondRowLeft, ...borderStyle }}>
                 <DescriptionFirstStep firstVariable={firstVariable.name} secondVariable={secondVariable.name} transformationInfo={transformationInfo}
                                       transformedSystem={transformedSystem} eliminationInfo={eliminationInfo} />
@@ -190,14 +264,6 @@ function Comparison(
                     </React.Fragment>
                 )}
             </div>
-            <div className="comparison__row2 comparison__column3" style={{ ...paddingStyleSecondRowRight, ...borderStyle }}>
-                {comparison.steps[0].equations?.map((equation: ParenthesisEquationProps, index: number) => {
-                    return <ParenthesisEquation key={index} equation={equation} />;
-                })}
-            </div>
-            <div className="comparison__row2 comparison__column4" style={{ ...paddingStyleSecondRowRight, ...borderStyle }}>
-                {!nullOrUndefined(comparison.steps[0].description) && <p>{comparison.steps[0].description}</p>}
-            </div>
 
             <div className="comparison__row3 comparison__column1">
                 <DescriptionSecondStep method={firstMethod} variable={methodEquation[1] ? firstVariable.name : secondVariable.name}
@@ -224,9 +290,6 @@ function Comparison(
                     </div>
                 </div>
             </div>
-            <div className="comparison__row3 comparison__column3">{!nullOrUndefined(comparison.steps[1].equations) &&
-                <EquationsInStep equations={comparison.steps[1].equations as ParenthesisEquationProps[]} />}</div>
-            <div className="comparison__row3 comparison__column4">{!nullOrUndefined(comparison.steps[1].description) && <p>{comparison.steps[1].description}</p>}</div>
 
             <div className="comparison__row4 comparison__column1">
                 <p>
@@ -249,10 +312,7 @@ function Comparison(
                     </div>
                 </div>
             </div>
-            <div className="comparison__row4 comparison__column3">{!nullOrUndefined(comparison.steps[2].equations) &&
-                <EquationsInStep equations={comparison.steps[2].equations as ParenthesisEquationProps[]} />}</div>
-            <div className="comparison__row4 comparison__column4">{!nullOrUndefined(comparison.steps[2].description) && <p>{comparison.steps[2].description}</p>}</div>
-        </div>
+        </React.Fragment>
     );
 }
 
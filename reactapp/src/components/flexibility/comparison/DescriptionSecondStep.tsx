@@ -45,7 +45,12 @@ export function DescriptionSecondStep({ method, variable, transformationInfo, tr
             } else {
                 description = FlexibilityTranslations.getEliminationWithSubtractionDescriptionForStep2(eliminationInfo.switchedEquations, variable);
             }
+            break;
         }
+
+        case Method.Graphical:
+            // The graphical method does not compute a single variable first
+            throw new GameError(GameErrorType.GAME_LOGIC_ERROR);
     }
 
     return (
@@ -15,6 +15,7 @@ import { EliminationInstruction } from "@components/flexibility/elimination/Elim
 import { FlexibilityPopover } from "@components/flexibility/interventions/FlexibilityPopover.tsx";
 import { FlexibilityEquation } from "@components/math/procedural-knowledge/FlexibilityEquation.tsx";
 import { MultipliedLinearSystem } from "@components/flexibility/elimination/MultipliedLinearSystem.tsx";
+import { classifyEquation, solveLinearSystem } from "@utils/solverUtils.ts";
 
 export function EliminationResult(
     {
@@ -59,7 +60,9 @@ export function EliminationResult(
 
     const containsFirst: boolean = equationContainsVariable(resultingEquation, firstVariable.name);
     const containsSecond: boolean = equationContainsVariable(resultingEquation, secondVariable.name);
-    const isSolution: boolean = containsFirst ? !containsSecond : containsSecond;
+    // In a system without a unique solution, both variables vanish at once, which leads to 0 = c or 0 = 0
+    const eliminatesBoth: boolean = classifyEquation(resultingEquation, [firstVariable.name, secondVariable.name]) === solveLinearSystem(system[0], system[1], firstVariable.name, secondVariable.name).type;
+    const isSolution: boolean = (containsFirst ? !containsSecond : containsSecond) || eliminatesBoth;
 
     const contentRef = useRef<HTMLDivElement>(null);
     useLayoutEffect(() => {
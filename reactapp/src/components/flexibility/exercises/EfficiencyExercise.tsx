@@ -3,34 +3,41 @@ import { EfficiencyExercise as EfficiencyExerciseProps } from "@/types/flexibili
 import { AgentCondition, AgentType, EfficiencyExerciseState, IsolatedIn, Method, SelectedEquation } from "@/types/flexibility/enums.ts";
 import { SelfExplanation } from "@/types/flexibility/selfExplanation.ts";
 import { SubstitutionParameters } from "@/types/flexibility/substitutionParameters.ts";
+import { SolutionType } from "@/types/math/enums.ts";
 import { FlexibilityEquation as FlexibilityEquationProps, FlexibilityEquation } from "@/types/math/linearEquation.ts";
 import { GameError, GameErrorType } from "@/types/shared/error.ts";
 import { EfficientMethodSelection } from "@components/flexibility/choice/EfficientMethodSelection.tsx";
 import { SelfExplanationExercise } from "@components/flexibility/choice/SelfExplanationExercise.tsx";
 import { EliminationMethod } from "@components/flexibility/elimination/EliminationMethod.tsx";
 import { EqualizationMethod } from "@components/flexibility/equalization/EqualizationMethod.tsx";
+import { GraphicalMethod } from "@components/flexibility/graphical/GraphicalMethod.tsx";
+import { GraphicalExerciseEnd } from "@components/flexibility/graphical/GraphicalSolution.tsx";
 import { EfficiencyExerciseEnd } from "@components/flexibility/solution/EfficiencyExerciseEnd.tsx";
 import { EquationSelection } from "@components/flexibility/solution/EquationSelection.tsx";
 import { FirstSolution } from "@components/flexibility/solution/FirstSolution.tsx";
 import { SecondSolution } from "@components/flexibility/solution/SecondSolution.tsx";
+import { SystemClassification } from "@components/flexibility/solution/SystemClassification.tsx";
 import { SubstitutionMethod } from "@components/flexibility/substitution/SubstitutionMethod.tsx";
 import { SystemTransformation } from "@components/flexibility/system/SystemTransformation.tsx";
+import { classifyEquation } from "@utils/solverUtils.ts";
 import { determineSecondEquation } from "@utils/utils.ts";
 import "@styles/flexibility/flexibility.scss";
 import { useAuth } from "@/contexts/AuthProvider.tsx";
 import useFlexibilityTracker from "@hooks/useFlexibilityTracker.ts";
-import { IUser } from "@/types/studies/user.ts";
+import useExerciseOutcomes from "@hooks/useExerciseOutcomes.ts";
+import { ExerciseModule } from "@/types/shared/exerciseOutcome.ts";
 import { FlexibilityExerciseActionPhase, FlexibilityExerciseChoicePhase, FlexibilityExercisePhase, FlexibilityStudyExerciseType } from "@/types/studies/enums.ts";
 import { EliminationParameters } from "@/types/flexibility/eliminationParameters.ts";
 import { getRandomAgent, setPKExerciseCompleted, setFlexibilityStudyExerciseCompleted } from "@utils/storageUtils.ts";
 
-export function EfficiencyExercise({ flexibilityExerciseId, exercise, condition, handleEnd, isStudy = false, studyId }: {
+export function EfficiencyExercise({ flexibilityExerciseId, exercise, condition, handleEnd, isStudy = false, studyId, isGenerated = false }: {
     flexibilityExerciseId: number,
     exercise: EfficiencyExerciseProps;
     condition: AgentCondition;
     handleEnd: () => void;
     isStudy?: boolean;
     studyId?: number;
+    isGenerated?: boolean;
 }): ReactElement {
     const agentType: AgentType | undefined = useMemo(() => {
         if (condition !== AgentCondition.None) {
@@ -52,11 +59,12 @@ export function EfficiencyExercise({ flexibilityExerciseId, exercise, condition,
     const {
         trackActionInPhase,
         trackChoice,
-        trackErrorInPhase,
-        setNextTrackingPhase,
+        trackErrorInPhase: recordErrorInPhase,
+        setNextTrackingPhase: recordNextPhase,
         endTrackingPhase,
         endTracking
-    } = useFlexibilityTracker(isStudy, user as IUser, studyId as number, flexibilityExerciseId, exercise.id, FlexibilityStudyExerciseType.Efficiency, performance.now(), condition, agentType, FlexibilityExercisePhase.EfficiencySelection);
+    } = useFlexibilityTracker(isStudy, user, studyId as number, flexibilityExerciseId, exercise.id, FlexibilityStudyExerciseType.Efficiency, performance.now(), condition, agentType, FlexibilityExercisePhase.EfficiencySelection, !isStudy && !isGenerated);
+    const { emitStepCorrect, emitError, emitSolved } = useExerciseOutcomes(ExerciseModule.Flexibility, flexibilityExerciseId);
 
     const [exerciseState, setExerciseState] = useState<EfficiencyExerciseState>(EfficiencyExerciseState.MethodSelection);
     const [selectedMethod, setSelectedMethod] = useState<Method>();
@@ -77,6 +85,8 @@ export function EfficiencyExercise({ flexibilityExerciseId, exercise, condition,
                     transformationRequired={exercise.transformationRequired}
                     loadNextStep={handleSelection}
                     question={exercise.question}
+                    offerSelfExplanation={exercise.selfExplanationTasks.length > 0}
+                    offerGraphicalMethod={!isStudy || exercise.efficientMethods.includes(Method.Graphical)}
                     agentType={agentType}
                     additionalMessage={condition === AgentCondition.MotivationalAgent ? exercise.agentMessageForSelfExplanation : undefined}
                     trackAction={(action: string) => trackActionInPhase(action, FlexibilityExerciseActionPhase.EfficiencySelectionActions)}
@@ -139,10 +149,9 @@ export function EfficiencyExercise({ flexibilityExerciseId, exercise, condition,
                     transformedSystem={transformedSystem}
                     agentType={agentType}
                     loadNextStep={(equation: FlexibilityEquation): void => {
-                        setNextTrackingPhase(FlexibilityExercisePhase.FirstSolution);
                         const containsFirstVariable: boolean = isolatedVariables[0] !== IsolatedIn.First && isolatedVariables[0] !== IsolatedIn.SecondMultiple;
                         setMethodApplicationResult([equation, containsFirstVariable]);
-                        setExerciseState(EfficiencyExerciseState.FirstSolution);
+                        loadFirstSolution(equation);
                     }}
                     trackAction={(action: string) => trackActionInPhase(action, FlexibilityExerciseActionPhase.EqualizationActions)}
                     trackError={trackErrorInPhase}
@@ -162,9 +171,8 @@ export function EfficiencyExercise({ flexibilityExerciseId, exercise, condition,
                     isolatedVariables={isolatedVariables}
                     agentType={agentType}
                     loadNextStep={(equation: FlexibilityEquation, containsFirst: boolean, params?: SubstitutionParameters): void => {
-                        setNextTrackingPhase(FlexibilityExercisePhase.FirstSolution);
                         setMethodApplicationResult([equation, containsFirst]);
-                        setExerciseState(EfficiencyExerciseState.FirstSolution);
+                        loadFirstSolution(equation);
                         setSubstitutionInfo(params);
                     }}
                     trackAction={(action: string) => trackActionInPhase(action, FlexibilityExerciseActionPhase.SubstitutionActions)}
@@ -183,7 +191,6 @@ export function EfficiencyExercise({ flexibilityExerciseId, exercise, condition,
                     secondVariable={exercise.secondVariable}
                     agentType={agentType}
                     loadNextStep={(equation: FlexibilityEquation, containsFirst: boolean, _?: EliminationParameters, firstMultipliedEquation?: FlexibilityEquationProps, secondMultipliedEquation?: FlexibilityEquationProps): void => {
-                        setNextTrackingPhase(FlexibilityExercisePhase.FirstSolution);
                         setMethodApplicationResult([equation, containsFirst]);
                         if (firstMultipliedEquation !== undefined) {
                             if (secondMultipliedEquation !== undefined) {
@@ -196,7 +203,7 @@ export function EfficiencyExercise({ flexibilityExerciseId, exercise, condition,
                             const firstTransformedEquation = transformedSystem !== undefined ? transformedSystem[0] : exercise.firstEquation;
                             setTransformedSystem([firstTransformedEquation, secondMultipliedEquation]);
                         }
-                        setExerciseState(EfficiencyExerciseState.FirstSolution);
+                        loadFirstSolution(equation);
                     }}
                     trackAction={(action: string) => trackActionInPhase(action, FlexibilityExerciseActionPhase.EliminationActions)}
                     trackError={trackErrorInPhase}
@@ -272,6 +279,7 @@ export function EfficiencyExercise({ flexibilityExerciseId, exercise, condition,
                     additionalMessage={condition === AgentCondition.MotivationalAgent ? exercise.agentMessageForSecondSolution : undefined}
                     loadNextStep={() => {
                         endTrackingPhase();
+                        emitSolved();
                         setExerciseState(EfficiencyExerciseState.SystemSolution);
                     }}
                     trackAction={(action: string) => trackActionInPhase(action, FlexibilityExerciseActionPhase.SecondSolutionActions)}
@@ -282,6 +290,33 @@ export function EfficiencyExercise({ flexibilityExerciseId, exercise, condition,
             break;
         }
 
+        case EfficiencyExerciseState.SystemClassification: {
+            if (selectedMethod === undefined || methodApplicationResult === undefined) {
+                throw new GameError(GameErrorType.GAME_LOGIC_ERROR);
+            }
+            content = (
+                <SystemClassification
+                    method={selectedMethod}
+                    initialSystem={[exercise.firstEquation, exercise.secondEquation]}
+                    transformedSystem={transformedSystem}
+                    methodEquation={methodApplicationResult[0]}
+                    variables={[exercise.firstVariable.name, exercise.secondVariable.name]}
+                    substitutionInfo={substitutionInfo}
+                    agentType={agentType}
+                    loadNextStep={() => {
+                        endTrackingPhase();
+                        emitSolved();
+                        endTracking();
+                        handleExerciseEnd();
+                    }}
+                    trackAction={(action: string) => trackActionInPhase(action, FlexibilityExerciseActionPhase.ClassificationActions)}
+                    trackError={trackErrorInPhase}
+                    trackChoice={(choice: string) => trackChoice(choice, FlexibilityExerciseChoicePhase.SystemClassificationChoice)}
+                />
+            );
+            break;
+        }
+
         case EfficiencyExerciseState.SystemSolution: {
             if (selectedMethod === undefined || methodApplicationResult === undefined || selectedEquation === undefined) {
                 throw new GameError(GameErrorType.GAME_LOGIC_ERROR);
@@ -306,6 +341,46 @@ export function EfficiencyExercise({ flexibilityExerciseId, exercise, condition,
             );
             break;
         }
+
+        case EfficiencyExerciseState.GraphicalMethod: {
+            content = (
+                <GraphicalMethod
+                    initialSystem={[exercise.firstEquation, exercise.secondEquation]}
+                    firstVariable={exercise.firstVariable}
+                    secondVariable={exercise.secondVariable}
+                    agentType={agentType}
+                    loadNextStep={(solutionType: SolutionType): void => {
+                        endTrackingPhase();
+                        emitSolved();
+                        if (solutionType !== SolutionType.Unique) {
+                            endTracking();
+                            handleExerciseEnd();
+                            return;
+                        }
+                        setExerciseState(EfficiencyExerciseState.GraphicalSolution);
+                    }}
+                    trackAction={(action: string) => trackActionInPhase(action, FlexibilityExerciseActionPhase.GraphicalActions)}
+                    trackError={trackErrorInPhase}
+                />
+            );
+            break;
+        }
+
+        case EfficiencyExerciseState.GraphicalSolution: {
+            content = (
+                <GraphicalExerciseEnd
+                    initialSystem={[exercise.firstEquation, exercise.secondEquation]}
+                    firstVariable={exercise.firstVariable}
+                    secondVariable={exercise.secondVariable}
+                    agentType={agentType}
+                    loadNextStep={() => {
+                        endTracking();
+                        handleExerciseEnd();
+                    }}
+                />
+            );
+            break;
+        }
     }
 
     return content;
@@ -315,7 +390,7 @@ export function EfficiencyExercise({ flexibilityExerciseId, exercise, condition,
         if (selfExplain) {
             setNextTrackingPhase(FlexibilityExercisePhase.SelfExplanation);
             setExerciseState(EfficiencyExerciseState.SelfExplanation);
-        } else if (exercise.transformationRequired) {
+        } else if (exercise.transformationRequired && method !== Method.Graphical) {
             setNextTrackingPhase(FlexibilityExercisePhase.Transformation);
             setExerciseState(EfficiencyExerciseState.SystemTransformation);
         } else {
@@ -323,8 +398,9 @@ export function EfficiencyExercise({ flexibilityExerciseId, exercise, condition,
         }
     }
 
+    // The graphical method plots the equations as they are given, so it never requires a transformation of the system
     function continueAfterSelfExplanation(): void {
-        if (exercise.transformationRequired) {
+        if (exercise.transformationRequired && selectedMethod !== Method.Graphical) {
             setNextTrackingPhase(FlexibilityExercisePhase.Transformation);
             setExerciseState(EfficiencyExerciseState.SystemTransformation);
         } else {
@@ -335,10 +411,33 @@ export function EfficiencyExercise({ flexibilityExerciseId, exercise, condition,
         }
     }
 
+    function trackErrorInPhase(): void {
+        recordErrorInPhase();
+        emitError();
+    }
+
+    // Applying a method to a system without a unique solution eliminates both unknowns, the student then classifies the system instead of solving it
+    function loadFirstSolution(equation: FlexibilityEquation): void {
+        if (classifyEquation(equation, [exercise.firstVariable.name, exercise.secondVariable.name]) !== undefined) {
+            setNextTrackingPhase(FlexibilityExercisePhase.SystemClassification);
+            setExerciseState(EfficiencyExerciseState.SystemClassification);
+            return;
+        }
+        setNextTrackingPhase(FlexibilityExercisePhase.FirstSolution);
+        setExerciseState(EfficiencyExerciseState.FirstSolution);
+    }
+
+    // Each phase is only left once its step has been completed correctly
+    function setNextTrackingPhase(newPhase: FlexibilityExercisePhase, choice?: string): void {
+        recordNextPhase(newPhase, choice);
+        emitStepCorrect();
+    }
+
     function handleExerciseEnd(): void {
         if (isStudy) {
             setFlexibilityStudyExerciseCompleted(studyId as number, flexibilityExerciseId);
-        } else {
+        } else if (!isGenerated) {
+            // Generated exercises only exist for the current session, so their completion is not persisted
             setPKExerciseCompleted(flexibilityExerciseId, "flexibility-training");
         }
         handleEnd();
@@ -358,5 +457,9 @@ function assignStateByMethod(method: Method, setNextTrackingPhase: (newPhase: Fl
         case Method.Elimination:
             setNextTrackingPhase(FlexibilityExercisePhase.Elimination);
             return EfficiencyExerciseState.EliminationMethod;
+
+        case Method.Graphical:
+            setNextTrackingPhase(FlexibilityExercisePhase.Graphical);
+            return EfficiencyExerciseState.GraphicalMethod;
     }
 }
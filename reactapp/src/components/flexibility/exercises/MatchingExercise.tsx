@@ -5,7 +5,8 @@ import { getRandomAgent, setPKExerciseCompleted, setFlexibilityStudyExerciseComp
 import { useAuth } from "@/contexts/AuthProvider.tsx";
 import { GameError, GameErrorType } from "@/types/shared/error.ts";
 import useFlexibilityTracker from "@hooks/useFlexibilityTracker.ts";
-import { IUser } from "@/types/studies/user.ts";
+import useExerciseOutcomes from "@hooks/useExerciseOutcomes.ts";
+import { ExerciseModule } from "@/types/shared/exerciseOutcome.ts";
 import { FlexibilityExerciseActionPhase, FlexibilityExerciseChoicePhase, FlexibilityExercisePhase, FlexibilityStudyExerciseType } from "@/types/studies/enums.ts";
 import { SystemTransformation } from "@components/flexibility/system/SystemTransformation.tsx";
 import { FlexibilityEquation as FlexibilityEquationProps, FlexibilityEquation } from "@/types/math/linearEquation.ts";
@@ -51,11 +52,12 @@ export function MatchingExercise({ flexibilityExerciseId, exercise, condition, h
     const {
         trackActionInPhase,
         trackChoice,
-        trackErrorInPhase,
-        setNextTrackingPhase,
+        trackErrorInPhase: recordErrorInPhase,
+        setNextTrackingPhase: recordNextPhase,
         endTrackingPhase,
         endTracking
-    } = useFlexibilityTracker(isStudy, user as IUser, studyId as number, flexibilityExerciseId, exercise.id, FlexibilityStudyExerciseType.Matching, performance.now(), condition, agentType, FlexibilityExercisePhase.SystemSelection);
+    } = useFlexibilityTracker(isStudy, user, studyId as number, flexibilityExerciseId, exercise.id, FlexibilityStudyExerciseType.Matching, performance.now(), condition, agentType, FlexibilityExercisePhase.SystemSelection, !isStudy);
+    const { emitStepCorrect, emitError, emitSolved } = useExerciseOutcomes(ExerciseModule.Flexibility, flexibilityExerciseId);
 
     const randomOrder = useMemo(() => {
         return getRandomOrder(exercise.alternativeSystems.length + 1);
@@ -271,6 +273,7 @@ export function MatchingExercise({ flexibilityExerciseId, exercise, condition, h
                     additionalMessage={condition === AgentCondition.MotivationalAgent ? exercise.agentMessageForSecondSolution : undefined}
                     loadNextStep={() => {
                         endTrackingPhase();
+                        emitSolved();
                         setExerciseState(MatchingExerciseState.SystemSolution);
                     }}
                     trackAction={(action: string) => trackActionInPhase(action, FlexibilityExerciseActionPhase.SecondSolutionActions)}
@@ -319,6 +322,17 @@ export function MatchingExercise({ flexibilityExerciseId, exercise, condition, h
         }
     }
 
+    function trackErrorInPhase(): void {
+        recordErrorInPhase();
+        emitError();
+    }
+
+    // Each phase is only left once its step has been completed correctly
+    function setNextTrackingPhase(newPhase: FlexibilityExercisePhase, choice?: string): void {
+        recordNextPhase(newPhase, choice);
+        emitStepCorrect();
+    }
+
     function handleExerciseEnd(): void {
         if (isStudy) {
             setFlexibilityStudyExerciseCompleted(studyId as number, flexibilityExerciseId);
@@ -351,5 +365,8 @@ function assignStateByMethod(method: Method, setNextTrackingPhase: (newPhase: Fl
         case Method.Elimination:
             setNextTrackingPhase(FlexibilityExercisePhase.Elimination);
             return MatchingExerciseState.EliminationMethod;
+
+        case Method.Graphical:
+            throw new GameError(GameErrorType.GAME_LOGIC_ERROR);
     }
 }
@@ -12,33 +12,45 @@ import {
 } from "@/types/flexibility/enums.ts";
 import { FlexibilityTranslations } from "@/types/flexibility/flexibilityTranslations.ts";
 import { SubstitutionParameters } from "@/types/flexibility/substitutionParameters.ts";
+import { SolutionType } from "@/types/math/enums.ts";
 import { FlexibilityEquation, FlexibilityEquation as FlexibilityEquationProps } from "@/types/math/linearEquation.ts";
 import { GameError, GameErrorType } from "@/types/shared/error.ts";
 import { SuitableMethodSelection } from "@components/flexibility/choice/SuitableMethodSelection.tsx";
 import { EliminationMethod } from "@components/flexibility/elimination/EliminationMethod.tsx";
 import { EqualizationMethod } from "@components/flexibility/equalization/EqualizationMethod.tsx";
+import { GraphicalMethod } from "@components/flexibility/graphical/GraphicalMethod.tsx";
+import { GraphicalExerciseEnd } from "@components/flexibility/graphical/GraphicalSolution.tsx";
 import { EquationSelection } from "@components/flexibility/solution/EquationSelection.tsx";
 import { FirstSolution } from "@components/flexibility/solution/FirstSolution.tsx";
 import { SecondSolution } from "@components/flexibility/solution/SecondSolution.tsx";
+import { SystemClassification } from "@components/flexibility/solution/SystemClassification.tsx";
 import { SubstitutionMethod } from "@components/flexibility/substitution/SubstitutionMethod.tsx";
+import { SystemReduction } from "@components/flexibility/system/SystemReduction.tsx";
 import { SystemTransformation } from "@components/flexibility/system/SystemTransformation.tsx";
 import { determineSecondEquation, getTransformationStatus } from "@utils/utils.ts";
 import "@styles/flexibility/flexibility.scss";
 import { useAuth } from "@/contexts/AuthProvider.tsx";
-import { IUser } from "@/types/studies/user.ts";
 import { FlexibilityExerciseActionPhase, FlexibilityExerciseChoicePhase, FlexibilityExercisePhase, FlexibilityStudyExerciseType } from "@/types/studies/enums.ts";
 import useFlexibilityTracker from "@hooks/useFlexibilityTracker.ts";
+import useExerciseOutcomes from "@hooks/useExerciseOutcomes.ts";
+import { ExerciseModule } from "@/types/shared/exerciseOutcome.ts";
 import { getRandomAgent, setPKExerciseCompleted, setFlexibilityStudyExerciseCompleted } from "@utils/storageUtils.ts";
 import { EfficiencyExerciseEnd } from "@components/flexibility/solution/EfficiencyExerciseEnd.tsx";
 import { PlainExercise as PlainExerciseProps } from "@/types/flexibility/plainExercise.ts";
+import { SystemReduction as SystemReductionProps } from "@/types/flexibility/systemReduction.ts";
+import { Variable } from "@/types/flexibility/variable.ts";
+import { RemainingSolution } from "@components/flexibility/solution/RemainingSolution.tsx";
+import { classifyEquation, getSystemEquations, getSystemVariables } from "@utils/solverUtils.ts";
+import { createReducedExercise } from "@utils/systemReductionUtils.ts";
 
-export function PlainExercise({ flexibilityExerciseId, exercise, condition, handleEnd, isStudy = false, studyId }: {
+export function PlainExercise({ flexibilityExerciseId, exercise, condition, handleEnd, isStudy = false, studyId, isGenerated = false }: {
     flexibilityExerciseId: number,
     exercise: PlainExerciseProps;
     condition: AgentCondition;
     handleEnd: () => void;
     isStudy?: boolean;
     studyId?: number;
+    isGenerated?: boolean;
 }): ReactElement {
     const { t } = useTranslation(TranslationNamespaces.Flexibility);
 
@@ -50,6 +62,9 @@ export function PlainExercise({ flexibilityExerciseId, exercise, condition, hand
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []); // Compute agent once upon mount
 
+    // Systems with more than two equations are reduced to two equations first, which are then solved like any other system
+    const isReducible: boolean = getSystemEquations(exercise).length > 2;
+
     const { user } = useAuth();
     if (isStudy) {
         if (user === undefined) {
@@ -63,13 +78,19 @@ export function PlainExercise({ flexibilityExerciseId, exercise, condition, hand
         initializeTrackingPhase,
         trackActionInPhase,
         trackChoice,
-        trackErrorInPhase,
-        setNextTrackingPhase,
+        trackErrorInPhase: recordErrorInPhase,
+        setNextTrackingPhase: recordNextPhase,
         endTrackingPhase,
         endTracking
-    } = useFlexibilityTracker(isStudy, user as IUser, studyId as number, flexibilityExerciseId, exercise.id, FlexibilityStudyExerciseType.PlainExercise, performance.now(), condition, agentType);
+    } = useFlexibilityTracker(isStudy, user, studyId as number, flexibilityExerciseId, exercise.id, FlexibilityStudyExerciseType.PlainExercise, performance.now(), condition, agentType, isReducible ? FlexibilityExercisePhase.SystemReduction : undefined, !isStudy && !isGenerated);
+    const { emitStepCorrect, emitError, emitSolved } = useExerciseOutcomes(ExerciseModule.Flexibility, flexibilityExerciseId);
 
-    const [exerciseState, setExerciseState] = useState<PlainExerciseState>(PlainExerciseState.MethodSelection);
+    const [exerciseState, setExerciseState] = useState<PlainExerciseState>(isReducible ? PlainExerciseState.SystemReduction : PlainExerciseState.MethodSelection);
+    const [system, setSystem] = useState<FlexibilityEquation[]>(getSystemEquations(exercise));
+    const [variables, setVariables] = useState<Variable[]>(getSystemVariables(exercise));
+    const [reductions, setReductions] = useState<SystemReductionProps[]>([]);
+    const [solvedReductions, setSolvedReductions] = useState<number>(0);
+    const [reducedExercise, setReducedExercise] = useState<PlainExerciseProps>();
     const [selectedMethod, setSelectedMethod] = useState<Method>();
     const [transformedSystem, setTransformedSystem] = useState<[FlexibilityEquation, FlexibilityEquation] | undefined>(undefined);
     const [transformationInfo, setTransformationInfo] = useState<[IsolatedIn, IsolatedIn]>([IsolatedIn.None, IsolatedIn.None]);
@@ -78,19 +99,56 @@ export function PlainExercise({ flexibilityExerciseId, exercise, condition, hand
     const [substitutionInfo, setSubstitutionInfo] = useState<SubstitutionParameters | undefined>(undefined);
     const [selectedEquation, setSelectedEquation] = useState<[FlexibilityEquation, SelectedEquation] | undefined>(undefined);
 
+    const activeExercise: PlainExerciseProps = reducedExercise ?? exercise;
+
     let content: ReactElement;
     switch (exerciseState) {
+        case PlainExerciseState.SystemReduction: {
+            content = (
+                <SystemReduction
+                    key={reductions.length}
+                    system={system}
+                    variables={variables}
+                    agentType={agentType}
+                    loadNextStep={(reducedSystem: FlexibilityEquation[], variable: Variable): void => {
+                        const remainingVariables: Variable[] = variables.filter((entry: Variable) => entry !== variable);
+                        setReductions([...reductions, { variable, system }]);
+                        if (reducedSystem.length > 2) {
+                            setSystem(reducedSystem);
+                            setVariables(remainingVariables);
+                            return;
+                        }
+                        const reduced: PlainExerciseProps = createReducedExercise(exercise, reducedSystem, remainingVariables);
+                        endTrackingPhase();
+                        setReducedExercise(reduced);
+                        setIsolatedVariables([reduced.firstEquationIsIsolatedIn, reduced.secondEquationIsIsolatedIn]);
+                        setExerciseState(PlainExerciseState.MethodSelection);
+                    }}
+                    trackAction={(action: string) => trackActionInPhase(action, FlexibilityExerciseActionPhase.ReductionActions)}
+                    trackError={trackErrorInPhase}
+                />
+            );
+            break;
+        }
+
         case PlainExerciseState.MethodSelection: {
             content = (
                 <SuitableMethodSelection
-                    firstEquation={exercise.firstEquation}
-                    secondEquation={exercise.secondEquation}
+                    firstEquation={activeExercise.firstEquation}
+                    secondEquation={activeExercise.secondEquation}
                     question={t(FlexibilityTranslations.SELECT_SUITABLE_INSTR)}
+                    offerGraphicalMethod={!isStudy}
                     agentType={agentType}
                     loadNextStep={(method: Method): void => {
                         trackActionInPhase(`${Method[method]}`, FlexibilityExerciseActionPhase.SelectedMethod);
-                        initializeTrackingPhase(FlexibilityExercisePhase.Transformation);
                         setSelectedMethod(method);
+                        // The graphical method plots the equations as they are given, so the system is not transformed
+                        if (method === Method.Graphical) {
+                            initializeTrackingPhase(FlexibilityExercisePhase.Graphical);
+                            setExerciseState(PlainExerciseState.GraphicalMethod);
+                            return;
+                        }
+                        initializeTrackingPhase(FlexibilityExercisePhase.Transformation);
                         setExerciseState(PlainExerciseState.SystemTransformation);
                     }}
                 />
@@ -104,10 +162,10 @@ export function PlainExercise({ flexibilityExerciseId, exercise, condition, hand
             }
             content = (
                 <SystemTransformation
-                    firstEquation={exercise.firstEquation}
-                    secondEquation={exercise.secondEquation}
-                    firstVariable={exercise.firstVariable}
-                    secondVariable={exercise.secondVariable}
+                    firstEquation={activeExercise.firstEquation}
+                    secondEquation={activeExercise.secondEquation}
+                    firstVariable={activeExercise.firstVariable}
+                    secondVariable={activeExercise.secondVariable}
                     method={selectedMethod}
                     initialIsolatedVariables={isolatedVariables}
                     agentType={agentType}
@@ -131,14 +189,13 @@ export function PlainExercise({ flexibilityExerciseId, exercise, condition, hand
         case PlainExerciseState.EqualizationMethod: {
             content = (
                 <EqualizationMethod
-                    initialSystem={[exercise.firstEquation, exercise.secondEquation]}
+                    initialSystem={[activeExercise.firstEquation, activeExercise.secondEquation]}
                     transformedSystem={transformedSystem}
                     agentType={agentType}
                     loadNextStep={(equation: FlexibilityEquation): void => {
-                        setNextTrackingPhase(FlexibilityExercisePhase.FirstSolution);
                         const containsFirstVariable: boolean = isolatedVariables[0] !== IsolatedIn.First && isolatedVariables[0] !== IsolatedIn.SecondMultiple;
                         setMethodApplicationResult([equation, containsFirstVariable]);
-                        setExerciseState(PlainExerciseState.FirstSolution);
+                        loadFirstSolution(equation);
                     }}
                     trackAction={(action: string) => trackActionInPhase(action, FlexibilityExerciseActionPhase.EqualizationActions)}
                     trackError={trackErrorInPhase}
@@ -150,16 +207,15 @@ export function PlainExercise({ flexibilityExerciseId, exercise, condition, hand
         case PlainExerciseState.SubstitutionMethod: {
             content = (
                 <SubstitutionMethod
-                    initialSystem={[exercise.firstEquation, exercise.secondEquation]}
+                    initialSystem={[activeExercise.firstEquation, activeExercise.secondEquation]}
                     transformedSystem={transformedSystem}
-                    firstVariable={exercise.firstVariable}
-                    secondVariable={exercise.secondVariable}
+                    firstVariable={activeExercise.firstVariable}
+                    secondVariable={activeExercise.secondVariable}
                     isolatedVariables={isolatedVariables}
                     agentType={agentType}
                     loadNextStep={(equation: FlexibilityEquation, containsFirst: boolean, params?: SubstitutionParameters): void => {
-                        setNextTrackingPhase(FlexibilityExercisePhase.FirstSolution);
                         setMethodApplicationResult([equation, containsFirst]);
-                        setExerciseState(PlainExerciseState.FirstSolution);
+                        loadFirstSolution(equation);
                         setSubstitutionInfo(params);
                     }}
                     trackAction={(action: string) => trackActionInPhase(action, FlexibilityExerciseActionPhase.SubstitutionActions)}
@@ -172,29 +228,28 @@ export function PlainExercise({ flexibilityExerciseId, exercise, condition, hand
         case PlainExerciseState.EliminationMethod: {
             content = (
                 <EliminationMethod
-                    initialSystem={[exercise.firstEquation, exercise.secondEquation]}
+                    initialSystem={[activeExercise.firstEquation, activeExercise.secondEquation]}
                     transformedSystem={transformedSystem}
-                    firstVariable={exercise.firstVariable}
-                    secondVariable={exercise.secondVariable}
+                    firstVariable={activeExercise.firstVariable}
+                    secondVariable={activeExercise.secondVariable}
                     agentType={agentType}
                     loadNextStep={(resultingEquation: FlexibilityEquation, containsFirst: boolean, _?: EliminationParameters, firstMultipliedEquation?: FlexibilityEquationProps, secondMultipliedEquation?: FlexibilityEquationProps): void => {
-                        setNextTrackingPhase(FlexibilityExercisePhase.FirstSolution);
                         setMethodApplicationResult([resultingEquation, containsFirst]);
                         if (firstMultipliedEquation !== undefined) {
                             if (secondMultipliedEquation !== undefined) {
                                 setTransformedSystem([firstMultipliedEquation, secondMultipliedEquation]);
                                 setTransformationInfo([getTransformationStatus(transformationInfo[0]), getTransformationStatus(transformationInfo[1])]);
                             } else {
-                                const secondTransformedEquation = transformedSystem !== undefined ? transformedSystem[1] : exercise.secondEquation;
+                                const secondTransformedEquation = transformedSystem !== undefined ? transformedSystem[1] : activeExercise.secondEquation;
                                 setTransformedSystem([firstMultipliedEquation, secondTransformedEquation]);
                                 setTransformationInfo([getTransformationStatus(transformationInfo[0]), transformationInfo[1]]);
                             }
                         } else if (secondMultipliedEquation !== undefined) {
-                            const firstTransformedEquation = transformedSystem !== undefined ? transformedSystem[0] : exercise.firstEquation;
+                            const firstTransformedEquation = transformedSystem !== undefined ? transformedSystem[0] : activeExercise.firstEquation;
                             setTransformedSystem([firstTransformedEquation, secondMultipliedEquation]);
                             setTransformationInfo([transformationInfo[0], getTransformationStatus(transformationInfo[1])]);
                         }
-                        setExerciseState(PlainExerciseState.FirstSolution);
+                        loadFirstSolution(resultingEquation);
                     }}
                     trackAction={(action: string) => trackActionInPhase(action, FlexibilityExerciseActionPhase.EliminationActions)}
                     trackError={trackErrorInPhase}
@@ -210,10 +265,10 @@ export function PlainExercise({ flexibilityExerciseId, exercise, condition, hand
             content = (
                 <FirstSolution
                     method={selectedMethod}
-                    initialSystem={[exercise.firstEquation, exercise.secondEquation]}
+                    initialSystem={[activeExercise.firstEquation, activeExercise.secondEquation]}
                     transformedSystem={transformedSystem}
                     methodEquation={methodApplicationResult[0]}
-                    variable={methodApplicationResult[1] ? exercise.firstVariable : exercise.secondVariable}
+                    variable={methodApplicationResult[1] ? activeExercise.firstVariable : activeExercise.secondVariable}
                     substitutionInfo={substitutionInfo}
                     agentType={agentType}
                     additionalMessage={condition === AgentCondition.MotivationalAgent ? exercise.agentMessageForFirstSolution : undefined}
@@ -236,17 +291,17 @@ export function PlainExercise({ flexibilityExerciseId, exercise, condition, hand
             content = (
                 <EquationSelection
                     method={selectedMethod}
-                    initialSystem={[exercise.firstEquation, exercise.secondEquation]}
+                    initialSystem={[activeExercise.firstEquation, activeExercise.secondEquation]}
                     transformedSystem={transformedSystem}
                     methodEquation={methodApplicationResult[0]}
-                    firstSolutionVar={methodApplicationResult[1] ? exercise.firstVariable : exercise.secondVariable}
-                    otherVariable={methodApplicationResult[1] ? exercise.secondVariable : exercise.firstVariable}
+                    firstSolutionVar={methodApplicationResult[1] ? activeExercise.firstVariable : activeExercise.secondVariable}
+                    otherVariable={methodApplicationResult[1] ? activeExercise.secondVariable : activeExercise.firstVariable}
                     substitutionInfo={substitutionInfo}
                     loadNextStep={(selectedEquation: SelectedEquation): void => {
                         trackActionInPhase(`${SelectedEquation[selectedEquation]}`, FlexibilityExerciseActionPhase.EquationSelection);
                         setNextTrackingPhase(FlexibilityExercisePhase.SecondSolution);
                         setExerciseState(PlainExerciseState.SecondSolution);
-                        determineSecondEquation(selectedEquation, setSelectedEquation, exercise, transformedSystem);
+                        determineSecondEquation(selectedEquation, setSelectedEquation, activeExercise, transformedSystem);
                     }}
                 />
             );
@@ -260,17 +315,23 @@ export function PlainExercise({ flexibilityExerciseId, exercise, condition, hand
             content = (
                 <SecondSolution
                     method={selectedMethod}
-                    initialSystem={[exercise.firstEquation, exercise.secondEquation]}
+                    initialSystem={[activeExercise.firstEquation, activeExercise.secondEquation]}
                     transformedSystem={transformedSystem}
                     methodEquation={methodApplicationResult[0]}
                     selectedEquation={selectedEquation[0]}
-                    firstSolutionVariable={methodApplicationResult[1] ? exercise.firstVariable : exercise.secondVariable}
-                    otherVariable={methodApplicationResult[1] ? exercise.secondVariable : exercise.firstVariable}
+                    firstSolutionVariable={methodApplicationResult[1] ? activeExercise.firstVariable : activeExercise.secondVariable}
+                    otherVariable={methodApplicationResult[1] ? activeExercise.secondVariable : activeExercise.firstVariable}
                     substitutionInfo={substitutionInfo}
                     agentType={agentType}
                     additionalMessage={condition === AgentCondition.MotivationalAgent ? exercise.agentMessageForSecondSolution : undefined}
                     loadNextStep={() => {
+                        if (reductions.length > 0) {
+                            setNextTrackingPhase(FlexibilityExercisePhase.RemainingSolution);
+                            setExerciseState(PlainExerciseState.RemainingSolution);
+                            return;
+                        }
                         endTrackingPhase();
+                        emitSolved();
                         setExerciseState(PlainExerciseState.SystemSolution);
                     }}
                     trackAction={(action: string) => trackActionInPhase(action, FlexibilityExerciseActionPhase.SecondSolutionActions)}
@@ -281,6 +342,59 @@ export function PlainExercise({ flexibilityExerciseId, exercise, condition, hand
             break;
         }
 
+        case PlainExerciseState.RemainingSolution: {
+            // The eliminated unknowns are computed in the reverse order of their elimination
+            const reductionIndex: number = reductions.length - 1 - solvedReductions;
+            const solvedVariables: Variable[] = [activeExercise.firstVariable, activeExercise.secondVariable, ...reductions.slice(reductionIndex + 1).map((reduction: SystemReductionProps) => reduction.variable)];
+            content = (
+                <RemainingSolution
+                    reduction={reductions[reductionIndex]}
+                    solvedVariables={solvedVariables}
+                    agentType={agentType}
+                    loadNextStep={() => {
+                        if (reductionIndex > 0) {
+                            setSolvedReductions(solvedReductions + 1);
+                            return;
+                        }
+                        endTrackingPhase();
+                        emitSolved();
+                        setExerciseState(selectedMethod === Method.Graphical ? PlainExerciseState.GraphicalSolution : PlainExerciseState.SystemSolution);
+                    }}
+                    trackAction={(action: string) => trackActionInPhase(action, FlexibilityExerciseActionPhase.RemainingSolutionActions)}
+                    trackError={trackErrorInPhase}
+                    trackChoice={(choice: string) => trackChoice(choice, FlexibilityExerciseChoicePhase.RemainingSolutionChoice)}
+                />
+            );
+            break;
+        }
+
+        case PlainExerciseState.SystemClassification: {
+            if (selectedMethod === undefined || methodApplicationResult === undefined) {
+                throw new GameError(GameErrorType.GAME_LOGIC_ERROR);
+            }
+            content = (
+                <SystemClassification
+                    method={selectedMethod}
+                    initialSystem={[activeExercise.firstEquation, activeExercise.secondEquation]}
+                    transformedSystem={transformedSystem}
+                    methodEquation={methodApplicationResult[0]}
+                    variables={[activeExercise.firstVariable.name, activeExercise.secondVariable.name]}
+                    substitutionInfo={substitutionInfo}
+                    agentType={agentType}
+                    loadNextStep={() => {
+                        endTrackingPhase();
+                        emitSolved();
+                        endTracking();
+                        handleExerciseEnd();
+                    }}
+                    trackAction={(action: string) => trackActionInPhase(action, FlexibilityExerciseActionPhase.ClassificationActions)}
+                    trackError={trackErrorInPhase}
+                    trackChoice={(choice: string) => trackChoice(choice, FlexibilityExerciseChoicePhase.SystemClassificationChoice)}
+                />
+            );
+            break;
+        }
+
         case PlainExerciseState.SystemSolution: {
             if (selectedMethod === undefined || methodApplicationResult === undefined || selectedEquation === undefined) {
                 throw new GameError(GameErrorType.GAME_LOGIC_ERROR);
@@ -288,19 +402,66 @@ export function PlainExercise({ flexibilityExerciseId, exercise, condition, hand
             content = (
                 <EfficiencyExerciseEnd
                     method={selectedMethod}
-                    initialSystem={[exercise.firstEquation, exercise.secondEquation]}
+                    initialSystem={[activeExercise.firstEquation, activeExercise.secondEquation]}
                     transformedSystem={transformedSystem}
                     methodEquation={methodApplicationResult[0]}
                     selectedEquation={selectedEquation[0]}
-                    firstSolutionVar={methodApplicationResult[1] ? exercise.firstVariable : exercise.secondVariable}
+                    firstSolutionVar={methodApplicationResult[1] ? activeExercise.firstVariable : activeExercise.secondVariable}
                     firstSolutionIsFirstVariable={methodApplicationResult[1]}
-                    otherVariable={methodApplicationResult[1] ? exercise.secondVariable : exercise.firstVariable}
+                    otherVariable={methodApplicationResult[1] ? activeExercise.secondVariable : activeExercise.firstVariable}
                     agentType={agentType}
                     loadNextStep={() => {
                         endTracking();
                         handleExerciseEnd();
                     }}
                     substitutionInfo={substitutionInfo}
+                    solution={reductions.length > 0 ? getSystemVariables(exercise) : undefined}
+                />
+            );
+            break;
+        }
+
+        case PlainExerciseState.GraphicalMethod: {
+            content = (
+                <GraphicalMethod
+                    initialSystem={[activeExercise.firstEquation, activeExercise.secondEquation]}
+                    firstVariable={activeExercise.firstVariable}
+                    secondVariable={activeExercise.secondVariable}
+                    agentType={agentType}
+                    loadNextStep={(solutionType: SolutionType): void => {
+                        if (solutionType === SolutionType.Unique && reductions.length > 0) {
+                            setNextTrackingPhase(FlexibilityExercisePhase.RemainingSolution);
+                            setExerciseState(PlainExerciseState.RemainingSolution);
+                            return;
+                        }
+                        endTrackingPhase();
+                        emitSolved();
+                        if (solutionType !== SolutionType.Unique) {
+                            endTracking();
+                            handleExerciseEnd();
+                            return;
+                        }
+                        setExerciseState(PlainExerciseState.GraphicalSolution);
+                    }}
+                    trackAction={(action: string) => trackActionInPhase(action, FlexibilityExerciseActionPhase.GraphicalActions)}
+                    trackError={trackErrorInPhase}
+                />
+            );
+            break;
+        }
+
+        case PlainExerciseState.GraphicalSolution: {
+            content = (
+                <GraphicalExerciseEnd
+                    initialSystem={[activeExercise.firstEquation, activeExercise.secondEquation]}
+                    firstVariable={activeExercise.firstVariable}
+                    secondVariable={activeExercise.secondVariable}
+                    agentType={agentType}
+                    loadNextStep={() => {
+                        endTracking();
+                        handleExerciseEnd();
+                    }}
+                    solution={reductions.length > 0 ? getSystemVariables(exercise) : undefined}
                 />
             );
             break;
@@ -309,10 +470,33 @@ export function PlainExercise({ flexibilityExerciseId, exercise, condition, hand
 
     return content;
 
+    function trackErrorInPhase(): void {
+        recordErrorInPhase();
+        emitError();
+    }
+
+    // Applying a method to a system without a unique solution eliminates both unknowns, the student then classifies the system instead of solving it
+    function loadFirstSolution(equation: FlexibilityEquation): void {
+        if (classifyEquation(equation, [activeExercise.firstVariable.name, activeExercise.secondVariable.name]) !== undefined) {
+            setNextTrackingPhase(FlexibilityExercisePhase.SystemClassification);
+            setExerciseState(PlainExerciseState.SystemClassification);
+            return;
+        }
+        setNextTrackingPhase(FlexibilityExercisePhase.FirstSolution);
+        setExerciseState(PlainExerciseState.FirstSolution);
+    }
+
+    // Each phase is only left once its step has been completed correctly
+    function setNextTrackingPhase(newPhase: FlexibilityExercisePhase, choice?: string): void {
+        recordNextPhase(newPhase, choice);
+        emitStepCorrect();
+    }
+
     function handleExerciseEnd(): void {
         if (isStudy) {
             setFlexibilityStudyExerciseCompleted(studyId as number, flexibilityExerciseId);
-        } else {
+        } else if (!isGenerated) {
+            // Generated exercises only exist for the current session, so their completion is not persisted
             setPKExerciseCompleted(flexibilityExerciseId, "flexibility-training");
         }
         handleEnd();
@@ -332,5 +516,9 @@ function assignStateByMethod(method: Method, setNextTrackingPhase: (newPhase: Fl
         case Method.Elimination:
             setNextTrackingPhase(FlexibilityExercisePhase.Elimination);
             return PlainExerciseState.EliminationMethod;
+
+        case Method.Graphical:
+            setNextTrackingPhase(FlexibilityExercisePhase.Graphical);
+            return PlainExerciseState.GraphicalMethod;
     }
 }
\ No newline at end of file
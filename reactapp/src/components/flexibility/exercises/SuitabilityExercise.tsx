@@ -13,7 +13,9 @@ import { ComparisonExercise } from "@components/flexibility/comparison/Compariso
 import { ResolveConclusion } from "@components/flexibility/comparison/ResolveConclusion.tsx";
 import { EliminationMethod } from "@components/flexibility/elimination/EliminationMethod.tsx";
 import { EqualizationMethod } from "@components/flexibility/equalization/EqualizationMethod.tsx";
-import { ComparisonIntervention } from "@components/flexibility/interventions/ComparisonIntervention.tsx";
+import { GraphicalMethod } from "@components/flexibility/graphical/GraphicalMethod.tsx";
+import { GraphicalSolution } from "@components/flexibility/graphical/GraphicalSolution.tsx";
+import { ComparisonIntervention, ComparisonPrompt } from "@components/flexibility/interventions/ComparisonIntervention.tsx";
 import { EquationSelection } from "@components/flexibility/solution/EquationSelection.tsx";
 import { FirstSolution } from "@components/flexibility/solution/FirstSolution.tsx";
 import { SecondSolution } from "@components/flexibility/solution/SecondSolution.tsx";
@@ -22,9 +24,10 @@ import { SystemTransformation } from "@components/flexibility/system/SystemTrans
 import { determineSecondEquation, getTransformationStatus } from "@utils/utils.ts";
 import "@styles/flexibility/flexibility.scss";
 import { useAuth } from "@/contexts/AuthProvider.tsx";
-import { IUser } from "@/types/studies/user.ts";
 import { FlexibilityExerciseActionPhase, FlexibilityExerciseChoicePhase, FlexibilityExercisePhase, FlexibilityStudyExerciseType } from "@/types/studies/enums.ts";
 import useFlexibilityTracker from "@hooks/useFlexibilityTracker.ts";
+import useExerciseOutcomes from "@hooks/useExerciseOutcomes.ts";
+import { ExerciseModule } from "@/types/shared/exerciseOutcome.ts";
 import { getRandomAgent, setPKExerciseCompleted, setFlexibilityStudyExerciseCompleted } from "@utils/storageUtils.ts";
 
 export function SuitabilityExercise({ flexibilityExerciseId, exercise, condition, handleEnd, isStudy = false, studyId }: {
@@ -58,11 +61,12 @@ export function SuitabilityExercise({ flexibilityExerciseId, exercise, condition
         initializeTrackingPhase,
         trackActionInPhase,
         trackChoice,
-        trackErrorInPhase,
-        setNextTrackingPhase,
+        trackErrorInPhase: recordErrorInPhase,
+        setNextTrackingPhase: recordNextPhase,
         endTrackingPhase,
         endTracking
-    } = useFlexibilityTracker(isStudy, user as IUser, studyId as number, flexibilityExerciseId, exercise.id, FlexibilityStudyExerciseType.Suitability, performance.now(), condition, agentType);
+    } = useFlexibilityTracker(isStudy, user, studyId as number, flexibilityExerciseId, exercise.id, FlexibilityStudyExerciseType.Suitability, performance.now(), condition, agentType, undefined, !isStudy);
+    const { emitStepCorrect, emitError, emitSolved } = useExerciseOutcomes(ExerciseModule.Flexibility, flexibilityExerciseId);
 
     const [exerciseState, setExerciseState] = useState<SuitabilityExerciseState>(SuitabilityExerciseState.MethodSelection);
     const [selectedMethod, setSelectedMethod] = useState<Method>();
@@ -84,11 +88,18 @@ export function SuitabilityExercise({ flexibilityExerciseId, exercise, condition
                     firstEquation={exercise.firstEquation}
                     secondEquation={exercise.secondEquation}
                     question={t(FlexibilityTranslations.SELECT_SUITABLE_INSTR)}
+                    offerGraphicalMethod={!isStudy || exercise.suitableMethods.includes(Method.Graphical)}
                     agentType={agentType}
                     loadNextStep={(method: Method): void => {
                         trackActionInPhase(`${Method[method]}`, FlexibilityExerciseActionPhase.SelectedMethod);
-                        initializeTrackingPhase(FlexibilityExercisePhase.Transformation);
                         setSelectedMethod(method);
+                        // The graphical method plots the equations as they are given, so the system is not transformed
+                        if (method === Method.Graphical) {
+                            initializeTrackingPhase(FlexibilityExercisePhase.Graphical);
+                            setExerciseState(SuitabilityExerciseState.GraphicalMethod);
+                            return;
+                        }
+                        initializeTrackingPhase(FlexibilityExercisePhase.Transformation);
                         setExerciseState(SuitabilityExerciseState.SystemTransformation);
                     }}
                 />
@@ -270,6 +281,7 @@ export function SuitabilityExercise({ flexibilityExerciseId, exercise, condition
                     additionalMessage={condition === AgentCondition.MotivationalAgent ? exercise.agentMessageForSecondSolution : undefined}
                     loadNextStep={() => {
                         endTrackingPhase();
+                        emitSolved();
                         setExerciseState(SuitabilityExerciseState.SystemSolution);
                     }}
                     trackAction={(action: string) => trackActionInPhase(action, FlexibilityExerciseActionPhase.SecondSolutionActions)}
@@ -284,11 +296,7 @@ export function SuitabilityExercise({ flexibilityExerciseId, exercise, condition
             if (selectedMethod === undefined || methodApplicationResult === undefined || selectedEquation === undefined) {
                 throw new GameError(GameErrorType.GAME_LOGIC_ERROR);
             }
-            const compare: boolean = exercise.suitableMethods.includes(selectedMethod);
-            const comparisonMethod: Method | undefined = compare ? exercise.comparisonMethods.find((comparison) => comparison.method !== selectedMethod)?.method : exercise.suitableMethods[0];
-            if (comparisonMethod === undefined) {
-                throw new GameError(GameErrorType.GAME_LOGIC_ERROR);
-            }
+            const [compare, comparisonMethod]: [boolean, Method] = determineComparisonMethod(exercise, selectedMethod);
 
             content = (
                 <ComparisonIntervention
@@ -305,31 +313,7 @@ export function SuitabilityExercise({ flexibilityExerciseId, exercise, condition
                     comparisonMethod={comparisonMethod}
                     substitutionInfo={substitutionInfo}
                     agentType={agentType}
-                    loadNextStep={(compliance: boolean): void => {
-                        if (compliance) {
-                            setComparisonMethod(comparisonMethod);
-                            setIsolatedVariables([exercise.firstEquationIsIsolatedIn, exercise.secondEquationIsIsolatedIn]);
-                            if (compare) {
-                                trackChoice(`Yes to ${Method[comparisonMethod]}`, FlexibilityExerciseChoicePhase.ComparisonChoice);
-                                initializeTrackingPhase(FlexibilityExercisePhase.Comparison);
-                                trackActionInPhase("RESOLVE", FlexibilityExerciseActionPhase.TransformationActions);
-                                setExerciseState(SuitabilityExerciseState.Comparison);
-                            } else {
-                                trackChoice(`Yes to ${Method[comparisonMethod]}`, FlexibilityExerciseChoicePhase.ResolvingChoice);
-                                initializeTrackingPhase(FlexibilityExercisePhase.TransformationResolve);
-                                trackActionInPhase("RESOLVE", FlexibilityExerciseActionPhase.TransformationActions);
-                                setExerciseState(SuitabilityExerciseState.SystemTransformationOnResolve);
-                            }
-                        } else {
-                            if (compare) {
-                                trackChoice(`No to ${Method[comparisonMethod]}`, FlexibilityExerciseChoicePhase.ComparisonChoice);
-                            } else {
-                                trackChoice(`No to ${Method[comparisonMethod]}`, FlexibilityExerciseChoicePhase.ResolvingChoice);
-                            }
-                            endTrackingPhase();
-                            handleExerciseEnd();
-                        }
-                    }}
+                    loadNextStep={(compliance: boolean) => handleComparisonChoice(compliance, compare, comparisonMethod)}
                 />
             );
             break;
@@ -428,7 +412,10 @@ export function SuitabilityExercise({ flexibilityExerciseId, exercise, condition
         }
 
         case SuitabilityExerciseState.Comparison: {
-            if (selectedMethod === undefined || methodApplicationResult === undefined || comparisonMethod === undefined || selectedEquation === undefined) {
+            if (selectedMethod === undefined || comparisonMethod === undefined) {
+                throw new GameError(GameErrorType.GAME_LOGIC_ERROR);
+            }
+            if (selectedMethod !== Method.Graphical && (methodApplicationResult === undefined || selectedEquation === undefined)) {
                 throw new GameError(GameErrorType.GAME_LOGIC_ERROR);
             }
 
@@ -462,10 +449,111 @@ export function SuitabilityExercise({ flexibilityExerciseId, exercise, condition
             );
             break;
         }
+
+        case SuitabilityExerciseState.GraphicalMethod: {
+            content = (
+                <GraphicalMethod
+                    initialSystem={[exercise.firstEquation, exercise.secondEquation]}
+                    firstVariable={exercise.firstVariable}
+                    secondVariable={exercise.secondVariable}
+                    agentType={agentType}
+                    loadNextStep={(): void => {
+                        endTrackingPhase();
+                        emitSolved();
+                        setExerciseState(SuitabilityExerciseState.GraphicalSolution);
+                    }}
+                    trackAction={(action: string) => trackActionInPhase(action, FlexibilityExerciseActionPhase.GraphicalActions)}
+                    trackError={trackErrorInPhase}
+                />
+            );
+            break;
+        }
+
+        case SuitabilityExerciseState.GraphicalSolution: {
+            const [compare, comparisonMethod]: [boolean, Method] = determineComparisonMethod(exercise, Method.Graphical);
+            content = (
+                <GraphicalSolution
+                    initialSystem={[exercise.firstEquation, exercise.secondEquation]}
+                    firstVariable={exercise.firstVariable}
+                    secondVariable={exercise.secondVariable}
+                    popover={
+                        <ComparisonPrompt
+                            loadNextStep={(compliance: boolean) => handleComparisonChoice(compliance, compare, comparisonMethod)}
+                            compareMethods={compare}
+                            comparisonMethod={comparisonMethod}
+                            agentType={agentType}
+                            additionalMessage={condition === AgentCondition.MotivationalAgent ? (compare ? exercise.agentMessageForComparison : exercise.agentMessageForResolving) : undefined}
+                        />
+                    }
+                />
+            );
+            break;
+        }
+
+        case SuitabilityExerciseState.ResolveWithGraphicalMethod: {
+            content = (
+                <GraphicalMethod
+                    initialSystem={[exercise.firstEquation, exercise.secondEquation]}
+                    firstVariable={exercise.firstVariable}
+                    secondVariable={exercise.secondVariable}
+                    agentType={agentType}
+                    loadNextStep={(): void => {
+                        setNextTrackingPhase(FlexibilityExercisePhase.ResolveConclusion);
+                        setExerciseState(SuitabilityExerciseState.ResolveConclusion);
+                    }}
+                    trackAction={(action: string) => trackActionInPhase(action, FlexibilityExerciseActionPhase.GraphicalActions)}
+                    trackError={trackErrorInPhase}
+                />
+            );
+            break;
+        }
     }
 
     return content;
 
+    // After solving the system, the student may compare the selected method with another one or solve the system again with a suitable method
+    function handleComparisonChoice(compliance: boolean, compare: boolean, comparisonMethod: Method): void {
+        if (compliance) {
+            setComparisonMethod(comparisonMethod);
+            setIsolatedVariables([exercise.firstEquationIsIsolatedIn, exercise.secondEquationIsIsolatedIn]);
+            if (compare) {
+                trackChoice(`Yes to ${Method[comparisonMethod]}`, FlexibilityExerciseChoicePhase.ComparisonChoice);
+                initializeTrackingPhase(FlexibilityExercisePhase.Comparison);
+                trackActionInPhase("RESOLVE", FlexibilityExerciseActionPhase.TransformationActions);
+                setExerciseState(SuitabilityExerciseState.Comparison);
+            } else if (comparisonMethod === Method.Graphical) {
+                trackChoice(`Yes to ${Method[comparisonMethod]}`, FlexibilityExerciseChoicePhase.ResolvingChoice);
+                initializeTrackingPhase(FlexibilityExercisePhase.GraphicalResolve);
+                trackActionInPhase("RESOLVE", FlexibilityExerciseActionPhase.GraphicalActions);
+                setExerciseState(SuitabilityExerciseState.ResolveWithGraphicalMethod);
+            } else {
+                trackChoice(`Yes to ${Method[comparisonMethod]}`, FlexibilityExerciseChoicePhase.ResolvingChoice);
+                initializeTrackingPhase(FlexibilityExercisePhase.TransformationResolve);
+                trackActionInPhase("RESOLVE", FlexibilityExerciseActionPhase.TransformationActions);
+                setExerciseState(SuitabilityExerciseState.SystemTransformationOnResolve);
+            }
+        } else {
+            if (compare) {
+                trackChoice(`No to ${Method[comparisonMethod]}`, FlexibilityExerciseChoicePhase.ComparisonChoice);
+            } else {
+                trackChoice(`No to ${Method[comparisonMethod]}`, FlexibilityExerciseChoicePhase.ResolvingChoice);
+            }
+            endTrackingPhase();
+            handleExerciseEnd();
+        }
+    }
+
+    function trackErrorInPhase(): void {
+        recordErrorInPhase();
+        emitError();
+    }
+
+    // Each phase is only left once its step has been completed correctly
+    function setNextTrackingPhase(newPhase: FlexibilityExercisePhase, choice?: string): void {
+        recordNextPhase(newPhase, choice);
+        emitStepCorrect();
+    }
+
     function handleExerciseEnd(): void {
         if (isStudy) {
             setFlexibilityStudyExerciseCompleted(studyId as number, flexibilityExerciseId);
@@ -489,6 +577,10 @@ function assignStateByMethod(method: Method, setNextTrackingPhase: (newPhase: Fl
         case Method.Elimination:
             setNextTrackingPhase(FlexibilityExercisePhase.Elimination);
             return SuitabilityExerciseState.EliminationMethod;
+
+        case Method.Graphical:
+            setNextTrackingPhase(FlexibilityExercisePhase.Graphical);
+            return SuitabilityExerciseState.GraphicalMethod;
     }
 }
 
@@ -508,5 +600,20 @@ function assignResolvingStateByMethod(method: Method, setNextTrackingPhase: (new
             setNextTrackingPhase(FlexibilityExercisePhase.EliminationResolve);
             trackActionInPhase("RESOLVE", FlexibilityExerciseActionPhase.EliminationActions);
             return SuitabilityExerciseState.ResolveWithEliminationMethod;
+
+        case Method.Graphical:
+            setNextTrackingPhase(FlexibilityExercisePhase.GraphicalResolve);
+            trackActionInPhase("RESOLVE", FlexibilityExerciseActionPhase.GraphicalActions);
+            return SuitabilityExerciseState.ResolveWithGraphicalMethod;
+    }
+}
+
+// A suitable method is compared with another suitable one, otherwise the system is solved again with a suitable method
+function determineComparisonMethod(exercise: SuitabilityExerciseProps, selectedMethod: Method): [boolean, Method] {
+    const compare: boolean = exercise.suitableMethods.includes(selectedMethod);
+    const comparisonMethod: Method | undefined = compare ? exercise.comparisonMethods.find((comparison) => comparison.method !== selectedMethod)?.method : exercise.suitableMethods[0];
+    if (comparisonMethod === undefined) {
+        throw new GameError(GameErrorType.GAME_LOGIC_ERROR);
     }
+    return [compare, comparisonMethod];
 }
\ No newline at end of file
@@ -13,7 +13,8 @@ import { determineSecondEquation } from "@utils/utils.ts";
 import "@styles/flexibility/flexibility.scss";
 import { useAuth } from "@/contexts/AuthProvider.tsx";
 import useFlexibilityTracker from "@hooks/useFlexibilityTracker.ts";
-import { IUser } from "@/types/studies/user.ts";
+import useExerciseOutcomes from "@hooks/useExerciseOutcomes.ts";
+import { ExerciseModule } from "@/types/shared/exerciseOutcome.ts";
 import { FlexibilityExerciseActionPhase, FlexibilityExerciseChoicePhase, FlexibilityExercisePhase, FlexibilityStudyExerciseType } from "@/types/studies/enums.ts";
 import { getRandomAgent, setPKExerciseCompleted, setFlexibilityStudyExerciseCompleted } from "@utils/storageUtils.ts";
 import { OptionalExercise } from "@components/flexibility/choice/OptionalExercise.tsx";
@@ -48,11 +49,12 @@ export function TipExercise({ flexibilityExerciseId, exercise, condition, handle
         initializeTrackingPhase,
         trackActionInPhase,
         trackChoice,
-        trackErrorInPhase,
-        setNextTrackingPhase,
+        trackErrorInPhase: recordErrorInPhase,
+        setNextTrackingPhase: recordNextPhase,
         endTrackingPhase,
         endTracking
-    } = useFlexibilityTracker(isStudy, user as IUser, studyId as number, flexibilityExerciseId, exercise.id, FlexibilityStudyExerciseType.TipExercise, performance.now(), condition, agentType, FlexibilityExercisePhase.EfficiencySelection);
+    } = useFlexibilityTracker(isStudy, user, studyId as number, flexibilityExerciseId, exercise.id, FlexibilityStudyExerciseType.TipExercise, performance.now(), condition, agentType, FlexibilityExercisePhase.EfficiencySelection, !isStudy);
+    const { emitStepCorrect, emitError, emitSolved } = useExerciseOutcomes(ExerciseModule.Flexibility, flexibilityExerciseId);
 
     const [exerciseState, setExerciseState] = useState<TipExerciseState>(TipExerciseState.Choice);
     const [methodApplicationResult, setMethodApplicationResult] = useState<[FlexibilityEquation, boolean]>();
@@ -184,6 +186,7 @@ export function TipExercise({ flexibilityExerciseId, exercise, condition, handle
                     additionalMessage={condition === AgentCondition.MotivationalAgent ? exercise.agentMessageForSecondSolution : undefined}
                     loadNextStep={() => {
                         endTrackingPhase();
+                        emitSolved();
                         setExerciseState(TipExerciseState.SystemSolution);
                     }}
                     trackAction={(action: string) => trackActionInPhase(action, FlexibilityExerciseActionPhase.SecondSolutionActions)}
@@ -221,6 +224,17 @@ export function TipExercise({ flexibilityExerciseId, exercise, condition, handle
 
     return content;
 
+    function trackErrorInPhase(): void {
+        recordErrorInPhase();
+        emitError();
+    }
+
+    // Each phase is only left once its step has been completed correctly
+    function setNextTrackingPhase(newPhase: FlexibilityExercisePhase, choice?: string): void {
+        recordNextPhase(newPhase, choice);
+        emitStepCorrect();
+    }
+
     function handleExerciseEnd(): void {
         if (isStudy) {
             setFlexibilityStudyExerciseCompleted(studyId as number, flexibilityExerciseId);
@@ -242,6 +256,7 @@ function assignStateByMethod(method: Method, initializeTrackingPhase: (phase: Fl
             return TipExerciseState.SubstitutionMethod;
 
         case Method.Elimination:
+        case Method.Graphical:
             throw new GameError(GameErrorType.GAME_LOGIC_ERROR);
     }
 }
\ No newline at end of file
@@ -5,7 +5,6 @@ import { getRandomAgent, setPKExerciseCompleted, setFlexibilityStudyExerciseComp
 import { useAuth } from "@/contexts/AuthProvider.tsx";
 import { GameError, GameErrorType } from "@/types/shared/error.ts";
 import useFlexibilityTracker from "@hooks/useFlexibilityTracker.ts";
-import { IUser } from "@/types/studies/user.ts";
 import { FlexibilityExerciseChoicePhase, FlexibilityExercisePhase, FlexibilityStudyExerciseType } from "@/types/studies/enums.ts";
 import { OptionalExercise } from "@components/flexibility/choice/OptionalExercise.tsx";
 import { SystemIntroduction } from "@components/flexibility/workedExamples/SystemIntroduction.tsx";
@@ -48,7 +47,7 @@ export function WorkedExamples({ flexibilityExerciseId, exerciseId, condition, h
     const {
         trackChoice,
         endTracking
-    } = useFlexibilityTracker(isStudy, user as IUser, studyId as number, flexibilityExerciseId, exerciseId, FlexibilityStudyExerciseType.WorkedExamples, performance.now(), condition, agentType, FlexibilityExercisePhase.EfficiencySelection);
+    } = useFlexibilityTracker(isStudy, user, studyId as number, flexibilityExerciseId, exerciseId, FlexibilityStudyExerciseType.WorkedExamples, performance.now(), condition, agentType, FlexibilityExercisePhase.EfficiencySelection, !isStudy);
 
     const [exerciseState, setExerciseState] = useState<WorkedExampleExerciseState>(WorkedExampleExerciseState.Choice);
     const [showAllEqualization, setShowAllEqualization] = useState<boolean>(false);
@@ -0,0 +1,113 @@
+import React, { ReactElement, useRef, useState } from "react";
+import { FlexibilityEquation as FlexibilityEquationProps } from "@/types/math/linearEquation.ts";
+import { math } from "@/types/math/math.ts";
+import { FlexibilityEquation } from "@components/math/procedural-knowledge/FlexibilityEquation.tsx";
+import { getLineSegment, PlanePoint, snapToGrid } from "@utils/graphicalUtils.ts";
+import { normalizeEquation, NormalizedEquation } from "@utils/solverUtils.ts";
+
+const LINE_CLASSNAMES: string[] = ["coordinate-plane__line--first", "coordinate-plane__line--second"];
+
+/**
+ * Plots the equations of a system as lines on a coordinate plane, the first variable on the horizontal axis.
+ * If setPoint is given, the student can click on the plane or drag the point to move it, the point snaps to the grid.
+ */
+export function CoordinatePlane({ equations, firstVariable, secondVariable, extent, resolution = 1, point, setPoint }: {
+    equations: FlexibilityEquationProps[];
+    firstVariable: string;
+    secondVariable: string;
+    extent: number;
+    resolution?: number;
+    point?: PlanePoint;
+    setPoint?: (point: PlanePoint) => void;
+}): ReactElement {
+    const svgRef = useRef<SVGSVGElement>(null);
+    const [isDragging, setIsDragging] = useState<boolean>(false);
+
+    const normalizedEquations: NormalizedEquation[] = equations.map((equation: FlexibilityEquationProps) => normalizeEquation(equation, firstVariable, secondVariable));
+    const labelStep: number = extent <= 8 ? 1 : extent <= 20 ? 2 : 5;
+    const gridStep: number = extent <= 20 ? 1 : 5;
+    const ticks: number[] = Array.from({ length: Math.floor(extent / gridStep) * 2 + 1 }, (_, index: number) => (index - Math.floor(extent / gridStep)) * gridStep);
+    // The plane is drawn in units, so text and markers are scaled with the extent
+    const fontSize: number = extent / 14;
+    const pointCoordinates: [number, number] | undefined = point !== undefined ? [math.number(point[0]) as number, math.number(point[1]) as number] : undefined;
+
+    return (
+        <div className={"coordinate-plane"}>
+            <svg ref={svgRef} viewBox={`${-extent - 1} ${-extent - 1} ${2 * extent + 2} ${2 * extent + 2}`} tabIndex={setPoint !== undefined ? 0 : undefined}
+                 className={`coordinate-plane__svg ${setPoint !== undefined ? "coordinate-plane__svg--interactive" : ""}`}
+                 onPointerDown={(event: React.PointerEvent<SVGSVGElement>) => {
+                     if (setPoint === undefined) {
+                         return;
+                     }
+                     event.currentTarget.setPointerCapture(event.pointerId);
+                     setIsDragging(true);
+                     movePoint(event);
+                 }}
+                 onPointerMove={(event: React.PointerEvent<SVGSVGElement>) => isDragging && movePoint(event)}
+                 onPointerUp={() => setIsDragging(false)}
+                 onKeyDown={handleKeyDown}>
+                {ticks.map((tick: number) => (
+                    <React.Fragment key={tick}>
+                        <line className={"coordinate-plane__grid"} x1={tick} y1={-extent} x2={tick} y2={extent} />
+                        <line className={"coordinate-plane__grid"} x1={-extent} y1={tick} x2={extent} y2={tick} />
+                        {tick !== 0 && tick % labelStep === 0 && (
+                            <React.Fragment>
+                                <text className={"coordinate-plane__label"} x={tick} y={fontSize * 1.25} fontSize={fontSize} textAnchor={"middle"}>{tick}</text>
+                                <text className={"coordinate-plane__label"} x={-fontSize * 0.5} y={-tick + fontSize * 0.35} fontSize={fontSize} textAnchor={"end"}>{tick}</text>
+                            </React.Fragment>
+                        )}
+                    </React.Fragment>
+                ))}
+                <line className={"coordinate-plane__axis"} x1={-extent} y1={0} x2={extent + 0.5} y2={0} />
+                <line className={"coordinate-plane__axis"} x1={0} y1={extent} x2={0} y2={-extent - 0.5} />
+                <text className={"coordinate-plane__axis-label"} x={extent + 0.5} y={-fontSize * 0.5} fontSize={fontSize * 1.25} textAnchor={"end"}>{firstVariable}</text>
+                <text className={"coordinate-plane__axis-label"} x={fontSize * 0.5} y={-extent - 0.25} fontSize={fontSize * 1.25}>{secondVariable}</text>
+                <svg x={-extent} y={-extent} width={2 * extent} height={2 * extent} viewBox={`${-extent} ${-extent} ${2 * extent} ${2 * extent}`}>
+                    {normalizedEquations.map((equation: NormalizedEquation, index: number) => {
+                        const segment = getLineSegment(equation, extent);
+                        return segment !== undefined && (
+                            <line key={index} className={`coordinate-plane__line ${LINE_CLASSNAMES[index % LINE_CLASSNAMES.length]}`}
+                                  x1={segment[0][0]} y1={-segment[0][1]} x2={segment[1][0]} y2={-segment[1][1]} />
+                        );
+                    })}
+                </svg>
+                {pointCoordinates !== undefined && (
+                    <React.Fragment>
+                        <line className={"coordinate-plane__projection"} x1={pointCoordinates[0]} y1={-pointCoordinates[1]} x2={pointCoordinates[0]} y2={0} />
+                        <line className={"coordinate-plane__projection"} x1={pointCoordinates[0]} y1={-pointCoordinates[1]} x2={0} y2={-pointCoordinates[1]} />
+                        <circle className={"coordinate-plane__point"} cx={pointCoordinates[0]} cy={-pointCoordinates[1]} r={fontSize * 0.4} />
+                    </React.Fragment>
+                )}
+            </svg>
+            <div className={"coordinate-plane__legend"}>
+                {equations.map((equation: FlexibilityEquationProps, index: number) => (
+                    <div key={index} className={"coordinate-plane__legend-entry"}>
+                        <span className={`coordinate-plane__legend-line ${LINE_CLASSNAMES[index % LINE_CLASSNAMES.length]}`} />
+                        <FlexibilityEquation equation={equation} classname={"flexibility-equation--light"} />
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+
+    function movePoint(event: React.PointerEvent<SVGSVGElement>): void {
+        const matrix: DOMMatrix | null | undefined = svgRef.current?.getScreenCTM();
+        if (setPoint === undefined || matrix === null || matrix === undefined) {
+            return;
+        }
+        // Screen coordinates are mapped to the units of the plane, whose vertical axis points upwards
+        const position: DOMPoint = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+        setPoint([snapToGrid(position.x, resolution, extent), snapToGrid(-position.y, resolution, extent)]);
+    }
+
+    function handleKeyDown(event: React.KeyboardEvent<SVGSVGElement>): void {
+        const directions: Record<string, [number, number]> = { ArrowLeft: [-1, 0], ArrowRight: [1, 0], ArrowDown: [0, -1], ArrowUp: [0, 1] };
+        const direction: [number, number] | undefined = directions[event.key];
+        if (setPoint === undefined || direction === undefined) {
+            return;
+        }
+        event.preventDefault();
+        const [x, y]: [number, number] = pointCoordinates ?? [0, 0];
+        setPoint([snapToGrid(x + direction[0] / resolution, resolution, extent), snapToGrid(y + direction[1] / resolution, resolution, extent)]);
+    }
+}
@@ -0,0 +1,118 @@
+import { TranslationNamespaces } from "@/i18n.ts";
+import { faMagnifyingGlass } from "@fortawesome/free-solid-svg-icons";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import React, { ReactElement, useMemo, useState } from "react";
+import { Trans, useTranslation } from "react-i18next";
+import { AgentExpression, AgentType, Method } from "@/types/flexibility/enums.ts";
+import { FlexibilityTranslations } from "@/types/flexibility/flexibilityTranslations.ts";
+import { Variable } from "@/types/flexibility/variable.ts";
+import { SolutionType } from "@/types/math/enums.ts";
+import { FlexibilityEquation as FlexibilityEquationProps } from "@/types/math/linearEquation.ts";
+import { LinearSystemSolution } from "@/types/math/linearSystemSolution.ts";
+import { GeneralTranslations } from "@/types/shared/generalTranslations.ts";
+import { TranslationInterpolation } from "@/types/shared/translationInterpolation.ts";
+import { CoordinatePlane } from "@components/flexibility/graphical/CoordinatePlane.tsx";
+import { ContinueMessage } from "@components/flexibility/interventions/ContinueMessage.tsx";
+import { FlexibilityHint } from "@components/flexibility/interventions/FlexibilityHint.tsx";
+import { ClosableFlexibilityPopover, FlexibilityPopover } from "@components/flexibility/interventions/FlexibilityPopover.tsx";
+import { formatPoint, getGridResolution, getPlaneExtent, isIntersection, isOnLine, PlanePoint } from "@utils/graphicalUtils.ts";
+import { normalizeEquation, NormalizedEquation, solveNormalizedSystem } from "@utils/solverUtils.ts";
+
+/**
+ * Solves a system by plotting both equations as lines, the student places a point on their intersection.
+ * If the lines are parallel or identical, the student has to state that there is no single intersection instead.
+ */
+export function GraphicalMethod({ initialSystem, firstVariable, secondVariable, loadNextStep, agentType, trackAction, trackError }: {
+    initialSystem: [FlexibilityEquationProps, FlexibilityEquationProps];
+    firstVariable: Variable;
+    secondVariable: Variable;
+    loadNextStep: (solutionType: SolutionType) => void;
+    agentType?: AgentType;
+    trackAction: (action: string) => void;
+    trackError: () => void;
+}): ReactElement {
+    const { t } = useTranslation([TranslationNamespaces.Flexibility, TranslationNamespaces.General]);
+
+    const normalizedSystem: NormalizedEquation[] = useMemo(
+        () => initialSystem.map((equation: FlexibilityEquationProps) => normalizeEquation(equation, firstVariable.name, secondVariable.name)),
+        [initialSystem, firstVariable, secondVariable]
+    );
+    const solution: LinearSystemSolution = useMemo(() => solveNormalizedSystem(normalizedSystem[0], normalizedSystem[1]), [normalizedSystem]);
+    const instruction: TranslationInterpolation = useMemo(() => FlexibilityTranslations.getInstructionForSolvingSystem(Method.Graphical), []);
+
+    const [point, setPoint] = useState<PlanePoint>();
+    const [feedback, setFeedback] = useState<string>();
+    const [result, setResult] = useState<SolutionType>();
+
+    return (
+        <React.Fragment>
+            <p>
+                <Trans ns={TranslationNamespaces.Flexibility} i18nKey={instruction.translationKey} values={instruction.interpolationVariables as object} />
+            </p>
+            <p>{t(FlexibilityTranslations.GRAPHICAL_INSTRUCTION, { firstVariable: firstVariable.name, secondVariable: secondVariable.name })}</p>
+            <CoordinatePlane equations={initialSystem} firstVariable={firstVariable.name} secondVariable={secondVariable.name} extent={getPlaneExtent(normalizedSystem, solution)}
+                             resolution={getGridResolution(solution)} point={point} setPoint={result === undefined && feedback === undefined ? setPoint : undefined} />
+            <p className={"coordinate-plane__selection"}>
+                {point !== undefined ? t(FlexibilityTranslations.GRAPHICAL_SELECTED_POINT, { point: formatPoint(point) }) : t(FlexibilityTranslations.GRAPHICAL_NO_POINT)}
+            </p>
+            <div className={"coordinate-plane__actions"}>
+                <button className={"button primary-button"} onClick={evaluatePoint} disabled={point === undefined || result !== undefined || feedback !== undefined}>
+                    {t(GeneralTranslations.BUTTON_VERIFY_ANSWER, { ns: TranslationNamespaces.General })}
+                    <FontAwesomeIcon icon={faMagnifyingGlass} />
+                </button>
+                <button className={"button primary-button"} onClick={evaluateNoIntersection} disabled={result !== undefined || feedback !== undefined}>
+                    {t(FlexibilityTranslations.BUTTON_NO_INTERSECTION)}
+                </button>
+            </div>
+            <FlexibilityHint hints={[FlexibilityTranslations.GRAPHICAL_HINT]} agentType={agentType} agentExpression={AgentExpression.Neutral} disabled={result !== undefined || feedback !== undefined} />
+            {feedback !== undefined && (
+                <ClosableFlexibilityPopover setShowContent={() => setFeedback(undefined)} agentType={agentType} agentExpression={AgentExpression.Thinking}>
+                    <p>{t(feedback)}</p>
+                </ClosableFlexibilityPopover>
+            )}
+            {result !== undefined && (
+                <FlexibilityPopover agentType={agentType} agentExpression={AgentExpression.Smiling}>
+                    <ContinueMessage message={getResultMessage(result)} loadNextStep={() => loadNextStep(result)} />
+                </FlexibilityPopover>
+            )}
+        </React.Fragment>
+    );
+
+    function evaluatePoint(): void {
+        if (point === undefined) {
+            return;
+        }
+        if (isIntersection(solution, point)) {
+            trackAction(`VALID intersection ${formatPoint(point)}`);
+            setResult(SolutionType.Unique);
+            return;
+        }
+
+        trackAction(`WRONG intersection ${formatPoint(point)}`);
+        trackError();
+        const linesThroughPoint: number = normalizedSystem.filter((equation: NormalizedEquation) => isOnLine(equation, point)).length;
+        setFeedback(linesThroughPoint === normalizedSystem.length ? FlexibilityTranslations.GRAPHICAL_NOT_UNIQUE : linesThroughPoint > 0 ? FlexibilityTranslations.GRAPHICAL_ONE_LINE : FlexibilityTranslations.GRAPHICAL_NO_LINE);
+    }
+
+    function evaluateNoIntersection(): void {
+        if (solution.type === SolutionType.Unique) {
+            trackAction("WRONG no single intersection");
+            trackError();
+            setFeedback(FlexibilityTranslations.GRAPHICAL_INTERSECTION_EXISTS);
+            return;
+        }
+        trackAction(`VALID no single intersection, ${SolutionType[solution.type]}`);
+        setResult(solution.type);
+    }
+}
+
+function getResultMessage(solutionType: SolutionType): string {
+    switch (solutionType) {
+        case SolutionType.Unique:
+            return FlexibilityTranslations.GRAPHICAL_SUCCESS;
+        case SolutionType.None:
+            return FlexibilityTranslations.GRAPHICAL_RESULT_NONE;
+        case SolutionType.Infinite:
+            return FlexibilityTranslations.GRAPHICAL_RESULT_INFINITE;
+    }
+}
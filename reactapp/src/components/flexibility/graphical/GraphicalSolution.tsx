@@ -0,0 +1,73 @@
+import { TranslationNamespaces } from "@/i18n.ts";
+import React, { ReactElement } from "react";
+import { Trans, useTranslation } from "react-i18next";
+import { AgentExpression, AgentType, Method } from "@/types/flexibility/enums.ts";
+import { FlexibilityTranslations } from "@/types/flexibility/flexibilityTranslations.ts";
+import { Variable } from "@/types/flexibility/variable.ts";
+import { FlexibilityEquation as FlexibilityEquationProps } from "@/types/math/linearEquation.ts";
+import { math } from "@/types/math/math.ts";
+import { TranslationInterpolation } from "@/types/shared/translationInterpolation.ts";
+import { CoordinatePlane } from "@components/flexibility/graphical/CoordinatePlane.tsx";
+import { ContinueMessage } from "@components/flexibility/interventions/ContinueMessage.tsx";
+import { FlexibilityPopover } from "@components/flexibility/interventions/FlexibilityPopover.tsx";
+import { SolutionPoint } from "@components/flexibility/solution/SolutionPoint.tsx";
+import { getPlaneExtent, PlanePoint } from "@utils/graphicalUtils.ts";
+import { normalizeEquation, solveLinearSystem } from "@utils/solverUtils.ts";
+
+// Counterpart of the system solution for the graphical method, which shows the intersection of both lines instead of the computation
+export function GraphicalSolution({ initialSystem, firstVariable, secondVariable, popover, solution }: {
+    initialSystem: [FlexibilityEquationProps, FlexibilityEquationProps];
+    firstVariable: Variable;
+    secondVariable: Variable;
+    popover: ReactElement;
+    // All unknowns of a system that was reduced to two equations, in their order
+    solution?: Variable[];
+}): ReactElement {
+    const { t } = useTranslation(TranslationNamespaces.Flexibility);
+
+    const transformationIntroduction: TranslationInterpolation = FlexibilityTranslations.getInstructionForSolvingSystemPast(Method.Graphical);
+
+    return (
+        <React.Fragment>
+            <p>
+                <Trans ns={TranslationNamespaces.Flexibility} i18nKey={transformationIntroduction.translationKey} values={transformationIntroduction.interpolationVariables as object} />
+            </p>
+            <GraphicalResult initialSystem={initialSystem} firstVariable={firstVariable} secondVariable={secondVariable} />
+            <p>{t(FlexibilityTranslations.SYSTEM_RESULT)}</p>
+            <SolutionPoint factors={(solution ?? [firstVariable, secondVariable]).map((variable: Variable) => variable.value)} />
+            {popover}
+        </React.Fragment>
+    );
+}
+
+// Coordinate plane with both lines and their intersection, which cannot be moved anymore
+export function GraphicalResult({ initialSystem, firstVariable, secondVariable }: {
+    initialSystem: [FlexibilityEquationProps, FlexibilityEquationProps];
+    firstVariable: Variable;
+    secondVariable: Variable;
+}): ReactElement {
+    const intersection: PlanePoint = [math.fraction(firstVariable.value.value), math.fraction(secondVariable.value.value)];
+    const extent: number = getPlaneExtent(
+        initialSystem.map((equation: FlexibilityEquationProps) => normalizeEquation(equation, firstVariable.name, secondVariable.name)),
+        solveLinearSystem(initialSystem[0], initialSystem[1], firstVariable.name, secondVariable.name)
+    );
+
+    return <CoordinatePlane equations={initialSystem} firstVariable={firstVariable.name} secondVariable={secondVariable.name} extent={extent} point={intersection} />;
+}
+
+export function GraphicalExerciseEnd({ initialSystem, firstVariable, secondVariable, loadNextStep, agentType, solution }: {
+    initialSystem: [FlexibilityEquationProps, FlexibilityEquationProps];
+    firstVariable: Variable;
+    secondVariable: Variable;
+    loadNextStep: () => void;
+    agentType?: AgentType;
+    solution?: Variable[];
+}): ReactElement {
+    const popover: ReactElement = (
+        <FlexibilityPopover agentType={agentType} agentExpression={AgentExpression.Smiling}>
+            <ContinueMessage message={FlexibilityTranslations.SYSTEM_SOLUTION_SUCCESS_CONTINUE} loadNextStep={loadNextStep} />
+        </FlexibilityPopover>
+    );
+
+    return <GraphicalSolution initialSystem={initialSystem} firstVariable={firstVariable} secondVariable={secondVariable} popover={popover} solution={solution} />;
+}
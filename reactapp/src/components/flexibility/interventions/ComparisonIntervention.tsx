@@ -43,26 +43,6 @@ export function ComparisonIntervention({
     agentType?: AgentType;
     additionalMessage?: string;
 }): ReactElement {
-    const [showPrompt, setShowPrompt] = useState<boolean>(false);
-
-    const message: TranslationInterpolation = useMemo(() => {
-        return compareMethods ? FlexibilityTranslations.getComparisonPrompt(comparisonMethod) : FlexibilityTranslations.getResolvingPrompt(comparisonMethod);
-    }, [compareMethods, comparisonMethod]);
-
-    const continuePopover: ReactElement = (
-        <FlexibilityPopover agentType={agentType} agentExpression={AgentExpression.Smiling}>
-            <ContinueMessage message={FlexibilityTranslations.SYSTEM_SOLUTION_SUCCESS} loadNextStep={() => setShowPrompt(true)} />
-        </FlexibilityPopover>
-    );
-
-    const promptPopover: ReactElement = (
-        <Intervention handleYes={() => loadNextStep(true)} handleNo={() => loadNextStep(false)} agentType={agentType} agentExpression={AgentExpression.Smiling} additionalMessage={additionalMessage}>
-            <p className={"strong-primary"}>
-                <Trans ns={TranslationNamespaces.Flexibility} i18nKey={message.translationKey} values={message.interpolationVariables as object} />
-            </p>
-        </Intervention>
-    );
-
     return (
         <SystemSolution
             method={selectedMethod}
@@ -73,8 +53,39 @@ export function ComparisonIntervention({
             selectedEquation={selectedEquation}
             otherVariable={otherVariable}
             firstSolutionIsFirstVariable={firstSolutionIsFirstVariable}
-            popover={showPrompt ? promptPopover : continuePopover}
+            popover={<ComparisonPrompt loadNextStep={loadNextStep} compareMethods={compareMethods} comparisonMethod={comparisonMethod} agentType={agentType} additionalMessage={additionalMessage} />}
             substitutionInfo={substitutionInfo}
         />
     );
 }
+
+// Congratulates on the solution and then asks whether the student wants to compare the methods or solve the system again with a suitable method
+export function ComparisonPrompt({ loadNextStep, compareMethods, comparisonMethod, agentType, additionalMessage }: {
+    loadNextStep: (compliance: boolean) => void;
+    compareMethods: boolean;
+    comparisonMethod: Method;
+    agentType?: AgentType;
+    additionalMessage?: string;
+}): ReactElement {
+    const [showPrompt, setShowPrompt] = useState<boolean>(false);
+
+    const message: TranslationInterpolation = useMemo(() => {
+        return compareMethods ? FlexibilityTranslations.getComparisonPrompt(comparisonMethod) : FlexibilityTranslations.getResolvingPrompt(comparisonMethod);
+    }, [compareMethods, comparisonMethod]);
+
+    if (!showPrompt) {
+        return (
+            <FlexibilityPopover agentType={agentType} agentExpression={AgentExpression.Smiling}>
+                <ContinueMessage message={FlexibilityTranslations.SYSTEM_SOLUTION_SUCCESS} loadNextStep={() => setShowPrompt(true)} />
+            </FlexibilityPopover>
+        );
+    }
+
+    return (
+        <Intervention handleYes={() => loadNextStep(true)} handleNo={() => loadNextStep(false)} agentType={agentType} agentExpression={AgentExpression.Smiling} additionalMessage={additionalMessage}>
+            <p className={"strong-primary"}>
+                <Trans ns={TranslationNamespaces.Flexibility} i18nKey={message.translationKey} values={message.interpolationVariables as object} />
+            </p>
+        </Intervention>
+    );
+}
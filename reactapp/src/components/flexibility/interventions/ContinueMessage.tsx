@@ -5,12 +5,12 @@ import React from "react";
 import { useTranslation } from "react-i18next";
 import { GeneralTranslations } from "@/types/shared/generalTranslations.ts";
 
-export function ContinueMessage({ message, loadNextStep }: { message: string; loadNextStep: () => void }) {
+export function ContinueMessage({ message, values, loadNextStep }: { message: string; values?: Record<string, string>; loadNextStep: () => void }) {
     const { t } = useTranslation([TranslationNamespaces.Flexibility, TranslationNamespaces.General]);
 
     return (
         <React.Fragment>
-            <p>{t(message, { ns: TranslationNamespaces.Flexibility })}</p>
+            <p>{t(message, { ...values, ns: TranslationNamespaces.Flexibility })}</p>
             <button className={"button primary-button"} onClick={loadNextStep}>
                 {t(GeneralTranslations.BUTTON_CONTINUE, { ns: TranslationNamespaces.General })}
                 <FontAwesomeIcon icon={faArrowRight} />
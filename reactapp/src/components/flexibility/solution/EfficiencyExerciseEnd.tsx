@@ -19,7 +19,8 @@ export function EfficiencyExerciseEnd({
     firstSolutionIsFirstVariable,
     loadNextStep,
     substitutionInfo,
-    agentType
+    agentType,
+    solution
 }: {
     method: Method;
     initialSystem: [FlexibilityEquationProps, FlexibilityEquationProps];
@@ -32,6 +33,7 @@ export function EfficiencyExerciseEnd({
     loadNextStep: () => void;
     substitutionInfo?: SubstitutionParameters;
     agentType?: AgentType;
+    solution?: Variable[];
 }): ReactElement {
     const popover: ReactElement = (
         <FlexibilityPopover agentType={agentType} agentExpression={AgentExpression.Smiling}>
@@ -39,5 +41,5 @@ export function EfficiencyExerciseEnd({
         </FlexibilityPopover>
     );
 
-    return <SystemSolution method={method} initialSystem={initialSystem} transformedSystem={transformedSystem} applicationEquation={methodEquation} selectedEquation={selectedEquation} firstSolutionVariable={firstSolutionVar} otherVariable={otherVariable} firstSolutionIsFirstVariable={firstSolutionIsFirstVariable} popover={popover} substitutionInfo={substitutionInfo} />;
+    return <SystemSolution method={method} initialSystem={initialSystem} transformedSystem={transformedSystem} applicationEquation={methodEquation} selectedEquation={selectedEquation} firstSolutionVariable={firstSolutionVar} otherVariable={otherVariable} firstSolutionIsFirstVariable={firstSolutionIsFirstVariable} popover={popover} substitutionInfo={substitutionInfo} solution={solution} />;
 }
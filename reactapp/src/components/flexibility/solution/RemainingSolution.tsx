@@ -0,0 +1,56 @@
+import { TranslationNamespaces } from "@/i18n.ts";
+import React, { ReactElement } from "react";
+import { useTranslation } from "react-i18next";
+import { AgentType } from "@/types/flexibility/enums.ts";
+import { FlexibilityTranslations } from "@/types/flexibility/flexibilityTranslations.ts";
+import { SystemReduction } from "@/types/flexibility/systemReduction.ts";
+import { Variable } from "@/types/flexibility/variable.ts";
+import { FlexibilityEquation as FlexibilityEquationProps } from "@/types/math/linearEquation.ts";
+import { GameError, GameErrorType } from "@/types/shared/error.ts";
+import { VariableComputation } from "@components/flexibility/solution/VariableComputation.tsx";
+import { BackSubstitutionEquation } from "@components/math/procedural-knowledge/BackSubstitutionEquation.tsx";
+import { FlexibilityEquation } from "@components/math/procedural-knowledge/FlexibilityEquation.tsx";
+import { containsVariable, substituteVariable } from "@utils/systemReductionUtils.ts";
+import EquivalenceSymbol from "@images/flexibility/equivalenceThin.svg";
+
+// Computes an unknown that was eliminated when the system was reduced, by inserting the unknowns solved so far into an equation containing it
+export function RemainingSolution({ reduction, solvedVariables, loadNextStep, agentType, trackAction, trackError, trackChoice }: {
+    reduction: SystemReduction;
+    solvedVariables: Variable[];
+    loadNextStep: () => void;
+    agentType?: AgentType;
+    trackAction: (action: string) => void;
+    trackError: () => void;
+    trackChoice: (choice: string) => void;
+}): ReactElement {
+    const { t } = useTranslation(TranslationNamespaces.Flexibility);
+
+    const equation: FlexibilityEquationProps | undefined = reduction.system.find((entry: FlexibilityEquationProps) => containsVariable(entry, reduction.variable.name));
+    if (equation === undefined) {
+        throw new GameError(GameErrorType.GAME_LOGIC_ERROR);
+    }
+
+    // Each solved unknown is inserted separately, starting from the equation in which the previous ones have already been replaced by their values
+    const insertedVariables: Variable[] = solvedVariables.filter((variable: Variable) => containsVariable(equation, variable.name));
+    const substitutedEquations: FlexibilityEquationProps[] = insertedVariables.reduce(
+        (equations: FlexibilityEquationProps[], variable: Variable) => [...equations, substituteVariable(equations[equations.length - 1], variable)],
+        [equation]
+    );
+
+    return (
+        <React.Fragment>
+            <p>{t(FlexibilityTranslations.REMAINING_SOLUTION_INSTRUCTION, { variables: insertedVariables.map((variable: Variable) => variable.name).join(", "), variable: reduction.variable.name })}</p>
+            <div className={"substitution-result-equation"}>
+                <FlexibilityEquation equation={equation} classname={"flexibility-equation--light"} />
+                {insertedVariables.map((variable: Variable, index: number) => (
+                    <React.Fragment key={variable.name}>
+                        <img style={{ width: "1.75rem", height: "auto", marginTop: "0.125rem" }} src={EquivalenceSymbol} alt={"equivalent"} />
+                        <BackSubstitutionEquation initialEquation={substitutedEquations[index]} variable={variable} />
+                    </React.Fragment>
+                ))}
+            </div>
+            <VariableComputation key={reduction.variable.name} variable={reduction.variable} loadNextStep={loadNextStep} agentType={agentType}
+                                 trackAction={trackAction} trackError={trackError} trackChoice={trackChoice} isSecondSolution={true} />
+        </React.Fragment>
+    );
+}
@@ -5,7 +5,7 @@ import { math } from "@/types/math/math.ts";
 import { FlexibilityCoefficient } from "@components/math/procedural-knowledge/FlexibilityCoefficient.tsx";
 import { ParenthesisLeft, ParenthesisRight } from "@components/math/procedural-knowledge/SubstitutedEquation.tsx";
 
-export function SolutionPoint({ firstFactor, secondFactor }: { firstFactor: Coefficient; secondFactor: Coefficient }): ReactElement {
+export function SolutionPoint({ factors }: { factors: Coefficient[] }): ReactElement {
     const contentRef = useRef<HTMLDivElement>(null);
     useLayoutEffect(() => {
         if (contentRef.current !== null) {
@@ -13,30 +13,32 @@ export function SolutionPoint({ firstFactor, secondFactor }: { firstFactor: Coef
         }
     }, []);
 
-    const firstFraction: Fraction = math.fraction(firstFactor.value);
-    const secondFraction: Fraction = math.fraction(secondFactor.value);
+    const fractions: Fraction[] = factors.map((factor: Coefficient) => math.fraction(factor.value));
 
-    const largeParenthesis = firstFraction.d !== 1 || secondFraction.d !== 1;
+    const largeParenthesis = fractions.some((fraction: Fraction): boolean => fraction.d !== 1);
 
     return (
         <React.Fragment>
             <div className={"system-result"} ref={contentRef}>
-                <Point factor={firstFraction} isLeft={true} largeParenthesis={largeParenthesis} />
-                <p>,</p>
-                <Point factor={secondFraction} isLeft={false} largeParenthesis={largeParenthesis} />
+                {fractions.map((fraction: Fraction, index: number) => (
+                    <React.Fragment key={index}>
+                        {index > 0 && <p>,</p>}
+                        <Point factor={fraction} isLeft={index === 0} isRight={index === fractions.length - 1} largeParenthesis={largeParenthesis} />
+                    </React.Fragment>
+                ))}
             </div>
             <div style={{ minHeight: "9rem", minWidth: "1rem" }}></div>
         </React.Fragment>
     );
 }
 
-function Point({ factor, isLeft, largeParenthesis }: { factor: Fraction; isLeft: boolean; largeParenthesis: boolean }): ReactElement {
+function Point({ factor, isLeft, isRight, largeParenthesis }: { factor: Fraction; isLeft: boolean; isRight: boolean; largeParenthesis: boolean }): ReactElement {
     return (
         <React.Fragment>
             {isLeft && <ParenthesisLeft containsFraction={largeParenthesis} />}
             {factor.s < 0 && <p>-</p>}
             <FlexibilityCoefficient coefficient={factor} displayOne={true} />
-            {!isLeft && <ParenthesisRight containsFraction={largeParenthesis} />}
+            {isRight && <ParenthesisRight containsFraction={largeParenthesis} />}
         </React.Fragment>
     );
 }
@@ -0,0 +1,119 @@
+import { TranslationNamespaces } from "@/i18n.ts";
+import { Fraction } from "mathjs";
+import React, { ReactElement, useState } from "react";
+import { Trans, useTranslation } from "react-i18next";
+import { AgentExpression, AgentType, Method } from "@/types/flexibility/enums.ts";
+import { FlexibilityTranslations } from "@/types/flexibility/flexibilityTranslations.ts";
+import { SubstitutionParameters } from "@/types/flexibility/substitutionParameters.ts";
+import { SolutionType } from "@/types/math/enums.ts";
+import { FlexibilityEquation as FlexibilityEquationProps } from "@/types/math/linearEquation.ts";
+import { math } from "@/types/math/math.ts";
+import { FlexibilityTerm } from "@/types/math/term.ts";
+import { GameError, GameErrorType } from "@/types/shared/error.ts";
+import { TranslationInterpolation } from "@/types/shared/translationInterpolation.ts";
+import { ContinueMessage } from "@components/flexibility/interventions/ContinueMessage.tsx";
+import { ClosableFlexibilityPopover, FlexibilityPopover } from "@components/flexibility/interventions/FlexibilityPopover.tsx";
+import { TransformedSystem } from "@components/flexibility/system/TransformedSystem.tsx";
+import { FlexibilityEquation } from "@components/math/procedural-knowledge/FlexibilityEquation.tsx";
+import { DetermineSubstitutedEquation } from "@components/math/procedural-knowledge/SubstitutedEquation.tsx";
+import { classifyNormalizedEquation, normalizeSystemEquation } from "@utils/solverUtils.ts";
+import EquivalenceSymbol from "@images/flexibility/equivalence.svg";
+
+const CLASSIFICATION_OPTIONS: [SolutionType, string][] = [
+    [SolutionType.Unique, FlexibilityTranslations.CLASSIFICATION_UNIQUE],
+    [SolutionType.None, FlexibilityTranslations.CLASSIFICATION_NONE],
+    [SolutionType.Infinite, FlexibilityTranslations.CLASSIFICATION_INFINITE]
+];
+
+// Replaces the first solution if both unknowns vanished when applying the method, the student then has to tell how many solutions the system has
+export function SystemClassification(
+    {
+        method,
+        initialSystem,
+        transformedSystem,
+        methodEquation,
+        variables,
+        substitutionInfo,
+        loadNextStep,
+        agentType,
+        trackAction,
+        trackError,
+        trackChoice
+    }: {
+        method: Method;
+        initialSystem: [FlexibilityEquationProps, FlexibilityEquationProps];
+        transformedSystem?: [FlexibilityEquationProps, FlexibilityEquationProps];
+        methodEquation: FlexibilityEquationProps;
+        variables: string[];
+        substitutionInfo?: SubstitutionParameters;
+        loadNextStep: () => void;
+        agentType?: AgentType;
+        trackAction: (action: string) => void;
+        trackError: () => void;
+        trackChoice: (choice: string) => void;
+    }
+): ReactElement {
+    const { t } = useTranslation(TranslationNamespaces.Flexibility);
+
+    const [selectedType, setSelectedType] = useState<SolutionType>();
+
+    const normalizedEquation: Fraction[] = normalizeSystemEquation(methodEquation, variables);
+    const solutionType: SolutionType | undefined = classifyNormalizedEquation(normalizedEquation);
+    if (solutionType === undefined) {
+        throw new GameError(GameErrorType.GAME_LOGIC_ERROR);
+    }
+    const simplifiedEquation: FlexibilityEquationProps = new FlexibilityEquationProps([new FlexibilityTerm(math.fraction(0), null)], [new FlexibilityTerm(normalizedEquation[variables.length], null)]);
+
+    const transformationIntroduction: TranslationInterpolation = FlexibilityTranslations.getInstructionForSolvingSystemPast(method);
+
+    return (
+        <React.Fragment>
+            <p>
+                <Trans ns={TranslationNamespaces.Flexibility} i18nKey={transformationIntroduction.translationKey}
+                       values={transformationIntroduction.interpolationVariables as object} />
+            </p>
+            <TransformedSystem initialSystem={initialSystem} transformedSystem={transformedSystem} />
+            <p>{t(FlexibilityTranslations.CLASSIFICATION_INSTRUCTION)}</p>
+            <div className={"substitution-result-equation"}>
+                {substitutionInfo !== undefined && substitutionInfo.equationInfo !== undefined && (
+                    <React.Fragment>
+                        <DetermineSubstitutedEquation initialSystem={initialSystem} transformedSystem={transformedSystem} substitutionInfo={substitutionInfo} />
+                        <img style={{ width: "1.75rem", height: "auto", marginTop: "0.125rem" }} src={EquivalenceSymbol} alt={"equivalent"} />
+                    </React.Fragment>
+                )}
+                <FlexibilityEquation equation={methodEquation} classname={"flexibility-equation--light"} />
+                <img style={{ width: "1.75rem", height: "auto", marginTop: "0.125rem" }} src={EquivalenceSymbol} alt={"equivalent"} />
+                <FlexibilityEquation equation={simplifiedEquation} classname={"flexibility-equation--light"} />
+            </div>
+            <p>{t(FlexibilityTranslations.CLASSIFICATION_QUESTION)}</p>
+            <div className={"system-classification__options"}>
+                {CLASSIFICATION_OPTIONS.map(([option, label]: [SolutionType, string]) => (
+                    <button key={option} className={`button ${selectedType === option && option === solutionType ? "green-button" : "primary-button"}`}
+                            disabled={selectedType !== undefined} onClick={() => classify(option)}>
+                        {t(label)}
+                    </button>
+                ))}
+            </div>
+            {selectedType !== undefined && selectedType !== solutionType && (
+                <ClosableFlexibilityPopover setShowContent={() => setSelectedType(undefined)} agentType={agentType} agentExpression={AgentExpression.Thinking}>
+                    <p>{t(FlexibilityTranslations.CLASSIFICATION_ERROR)}</p>
+                </ClosableFlexibilityPopover>
+            )}
+            {selectedType === solutionType && (
+                <FlexibilityPopover agentType={agentType} agentExpression={AgentExpression.Smiling}>
+                    <ContinueMessage message={solutionType === SolutionType.None ? FlexibilityTranslations.CLASSIFICATION_RESULT_NONE : FlexibilityTranslations.CLASSIFICATION_RESULT_INFINITE}
+                                     loadNextStep={loadNextStep} />
+                </FlexibilityPopover>
+            )}
+        </React.Fragment>
+    );
+
+    function classify(option: SolutionType): void {
+        trackChoice(SolutionType[option]);
+        if (option !== solutionType) {
+            trackAction(`WRONG classification ${SolutionType[option]}`);
+            trackError();
+        }
+        setSelectedType(option);
+    }
+}
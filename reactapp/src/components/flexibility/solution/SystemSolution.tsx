@@ -25,7 +25,8 @@ export function SystemSolution({
     otherVariable,
     firstSolutionIsFirstVariable,
     popover,
-    substitutionInfo
+    substitutionInfo,
+    solution
 }: {
     method: Method;
     initialSystem: [FlexibilityEquationProps, FlexibilityEquationProps];
@@ -37,6 +38,8 @@ export function SystemSolution({
     firstSolutionIsFirstVariable: boolean;
     popover: ReactElement;
     substitutionInfo?: SubstitutionParameters;
+    // All unknowns of a system that was reduced to two equations, in their order
+    solution?: Variable[];
 }): ReactElement {
     const { t } = useTranslation([TranslationNamespaces.Flexibility, TranslationNamespaces.General]);
 
@@ -75,7 +78,7 @@ export function SystemSolution({
                 <VariableSolution variable={otherVariable} />
             </div>
             <p>{t(FlexibilityTranslations.SYSTEM_RESULT)}</p>
-            <SolutionPoint firstFactor={firstSolutionIsFirstVariable ? firstSolutionVariable.value : otherVariable.value} secondFactor={firstSolutionIsFirstVariable ? otherVariable.value : firstSolutionVariable.value} />
+            <SolutionPoint factors={solution !== undefined ? solution.map((variable: Variable) => variable.value) : firstSolutionIsFirstVariable ? [firstSolutionVariable.value, otherVariable.value] : [otherVariable.value, firstSolutionVariable.value]} />
             {popover}
         </React.Fragment>
     );
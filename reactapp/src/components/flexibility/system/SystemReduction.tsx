@@ -0,0 +1,149 @@
+import { TranslationNamespaces } from "@/i18n.ts";
+import { faMagnifyingGlass } from "@fortawesome/free-solid-svg-icons";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import React, { ReactElement, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { AgentExpression, AgentType, TransformationStepError } from "@/types/flexibility/enums.ts";
+import { FlexibilityTranslations } from "@/types/flexibility/flexibilityTranslations.ts";
+import { Variable } from "@/types/flexibility/variable.ts";
+import { FlexibilityEquation as FlexibilityEquationProps } from "@/types/math/linearEquation.ts";
+import { GeneralTranslations } from "@/types/shared/generalTranslations.ts";
+import { ContinueMessage } from "@components/flexibility/interventions/ContinueMessage.tsx";
+import { ClosableFlexibilityPopover, FlexibilityPopover } from "@components/flexibility/interventions/FlexibilityPopover.tsx";
+import { FlexibilityEquation } from "@components/math/procedural-knowledge/FlexibilityEquation.tsx";
+import { LinearSystem } from "@components/math/procedural-knowledge/LinearSystem.tsx";
+import { parseFlexibilityEquation } from "@utils/equationParser.ts";
+import { containsVariable, evaluateReduction, getReductionPairs, reduceEquations, reduceSystem } from "@utils/systemReductionUtils.ts";
+import { getTransformationStepErrorMessage } from "@utils/transformationStepUtils.ts";
+import EquivalenceSymbol from "@images/flexibility/equivalence.svg";
+
+// Failed attempts after which the combination of the current pair of equations can be shown
+const ATTEMPTS_BEFORE_SAMPLE_SOLUTION: number = 3;
+
+/**
+ * Lets the student eliminate one unknown from a system with more than two equations.
+ * Every equation containing the unknown is combined with the first one containing it, the student enters each resulting equation.
+ */
+export function SystemReduction({ system, variables, loadNextStep, agentType, trackAction, trackError }: {
+    system: FlexibilityEquationProps[];
+    variables: Variable[];
+    loadNextStep: (reducedSystem: FlexibilityEquationProps[], variable: Variable) => void;
+    agentType?: AgentType;
+    trackAction: (action: string) => void;
+    trackError: () => void;
+}): ReactElement {
+    const { t } = useTranslation([TranslationNamespaces.Flexibility, TranslationNamespaces.General]);
+
+    const [variable, setVariable] = useState<Variable>();
+    const [reducedEquations, setReducedEquations] = useState<FlexibilityEquationProps[]>([]);
+    const [input, setInput] = useState<string>("");
+    const [error, setError] = useState<TransformationStepError>();
+    const [attempts, setAttempts] = useState<number>(0);
+
+    const variableNames: string[] = variables.map((entry: Variable) => entry.name);
+    const pairs: [number, number][] = variable !== undefined ? getReductionPairs(system, variable.name) : [];
+    const currentPair: [number, number] | undefined = pairs[reducedEquations.length];
+
+    return (
+        <React.Fragment>
+            <p>{t(FlexibilityTranslations.REDUCTION_INTRODUCTION, { count: system.length })}</p>
+            <LinearSystem firstEquation={system[0]} secondEquation={system[1]} additionalEquations={system.slice(2)} />
+            <div className={"system-reduction__variables"}>
+                {variables
+                    .filter((entry: Variable) => system.some((equation: FlexibilityEquationProps) => containsVariable(equation, entry.name)))
+                    .map((entry: Variable) => (
+                        <button key={entry.name} className={`button ${variable === entry ? "green-button" : "primary-button"}`} disabled={variable !== undefined}
+                                onClick={() => {
+                                    trackAction(`ELIMINATE ${entry.name}`);
+                                    setVariable(entry);
+                                }}>
+                            {entry.name}
+                        </button>
+                    ))}
+            </div>
+            {variable !== undefined && (
+                <div className={"transformation-steps"}>
+                    {reducedEquations.map((equation: FlexibilityEquationProps, index: number) => (
+                        <div key={index} className={"transformation-steps__step"}>
+                            <p>{`${pairs[index][0] + 1}. & ${pairs[index][1] + 1}.`}</p>
+                            <img src={EquivalenceSymbol} alt={"equivalent"} />
+                            <FlexibilityEquation equation={equation} />
+                        </div>
+                    ))}
+                    {currentPair !== undefined && (
+                        <React.Fragment>
+                            <p>{t(FlexibilityTranslations.REDUCTION_INSTRUCTION, { first: currentPair[0] + 1, second: currentPair[1] + 1, variable: variable.name })}</p>
+                            <div className={"transformation-steps__step"}>
+                                <p>{`${currentPair[0] + 1}. & ${currentPair[1] + 1}.`}</p>
+                                <img src={EquivalenceSymbol} alt={"equivalent"} />
+                                <input autoFocus className={`transformation-steps__input ${error !== undefined ? "error" : ""}`} value={input} maxLength={40}
+                                       onChange={(event: React.ChangeEvent<HTMLInputElement>) => setInput(event.target.value)}
+                                       onKeyDown={(event: React.KeyboardEvent<HTMLInputElement>) => event.key === "Enter" && input !== "" && evaluateStep()} />
+                                <button className={"button primary-button"} onClick={evaluateStep} disabled={input === "" || error !== undefined}>
+                                    {t(GeneralTranslations.BUTTON_VERIFY_ANSWER, { ns: TranslationNamespaces.General })}
+                                    <FontAwesomeIcon icon={faMagnifyingGlass} />
+                                </button>
+                            </div>
+                        </React.Fragment>
+                    )}
+                </div>
+            )}
+            {error !== undefined && (
+                <ClosableFlexibilityPopover setShowContent={() => setError(undefined)} agentType={agentType} agentExpression={AgentExpression.Thinking}>
+                    <p>{t(getTransformationStepErrorMessage(error), { variable: variable?.name })}</p>
+                </ClosableFlexibilityPopover>
+            )}
+            {error === undefined && currentPair !== undefined && attempts >= ATTEMPTS_BEFORE_SAMPLE_SOLUTION && (
+                <FlexibilityPopover agentType={agentType} agentExpression={AgentExpression.Thinking}>
+                    <React.Fragment>
+                        <p>{t(FlexibilityTranslations.REDUCTION_SAMPLE_SOLUTION)}</p>
+                        <button className={"button primary-button"} onClick={showSampleSolution}>
+                            <FontAwesomeIcon icon={faMagnifyingGlass} />
+                            {t(GeneralTranslations.BUTTON_SHOW, { ns: TranslationNamespaces.General })}
+                        </button>
+                    </React.Fragment>
+                </FlexibilityPopover>
+            )}
+            {variable !== undefined && currentPair === undefined && (
+                <FlexibilityPopover agentType={agentType} agentExpression={AgentExpression.Smiling}>
+                    <ContinueMessage message={FlexibilityTranslations.REDUCTION_CONTINUE} values={{ variable: variable.name }}
+                                     loadNextStep={() => loadNextStep(reduceSystem(system, variable.name, reducedEquations), variable)} />
+                </FlexibilityPopover>
+            )}
+        </React.Fragment>
+    );
+
+    function evaluateStep(): void {
+        if (variable === undefined || currentPair === undefined) {
+            return;
+        }
+
+        const step: FlexibilityEquationProps | undefined = parseFlexibilityEquation(input, variableNames);
+        const stepError: TransformationStepError | undefined =
+            step !== undefined ? evaluateReduction(system[currentPair[0]], system[currentPair[1]], step, variableNames, variable.name) : TransformationStepError.InvalidInput;
+        if (step === undefined || stepError !== undefined) {
+            trackAction(`WRONG reduction ${input}, ${TransformationStepError[stepError as TransformationStepError]}`);
+            trackError();
+            setAttempts((previousAttempts: number) => previousAttempts + 1);
+            setError(stepError);
+            return;
+        }
+
+        trackAction(`VALID reduction ${input}`);
+        addReducedEquation(step);
+    }
+
+    function showSampleSolution(): void {
+        if (variable === undefined || currentPair === undefined) {
+            return;
+        }
+        trackAction("SAMPLE reduction");
+        addReducedEquation(reduceEquations(system[currentPair[0]], system[currentPair[1]], variableNames, variable.name));
+    }
+
+    function addReducedEquation(equation: FlexibilityEquationProps): void {
+        setReducedEquations([...reducedEquations, equation]);
+        setInput("");
+        setAttempts(0);
+    }
+}
@@ -12,9 +12,18 @@ import { GameError, GameErrorType } from "@/types/shared/error.ts";
 import { TranslationInterpolation } from "@/types/shared/translationInterpolation.ts";
 import { FlexibilityHint } from "@components/flexibility/interventions/FlexibilityHint.tsx";
 import { ClosableFlexibilityPopover } from "@components/flexibility/interventions/FlexibilityPopover.tsx";
+import { TransformationStepInput } from "@components/flexibility/system/TransformationStepInput.tsx";
 import { LinearSystem, LinearSystemWithActions } from "@components/math/procedural-knowledge/LinearSystem.tsx";
+import Switch from "@components/shared/Switch.tsx";
 import EquivalenceSymbol from "@images/flexibility/equivalence.svg";
 
+// Transformation the student is working out step by step, which is applied once the variable is isolated
+interface StepTransformation {
+    readonly equation: FlexibilityEquation;
+    readonly isolatedIn: IsolatedIn.First | IsolatedIn.Second;
+    readonly applyTransformation: () => void;
+}
+
 export function SystemTransformation({
                                          firstEquation,
                                          secondEquation,
@@ -45,6 +54,8 @@ export function SystemTransformation({
     const [isolatedVariables, setIsolatedVariables] = useState<[IsolatedIn, IsolatedIn]>(initialIsolatedVariables);
     const [feedback, setFeedback] = useState<string>();
     const [showFeedback, setShowFeedback] = useState<boolean>(false);
+    const [writeSteps, setWriteSteps] = useState<boolean>(false);
+    const [stepTransformation, setStepTransformation] = useState<StepTransformation>();
 
     const exerciseInstruction: TranslationInterpolation = useMemo(() => FlexibilityTranslations.getInstructionForSolvingSystem(method), [method]);
     const transformationInstruction: TranslationInterpolation = useMemo(() => FlexibilityTranslations.getInstructionForSystemTransformation(method), [method]);
@@ -57,14 +68,36 @@ export function SystemTransformation({
                 return FlexibilityTranslations.SUBSTITUTION_NOT_EFFICIENT;
             case Method.Elimination:
                 return FlexibilityTranslations.ELIMINATION_NOT_EFFICIENT;
+            case Method.Graphical:
+                return FlexibilityTranslations.GRAPHICAL_NOT_EFFICIENT;
         }
     }, [method]);
 
+    const startStepInput = writeSteps
+        ? (equation: FlexibilityEquation, isolatedIn: IsolatedIn.First | IsolatedIn.Second, applyTransformation: () => void): void => setStepTransformation({ equation, isolatedIn, applyTransformation })
+        : undefined;
+
     let content: ReactElement;
-    if (transformedSystem === undefined) {
+    if (stepTransformation !== undefined) {
+        content = (
+            <TransformationStepInput
+                equation={stepTransformation.equation}
+                isolatedIn={stepTransformation.isolatedIn}
+                firstVariable={firstVariable}
+                secondVariable={secondVariable}
+                handleIsolated={() => {
+                    stepTransformation.applyTransformation();
+                    setStepTransformation(undefined);
+                }}
+                agentType={agentType}
+                trackAction={trackAction}
+                trackError={trackError}
+            />
+        );
+    } else if (transformedSystem === undefined) {
         content = <TransformableSystem firstEquation={firstEquation} secondEquation={secondEquation} firstVariable={firstVariable} secondVariable={secondVariable}
                                        setTransformedSystem={setTransformedSystem} isolatedVariables={isolatedVariables} setIsolatedVariables={setIsolatedVariables}
-                                       transformationInfo={transformationInfo} setTransformationInfo={setTransformationInfo} trackAction={trackAction}
+                                       transformationInfo={transformationInfo} setTransformationInfo={setTransformationInfo} trackAction={trackAction} startStepInput={startStepInput}
         />;
     } else {
         content = (
@@ -82,6 +115,7 @@ export function SystemTransformation({
                     transformationInfo={transformationInfo}
                     setTransformationInfo={setTransformationInfo}
                     trackAction={trackAction}
+                    startStepInput={startStepInput}
                 />
             </div>
         );
@@ -93,6 +127,13 @@ export function SystemTransformation({
                 <Trans ns={TranslationNamespaces.Flexibility} i18nKey={exerciseInstruction.translationKey}
                        values={exerciseInstruction.interpolationVariables as object} />
             </p>
+            <Switch id={"switch-write-steps"} label={t(FlexibilityTranslations.SWITCH_WRITE_STEPS)} checked={writeSteps} disabled={false} trackAction={trackAction} actionLabel={"step input"}
+                    setChecked={(value: React.SetStateAction<boolean>): void => {
+                        // Leaving the step mode returns to the one-click transformations
+                        setWriteSteps(value);
+                        setStepTransformation(undefined);
+                    }}
+            />
             {content}
             <p>
                 <Trans ns={TranslationNamespaces.Flexibility} i18nKey={transformationInstruction.translationKey}
@@ -231,7 +272,8 @@ function TransformableSystem({
                                  transformationInfo,
                                  setTransformationInfo,
                                  isTransformed = false,
-                                 trackAction
+                                 trackAction,
+                                 startStepInput
                              }: {
     firstEquation: FlexibilityEquation;
     secondEquation: FlexibilityEquation;
@@ -244,6 +286,7 @@ function TransformableSystem({
     setTransformationInfo: (value: React.SetStateAction<[IsolatedIn, IsolatedIn]>) => void;
     isTransformed?: boolean;
     trackAction: (action: string) => void;
+    startStepInput?: (equation: FlexibilityEquation, isolatedIn: IsolatedIn.First | IsolatedIn.Second, applyTransformation: () => void) => void;
 }) {
     const { t } = useTranslation(TranslationNamespaces.Flexibility);
 
@@ -257,13 +300,7 @@ function TransformableSystem({
             {firstEqIsTransformableInFirstVar && (
                 <button
                     className={"button transparent-button"}
-                    onClick={() => {
-                        trackAction("transform FIRST eq in FIRST var");
-                        const transformedEquation: FlexibilityEquation = computeTransformedEquation(firstEquation, firstVariable);
-                        setTransformedSystem([transformedEquation, secondEquation]);
-                        setIsolatedVariables([IsolatedIn.First, isolatedVariables[1]]);
-                        setTransformationInfo([IsolatedIn.First, transformationInfo[1]]);
-                    }}
+                    onClick={() => transform(true, IsolatedIn.First)}
                 >
                     {t(FlexibilityTranslations.BUTTON_SOLVE_X)}
                 </button>
@@ -271,13 +308,7 @@ function TransformableSystem({
             {firstEqIsTransformableInSecondVar && (
                 <button
                     className={"button transparent-button"}
-                    onClick={() => {
-                        trackAction("transform FIRST eq in SECOND var");
-                        const transformedEquation: FlexibilityEquation = computeTransformedEquation(firstEquation, secondVariable);
-                        setTransformedSystem([transformedEquation, secondEquation]);
-                        setIsolatedVariables([IsolatedIn.Second, isolatedVariables[1]]);
-                        setTransformationInfo([IsolatedIn.Second, transformationInfo[1]]);
-                    }}
+                    onClick={() => transform(true, IsolatedIn.Second)}
                 >
                     {t(FlexibilityTranslations.BUTTON_SOLVE_Y)}
                 </button>
@@ -290,13 +321,7 @@ function TransformableSystem({
             {secondEqIsTransformableInFirstVar && (
                 <button
                     className={"button transparent-button"}
-                    onClick={() => {
-                        trackAction("transform SECOND eq in FIRST var");
-                        const transformedEquation: FlexibilityEquation = computeTransformedEquation(secondEquation, firstVariable);
-                        setTransformedSystem([firstEquation, transformedEquation]);
-                        setIsolatedVariables([isolatedVariables[0], IsolatedIn.First]);
-                        setTransformationInfo([transformationInfo[0], IsolatedIn.First]);
-                    }}
+                    onClick={() => transform(false, IsolatedIn.First)}
                 >
                     {t(FlexibilityTranslations.BUTTON_SOLVE_X)}
                 </button>
@@ -304,13 +329,7 @@ function TransformableSystem({
             {secondEqIsTransformableInSecondVar && (
                 <button
                     className={"button transparent-button"}
-                    onClick={() => {
-                        trackAction("transform SECOND eq in SECOND var");
-                        const transformedEquation: FlexibilityEquation = computeTransformedEquation(secondEquation, secondVariable);
-                        setTransformedSystem([firstEquation, transformedEquation]);
-                        setIsolatedVariables([isolatedVariables[0], IsolatedIn.Second]);
-                        setTransformationInfo([transformationInfo[0], IsolatedIn.Second]);
-                    }}
+                    onClick={() => transform(false, IsolatedIn.Second)}
                 >
                     {t(FlexibilityTranslations.BUTTON_SOLVE_Y)}
                 </button>
@@ -324,6 +343,24 @@ function TransformableSystem({
             <LinearSystemWithActions firstEquation={firstEquation} secondEquation={secondEquation} firstAction={firstOptions} secondAction={secondOptions} />
         </div>
     );
+
+    // In the step mode, the transformation is only applied once the student has isolated the variable by themselves
+    function transform(isFirstEquation: boolean, isolatedIn: IsolatedIn.First | IsolatedIn.Second): void {
+        trackAction(`transform ${isFirstEquation ? "FIRST" : "SECOND"} eq in ${isolatedIn === IsolatedIn.First ? "FIRST" : "SECOND"} var`);
+        const equation: FlexibilityEquation = isFirstEquation ? firstEquation : secondEquation;
+        const applyTransformation = (): void => {
+            const transformedEquation: FlexibilityEquation = computeTransformedEquation(equation, isolatedIn === IsolatedIn.First ? firstVariable : secondVariable);
+            setTransformedSystem(isFirstEquation ? [transformedEquation, secondEquation] : [firstEquation, transformedEquation]);
+            setIsolatedVariables(isFirstEquation ? [isolatedIn, isolatedVariables[1]] : [isolatedVariables[0], isolatedIn]);
+            setTransformationInfo(isFirstEquation ? [isolatedIn, transformationInfo[1]] : [transformationInfo[0], isolatedIn]);
+        };
+
+        if (startStepInput !== undefined) {
+            startStepInput(equation, isolatedIn, applyTransformation);
+        } else {
+            applyTransformation();
+        }
+    }
 }
 
 function isTransformable(isolatedIn: IsolatedIn): boolean {
@@ -0,0 +1,88 @@
+import { TranslationNamespaces } from "@/i18n.ts";
+import { faMagnifyingGlass } from "@fortawesome/free-solid-svg-icons";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import React, { ReactElement, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { AgentExpression, AgentType, IsolatedIn, TransformationStepError } from "@/types/flexibility/enums.ts";
+import { FlexibilityTranslations } from "@/types/flexibility/flexibilityTranslations.ts";
+import { Variable } from "@/types/flexibility/variable.ts";
+import { FlexibilityEquation as FlexibilityEquationProps } from "@/types/math/linearEquation.ts";
+import { GeneralTranslations } from "@/types/shared/generalTranslations.ts";
+import { ClosableFlexibilityPopover } from "@components/flexibility/interventions/FlexibilityPopover.tsx";
+import { FlexibilityEquation } from "@components/math/procedural-knowledge/FlexibilityEquation.tsx";
+import { parseFlexibilityEquation } from "@utils/equationParser.ts";
+import { evaluateTransformationStep, getTransformationStepErrorMessage, isVariableIsolated } from "@utils/transformationStepUtils.ts";
+import EquivalenceSymbol from "@images/flexibility/equivalence.svg";
+
+// Lets the student isolate a variable by typing every intermediate equation, each of which has to be equivalent to the previous one
+export function TransformationStepInput({ equation, isolatedIn, firstVariable, secondVariable, handleIsolated, agentType, trackAction, trackError }: {
+    equation: FlexibilityEquationProps;
+    isolatedIn: IsolatedIn.First | IsolatedIn.Second;
+    firstVariable: Variable;
+    secondVariable: Variable;
+    handleIsolated: () => void;
+    agentType?: AgentType;
+    trackAction: (action: string) => void;
+    trackError: () => void;
+}): ReactElement {
+    const { t } = useTranslation(TranslationNamespaces.Flexibility);
+
+    const [steps, setSteps] = useState<FlexibilityEquationProps[]>([equation]);
+    const [input, setInput] = useState<string>("");
+    const [error, setError] = useState<TransformationStepError>();
+
+    return (
+        <React.Fragment>
+            <p>{t(FlexibilityTranslations.STEP_INPUT_INSTRUCTION, { variable: isolatedIn === IsolatedIn.First ? firstVariable.name : secondVariable.name })}</p>
+            <div className={"transformation-steps"}>
+                {steps.map((step: FlexibilityEquationProps, index: number) => (
+                    <div key={index} className={"transformation-steps__step"}>
+                        {index > 0 && <img src={EquivalenceSymbol} alt={"equivalent"} />}
+                        <FlexibilityEquation equation={step} />
+                    </div>
+                ))}
+                <div className={"transformation-steps__step"}>
+                    <img src={EquivalenceSymbol} alt={"equivalent"} />
+                    <input autoFocus className={`transformation-steps__input ${error !== undefined ? "error" : ""}`} value={input} maxLength={40}
+                           onChange={(event: React.ChangeEvent<HTMLInputElement>) => setInput(event.target.value)}
+                           onKeyDown={(event: React.KeyboardEvent<HTMLInputElement>) => event.key === "Enter" && input !== "" && evaluateStep()} />
+                    <button className={"button primary-button"} onClick={evaluateStep} disabled={input === "" || error !== undefined}>
+                        {t(GeneralTranslations.BUTTON_VERIFY_ANSWER, { ns: TranslationNamespaces.General })}
+                        <FontAwesomeIcon icon={faMagnifyingGlass} />
+                    </button>
+                </div>
+            </div>
+            {error !== undefined && (
+                <ClosableFlexibilityPopover setShowContent={() => setError(undefined)} agentType={agentType} agentExpression={AgentExpression.Thinking}>
+                    <p>{t(getTransformationStepErrorMessage(error))}</p>
+                </ClosableFlexibilityPopover>
+            )}
+        </React.Fragment>
+    );
+
+    function evaluateStep(): void {
+        const step: FlexibilityEquationProps | undefined = parseFlexibilityEquation(input, [firstVariable.name, secondVariable.name]);
+        if (step === undefined) {
+            trackAction(`INVALID step ${input}`);
+            setError(TransformationStepError.InvalidInput);
+            return;
+        }
+
+        const stepError: TransformationStepError | undefined = evaluateTransformationStep(steps[steps.length - 1], step, firstVariable.name, secondVariable.name);
+        if (stepError !== undefined) {
+            trackAction(`WRONG step ${input}, ${TransformationStepError[stepError]}`);
+            trackError();
+            setError(stepError);
+            return;
+        }
+
+        setInput("");
+        if (isVariableIsolated(step, isolatedIn, firstVariable.name, secondVariable.name)) {
+            trackAction(`VALID step ${input},\nSUCCESS`);
+            handleIsolated();
+        } else {
+            trackAction(`VALID step ${input}`);
+            setSteps([...steps, step]);
+        }
+    }
+}
@@ -3,20 +3,19 @@ import { FlexibilityEquation as FlexibilityEquationProps } from "@/types/math/li
 import { FlexibilityEquation } from "@components/math/procedural-knowledge/FlexibilityEquation.tsx";
 import { countElementsInTerm } from "@utils/utils.ts";
 
-export function LinearSystem({ firstEquation, secondEquation, systemStyle }: { firstEquation: FlexibilityEquationProps; secondEquation: FlexibilityEquationProps; systemStyle?: CSSProperties}): ReactElement {
-    const leftCount: number = Math.max(countElementsInTerm(firstEquation.leftTerms), countElementsInTerm(secondEquation.leftTerms), 1) * 1.125;
-    const rightCount: number = Math.max(countElementsInTerm(firstEquation.rightTerms), countElementsInTerm(secondEquation.rightTerms), 1) * 1.125;
+export function LinearSystem({ firstEquation, secondEquation, additionalEquations = [], systemStyle }: { firstEquation: FlexibilityEquationProps; secondEquation: FlexibilityEquationProps; additionalEquations?: FlexibilityEquationProps[]; systemStyle?: CSSProperties}): ReactElement {
+    const equations: FlexibilityEquationProps[] = [firstEquation, secondEquation, ...additionalEquations];
+    const leftCount: number = Math.max(...equations.map((equation: FlexibilityEquationProps) => countElementsInTerm(equation.leftTerms)), 1) * 1.125;
+    const rightCount: number = Math.max(...equations.map((equation: FlexibilityEquationProps) => countElementsInTerm(equation.rightTerms)), 1) * 1.125;
 
     return (
         <div className={"linear-system"} style={systemStyle}>
-            <div className={"numbered-equation"}>
-                <p>1.</p>
-                <FlexibilityEquation equation={firstEquation} minLeftWidth={leftCount} minRightWidth={rightCount} />
-            </div>
-            <div className={"numbered-equation"}>
-                <p>2.</p>
-                <FlexibilityEquation equation={secondEquation} minLeftWidth={leftCount} minRightWidth={rightCount} />
-            </div>
+            {equations.map((equation: FlexibilityEquationProps, index: number) => (
+                <div key={index} className={"numbered-equation"}>
+                    <p>{index + 1}.</p>
+                    <FlexibilityEquation equation={equation} minLeftWidth={leftCount} minRightWidth={rightCount} />
+                </div>
+            ))}
         </div>
     );
 }
@@ -71,6 +71,27 @@ export function ContinueWithNextExerciseOverlay({ currentExercise, exercises, ro
     }
 }
 
+export function ContinueWithNewExerciseOverlay({ routeToReturn, loadNewExercise }: { routeToReturn: string; loadNewExercise: () => void }): ReactElement {
+    const { t } = useTranslation(TranslationNamespaces.General);
+    const navigate = useNavigate();
+
+    return (
+        <ExerciseOverlay>
+            <p>{t(GeneralTranslations.LOAD_NEXT_INSTR)}</p>
+            <div className={"exercise-overlay__buttons"}>
+                <button className={"button primary-button"} onClick={() => navigate(routeToReturn)}>
+                    <FontAwesomeIcon icon={faArrowLeft} />
+                    {t(GeneralTranslations.BUTTON_RETURN)}
+                </button>
+                <button className={"button primary-button"} onClick={loadNewExercise}>
+                    {t(GeneralTranslations.BUTTON_NEXT)}
+                    <FontAwesomeIcon icon={faArrowRight} />
+                </button>
+            </div>
+        </ExerciseOverlay>
+    );
+}
+
 export function ExitExerciseOverlay({ returnToHome, routeToReturn, closeOverlay }: { returnToHome: boolean; routeToReturn: string; closeOverlay: () => void }): ReactElement {
     const { t } = useTranslation(TranslationNamespaces.General);
     const navigate = useNavigate();
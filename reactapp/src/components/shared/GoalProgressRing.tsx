@@ -0,0 +1,50 @@
+import { TranslationNamespaces } from "@/i18n.ts";
+import { ReactElement } from "react";
+import { useTranslation } from "react-i18next";
+import { ExerciseModule } from "@/types/shared/exerciseOutcome.ts";
+import { GeneralTranslations } from "@/types/shared/generalTranslations.ts";
+import { GoalConditionType, GoalDefinition, GoalProgress } from "@/types/shared/goals.ts";
+import { SessionState } from "@/types/shared/session.ts";
+import { getGoalValue, isProgressOfOtherSession } from "@utils/goalEngine.ts";
+import useSessionState from "@hooks/useSessionState.ts";
+import "@styles/shared/goal-ring.scss";
+
+const RADIUS: number = 45;
+const CIRCUMFERENCE: number = 2 * Math.PI * RADIUS;
+const MINUTE: number = 60000; // Milliseconds
+
+/**
+ * Shows the progress of a time or session goal as a ring that fills up while the session clock is running.
+ * Time goals count down the practice time that is left, session goals show the solved exercises and the time of the session.
+ */
+export default function GoalProgressRing({ goal, progress, method }: { goal: GoalDefinition; progress: GoalProgress; method?: ExerciseModule }): ReactElement {
+    const { t } = useTranslation(TranslationNamespaces.General);
+    const session: SessionState = useSessionState();
+
+    const isTimeGoal: boolean = goal.condition === GoalConditionType.PracticeTime;
+    const total: number = isTimeGoal ? goal.threshold * MINUTE : goal.threshold;
+    const sessionValue: number = isProgressOfOtherSession(goal, progress, session.sessionId) ? 0 : getGoalValue(goal, progress, method);
+    const value: number = progress.completed ? total : Math.min(total, isTimeGoal ? session.dayActiveTime : sessionValue);
+
+    return (
+        <div className={`goal-ring ${progress.completed ? "goal-ring--completed" : ""}`}>
+            <div className={"goal-ring__chart"}>
+                <svg viewBox={"0 0 100 100"}>
+                    <circle className={"goal-ring__track"} cx={50} cy={50} r={RADIUS} strokeWidth={8} />
+                    <circle className={"goal-ring__progress"} cx={50} cy={50} r={RADIUS} strokeWidth={8} strokeDasharray={CIRCUMFERENCE} strokeDashoffset={CIRCUMFERENCE * (1 - value / total)} />
+                </svg>
+                <p className={"goal-ring__value"}>{isTimeGoal ? formatDuration(total - value) : `${value}/${total}`}</p>
+            </div>
+            <p>
+                {isTimeGoal
+                    ? t(progress.completed ? GeneralTranslations.GOAL_TIME_COMPLETED : GeneralTranslations.GOAL_TIME_REMAINING)
+                    : t(GeneralTranslations.GOAL_SESSION_TIME, { time: formatDuration(session.activeTime) })}
+            </p>
+        </div>
+    );
+}
+
+function formatDuration(time: number): string {
+    const seconds: number = Math.floor(time / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
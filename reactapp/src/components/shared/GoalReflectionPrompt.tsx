@@ -0,0 +1,39 @@
+import { TranslationNamespaces } from "@/i18n.ts";
+import { ReactElement, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { GeneralTranslations } from "@/types/shared/generalTranslations.ts";
+import { GoalDifficulty } from "@/types/shared/goals.ts";
+import { saveGoalReflection } from "@utils/goalStore.ts";
+import "@styles/views/goal-history.scss";
+
+const DIFFICULTIES: GoalDifficulty[] = [GoalDifficulty.TooEasy, GoalDifficulty.JustRight, GoalDifficulty.TooHard];
+
+// Asks the student how the completed goal felt, the answer is stored with the goal and shown in the goal history
+export default function GoalReflectionPrompt(): ReactElement {
+    const { t } = useTranslation(TranslationNamespaces.General);
+    const [difficulty, setDifficulty] = useState<GoalDifficulty | undefined>(undefined);
+    const [note, setNote] = useState<string>("");
+
+    return (
+        <div className={"goal-reflection"}>
+            <p>{t(GeneralTranslations.REFLECTION_PROMPT)}</p>
+            <div className={"goal-reflection__options"}>
+                {DIFFICULTIES.map((option: GoalDifficulty) => (
+                    <button key={option} className={`button ${option === difficulty ? "primary-button" : "dark-button"}`} onClick={() => setDifficulty(option)}>
+                        {t(GeneralTranslations.getReflectionTranslation(option))}
+                    </button>
+                ))}
+            </div>
+            <textarea placeholder={t(GeneralTranslations.REFLECTION_NOTE)} value={note} onChange={(event) => setNote(event.target.value)} />
+            <button className={"button primary-button"} disabled={difficulty === undefined}
+                    onClick={(): void => {
+                        if (difficulty !== undefined) {
+                            saveGoalReflection({ difficulty, note: note.trim(), timestamp: Date.now() });
+                        }
+                    }}
+            >
+                {t(GeneralTranslations.BUTTON_SAVE)}
+            </button>
+        </div>
+    );
+}
@@ -1,3 +1,4 @@
+import { useAuth } from "@/contexts/AuthProvider.tsx";
 import { TranslationNamespaces } from "@/i18n.ts";
 import { faChevronRight }       from "@fortawesome/free-solid-svg-icons";
 import { FontAwesomeIcon }       from "@fortawesome/react-fontawesome";
@@ -9,34 +10,49 @@ import React, {
   useEffect,
 } from "react";
 import { useTranslation }        from "react-i18next";
+import { useNavigate }           from "react-router-dom";
 import { GeneralTranslations }   from "@/types/shared/generalTranslations.ts";
 import Logo                      from "@images/home/logo320.png";
+import GoalCompletedIcon         from "@images/badges/goal-completed.svg";
+import GoalRedirectIcon          from "@images/badges/goal-redirect.svg";
 import "@styles/shared/navigation.scss";
 
-import { getCompletedCKExercises } from "@utils/storageUtils.ts";
-import { getCompletedPKExercises } from "@utils/storageUtils.ts";
-
-const TOTAL_EQUALIZATION = 11;
-const TOTAL_SUBSTITUTION  = 16;
-const TOTAL_ELIMINATION   = 11;
-const TOTAL_FLEXIBILITY   = 14;
-
-// --- Cookie utility functions ---
-function getCookie(name: string): string | null {
-  const cookieString = document.cookie || "";
-  const parts       = cookieString.split("; ");
-  for (const part of parts) {
-    const [key, ...vals] = part.split("=");
-    if (key === name) {
-      return decodeURIComponent(vals.join("="));
-    }
-  }
-  return null;
+import { subscribeToExerciseOutcomes } from "@utils/exerciseOutcomes.ts";
+import { ExerciseOutcome } from "@/types/shared/exerciseOutcome.ts";
+import { GoalAdjustmentRequest, GoalConditionType, GoalDefinition, GoalRecommendation } from "@/types/shared/goals.ts";
+import { LevelProgress, ModuleProgress } from "@/types/shared/progress.ts";
+import { GOAL_CATALOG, GOAL_METHODS, getGoalDefinition } from "@utils/goalCatalog.ts";
+import { getGoalModules } from "@utils/goalEngine.ts";
+import { applyGoalAssignment, changeGoalMethod, getGoalStore, recordGoalOutcome, recordPracticeTime, recordQuestionEncountered, restartActiveGoal, setActiveGoal } from "@utils/goalStore.ts";
+import { subscribeToGoalAdjustments } from "@utils/goalAdjustment.ts";
+import { recommendGoal } from "@utils/goalRecommender.ts";
+import { getAssignedGoal } from "@utils/goalAssignment.ts";
+import { subscribeToSessionClock } from "@utils/sessionClock.ts";
+import { subscribeToExerciseCompletions } from "@utils/storageUtils.ts";
+import { getBadgeStore, recordBadgeGoals, recordBadgeOutcome } from "@utils/badgeStore.ts";
+import useGoalStore from "@hooks/useGoalStore.ts";
+import useModuleProgress from "@hooks/useModuleProgress.ts";
+import GoalReflectionPrompt from "@components/shared/GoalReflectionPrompt.tsx";
+import GoalProgressRing from "@components/shared/GoalProgressRing.tsx";
+import BadgeShelf from "@components/views/BadgeShelf.tsx";
+import { Paths } from "@routes/paths.ts";
+
+// --- Goal helpers ---
+function isMethodInScope(goal: GoalDefinition, methodIndex: number): boolean {
+  const module = GOAL_METHODS[methodIndex];
+  return module === undefined || getGoalModules(goal).includes(module);
 }
 
-function setCookie(name: string, value: string, days = 365) {
-  const expires = new Date(Date.now() + days * 864e5).toUTCString();
-  document.cookie = `${name}=${encodeURIComponent(value)}; expires=${expires}; path=/`;
+const METHOD_ROUTES: Record<number, string> = {
+  1: "equalization",
+  2: "substitution",
+  3: "elimination",
+  4: "flexibility-training",
+};
+
+function getMethodRedirect(methodIndex: number, mainRoute: string): string | null {
+  const route = METHOD_ROUTES[methodIndex];
+  return route !== undefined && route !== mainRoute ? `/${route}` : null;
 }
 
 export default function NavigationBar({
@@ -57,16 +73,16 @@ export default function NavigationBar({
   style?: CSSProperties;
 }): ReactElement {
   const { t } = useTranslation([TranslationNamespaces.General, TranslationNamespaces.Flexibility]);
+  const navigate = useNavigate();
   const [overlayVisible, setOverlayVisible] = useState(false);
+  const [adjustmentRequest, setAdjustmentRequest] = useState<GoalAdjustmentRequest | undefined>(undefined);
+  // badges earned since the overlay was last closed
+  const [newBadges, setNewBadges] = useState<string[]>([]);
 
   // --- Options for dropdowns ---
   const goalOptions = [
     t("none"),
-    t("goal-1-correct"),
-    t("goal-3-correct"),
-    t("goal-5-correct"),
-    t("goal-recover"),
-    t("goal-level-5-correct"),
+    ...GOAL_CATALOG.map((goalDefinition: GoalDefinition) => t(goalDefinition.id)),
   ];
 
   const methodOptions = [
@@ -77,32 +93,35 @@ export default function NavigationBar({
     "🪁 " + t("strat-flex"),
   ];
 
-  // --- Initialize goal and method indices from cookies ---
-  const [goalIndex, setGoalIndex]     = useState(() => {
-    const cookieVal = getCookie("GlobalTask");
-    const idx       = cookieVal ? parseInt(cookieVal, 10) : 0;
-    return idx >= 0 && idx < goalOptions.length ? idx : 0;
-  });
-  const [methodIndex, setMethodIndex] = useState(() => {
-    const cookieVal = getCookie("GlobalStrat");
-    const idx       = cookieVal ? parseInt(cookieVal, 10) : 0;
-    return idx >= 0 && idx < methodOptions.length ? idx : 0;
-  });
-
-  // NEW state for mismatch‐redirect icon
-  const [redirectUrl, setRedirectUrl] = useState<string | null>(null);
-
-  // whenever “Solve a level 5 problem” is chosen, hide Flexibility
-  const filteredMethodOptions =
-    goalIndex === goalOptions.indexOf(t("goal-level-5-correct"))
-      ? methodOptions.filter((m) => m !== "🪁 " + t("strat-flex"))
-      : methodOptions;
+  // --- Goal and method of the goal store ---
+  const { user }   = useAuth();
+  const goalStore  = useGoalStore();
+  const moduleProgress = useModuleProgress(overlayVisible);
+  const activeGoal: GoalDefinition | undefined =
+    goalStore.activeGoal !== undefined ? getGoalDefinition(goalStore.activeGoal.goalId) : undefined;
+  // index 0 is “none” or “any”, all other options are taken from the catalog
+  const goalIndex   = activeGoal !== undefined ? GOAL_CATALOG.indexOf(activeGoal) + 1 : 0;
+  const methodIndex = Math.max(0, GOAL_METHODS.indexOf(goalStore.activeGoal?.method));
+
+  // a method of another module than the current one offers a link to that module
+  const redirectUrl = getMethodRedirect(methodIndex, mainRoute);
+
+  // only offer the methods the active goal can be pursued with, e.g. no Flexibility for level goals
+  const filteredMethodOptions = methodOptions.filter(
+    (_, index) => activeGoal === undefined || isMethodInScope(activeGoal, index)
+  );
 
   const goal   = goalOptions[goalIndex];
   const method = methodOptions[methodIndex];
 
-  // check the success cookie each render
-  const taskSuccess = getCookie("TaskSuccess") === "1";
+  const taskSuccess = goalStore.activeGoal?.progress.completed ?? false;
+  // goals assigned by a study are shown read-only
+  const isAssigned  = goalStore.activeGoal?.assigned ?? false;
+  const needsReflection = taskSuccess && goalStore.activeGoal?.reflection === undefined;
+  // time and session goals are followed on the session clock
+  const isSessionGoal =
+    activeGoal?.condition === GoalConditionType.PracticeTime ||
+    activeGoal?.condition === GoalConditionType.SessionExercises;
 
   function stripLeadingEmoji(text: string): string {
     if (
@@ -123,412 +142,136 @@ export default function NavigationBar({
       ? `${t("current-goal")}: ${goal}`
       : `${t("current-goal")}: ${goal} → ${method}`;
 
-  // State for current-goal text color
-  const [goalTextColor, setGoalTextColor] = useState<string>("#fff");
-
-  // Helper to recalculate & apply goal-color based on cookies
-  // helper to read a streak cookie as number
-function getStreak(cookieName: string): number {
-  return parseInt(getCookie(cookieName) || "0", 10);
-}
-
-/** recalc & repaint based on (GlobalTask, GlobalStrat, streak-cookies) */
-function updateGoalTextColor() {
-              // 1) if we already flagged success, just stay green
-              if (getCookie("TaskSuccess") === "1") {
-                console.log("TaskSuccess active → painting green");
-                setGoalTextColor("#7AE361");
-                return;
-              }
-
-              const task  = parseInt(getCookie("GlobalTask") || "0", 10);
-              const strat = parseInt(getCookie("GlobalStrat") || "0", 10);
-              const route = mainRoute.toLowerCase();
-
-              // 2) guard: if user picked a strat that doesn't match this route, reset streaks & bail
-              const valid =
-                strat === 0 ||
-                (strat === 1 && route === "equalization") ||
-                (strat === 2 && route === "substitution") ||
-                (strat === 3 && route === "elimination") ||
-                (strat === 4 && route === "flexibility-training");
-
-              if (!valid) {
-                const streakMapping: Record<string, string> = {
-                  equalization:           "EqualizationStreak",
-                  substitution:           "SubstitutionStreak",
-                  elimination:            "EliminationStreak",
-                  "flexibility-training": "FlexibilityStreak",
-                };
-                Object.values(streakMapping).forEach((cookieName) => {
-                  setCookie(cookieName, "0");
-                });
-                return;
-              }
-
-              let color = "#fff";
-
-              // 3) tasks 1–3: thresholds 1, 3, 5
-              if (task >= 1 && task <= 3) {
-                const thresholds = [1, 3, 5];
-                const threshold  = thresholds[task - 1];
-
-                if (strat === 0) {
-                  // “any” → check all streaks
-                  const allNames = [
-                    "EqualizationStreak",
-                    "SubstitutionStreak",
-                    "EliminationStreak",
-                    "FlexibilityStreak",
-                  ];
-                  const anyGood = allNames
-                    .map(getStreak)
-                    .some((st) => st >= threshold);
-
-                  if (anyGood) {
-                    color = "#7AE361";
-                    setCookie("TaskSuccess", "1");
-                    console.log("Rewarding point");
-                  }
-                } else {
-                  // specific strategy only
-                  const byStrat: Record<number, string> = {
-                    1: "EqualizationStreak",
-                    2: "SubstitutionStreak",
-                    3: "EliminationStreak",
-                    4: "FlexibilityStreak",
-                  };
-                  const streakName = byStrat[strat];
-                  if (getStreak(streakName) >= threshold) {
-                    color = "#7AE361";
-                    setCookie("TaskSuccess", "1");
-                    console.log("Rewarding point");
-                  }
-                }
-              }
-              // 4) task 4: recover-on-wrong
-              else if (task === 4) {
-                const incorrect = parseInt(getCookie("IncorrectFlag") || "0", 10);
-                if (incorrect === 1) {
-                  color = "#7AE361";
-                  setCookie("TaskSuccess", "1");
-                  console.log("Rewarding point");
-                }
-              }
-              // 5) task 5: level-5 logic stays the same
-              else if (task === 5) {
-                const unlocked      = getCookie("Task5Completed") === "1";
-                const level5Detect =
-                  (mainRoute === "equalization" && currentExercise === 10) ||
-                  (mainRoute === "substitution" &&
-                    [9, 10].includes(currentExercise!)) ||
-                  (mainRoute === "elimination" &&
-                    [9, 10].includes(currentExercise!));
-
-                if ((currentExercise != null && level5Detect) || unlocked) {
-                  color = "#7AE361";
-                  setCookie("Task5Completed", "1");
-                  setCookie("TaskSuccess",   "1");
-                  console.log("Rewarding point");
-                }
-              }
-
-              setGoalTextColor(color);
-            }
-
-
-
-
-
-  useEffect(updateGoalTextColor, [mainRoute, currentExercise]);
-
-  function calculateProgress(moduleName: string, total: number): number {
-    let completed = getCompletedCKExercises(moduleName) || [];
-    if (moduleName === "flexibility-training") {
-      completed = getCompletedPKExercises(moduleName) || [];
-    }
-    if (moduleName === "substitution") {
-      const barteringCompleted = getCompletedCKExercises("substitution", "bartering");
-      if (Array.isArray(barteringCompleted)) {
-        completed = [...completed, ...barteringCompleted];
-      } else {
-        //console.warn("Bartering data missing or invalid:", barteringCompleted);
-      }
-    }
-    const percent = (completed.length / total) * 100;
-    return Math.min(100, Math.max(0, Math.round(percent)));
-  }
+  const goalTextColor = taskSuccess ? "#7AE361" : "#fff";
 
+  // levels of all games of a module are combined, e.g. bartering and substitution exercises of the same level
   const progressData = useMemo(() => {
     if (!overlayVisible) return null;
-    return [
-      { method: t("strat-equi"), percent: calculateProgress("equalization", TOTAL_EQUALIZATION) },
-      { method: t("strat-subs"), percent: calculateProgress("substitution", TOTAL_SUBSTITUTION) },
-      { method: t("strat-elim"),  percent: calculateProgress("elimination", TOTAL_ELIMINATION) },
-      { method: t("strat-flex"),  percent: calculateProgress("flexibility-training", TOTAL_FLEXIBILITY) },
-    ];
-  }, [overlayVisible]);
-
-  // when user clicks either dropdown, we reset success & streak flags
+    return moduleProgress.map((progress: ModuleProgress) => {
+      const levels = new Map<number, { completed: number; total: number }>();
+      progress.lists.flatMap((list) => list.levels).forEach((level: LevelProgress) => {
+        const combined = levels.get(level.level) ?? { completed: 0, total: 0 };
+        levels.set(level.level, { completed: combined.completed + level.completed, total: combined.total + level.total });
+      });
+      return {
+        method:  t(GeneralTranslations.getGoalMethodTranslation(progress.module)),
+        percent: progress.percent,
+        levels:  [...levels.entries()]
+          .sort(([first], [second]) => first - second)
+          .map(([level, { completed, total }]) => t(GeneralTranslations.PROGRESS_LEVEL, { level, completed, total })),
+      };
+    });
+  }, [overlayVisible, moduleProgress, t]);
+
+  // the recommendation is hidden while the recommended goal is already being pursued
+  const recommendation = useMemo<GoalRecommendation | undefined>(() => {
+    if (!overlayVisible || isAssigned) return undefined;
+    const recommended = recommendGoal(goalStore);
+    const isActive =
+      goalStore.activeGoal?.goalId === recommended.goalId &&
+      goalStore.activeGoal.method === recommended.method &&
+      !goalStore.activeGoal.progress.completed;
+    return isActive ? undefined : recommended;
+  }, [overlayVisible, goalStore, isAssigned]);
+
+  // when user picks another goal, the method is kept if the new goal can be pursued with it
   function onGoalChange(e: React.ChangeEvent<HTMLSelectElement>) {
-    const newIndex    = goalOptions.indexOf(e.target.value);
-    const oldIndexStr = getCookie("GlobalTask");
-    const oldIndex    = oldIndexStr ? parseInt(oldIndexStr, 10) : null;
-
-    if (newIndex !== oldIndex) {
-      setGoalIndex(newIndex);
-      setCookie("GlobalTask", newIndex.toString());
-
-      if (newIndex === 0) {
-        setMethodIndex(0);
-        setCookie("GlobalStrat", "0");
-      }
-
-      // if user picks “Solve a level 5 problem” and they had Flexibility, revert it
-      if (
-        newIndex === goalOptions.indexOf(t("goal-level-5-correct")) &&
-        methodOptions[methodIndex] === "🪁 " + t("strat-flex")
-      ) {
-        setMethodIndex(0);
-        setCookie("GlobalStrat", "0");
-      }
+    const newIndex = goalOptions.indexOf(e.target.value);
+    const newGoal  = newIndex > 0 ? GOAL_CATALOG[newIndex - 1] : undefined;
+    const keepMethod = newGoal !== undefined && isMethodInScope(newGoal, methodIndex);
+    setActiveGoal(newGoal?.id, keepMethod ? GOAL_METHODS[methodIndex] : undefined);
+  }
 
-      console.log("Resetting streaks");
-      const streakMapping: Record<string, string> = {
-        equalization:           "EqualizationStreak",
-        substitution:           "SubstitutionStreak",
-        elimination:            "EliminationStreak",
-        "flexibility-training": "FlexibilityStreak",
-      };
-      Object.values(streakMapping).forEach((cookieName) => {
-        setCookie(cookieName, "0");
-      });
-    } else {
-      setGoalIndex(newIndex);
+  // a suggested goal keeps the current method if it can be pursued with it, a suggested method keeps the current goal
+  function applySuggestion(request: GoalAdjustmentRequest) {
+    if (request.suggestedGoalId === undefined) {
+      changeGoalMethod(request.suggestedMethod);
+      return;
     }
-
-    // clear any green locks so color returns to white
-    setCookie("TaskSuccess",   "0");
-    console.log("Goal reset");
-    setCookie("Task5Completed","0");
-    setGoalTextColor("#fff");
+    const suggestedGoal = getGoalDefinition(request.suggestedGoalId);
+    const suggestedMethod = request.suggestedMethod ?? GOAL_METHODS[methodIndex];
+    const keepMethod = suggestedGoal !== undefined && isMethodInScope(suggestedGoal, GOAL_METHODS.indexOf(suggestedMethod));
+    setActiveGoal(request.suggestedGoalId, keepMethod ? suggestedMethod : undefined);
   }
 
-  function onMethodChange(e: React.ChangeEvent<HTMLSelectElement>) {
-    const newIndex    = methodOptions.indexOf(e.target.value);
-    const oldIndexStr = getCookie("GlobalStrat");
-    const oldIndex    = oldIndexStr ? parseInt(oldIndexStr, 10) : null;
-
-    if (newIndex !== oldIndex) {
-      setMethodIndex(newIndex);
-      setCookie("GlobalStrat", newIndex.toString());
-
-      console.log("Resetting streaks");
-      const streakMapping: Record<string, string> = {
-        equalization:           "EqualizationStreak",
-        substitution:           "SubstitutionStreak",
-        elimination:            "EliminationStreak",
-        "flexibility-training": "FlexibilityStreak",
-      };
-      Object.values(streakMapping).forEach((cookieName) => {
-        setCookie(cookieName, "0");
-      });
-    } else {
-      setMethodIndex(newIndex);
-    }
+  // closing the overlay confirms the goal, so the exercise that requested the adjustment continues
+  function closeOverlay() {
+    setOverlayVisible(false);
+    adjustmentRequest?.onConfirm?.();
+    setAdjustmentRequest(undefined);
+    setNewBadges([]);
+  }
 
-    // --- NEW MISMATCH DETECTION ---
-    if (newIndex !== 0) {
-      const matches =
-        (newIndex === 1 && mainRoute === "equalization") ||
-        (newIndex === 2 && mainRoute === "substitution") ||
-        (newIndex === 3 && mainRoute === "elimination") ||
-        (newIndex === 4 && mainRoute === "flexibility-training");
-      if (!matches) {
-        console.log("MISMATCH!");
-        const paths: Record<number,string> = {
-          1: "/equalization",
-          2: "/substitution",
-          3: "/elimination",
-          4: "/flexibility-training",
-        };
-        setRedirectUrl(paths[newIndex] || null);
-      } else {
-        setRedirectUrl(null);
-      }
-    } else {
-      setRedirectUrl(null);
+  function collectNewBadges(earnedBefore: Readonly<Record<string, number>>, earned: Readonly<Record<string, number>>) {
+    const badgeIds = Object.keys(earned).filter((badgeId) => earnedBefore[badgeId] === undefined);
+    if (badgeIds.length > 0) {
+      setNewBadges((previous) => [...previous, ...badgeIds]);
     }
+  }
 
-    // clear any green locks so color returns to white
-    setCookie("TaskSuccess",   "0");
-    console.log("Goal reset");
-    setCookie("Task5Completed","0");
-    setGoalTextColor("#fff");
+  function onMethodChange(e: React.ChangeEvent<HTMLSelectElement>) {
+    const newIndex = methodOptions.indexOf(e.target.value);
+    changeGoalMethod(GOAL_METHODS[newIndex]);
   }
 
+  // Advance the streaks and the active goal by the outcomes emitted by the games and exercises
   useEffect(() => {
-          const newIndex = methodIndex;
-
-          // EXACT MATCH CASE REPEATED (ON PAGE LOAD)
-          if (newIndex !== 0) {
-            const matches =
-              (newIndex === 1 && mainRoute === "equalization") ||
-              (newIndex === 2 && mainRoute === "substitution") ||
-              (newIndex === 3 && mainRoute === "elimination") ||
-              (newIndex === 4 && mainRoute === "flexibility-training");
-
-            if (!matches) {
-              const paths: Record<number,string> = {
-                1: "/equalization",
-                2: "/substitution",
-                3: "/elimination",
-                4: "/flexibility-training",
-              };
-              setRedirectUrl(paths[newIndex] || null);
-            } else {
-              setRedirectUrl(null);
-            }
-          } else {
-            setRedirectUrl(null);
-          }
-        }, [goalIndex, mainRoute]);
-
-
-
-
+    return subscribeToExerciseOutcomes((outcome: ExerciseOutcome) => {
+      const wasCompleted = getGoalStore().activeGoal?.progress.completed ?? false;
+      const earnedBefore = getBadgeStore().earned;
+      const updatedStore = recordGoalOutcome(outcome);
+      const updatedGoal = updatedStore.activeGoal;
+      collectNewBadges(earnedBefore, recordBadgeOutcome(outcome, updatedStore).earned);
+      // open the overlay as soon as the goal is reached, so the student is asked to reflect on it
+      if (!wasCompleted && updatedGoal?.progress.completed) {
+        setOverlayVisible(true);
+      }
+    });
+  }, []);
 
-  // MutationObserver to watch for "well done" and "try again"
+  // Time goals are advanced by the session clock, as the time passes while no exercise is worked on
   useEffect(() => {
-    if (!document.body) return;
-    const streakMapping: Record<string, string> = {
-      equalization:           "EqualizationStreak",
-      substitution:           "SubstitutionStreak",
-      elimination:            "EliminationStreak",
-      "flexibility-training": "FlexibilityStreak",
-    };
-
-    function getStreak(cookieName: string): number {
-      const val = getCookie(cookieName);
-      return val ? parseInt(val, 10) || 0 : 0;
-    }
-    function setStreak(cookieName: string, value: number) {
-      setCookie(cookieName, value.toString());
-    }
-    function setIncorrectFlag() {
-      setCookie("IncorrectFlag", "1");
-    }
-    function printAllStreaks() {
-      const names = Object.values(streakMapping);
-      const vals  = names.map((n) => `${n}:${getStreak(n)}`);
-      console.log("Current Streaks:", vals.join(", "));
-    }
-
-    const observer = new MutationObserver((mutations) => {
-      for (const mutation of mutations) {
-        if (mutation.type === "childList") {
-          mutation.addedNodes.forEach((node) => {
-            if (
-              node.nodeType === Node.ELEMENT_NODE &&
-              node instanceof HTMLElement
-            ) {
-              const text = node.innerText?.toLowerCase();
-
-              // correct detection
-              if (
-                text?.includes(t("load-next-exercise").toLowerCase()) ||
-                text?.includes(t("undefined-exercise-series").toLowerCase()) ||
-                text?.includes(t("completed-exercise-series").toLowerCase()) ||
-                text?.includes(t("system-solution-success").toLowerCase())
-              ) {
-                console.log("Correct action detected", mainRoute);
-                const cookieName = streakMapping[mainRoute.toLowerCase()];
-                if (cookieName) {
-                  const cur = getStreak(cookieName);
-                  setStreak(cookieName, cur + 1);
-                }
-                printAllStreaks();
-
-                // lock green across routes
-                //setCookie("TaskSuccess", "1");
-                // instantly repaint green
-                updateGoalTextColor();
-              }
-
-              // incorrect detection
-              if (
-                text?.includes("unfortunately") ||
-                text?.includes("leider") || text?.includes("try again") || text?.includes("versuch")
-              ) {
-                console.log("Incorrect action detected");
-                const cookieName = streakMapping[mainRoute.toLowerCase()];
-                if (cookieName) {
-                  setStreak(cookieName, 0);
-                }
-                setIncorrectFlag();
-                printAllStreaks();
-              }
-            }
-          });
-        }
+    return subscribeToSessionClock((session) => {
+      const wasCompleted = getGoalStore().activeGoal?.progress.completed ?? false;
+      const updatedStore = recordPracticeTime(session);
+      if (!wasCompleted && updatedStore.activeGoal?.progress.completed) {
+        const earnedBefore = getBadgeStore().earned;
+        collectNewBadges(earnedBefore, recordBadgeGoals(updatedStore).earned);
+        setOverlayVisible(true);
       }
     });
+  }, []);
 
-    observer.observe(document.body, {
-      childList: true,
-      subtree:   true,
+  // Module badges are awarded as soon as the last exercise of a module is stored as completed
+  useEffect(() => {
+    return subscribeToExerciseCompletions(() => {
+      const earnedBefore = getBadgeStore().earned;
+      collectNewBadges(earnedBefore, recordBadgeGoals(getGoalStore()).earned);
     });
-    return () => observer.disconnect();
-  }, [mainRoute, currentExercise]);
-
+  }, []);
 
-// DETECT CHANGE GOAL IN FLEXIBILITY
-useEffect(() => {
-            // fires on every click in the page
-            const handleDocumentClick = (event) => {
-              const btn = event.target;
-              if (
-                btn instanceof HTMLButtonElement &&
-                btn.classList.contains('primary-button') &&
-                btn.textContent.trim() === 'Change goal'
-              ) {
-                setOverlayVisible(true);
-              }
-            };
-
-            document.addEventListener('click', handleDocumentClick);
-            return () => {
-              document.removeEventListener('click', handleDocumentClick);
-            };
-          }, [setOverlayVisible]);
-
-
-  // Detect total questins encountered
+  // Students of goal-setting studies may be assigned their goal instead of choosing it
   useEffect(() => {
-              // only count when we have a real exercise number
-              // and we’re on one of the four “task” routes
-              const validRoutes = [
-                "equalization",
-                "substitution",
-                "elimination",
-                "flexibility-training",
-              ];
-
-              if (
-                typeof currentExercise === "number" &&
-                validRoutes.includes(mainRoute.toLowerCase())
-              ) {
-                // read old value (default to 0), increment, write back
-                const prevVal = parseInt(getCookie("questionsEncountered") || "0", 10);
-                const nextVal = prevVal + 1;
-                setCookie("questionsEncountered", nextVal.toString());
-                console.log(`questionsEncountered → ${nextVal}`);
-              }
-            }, [mainRoute, currentExercise]);
-
-
+    applyGoalAssignment(getAssignedGoal(user));
+  }, [user]);
 
+  // Open the goal overlay whenever an exercise asks the student to adjust their goal
+  useEffect(() => {
+    return subscribeToGoalAdjustments((request: GoalAdjustmentRequest) => {
+      setAdjustmentRequest(request);
+      setOverlayVisible(true);
+    });
+  }, []);
 
+  // Count the exercises encountered on the routes of the four modules
+  useEffect(() => {
+    if (
+      typeof currentExercise === "number" &&
+      Object.values(METHOD_ROUTES).includes(mainRoute.toLowerCase())
+    ) {
+      recordQuestionEncountered();
+    }
+  }, [mainRoute, currentExercise]);
 
   return (
     <>
@@ -553,7 +296,7 @@ useEffect(() => {
             </p>
           </>
         )}
-        <div className="current-goal" onClick={() => setOverlayVisible((p) => !p)}>
+        <div className="current-goal" onClick={() => (overlayVisible ? closeOverlay() : setOverlayVisible(true))}>
           <p>
             <b style={{ color: goalTextColor }}>{displayGoalText}</b>
           </p>
@@ -561,7 +304,7 @@ useEffect(() => {
       </div>
 
       {overlayVisible && (
-        <div className="overlay-window" onClick={() => setOverlayVisible(false)}>
+        <div className="overlay-window" onClick={closeOverlay}>
           <div className="overlay-content" onClick={(e) => e.stopPropagation()}>
             <h2 style={{ marginBottom: "2rem" }}>{t("goal-setting")}</h2>
             <p style={{ marginBottom: "2rem" }}>
@@ -570,6 +313,7 @@ useEffect(() => {
                 className="goal-select"
                 value={goal}
                 onChange={onGoalChange}
+                disabled={isAssigned}
                 style={{ borderColor: taskSuccess ? "#7AE361" : undefined }}
               >
                 {goalOptions.map((option) => (
@@ -585,6 +329,7 @@ useEffect(() => {
                     className="goal-select"
                     value={method}
                     onChange={onMethodChange}
+                    disabled={isAssigned}
                     style={{ borderColor: taskSuccess ? "#7AE361" : undefined }}
                   >
                     {filteredMethodOptions.map((option) => (
@@ -594,22 +339,9 @@ useEffect(() => {
 
                   {taskSuccess && (
                     <img
-                      src="https://i.imgur.com/V3nWDuX.png"
+                      src={GoalCompletedIcon}
                       alt="success"
-                      onClick={() => {
-                        const streaks = [
-                          "EqualizationStreak",
-                          "SubstitutionStreak",
-                          "EliminationStreak",
-                          "FlexibilityStreak",
-                        ];
-                        streaks.forEach((n) => setCookie(n, "0"));
-                        setCookie("IncorrectFlag", "0");
-                        setCookie("Task5Completed","0");
-                        setCookie("TaskSuccess","0");
-                        console.log("Goal reset");
-                        setGoalTextColor("#fff");
-                      }}
+                      onClick={restartActiveGoal}
                       style={{
                         width:        "2rem",
                         height:       "auto",
@@ -625,7 +357,7 @@ useEffect(() => {
 
                   {redirectUrl && (
                     <img
-                      src="https://i.imgur.com/Ykw7gmT.png"
+                      src={GoalRedirectIcon}
                       alt="go"
                       onClick={() => (window.location.href = redirectUrl!)}
                       style={{
@@ -644,6 +376,51 @@ useEffect(() => {
               )}
             </p>
 
+            {isSessionGoal && activeGoal && goalStore.activeGoal && (
+              <GoalProgressRing goal={activeGoal} progress={goalStore.activeGoal.progress} method={goalStore.activeGoal.method} />
+            )}
+
+            {recommendation && (
+              <p style={{ marginBottom: "2rem" }}>
+                <b>{t(GeneralTranslations.RECOMMENDED_GOAL)}</b>{" "}
+                {t(recommendation.reason, {
+                  ...recommendation.values,
+                  method: t(GeneralTranslations.getGoalMethodTranslation(recommendation.method)),
+                })}{" "}
+                <button className="button primary-button" onClick={() => setActiveGoal(recommendation.goalId, recommendation.method)}>
+                  {t(GeneralTranslations.BUTTON_SET_GOAL)}
+                </button>
+              </p>
+            )}
+
+            {isAssigned && (
+              <p style={{ marginBottom: "2rem" }}>{t(GeneralTranslations.GOAL_ASSIGNED)}</p>
+            )}
+
+            {adjustmentRequest && !isAssigned && (adjustmentRequest.suggestedGoalId !== undefined || adjustmentRequest.suggestedMethod !== undefined) && (
+              <p style={{ marginBottom: "2rem" }}>
+                {t(GeneralTranslations.GOAL_SUGGESTION, {
+                  goal:   t(adjustmentRequest.suggestedGoalId ?? goalStore.activeGoal?.goalId ?? "none"),
+                  method: t(GeneralTranslations.getGoalMethodTranslation(adjustmentRequest.suggestedMethod ?? goalStore.activeGoal?.method)),
+                })}{" "}
+                <button className="button primary-button" onClick={() => applySuggestion(adjustmentRequest)}>
+                  {t(GeneralTranslations.BUTTON_APPLY_SUGGESTION)}
+                </button>
+              </p>
+            )}
+
+            {newBadges.length > 0 && (
+              <div style={{ marginBottom: "2rem" }}>
+                <BadgeShelf badgeIds={newBadges} />
+              </div>
+            )}
+
+            {needsReflection && (
+              <div style={{ marginBottom: "2rem" }}>
+                <GoalReflectionPrompt />
+              </div>
+            )}
+
             <div style={{ maxWidth: "500px", margin: "0 auto", marginBottom: "1rem" }}>
               <h2
                 style={{
@@ -656,36 +433,54 @@ useEffect(() => {
                 {t("progress-overview")}
               </h2>
               {progressData ? (
-                progressData.map(({ method, percent }, index) => {
+                progressData.map(({ method, percent, levels }, index) => {
                   const isLast = index === progressData.length - 1;
                   return (
-                    <div key={method} style={{ marginTop: "1rem", display: "flex", alignItems: "center" }}>
-                      <span style={{ width: 120, textAlign: "right", opacity: 0.7 }}>{method}</span>
-                      <div
-                        style={{
-                          flexGrow:       1,
-                          height:         "1.5rem",
-                          backgroundColor:"#ddd",
-                          borderRadius:   "2rem",
-                          overflow:       "hidden",
-                          marginLeft:     "0.75rem",
-                        }}
-                      >
+                    <div key={method} style={{ marginTop: "1rem" }}>
+                      <div style={{ display: "flex", alignItems: "center" }}>
+                        <span style={{ width: 120, textAlign: "right", opacity: 0.7 }}>{method}</span>
                         <div
                           style={{
-                            width:           `${percent}%`,
-                            height:          "100%",
-                            backgroundColor: isLast ? "#323F4F" : "#7AE361",
-                            borderRadius:    "1rem 0 0 1rem",
-                            transition:      "width 0.3s ease",
+                            flexGrow:       1,
+                            height:         "1.5rem",
+                            backgroundColor:"#ddd",
+                            borderRadius:   "2rem",
+                            overflow:       "hidden",
+                            marginLeft:     "0.75rem",
                           }}
-                        />
+                        >
+                          <div
+                            style={{
+                              width:           `${percent}%`,
+                              height:          "100%",
+                              backgroundColor: isLast ? "#323F4F" : "#7AE361",
+                              borderRadius:    "1rem 0 0 1rem",
+                              transition:      "width 0.3s ease",
+                            }}
+                          />
+                        </div>
                       </div>
+                      {levels.length > 0 && (
+                        <small style={{ display: "block", marginLeft: "calc(120px + 0.75rem)", opacity: 0.7 }}>
+                          {levels.join(" · ")}
+                        </small>
+                      )}
                     </div>
                   );
                 })
               ) : (
-                <p>Loading progress...</p>
+                <p>{t(GeneralTranslations.PROGRESS_LOADING)}</p>
+              )}
+            </div>
+
+            <div style={{ display: "flex", gap: "1rem", justifyContent: "center" }}>
+              <button className="button primary-button" onClick={() => navigate(Paths.GoalHistoryPath)}>
+                {t(GeneralTranslations.GOAL_HISTORY)}
+              </button>
+              {adjustmentRequest && (
+                <button className="button primary-button" onClick={closeOverlay}>
+                  {t(GeneralTranslations.BUTTON_CONFIRM_GOAL)}
+                </button>
               )}
             </div>
           </div>
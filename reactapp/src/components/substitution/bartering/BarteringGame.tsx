@@ -11,7 +11,6 @@ import { useImmer } from "use-immer";
 import { GameError, GameErrorType } from "@/types/shared/error.ts";
 import { BarteringItem } from "@/types/shared/item.ts";
 import { CKExerciseType } from "@/types/studies/enums.ts";
-import { IUser } from "@/types/studies/user.ts";
 import { BarteringExercise } from "@/types/substitution/bartering/barteringExercise.ts";
 import { RetailBox, initializeRetailBoxes } from "@/types/substitution/bartering/retailBox.ts";
 import { Trade } from "@/types/substitution/bartering/trade.ts";
@@ -22,6 +21,8 @@ import Inventory from "@components/substitution/bartering/Inventory.tsx";
 import Merchant from "@components/substitution/bartering/Merchant.tsx";
 import { Paths } from "@routes/paths.ts";
 import useCKTracker from "@hooks/useCKTracker.ts";
+import useExerciseOutcomes from "@hooks/useExerciseOutcomes.ts";
+import { ExerciseModule } from "@/types/shared/exerciseOutcome.ts";
 import { setCKExerciseCompleted, setCKStudyExerciseCompleted } from "@utils/storageUtils.ts";
 import "@styles/substitution/bartering.scss";
 
@@ -54,7 +55,8 @@ export default function BarteringGame({ exercise, actionOverlay, isStudy = false
             throw new GameError(GameErrorType.STUDY_ID_ERROR);
         }
     }
-    const { trackAction, trackHint, trackError, endTracking } = useCKTracker(isStudy && collectData, user as IUser, CKExerciseType.Bartering, studyId as number, exercise.id, performance.now());
+    const { trackAction, trackHint: recordHint, trackError: recordError, endTracking } = useCKTracker(isStudy && collectData, user, CKExerciseType.Bartering, studyId as number, exercise.id, performance.now(), !isStudy && collectData);
+    const { emitError, emitHintUsed, emitSolved } = useExerciseOutcomes(ExerciseModule.Substitution, exercise.id, CKExerciseType.Bartering);
 
     const [gameHistory, setGameHistory] = useImmer<RetailBox[][]>(() => initializeRetailBoxes(exercise.trade));
 
@@ -68,9 +70,12 @@ export default function BarteringGame({ exercise, actionOverlay, isStudy = false
 
     // Display overlay once the game is completed
     const [showActionOverlay, setShowActionOverlay] = useState<boolean>(false);
-    const isEnd: boolean = isGameEnd();
+    const isEnd: boolean = isSolution();
     useEffect(() => {
         if (isEnd) {
+            // Ending the tracking within the effect ensures that the exercise is only recorded once, not on every render
+            endTracking();
+            emitSolved();
             if (isStudy) {
                 if (collectData) {
                     setCKStudyExerciseCompleted(studyId as number, "bartering", exercise.id);
@@ -89,6 +94,7 @@ export default function BarteringGame({ exercise, actionOverlay, isStudy = false
             }
         }
         return;
+        // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [exercise.id, isStudy, studyId, isEnd, navigate, collectData]);
 
     // Compute the height of the grass background image based on the location of the merchants' tents
@@ -302,6 +308,16 @@ export default function BarteringGame({ exercise, actionOverlay, isStudy = false
         });
     }
 
+    function trackHint(): void {
+        recordHint();
+        emitHintUsed();
+    }
+
+    function trackError(): void {
+        recordError();
+        emitError();
+    }
+
     function undoLastStep(): void {
         if (currentStep >= 1 && gameHistory.length >= currentStep) {
             setCurrentStep(currentStep - 1);
@@ -316,14 +332,6 @@ export default function BarteringGame({ exercise, actionOverlay, isStudy = false
         trackAction("REDO");
     }
 
-    function isGameEnd(): boolean {
-        const isEnd: boolean = isSolution();
-        if (isEnd) {
-            endTracking();
-        }
-        return isEnd;
-    }
-
     function isSolution(): boolean {
         const firstName: string = exercise.trade.firstOutput.name;
         const firstAmount: number = exercise.trade.firstOutput.amount;
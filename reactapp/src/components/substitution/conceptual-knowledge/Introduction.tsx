@@ -15,6 +15,7 @@ import { FlexibilityEquation } from "@/types/math/linearEquation.ts";
 import { SingleChoice } from "@components/flexibility/choice/SingleChoice.tsx";
 import { FlexibilityHint } from "@components/flexibility/interventions/FlexibilityHint.tsx";
 import { FlexibilityPopover } from "@components/flexibility/interventions/FlexibilityPopover.tsx";
+import { getGoalStore } from "@utils/goalStore.ts";
 
 export default function Introduction({
   exercise,
@@ -44,18 +45,6 @@ export default function Introduction({
     return agentTypes[Math.floor(Math.random() * agentTypes.length)];
   });
 
-  // Helper to get cookie by name
-  function getCookie(name: string): string | null {
-    const matches = document.cookie.match(
-      new RegExp(
-        "(?:^|; )" +
-          name.replace(/([\.$?*|{}\(\)\[\]\\\/\+^])/g, "\\$1") +
-          "=([^;]*)"
-      )
-    );
-    return matches ? decodeURIComponent(matches[1]) : null;
-  }
-
   const descriptionOfFirstEq: TranslationInterpolation =
     SubstitutionTranslations.getDescriptionForFirstEquation(
       exercise.firstEquation.equation
@@ -74,8 +63,8 @@ export default function Introduction({
   const [showAgentPrompt, setShowAgentPrompt] = useState(false);
   const [showAnxiousResponse, setShowAnxiousResponse] = useState(false);
 
-  // Check questionsEncountered cookie (parse as number)
-  const questionsEncountered = Number(getCookie("questionsEncountered")) || 0;
+  // Check how many questions were encountered so far
+  const { questionsEncountered } = getGoalStore();
 
   function onContinueClick(): void {
     if (questionsEncountered % 3 === 0) {
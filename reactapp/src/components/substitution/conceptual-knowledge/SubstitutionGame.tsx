@@ -10,7 +10,6 @@ import { GameError, GameErrorType } from "@/types/shared/error.ts";
 import { SubstitutionItem } from "@/types/shared/item.ts";
 import { TranslationInterpolation } from "@/types/shared/translationInterpolation.ts";
 import { CKExerciseType, SubstitutionPhase } from "@/types/studies/enums.ts";
-import { IUser } from "@/types/studies/user.ts";
 import { SubstitutionGamePhase, SubstitutionItemType, SubstitutionLocation } from "@/types/substitution/conceptual-knowledge/enums.ts";
 import { ItemEquation } from "@/types/substitution/conceptual-knowledge/itemEquation.ts";
 import { SubstitutionExercise } from "@/types/substitution/conceptual-knowledge/substitutionExercise.ts";
@@ -23,6 +22,8 @@ import VariableSelection from "@components/substitution/conceptual-knowledge/Var
 import VariableSubstitution, { SecondVariableSubstitution } from "@components/substitution/conceptual-knowledge/VariableSubstitution.tsx";
 import { Paths } from "@routes/paths.ts";
 import useCKTracker from "@hooks/useCKTracker.ts";
+import useExerciseOutcomes from "@hooks/useExerciseOutcomes.ts";
+import { ExerciseModule } from "@/types/shared/exerciseOutcome.ts";
 import { setCKExerciseCompleted, setCKStudyExerciseCompleted } from "@utils/storageUtils.ts";
 
 export default function SubstitutionGame({ exercise, actionOverlay, isStudy = false, studyId, collectData = true }: { exercise: SubstitutionExercise; actionOverlay?: ReactNode; isStudy?: boolean; studyId?: number; collectData?: boolean }): ReactElement {
@@ -46,7 +47,8 @@ export default function SubstitutionGame({ exercise, actionOverlay, isStudy = fa
             throw new GameError(GameErrorType.STUDY_ID_ERROR);
         }
     }
-    const { trackActionInPhase, trackHintInPhase, trackErrorInPhase, setNextTrackingPhase, endTrackingPhase, endTracking } = useCKTracker(isStudy && collectData, user as IUser, CKExerciseType.Substitution, studyId as number, exercise.id, performance.now());
+    const { trackActionInPhase, trackHintInPhase: recordHintInPhase, trackErrorInPhase: recordErrorInPhase, setNextTrackingPhase: recordNextPhase, endTrackingPhase, endTracking } = useCKTracker(isStudy && collectData, user, CKExerciseType.Substitution, studyId as number, exercise.id, performance.now(), !isStudy && collectData);
+    const { emitStepCorrect, emitError, emitHintUsed, emitSolved } = useExerciseOutcomes(ExerciseModule.Substitution, exercise.id, CKExerciseType.Substitution);
     const [returned, setReturned] = useState<boolean>(false);
 
     const [gamePhase, setGamePhase] = useState<SubstitutionGamePhase>(SubstitutionGamePhase.Introduction);
@@ -199,6 +201,9 @@ export default function SubstitutionGame({ exercise, actionOverlay, isStudy = fa
                     firstItemEquation={firstItemEquation}
                     secondItemEquation={secondItemEquation}
                     callback={(): void => {
+                        endTrackingPhase();
+                        endTracking();
+                        emitSolved();
                         setHints(null);
                         setGamePhase(SubstitutionGamePhase.SystemSolution);
                     }}
@@ -210,8 +215,6 @@ export default function SubstitutionGame({ exercise, actionOverlay, isStudy = fa
         }
 
         case SubstitutionGamePhase.SystemSolution: {
-            endTrackingPhase();
-            endTracking();
             contents = (
                 <SystemSolution
                     exercise={exercise}
@@ -247,7 +250,8 @@ export default function SubstitutionGame({ exercise, actionOverlay, isStudy = fa
                                 trackActionInPhase("RETURN to SECOND SELECTION");
                                 setGamePhase(SubstitutionGamePhase.SecondVariableSelection);
                                 setReturned(true);
-                                setNextTrackingPhase(SubstitutionPhase.RepeatedSecondSelection);
+                                // Returning to the selection is not a solved step, so it is only tracked
+                                recordNextPhase(SubstitutionPhase.RepeatedSecondSelection);
                             }}
                         >
                             <FontAwesomeIcon icon={faRotateLeft} />
@@ -258,6 +262,21 @@ export default function SubstitutionGame({ exercise, actionOverlay, isStudy = fa
             </div>
         </React.Fragment>
     );
+
+    function trackHintInPhase(): void {
+        recordHintInPhase();
+        emitHintUsed();
+    }
+
+    function trackErrorInPhase(): void {
+        recordErrorInPhase();
+        emitError();
+    }
+
+    function setNextTrackingPhase(newPhase: SubstitutionPhase): void {
+        recordNextPhase(newPhase);
+        emitStepCorrect();
+    }
 }
 
 function operatorIsMinus(equation: ItemEquation): boolean {
@@ -0,0 +1,40 @@
+import { TranslationNamespaces } from "@/i18n.ts";
+import { ReactElement } from "react";
+import { useTranslation } from "react-i18next";
+import { BadgeDefinition, BadgeStore } from "@/types/shared/badges.ts";
+import { GeneralTranslations } from "@/types/shared/generalTranslations.ts";
+import { BADGE_CATALOG } from "@utils/badgeCatalog.ts";
+import useBadgeStore from "@hooks/useBadgeStore.ts";
+import "@styles/views/badges.scss";
+
+// Shows all badges with the ones that were not earned yet greyed out, or only the given badges, e.g. the ones that were just earned
+export default function BadgeShelf({ badgeIds }: { badgeIds?: string[] }): ReactElement | null {
+    const { t, i18n } = useTranslation(TranslationNamespaces.General);
+    const store: BadgeStore = useBadgeStore();
+    const badges: BadgeDefinition[] = badgeIds !== undefined ? BADGE_CATALOG.filter((badge: BadgeDefinition): boolean => badgeIds.includes(badge.id)) : BADGE_CATALOG;
+
+    if (badges.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className={"badge-shelf"}>
+            <p className={"badge-shelf__title"}>{t(badgeIds !== undefined ? GeneralTranslations.BADGES_EARNED : GeneralTranslations.BADGES)}</p>
+            <div className={"badge-shelf__badges"}>
+                {badges.map((badge: BadgeDefinition) => {
+                    const earnedAt: number | undefined = store.earned[badge.id];
+                    return (
+                        <div
+                            key={badge.id}
+                            className={"badge" + (earnedAt === undefined ? " badge--locked" : "")}
+                            title={earnedAt !== undefined ? t(GeneralTranslations.BADGE_EARNED_AT, { date: new Date(earnedAt).toLocaleDateString(i18n.language) }) : t(GeneralTranslations.BADGE_LOCKED)}
+                        >
+                            <img src={badge.icon} alt={t(badge.id)} />
+                            <span>{t(badge.id)}</span>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
@@ -1,17 +1,24 @@
 import { TranslationNamespaces } from "@/i18n.ts";
-import { faCaretDown, faCaretRight, faChevronRight, faFireFlameCurved } from "@fortawesome/free-solid-svg-icons";
+import { faBullseye, faCaretDown, faCaretRight, faChevronRight, faFireFlameCurved } from "@fortawesome/free-solid-svg-icons";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import useAxios from "axios-hooks";
-import { ReactElement, ReactNode, useState } from "react";
+import { ReactElement, ReactNode, useEffect, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { useNavigate } from "react-router-dom";
 import { ErrorTranslations } from "@/types/shared/errorTranslations.ts";
 import { CKExerciseResponse } from "@/types/shared/ckExerciseResponse.ts";
 import { GeneralTranslations } from "@/types/shared/generalTranslations.ts";
+import { GoalDefinition, GoalStore } from "@/types/shared/goals.ts";
+import { CKExerciseType } from "@/types/studies/enums.ts";
 import Loader from "@components/shared/Loader.tsx";
 import { Paths } from "@routes/paths.ts";
 import "@styles/views/collapsible.scss";
 import { isExerciseCompleted } from "@utils/utils.ts";
+import { getCKLearnerModelKey, recommendNextExercise } from "@utils/learnerModel.ts";
+import { getCKExerciseModule, saveExerciseLevels } from "@utils/exerciseLevels.ts";
+import { getGoalDefinition } from "@utils/goalCatalog.ts";
+import { countsTowardGoal } from "@utils/goalEngine.ts";
+import useGoalStore from "@hooks/useGoalStore.ts";
 
 export function Collapsible({ text, children, isOpen = false, handleClick, isStudy = false }: { text: string; children: ReactNode; isOpen?: boolean; handleClick?: (isOpen: boolean) => void; isStudy?: boolean }): ReactElement {
     const [open, setOpen] = useState<boolean>(isOpen);
@@ -38,12 +45,19 @@ export function Collapsible({ text, children, isOpen = false, handleClick, isStu
     );
 }
 
-function ExerciseList({ route, navigateTo, completedExercises }: { route: string; navigateTo: string; completedExercises?: (number | string)[] }): ReactElement {
+function ExerciseList({ route, navigateTo, completedExercises, exerciseType }: { route: string; navigateTo: string; completedExercises?: (number | string)[]; exerciseType?: CKExerciseType }): ReactElement {
     const { t } = useTranslation([TranslationNamespaces.General, TranslationNamespaces.Error]);
     const navigate = useNavigate();
+    const goalStore: GoalStore = useGoalStore();
 
     const [{ data, loading, error }] = useAxios(route);
 
+    useEffect(() => {
+        if (data !== undefined && exerciseType !== undefined) {
+            saveExerciseLevels(exerciseType, data as CKExerciseResponse[]);
+        }
+    }, [data, exerciseType]);
+
     if (loading) return <Loader />;
     if (error) {
         console.error(error);
@@ -52,6 +66,10 @@ function ExerciseList({ route, navigateTo, completedExercises }: { route: string
 
     const exerciseList: CKExerciseResponse[] = data as CKExerciseResponse[];
     const exerciseIds: number[] = exerciseList.map((entry: CKExerciseResponse) => entry.id);
+    const recommendedExercise: number | undefined =
+        exerciseType !== undefined ? recommendNextExercise(getCKLearnerModelKey(exerciseType), exerciseList.map((entry: CKExerciseResponse) => ({ id: entry.id, level: entry.level ?? 1 })), completedExercises) : undefined;
+    // Exercises are only highlighted while the active goal can still be advanced
+    const activeGoal: GoalDefinition | undefined = goalStore.activeGoal !== undefined && !goalStore.activeGoal.progress.completed ? getGoalDefinition(goalStore.activeGoal.goalId) : undefined;
     return (
         <div className={"exercise-list"}>
             <div
@@ -68,10 +86,13 @@ function ExerciseList({ route, navigateTo, completedExercises }: { route: string
             </div>
             {exerciseList.map((entry: CKExerciseResponse, index) => {
                 const isCompleted: boolean = isExerciseCompleted(entry.id, completedExercises);
+                const isRecommended: boolean = entry.id === recommendedExercise;
+                const countsTowardActiveGoal: boolean =
+                    activeGoal !== undefined && exerciseType !== undefined && countsTowardGoal(activeGoal, getCKExerciseModule(exerciseType), entry.level ?? undefined, goalStore.activeGoal?.method);
                 return (
                     <div
                         key={index}
-                        className={"exercise-list__item" + (isCompleted ? "--completed" : "--todo")}
+                        className={"exercise-list__item" + (isCompleted ? "--completed" : "--todo") + (isRecommended ? " exercise-list__item--recommended" : "") + (countsTowardActiveGoal ? " exercise-list__item--goal" : "")}
                         onClick={() =>
                             navigate(navigateTo + Paths.ExercisesSubPath + entry.id, {
                                 state: { exercises: exerciseIds }
@@ -82,7 +103,8 @@ function ExerciseList({ route, navigateTo, completedExercises }: { route: string
                             {t(GeneralTranslations.NAV_EXERCISE)} {index + 1}
                         </p>
                         {entry.level !== null && <Level level={entry.level} />}
-                        <p className={"exercise-list__status"}>{isCompleted ? t(GeneralTranslations.COMPLETED) : "To-Do"}</p>
+                        {countsTowardActiveGoal && <FontAwesomeIcon className={"exercise-list__goal"} icon={faBullseye} title={t(GeneralTranslations.COUNTS_TOWARD_GOAL)} />}
+                        <p className={"exercise-list__status"}>{isCompleted ? t(GeneralTranslations.COMPLETED) : isRecommended ? t(GeneralTranslations.RECOMMENDED) : "To-Do"}</p>
                         <FontAwesomeIcon className={"exercise-font"} icon={faChevronRight} />
                     </div>
                 );
@@ -103,7 +125,28 @@ function Level({ level }: { level: number }): ReactElement {
     );
 }
 
-export default function CollapsibleExerciseList({ text, route, navigateTo, completedExercises, isOpen, handleOpen }: { text: string; route: string; navigateTo: string; completedExercises?: (number | string)[]; isOpen?: boolean; handleOpen: (isOpen: boolean) => void }): ReactElement {
-    const exerciseList: ReactElement = <ExerciseList route={route} navigateTo={navigateTo} completedExercises={completedExercises} />;
+function PracticeList({ levels, navigateTo }: { levels: number[]; navigateTo: string }): ReactElement {
+    const { t } = useTranslation(TranslationNamespaces.General);
+    const navigate = useNavigate();
+
+    return (
+        <div className={"exercise-list"}>
+            {levels.map((level: number) => (
+                <div key={level} className={"exercise-list__item--todo"} onClick={() => navigate(navigateTo, { state: { level } })}>
+                    <p className={"exercise-font"}>{t(GeneralTranslations.PRACTICE_LEVEL, { level })}</p>
+                    <Level level={level} />
+                    <FontAwesomeIcon className={"exercise-font"} icon={faChevronRight} />
+                </div>
+            ))}
+        </div>
+    );
+}
+
+export function CollapsiblePracticeList({ text, levels, navigateTo, isOpen, handleOpen }: { text: string; levels: number[]; navigateTo: string; isOpen?: boolean; handleOpen: (isOpen: boolean) => void }): ReactElement {
+    return <Collapsible text={text} children={<PracticeList levels={levels} navigateTo={navigateTo} />} isOpen={isOpen} handleClick={handleOpen} />;
+}
+
+export default function CollapsibleExerciseList({ text, route, navigateTo, completedExercises, exerciseType, isOpen, handleOpen }: { text: string; route: string; navigateTo: string; completedExercises?: (number | string)[]; exerciseType?: CKExerciseType; isOpen?: boolean; handleOpen: (isOpen: boolean) => void }): ReactElement {
+    const exerciseList: ReactElement = <ExerciseList route={route} navigateTo={navigateTo} completedExercises={completedExercises} exerciseType={exerciseType} />;
     return <Collapsible text={text} children={exerciseList} isOpen={isOpen} handleClick={handleOpen} />;
 }
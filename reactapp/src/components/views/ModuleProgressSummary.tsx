@@ -0,0 +1,49 @@
+import { TranslationNamespaces } from "@/i18n.ts";
+import { ReactElement } from "react";
+import { useTranslation } from "react-i18next";
+import { ExerciseModule } from "@/types/shared/exerciseOutcome.ts";
+import { GeneralTranslations } from "@/types/shared/generalTranslations.ts";
+import { ExerciseListProgress, ExerciseListType, LevelProgress, ModuleProgress } from "@/types/shared/progress.ts";
+import useModuleProgress from "@hooks/useModuleProgress.ts";
+import "@styles/views/progress.scss";
+
+const LIST_TRANSLATIONS: Record<ExerciseListType, string> = {
+    [ExerciseListType.Equalization]: GeneralTranslations.HEADER_EQUALIZATION_GAME,
+    [ExerciseListType.Bartering]: GeneralTranslations.HEADER_BARTERING_GAME,
+    [ExerciseListType.Substitution]: GeneralTranslations.HEADER_SUBSTITUTION_GAME,
+    [ExerciseListType.Elimination]: GeneralTranslations.HEADER_ELIMINATION_GAME,
+    [ExerciseListType.Flexibility]: GeneralTranslations.HEADER_FLEXIBILITY_TRAINING
+};
+
+// Shows the completed exercises of every exercise list of a module, broken down by level
+export default function ModuleProgressSummary({ module }: { module: ExerciseModule }): ReactElement | null {
+    const { t } = useTranslation(TranslationNamespaces.General);
+    const progress: ModuleProgress | undefined = useModuleProgress().find((entry: ModuleProgress): boolean => entry.module === module);
+
+    if (progress === undefined || progress.total === 0) {
+        return null;
+    }
+
+    return (
+        <div className={"module-progress"}>
+            <p className={"module-progress__title"}>
+                {t(GeneralTranslations.PROGRESS_OVERVIEW)}: {t(GeneralTranslations.PROGRESS_PERCENT, { percent: progress.percent })}
+            </p>
+            {progress.lists.map((list: ExerciseListProgress) => (
+                <div key={list.listType} className={"module-progress__list"}>
+                    <p>
+                        {t(LIST_TRANSLATIONS[list.listType])}: {t(GeneralTranslations.PROGRESS_EXERCISES, { completed: list.completed, total: list.total })}
+                        {module !== ExerciseModule.Flexibility && ` · ${t(list.tutorialCompleted ? GeneralTranslations.PROGRESS_TUTORIAL_COMPLETED : GeneralTranslations.PROGRESS_TUTORIAL_OPEN)}`}
+                    </p>
+                    <div className={"module-progress__levels"}>
+                        {list.levels.map((level: LevelProgress) => (
+                            <span key={level.level} className={"module-progress__level" + (level.completed === level.total ? "--completed" : "")}>
+                                {t(GeneralTranslations.PROGRESS_LEVEL, { level: level.level, completed: level.completed, total: level.total })}
+                            </span>
+                        ))}
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+}
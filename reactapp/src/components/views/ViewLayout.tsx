@@ -10,7 +10,7 @@ import { Paths } from "@routes/paths.ts";
 import Logo from "@images/home/logo320.png";
 import "@styles/views/exercises.scss";
 
-export default function ViewLayout({ title, children, isStudy = false }: { title: string; children: ReactNode; isStudy?: boolean }): ReactElement {
+export default function ViewLayout({ title, children, isStudy = false, loginPath = Paths.StudiesLoginPath }: { title: string; children: ReactNode; isStudy?: boolean; loginPath?: string }): ReactElement {
     const { t } = useTranslation(TranslationNamespaces.General);
     const navigate = useNavigate();
     const { logout } = useAuth();
@@ -39,7 +39,7 @@ export default function ViewLayout({ title, children, isStudy = false }: { title
                                 className={"text-button--white align-right"}
                                 onClick={(): void => {
                                     logout();
-                                    navigate(Paths.StudiesLoginPath);
+                                    navigate(loginPath);
                                 }}
                             >
                                 Logout
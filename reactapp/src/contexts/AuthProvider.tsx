@@ -1,5 +1,6 @@
 import { ReactNode, createContext, useContext, useState } from "react";
 import { IUser } from "@/types/studies/user.ts";
+import { renewTrackingToken } from "@utils/trackingQueue.ts";
 
 export type AuthContextType = {
     user: IUser | undefined;
@@ -21,6 +22,7 @@ export default function AuthProvider({ children }: { children: ReactNode }) {
     const login = (user: IUser): void => {
         setUser(user);
         localStorage.setItem("user", JSON.stringify(user));
+        renewTrackingToken(user.id, user.token);
     };
 
     const logout = (): void => {
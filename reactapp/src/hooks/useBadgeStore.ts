@@ -0,0 +1,14 @@
+import { useEffect, useState } from "react";
+import { BadgeStore } from "@/types/shared/badges.ts";
+import { getBadgeStore, subscribeToBadgeStore } from "@utils/badgeStore.ts";
+
+// Provides the badge store to any view and rerenders it whenever a badge is earned
+export default function useBadgeStore(): BadgeStore {
+    const [store, setStore] = useState<BadgeStore>(getBadgeStore);
+
+    useEffect(() => {
+        return subscribeToBadgeStore(setStore);
+    }, []);
+
+    return store;
+}
@@ -1,13 +1,20 @@
-import { useEffect, useRef, useState } from "react";
-import axiosInstance from "@/types/shared/axiosInstance.ts";
+import { useRef, useState } from "react";
 import { CKExerciseType, EliminationChoice, EqualizationPhase, SubstitutionPhase } from "@/types/studies/enums.ts";
 import { IUser } from "@/types/studies/user.ts";
 import { getTime } from "@utils/utils.ts";
-
-export default function useCKTracker(useLogger: boolean, user: IUser, exerciseType: CKExerciseType, studyId: number, exerciseId: number, currentTime: number) {
+import { PhasePerformance } from "@/types/shared/learnerModel.ts";
+import { getCKLearnerModelKey, recordExercisePerformance } from "@utils/learnerModel.ts";
+import { ExerciseFamily, InteractionEvent, InteractionEventType, InteractionRequest } from "@/types/studies/interactionEvent.ts";
+import useInteractionTracker from "@hooks/useInteractionTracker.ts";
+import { DragSource } from "@/types/equalization/enums.ts";
+import { GameSnapshot } from "@/types/studies/sessionReplay.ts";
+
+export default function useCKTracker(useLogger: boolean, user: IUser | undefined, exerciseType: CKExerciseType, studyId: number, exerciseId: number, currentTime: number, updateLearnerModel: boolean = false) {
     const exerciseStartTime = useRef<number>(currentTime);
-
-    const [entryId, setEntryId] = useState<number>();
+    // Hints, errors and phases are counted for the study backend as well as for the local learner model
+    const isTracking: boolean = useLogger || updateLearnerModel;
+    const completedPhases = useRef<PhasePerformance[]>([]);
+    const { emitInteraction } = useInteractionTracker(useLogger, isTracking, user, { family: ExerciseFamily.ConceptualKnowledge, exerciseType, exerciseId, studyId }, toCKRequest);
 
     const [hints, setHints] = useState<number>(0);
     const [errors, setErrors] = useState<number>(0);
@@ -17,79 +24,46 @@ export default function useCKTracker(useLogger: boolean, user: IUser, exerciseTy
     const [hintsInPhase, setHintsInPhase] = useState<number>(0);
     const [errorsInPhase, setErrorsInPhase] = useState<number>(0);
 
-    useEffect(() => {
-        const fetchRowId = async (userId: number) => {
-            try {
-                const response = await axiosInstance.put(
-                    "/ck-study/createEntry",
-                    { exerciseType, userId, studyId, exerciseId },
-                    {
-                        headers: {
-                            Authorization: "Bearer " + user.token
-                        }
-                    }
-                );
-                setEntryId(response.data);
-            } catch (error) {
-                console.error(error);
-                throw new Error("Server initialization for tracking failed: " + error);
-            }
-        };
-
-        if (useLogger) {
-            fetchRowId(user.id);
-        }
-    }, [useLogger, user, studyId, exerciseId, exerciseType]);
-
     function trackAction(action: string): void {
-        if (useLogger) {
-            const data = { exerciseType, id: entryId, action };
-            sendData(data);
-        }
+        emitInteraction(InteractionEventType.Action, { action });
     }
 
     function trackActionInPhase(action: string): void {
-        if (useLogger) {
-            let data;
-            if (exerciseType === CKExerciseType.Equalization) {
-                data = { exerciseType, id: entryId, action, equalizationPhase: phase };
-            } else {
-                data = { exerciseType, id: entryId, action, substitutionPhase: phase };
-            }
-            sendData(data);
-        }
+        emitInteraction(InteractionEventType.Action, { action }, phase);
     }
 
     function trackHint(): void {
-        if (useLogger) {
+        if (isTracking) {
             setHints((previousHints: number) => previousHints + 1);
-            trackAction("HINT");
+            emitInteraction(InteractionEventType.Hint, {});
         }
     }
 
     function trackHintInPhase(): void {
-        if (useLogger) {
+        if (isTracking) {
             setHints((previousHints: number) => previousHints + 1);
             setHintsInPhase((previousHints: number) => previousHints + 1);
-            trackActionInPhase("HINT");
+            emitInteraction(InteractionEventType.Hint, {}, phase);
         }
     }
 
     function trackError(): void {
-        if (useLogger) {
+        if (isTracking) {
             setErrors((previousErrors: number) => previousErrors + 1);
+            emitInteraction(InteractionEventType.Error, {});
         }
     }
 
     function trackErrorInPhase(): void {
-        if (useLogger) {
+        if (isTracking) {
             setErrors((previousErrors: number) => previousErrors + 1);
             setErrorsInPhase((previousErrors: number) => previousErrors + 1);
+            emitInteraction(InteractionEventType.Error, {}, phase);
         }
     }
 
     function setNextTrackingPhase(newPhase: EqualizationPhase | SubstitutionPhase): void {
-        if (useLogger) {
+        if (isTracking) {
             endTrackingPhase();
             setPhase(newPhase);
             setStartTimeInPhase(performance.now());
@@ -99,115 +73,34 @@ export default function useCKTracker(useLogger: boolean, user: IUser, exerciseTy
     }
 
     function endTrackingPhase(): void {
-        if (useLogger) {
-            const time: number = getTime(startTimeInPhase);
-
-            let data;
-            if (exerciseType === CKExerciseType.Equalization) {
-                data = {
-                    exerciseType,
-                    id: entryId,
-                    time,
-                    hints: hintsInPhase,
-                    errors: errorsInPhase,
-                    equalizationPhase: phase
-                };
-            } else {
-                data = {
-                    exerciseType,
-                    id: entryId,
-                    time,
-                    hints: hintsInPhase,
-                    errors: errorsInPhase,
-                    substitutionPhase: phase
-                };
-            }
-            sendDataOnPhaseEnd(data);
+        const time: number = getTime(startTimeInPhase);
+        if (updateLearnerModel) {
+            completedPhases.current.push({ phase, time, hints: hintsInPhase, errors: errorsInPhase });
         }
+        emitInteraction(InteractionEventType.PhaseCompleted, { time, hints: hintsInPhase, errors: errorsInPhase }, phase);
     }
 
     function endTracking(): void {
-        if (useLogger) {
-            sendDataOnEnd();
+        const time: number = getTime(exerciseStartTime.current);
+        if (updateLearnerModel) {
+            // Games without phases are recorded as a single phase covering the whole exercise
+            const phases: PhasePerformance[] = completedPhases.current.length > 0 ? completedPhases.current : [{ phase: 0, time, hints, errors }];
+            recordExercisePerformance(getCKLearnerModelKey(exerciseType), exerciseId, phases);
         }
+        emitInteraction(InteractionEventType.ExerciseCompleted, { time, hints, errors });
     }
 
     function trackChoice(choice: EliminationChoice): void {
-        if (useLogger) {
-            sendChoiceData(choice);
-        }
-    }
-
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    async function sendData(data: any): Promise<void> {
-        try {
-            await axiosInstance.post(`/ck-study/addActionToEntry`, data, {
-                headers: {
-                    Authorization: "Bearer " + user.token
-                }
-            });
-        } catch (error) {
-            console.error(error);
-            throw new Error("Sending tracked action data failed: " + error);
-        }
-    }
-
-    async function sendDataOnEnd(): Promise<void> {
-        const time: number = getTime(exerciseStartTime.current);
-        try {
-            await axiosInstance.post(
-                `/ck-study/completeTracking`,
-                {
-                    exerciseType,
-                    id: entryId,
-                    time,
-                    hints,
-                    errors
-                },
-                {
-                    headers: {
-                        Authorization: "Bearer " + user.token
-                    }
-                }
-            );
-        } catch (error) {
-            console.error(error);
-            throw new Error("Sending final tracking data failed: " + error);
-        }
+        emitInteraction(InteractionEventType.Choice, { choice });
     }
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    async function sendDataOnPhaseEnd(data: any): Promise<void> {
-        try {
-            await axiosInstance.post(`/ck-study/completePhaseTracking`, data, {
-                headers: {
-                    Authorization: "Bearer " + user.token
-                }
-            });
-        } catch (error) {
-            console.error(error);
-            throw new Error("Sending tracking data on phase end failed: " + error);
-        }
+    // Snapshots and drags are only kept in the local interaction log, from which the session can be replayed
+    function trackSnapshot(step: number, state: GameSnapshot): void {
+        emitInteraction(InteractionEventType.StateSnapshot, { step, state }, exerciseType === CKExerciseType.Elimination ? undefined : phase);
     }
 
-    async function sendChoiceData(choice: EliminationChoice): Promise<void> {
-        try {
-            await axiosInstance.post(
-                `/ck-study/trackEliminationChoice`,
-                {
-                    id: entryId,
-                    choice
-                },
-                {
-                    headers: {
-                        Authorization: "Bearer " + user.token
-                    }
-                }
-            );
-        } catch (error) {
-            console.error(error);
-            throw new Error("Sending choice data for elimination failed: " + error);
-        }
+    function trackDrag(item: string, source: DragSource, target: DragSource | null): void {
+        emitInteraction(InteractionEventType.Drag, { item, source, target }, phase);
     }
 
     return {
@@ -220,6 +113,32 @@ export default function useCKTracker(useLogger: boolean, user: IUser, exerciseTy
         setNextTrackingPhase,
         endTrackingPhase,
         endTracking,
-        trackChoice
+        trackChoice,
+        trackSnapshot,
+        trackDrag
     };
 }
+
+function toCKRequest(event: InteractionEvent, user: IUser): InteractionRequest | undefined {
+    const { exerciseType, exerciseId, studyId } = event.exercise;
+    // Events without a phase are sent without one, as the backend distinguishes actions in and outside of phases
+    const phaseData = event.phase === undefined ? {} : exerciseType === CKExerciseType.Equalization ? { equalizationPhase: event.phase } : { substitutionPhase: event.phase };
+
+    switch (event.type) {
+        case InteractionEventType.ExerciseStarted:
+            return { method: "put", url: "/ck-study/createEntry", data: { exerciseType, userId: user.id, studyId, exerciseId }, createsEntry: true };
+        case InteractionEventType.Action:
+            return { url: "/ck-study/addActionToEntry", data: { exerciseType, action: event.payload.action, ...phaseData } };
+        case InteractionEventType.Hint:
+            return { url: "/ck-study/addActionToEntry", data: { exerciseType, action: "HINT", ...phaseData } };
+        case InteractionEventType.Choice:
+            return { url: "/ck-study/trackEliminationChoice", data: { choice: event.payload.choice } };
+        case InteractionEventType.PhaseCompleted:
+            return { url: "/ck-study/completePhaseTracking", data: { exerciseType, time: event.payload.time, hints: event.payload.hints, errors: event.payload.errors, ...phaseData } };
+        case InteractionEventType.ExerciseCompleted:
+            return { url: "/ck-study/completeTracking", data: { exerciseType, time: event.payload.time, hints: event.payload.hints, errors: event.payload.errors }, completesEntry: true };
+        default:
+            // Errors are only transmitted as counts when a phase or the exercise is completed, snapshots and drags are not transmitted at all
+            return undefined;
+    }
+}
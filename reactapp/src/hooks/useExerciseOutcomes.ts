@@ -0,0 +1,28 @@
+import { useEffect } from "react";
+import { ExerciseModule, ExerciseOutcomeType } from "@/types/shared/exerciseOutcome.ts";
+import { CKExerciseType } from "@/types/studies/enums.ts";
+import { emitExerciseOutcome } from "@utils/exerciseOutcomes.ts";
+
+export default function useExerciseOutcomes(module: ExerciseModule, exerciseId: number, exerciseType?: CKExerciseType) {
+    useEffect(() => {
+        emitExerciseOutcome(ExerciseOutcomeType.Started, module, exerciseId, exerciseType);
+    }, [module, exerciseId, exerciseType]);
+
+    function emitStepCorrect(): void {
+        emitExerciseOutcome(ExerciseOutcomeType.StepCorrect, module, exerciseId, exerciseType);
+    }
+
+    function emitError(): void {
+        emitExerciseOutcome(ExerciseOutcomeType.Error, module, exerciseId, exerciseType);
+    }
+
+    function emitHintUsed(): void {
+        emitExerciseOutcome(ExerciseOutcomeType.HintUsed, module, exerciseId, exerciseType);
+    }
+
+    function emitSolved(): void {
+        emitExerciseOutcome(ExerciseOutcomeType.Solved, module, exerciseId, exerciseType);
+    }
+
+    return { emitStepCorrect, emitError, emitHintUsed, emitSolved };
+}
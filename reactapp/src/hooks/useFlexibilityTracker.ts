@@ -5,15 +5,28 @@ import {
     FlexibilityExercisePhase,
     FlexibilityStudyExerciseType
 } from "@/types/studies/enums.ts";
-import { useEffect, useRef, useState } from "react";
-import axiosInstance from "@/types/shared/axiosInstance.ts";
+import { useRef, useState } from "react";
 import { AgentCondition, AgentType } from "@/types/flexibility/enums.ts";
 import { getTime } from "@utils/utils.ts";
+import { PhasePerformance } from "@/types/shared/learnerModel.ts";
+import { FLEXIBILITY_LEARNER_MODEL_KEY, recordExercisePerformance } from "@utils/learnerModel.ts";
+import { ExerciseFamily, InteractionEvent, InteractionEventType, InteractionRequest } from "@/types/studies/interactionEvent.ts";
+import useInteractionTracker from "@hooks/useInteractionTracker.ts";
 
-export default function useFlexibilityTracker(useLogger: boolean, user: IUser, studyId: number, flexibilityId: number, exerciseId: number, exerciseType: FlexibilityStudyExerciseType, currentTime: number, agentCondition: AgentCondition, agentType?: AgentType, initialPhase?: FlexibilityExercisePhase) {
+export default function useFlexibilityTracker(useLogger: boolean, user: IUser | undefined, studyId: number, flexibilityId: number, exerciseId: number, exerciseType: FlexibilityStudyExerciseType, currentTime: number, agentCondition: AgentCondition, agentType?: AgentType, initialPhase?: FlexibilityExercisePhase, updateLearnerModel: boolean = false) {
     const exerciseStartTime = useRef<number>(currentTime);
-
-    const [entryId, setEntryId] = useState<number>();
+    // Errors and phases are counted for the study backend as well as for the local learner model
+    const isTracking: boolean = useLogger || updateLearnerModel;
+    const completedPhases = useRef<PhasePerformance[]>([]);
+    const { emitInteraction } = useInteractionTracker(useLogger, isTracking, user, {
+        family: ExerciseFamily.Flexibility,
+        exerciseType,
+        exerciseId,
+        studyId,
+        flexibilityId,
+        agentCondition,
+        agentType
+    }, toFlexibilityRequest);
 
     const [errors, setErrors] = useState<number>(0);
 
@@ -21,61 +34,32 @@ export default function useFlexibilityTracker(useLogger: boolean, user: IUser, s
     const [startTimeInPhase, setStartTimeInPhase] = useState<number>(0);
     const [errorsInPhase, setErrorsInPhase] = useState<number>(0);
 
-    useEffect(() => {
-        const fetchRowId = async (userId: number, username: string) => {
-            try {
-                const response = await axiosInstance.put(
-                    "/flexibility-study/createEntry",
-                    { userId, username, studyId, flexibilityId, exerciseId, exerciseType, agentCondition, agentType },
-                    {
-                        headers: {
-                            Authorization: "Bearer " + user.token
-                        }
-                    }
-                );
-                setEntryId(response.data);
-            } catch (error) {
-                console.error(error);
-                throw new Error("Server initialization for tracking failed: " + error);
-            }
-        };
-
-        if (useLogger) {
-            fetchRowId(user.id, user.username);
-        }
-    }, [useLogger, user, studyId, flexibilityId, exerciseId, exerciseType, agentCondition, agentType]);
-
     function initializeTrackingPhase(phase: FlexibilityExercisePhase): void {
-        if (useLogger) {
+        if (isTracking) {
             setPhase(phase);
             setStartTimeInPhase(performance.now());
             setErrorsInPhase(0);
         }
     }
 
-    function trackActionInPhase(action: string, phase: FlexibilityExerciseActionPhase): void {
-        if (useLogger) {
-            const data = { userId: user.id, username: user.username, studyId, id: entryId, phase, action };
-            sendData(data);
-        }
+    function trackActionInPhase(action: string, actionPhase: FlexibilityExerciseActionPhase): void {
+        emitInteraction(InteractionEventType.Action, { action, actionPhase }, phase);
     }
 
-    function trackChoice(choice: string, phase: FlexibilityExerciseChoicePhase): void {
-        if (useLogger) {
-            const data = { userId: user.id, username: user.username, studyId, id: entryId, phase, choice };
-            sendData(data, "trackChoice");
-        }
+    function trackChoice(choice: string, choicePhase: FlexibilityExerciseChoicePhase): void {
+        emitInteraction(InteractionEventType.Choice, { choice, choicePhase }, phase);
     }
 
     function trackErrorInPhase(): void {
-        if (useLogger) {
+        if (isTracking) {
             setErrors((previousErrors: number) => previousErrors + 1);
             setErrorsInPhase((previousErrors: number) => previousErrors + 1);
+            emitInteraction(InteractionEventType.Error, {}, phase);
         }
     }
 
     function setNextTrackingPhase(newPhase: FlexibilityExercisePhase, choice?: string): void {
-        if (useLogger) {
+        if (isTracking) {
             endTrackingPhase(choice);
             setPhase(newPhase);
             setStartTimeInPhase(performance.now());
@@ -84,68 +68,24 @@ export default function useFlexibilityTracker(useLogger: boolean, user: IUser, s
     }
 
     function endTrackingPhase(choice?: string): void {
-        if (useLogger) {
-            const time: number = getTime(startTimeInPhase);
-
-            let data;
-            if (phase === FlexibilityExercisePhase.Comparison || phase === FlexibilityExercisePhase.ResolveConclusion) {
-                data = { userId: user.id, username: user.username, studyId, id: entryId, time, errors: 0, phase, choice };
-            } else {
-                data = { userId: user.id, username: user.username, studyId, id: entryId, time, errors: errorsInPhase, phase };
-            }
-            sendDataOnPhaseEnd(data);
+        const time: number = getTime(startTimeInPhase);
+        if (updateLearnerModel) {
+            completedPhases.current.push({ phase, time, hints: 0, errors: errorsInPhase });
         }
-    }
 
-    function endTracking(): void {
-        if (useLogger) {
-            sendDataOnEnd();
+        // Comparisons are rated by the choice made in them instead of by errors
+        if (phase === FlexibilityExercisePhase.Comparison || phase === FlexibilityExercisePhase.ResolveConclusion) {
+            emitInteraction(InteractionEventType.PhaseCompleted, { time, hints: 0, errors: 0, choice }, phase);
+        } else {
+            emitInteraction(InteractionEventType.PhaseCompleted, { time, hints: 0, errors: errorsInPhase }, phase);
         }
     }
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    async function sendData(data: any, route: string = "addActionToEntry"): Promise<void> {
-        try {
-            await axiosInstance.post(`/flexibility-study/${route}`, data, {
-                headers: {
-                    Authorization: "Bearer " + user.token
-                }
-            });
-        } catch (error) {
-            console.error(error);
-            throw new Error("Sending tracked action data failed: " + error);
-        }
-    }
-
-    async function sendDataOnEnd(): Promise<void> {
-        const time: number = getTime(exerciseStartTime.current);
-        try {
-            await axiosInstance.post(`/flexibility-study/completeTracking`,
-                { userId: user.id, username: user.username, studyId, id: entryId, time, errors },
-                {
-                    headers: {
-                        Authorization: "Bearer " + user.token
-                    }
-                }
-            );
-        } catch (error) {
-            console.error(error);
-            throw new Error("Sending final tracking data failed: " + error);
-        }
-    }
-
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    async function sendDataOnPhaseEnd(data: any): Promise<void> {
-        try {
-            await axiosInstance.post(`/flexibility-study/completePhaseTracking`, data, {
-                headers: {
-                    Authorization: "Bearer " + user.token
-                }
-            });
-        } catch (error) {
-            console.error(error);
-            throw new Error("Sending tracking data on phase end failed: " + error);
+    function endTracking(): void {
+        if (updateLearnerModel) {
+            recordExercisePerformance(FLEXIBILITY_LEARNER_MODEL_KEY, flexibilityId, completedPhases.current);
         }
+        emitInteraction(InteractionEventType.ExerciseCompleted, { time: getTime(exerciseStartTime.current), hints: 0, errors });
     }
 
     return {
@@ -157,4 +97,25 @@ export default function useFlexibilityTracker(useLogger: boolean, user: IUser, s
         endTrackingPhase,
         endTracking
     };
-}
\ No newline at end of file
+}
+
+function toFlexibilityRequest(event: InteractionEvent, user: IUser): InteractionRequest | undefined {
+    const { exerciseType, exerciseId, studyId, flexibilityId, agentCondition, agentType } = event.exercise;
+    const userData = { userId: user.id, username: user.username, studyId };
+
+    switch (event.type) {
+        case InteractionEventType.ExerciseStarted:
+            return { method: "put", url: "/flexibility-study/createEntry", data: { ...userData, flexibilityId, exerciseId, exerciseType, agentCondition, agentType }, createsEntry: true };
+        case InteractionEventType.Action:
+            return { url: "/flexibility-study/addActionToEntry", data: { ...userData, phase: event.payload.actionPhase, action: event.payload.action } };
+        case InteractionEventType.Choice:
+            return { url: "/flexibility-study/trackChoice", data: { ...userData, phase: event.payload.choicePhase, choice: event.payload.choice } };
+        case InteractionEventType.PhaseCompleted:
+            return { url: "/flexibility-study/completePhaseTracking", data: { ...userData, time: event.payload.time, errors: event.payload.errors, phase: event.phase, choice: event.payload.choice } };
+        case InteractionEventType.ExerciseCompleted:
+            return { url: "/flexibility-study/completeTracking", data: { ...userData, time: event.payload.time, errors: event.payload.errors }, completesEntry: true };
+        default:
+            // Errors are only transmitted as counts when a phase or the exercise is completed
+            return undefined;
+    }
+}
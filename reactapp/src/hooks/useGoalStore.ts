@@ -0,0 +1,14 @@
+import { useEffect, useState } from "react";
+import { GoalStore } from "@/types/shared/goals.ts";
+import { getGoalStore, subscribeToGoalStore } from "@utils/goalStore.ts";
+
+// Provides the goal store to any view and rerenders it whenever the goals change
+export default function useGoalStore(): GoalStore {
+    const [store, setStore] = useState<GoalStore>(getGoalStore);
+
+    useEffect(() => {
+        return subscribeToGoalStore(setStore);
+    }, []);
+
+    return store;
+}
@@ -0,0 +1,81 @@
+import { useEffect, useRef } from "react";
+import {
+    InteractionEvent,
+    InteractionEventType,
+    InteractionExercise,
+    InteractionPayloads,
+    InteractionPhase,
+    InteractionRequest
+} from "@/types/studies/interactionEvent.ts";
+import { SessionState } from "@/types/shared/session.ts";
+import { GoalSettingCondition } from "@/types/studies/goalAssignment.ts";
+import { IUser } from "@/types/studies/user.ts";
+import { getGoalSettingCondition } from "@utils/goalAssignment.ts";
+import { getGoalStore } from "@utils/goalStore.ts";
+import { recordInteraction } from "@utils/interactionLog.ts";
+import { getSessionState } from "@utils/sessionClock.ts";
+import { createEntryKey, enqueueTrackingRequest } from "@utils/trackingQueue.ts";
+
+/**
+ * Shared base of the study trackers: every interaction is recorded as a typed event in the local interaction log
+ * and, if the logger is enabled, transmitted to the study backend using the request the tracker maps it to.
+ */
+export default function useInteractionTracker(useLogger: boolean, isTracking: boolean, user: IUser | undefined, exercise: InteractionExercise, toRequest: (event: InteractionEvent, user: IUser) => InteractionRequest | undefined) {
+    // The entry is identified by a client-side key until the server has assigned its id
+    const entryKey = useRef<string>("");
+    const sequence = useRef<number>(0);
+
+    useEffect(() => {
+        entryKey.current = createEntryKey();
+        sequence.current = 0;
+        emitInteraction(InteractionEventType.ExerciseStarted, {});
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [useLogger, isTracking, user, exercise.family, exercise.exerciseType, exercise.exerciseId, exercise.studyId, exercise.flexibilityId, exercise.agentCondition, exercise.agentType]);
+
+    function emitInteraction<T extends InteractionEventType>(type: T, payload: InteractionPayloads[T], phase?: InteractionPhase): void {
+        if (!isTracking) {
+            return;
+        }
+
+        // The goal condition of goal-setting studies is logged with every event, so that self-set and assigned goals can be compared.
+        // The backend does not store it, it is only contained in the interaction log and the study data exported from it.
+        const goalCondition: GoalSettingCondition | undefined = getGoalSettingCondition(user);
+        const goalData = goalCondition !== undefined ? { goalCondition, goalId: getGoalStore().activeGoal?.goalId } : {};
+        const { sessionId, activeTime }: SessionState = getSessionState();
+        const event = {
+            entryKey: entryKey.current,
+            sequence: sequence.current++,
+            type,
+            userId: user?.id,
+            exercise: { ...exercise, ...goalData },
+            phase,
+            timestamp: Date.now(),
+            sessionId,
+            sessionTime: Math.round(activeTime / 1000),
+            payload
+        } as InteractionEvent;
+        recordInteraction(event);
+
+        // Students who play without logging in are only recorded locally
+        if (!useLogger || user === undefined) {
+            return;
+        }
+        const request: InteractionRequest | undefined = toRequest(event, user);
+        if (request !== undefined) {
+            // Requests are sent by the tracking queue, which retries them until the server is reachable again
+            enqueueTrackingRequest({
+                requestId: `${event.entryKey}-${event.sequence}`,
+                entryKey: event.entryKey,
+                method: request.method ?? "post",
+                url: request.url,
+                data: request.data,
+                userId: user.id,
+                token: user.token,
+                createsEntry: request.createsEntry,
+                completesEntry: request.completesEntry
+            });
+        }
+    }
+
+    return { emitInteraction };
+}
@@ -0,0 +1,41 @@
+import { useEffect, useState } from "react";
+import { ModuleProgress } from "@/types/shared/progress.ts";
+import { getModuleProgress, loadExerciseCatalog } from "@utils/progressService.ts";
+import { subscribeToExerciseCompletions } from "@utils/storageUtils.ts";
+
+/**
+ * Provides the progress of all modules, starting with the cached exercise lists until the current lists are loaded.
+ * The progress is recomputed whenever an exercise is completed and whenever the view showing it becomes visible.
+ */
+export default function useModuleProgress(isVisible: boolean = true): ModuleProgress[] {
+    const [progress, setProgress] = useState<ModuleProgress[]>(getModuleProgress);
+
+    useEffect(() => {
+        let isMounted: boolean = true;
+        loadExerciseCatalog()
+            .then((): void => {
+                if (isMounted) {
+                    setProgress(getModuleProgress());
+                }
+            })
+            .catch((error: unknown): void => {
+                // The cached lists stay in use
+                console.error(error);
+            });
+        return (): void => {
+            isMounted = false;
+        };
+    }, []);
+
+    useEffect(() => {
+        return subscribeToExerciseCompletions((): void => setProgress(getModuleProgress()));
+    }, []);
+
+    useEffect(() => {
+        if (isVisible) {
+            setProgress(getModuleProgress());
+        }
+    }, [isVisible]);
+
+    return progress;
+}
@@ -0,0 +1,9 @@
+import { useEffect } from "react";
+import { startSessionClock } from "@utils/sessionClock.ts";
+
+// Runs the session clock as long as the app is open, it pauses by itself while the tab is hidden
+export default function useSessionClock() {
+    useEffect(() => {
+        return startSessionClock();
+    }, []);
+}
@@ -0,0 +1,14 @@
+import { useEffect, useState } from "react";
+import { SessionState } from "@/types/shared/session.ts";
+import { getSessionState, subscribeToSessionClock } from "@utils/sessionClock.ts";
+
+// Provides the current session and rerenders the view every second while the session clock is running
+export default function useSessionState(): SessionState {
+    const [session, setSession] = useState<SessionState>(getSessionState);
+
+    useEffect(() => {
+        return subscribeToSessionClock(setSession);
+    }, []);
+
+    return session;
+}
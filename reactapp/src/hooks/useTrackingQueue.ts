@@ -0,0 +1,18 @@
+import { useEffect } from "react";
+import { flushTrackingQueue } from "@utils/trackingQueue.ts";
+
+export default function useTrackingQueue() {
+    const handleOnline = (): void => {
+        flushTrackingQueue();
+    };
+
+    useEffect(() => {
+        // Send the requests that could not be delivered before the page was closed
+        flushTrackingQueue();
+        window.addEventListener("online", handleOnline);
+
+        return (): void => {
+            window.removeEventListener("online", handleOnline);
+        };
+    }, []);
+}
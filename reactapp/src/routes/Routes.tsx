@@ -5,11 +5,16 @@ import { ErrorBoundary } from "react-error-boundary";
 import { Outlet, RouterProvider, createBrowserRouter } from "react-router-dom";
 import { ErrorTranslations } from "@/types/shared/errorTranslations.ts";
 import About from "@views/About.tsx";
+import GoalHistoryView from "@views/GoalHistoryView.tsx";
+import InteractionLogView from "@views/InteractionLogView.tsx";
+import SessionReplayView from "@views/SessionReplayView.tsx";
+import StudyDataExportView from "@views/StudyDataExportView.tsx";
 import EliminationExercise from "@views/elimination/EliminationExercise.tsx";
 import EliminationGameTutorial from "@views/elimination/EliminationGameTutorial.tsx";
 import EliminationView from "@views/elimination/EliminationView.tsx";
 import EqualizationExercise from "@views/equalization/EqualizationExercise.tsx";
 import EqualizationGameTutorial from "@views/equalization/EqualizationGameTutorial.tsx";
+import EqualizationPracticeExercise from "@views/equalization/EqualizationPracticeExercise.tsx";
 import EqualizationView from "@views/equalization/EqualizationView.tsx";
 import FlexibilityStudyExamplesView from "@views/flexibility/FlexibilityStudyExamplesView.tsx";
 import FlexibilityView from "@views/flexibility/FlexibilityView.tsx";
@@ -24,11 +29,15 @@ import BarteringGameTutorial from "@views/substitution/BarteringGameTutorial.tsx
 import SubstitutionExercise from "@views/substitution/SubstitutionExercise.tsx";
 import SubstitutionGameTutorial from "@views/substitution/SubstitutionGameTutorial.tsx";
 import SubstitutionView from "@views/substitution/SubstitutionView.tsx";
+import StudentProgressView from "@views/teacher/StudentProgressView.tsx";
+import TeacherDashboardView from "@views/teacher/TeacherDashboardView.tsx";
 import ErrorScreen, { HomeErrorFallback, RouteNotFound } from "@components/shared/ErrorScreen.tsx";
 import UnsupportedDevicesBoundary from "@components/views/UnsupportedDevicesBoundary.tsx";
 import AuthenticatedRoute from "@routes/AuthenticatedRoute.tsx";
+import TeacherRoute from "@routes/TeacherRoute.tsx";
 import { Paths } from "@routes/paths.ts";
 import FlexibilityExercise from "@views/flexibility/FlexibilityExercise.tsx";
+import FlexibilityPracticeExercise from "@views/flexibility/FlexibilityPracticeExercise.tsx";
 import { FlexibilityStudyView } from "@views/studies/flexibility/FlexibilityStudyView.tsx";
 import FlexibilityStudyExercise from "@views/studies/flexibility/FlexibilityStudyExercise.tsx";
 import { FlexibilityStudyEnd } from "@views/studies/flexibility/FlexibilityStudyEnd.tsx";
@@ -85,6 +94,10 @@ export default function Routes(): ReactElement {
                     path: Paths.EqualizationGameTutorialPath,
                     element: <EqualizationGameTutorial />
                 },
+                {
+                    path: Paths.EqualizationGamePracticePath,
+                    element: <EqualizationPracticeExercise />
+                },
                 {
                     path: Paths.SubstitutionPath,
                     element: (
@@ -133,10 +146,30 @@ export default function Routes(): ReactElement {
                     path: Paths.FlexibilityExercisePath,
                     element: <FlexibilityExercise isStudyExample={false} />
                 },
+                {
+                    path: Paths.FlexibilityPracticePath,
+                    element: <FlexibilityPracticeExercise />
+                },
                 {
                     path: Paths.AboutPath,
                     element: <About />
                 },
+                {
+                    path: Paths.InteractionLogPath,
+                    element: <InteractionLogView />
+                },
+                {
+                    path: Paths.SessionReplayPath,
+                    element: <SessionReplayView />
+                },
+                {
+                    path: Paths.StudyDataExportPath,
+                    element: <StudyDataExportView />
+                },
+                {
+                    path: Paths.GoalHistoryPath,
+                    element: <GoalHistoryView />
+                },
                 {
                     path: "*",
                     element: <RouteNotFound />
@@ -238,8 +271,34 @@ export default function Routes(): ReactElement {
         }
     ];
 
+    // The teacher dashboard has its own login, so that it is available independently of running studies
+    const teacherRoutes = [
+        {
+            element: <RouteErrorBoundaryLayout />,
+            children: [
+                {
+                    path: Paths.TeacherLoginPath,
+                    element: <LoginView />
+                },
+                {
+                    element: <TeacherRoute />,
+                    children: [
+                        {
+                            path: Paths.TeacherDashboardPath,
+                            element: <TeacherDashboardView />
+                        },
+                        {
+                            path: Paths.TeacherStudentPath,
+                            element: <StudentProgressView />
+                        }
+                    ]
+                }
+            ]
+        }
+    ];
+
     // const router = createBrowserRouter([...homeRoute, ...publicRoutes, ...authenticatedRoutes, ...(user === undefined ? authenticatedForbiddenRoutes : [])]);
-    const router = createBrowserRouter([...homeRoute, ...publicRoutes]); // Authenticated routes are only required for conducting studies
+    const router = createBrowserRouter([...homeRoute, ...publicRoutes, ...teacherRoutes]); // Authenticated routes are only required for conducting studies
 
     return <RouterProvider router={router} />;
 }
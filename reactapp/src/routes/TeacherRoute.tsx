@@ -0,0 +1,14 @@
+import { useAuth } from "@/contexts/AuthProvider.tsx";
+import { Navigate, Outlet } from "react-router-dom";
+import { UserRole } from "@/types/studies/enums.ts";
+import { Paths } from "./paths";
+
+export default function TeacherRoute() {
+    const { user } = useAuth();
+
+    if (user === undefined || user.role !== UserRole.Teacher) {
+        return <Navigate to={Paths.TeacherLoginPath} />;
+    }
+
+    return <Outlet />;
+}
@@ -1,10 +1,15 @@
 export class Paths {
     static readonly HomePath: string = "/";
     static readonly AboutPath: string = "/about";
+    static readonly InteractionLogPath: string = "/interaction-log/";
+    static readonly SessionReplayPath: string = "/interaction-log/replay/:entryKey";
+    static readonly StudyDataExportPath: string = "/interaction-log/study-data/";
+    static readonly GoalHistoryPath: string = "/goals/";
     static readonly EqualizationPath: string = "/equalization";
     static readonly EqualizationGamePath: string = "/equalization/conceptual-knowledge/";
     static readonly EqualizationGameExercisePath: string = "/equalization/conceptual-knowledge/exercises/:exerciseId";
     static readonly EqualizationGameTutorialPath: string = "/equalization/conceptual-knowledge/tutorial";
+    static readonly EqualizationGamePracticePath: string = "/equalization/conceptual-knowledge/practice";
     static readonly SubstitutionPath: string = "/substitution";
     static readonly BarteringGamePath: string = "/substitution/bartering/";
     static readonly BarteringGameExercisePath: string = "/substitution/bartering/exercises/:exerciseId";
@@ -18,6 +23,7 @@ export class Paths {
     static readonly EliminationGameTutorialPath: string = "/elimination/conceptual-knowledge/tutorial";
     static readonly FlexibilityPath: string = "/flexibility-training/";
     static readonly FlexibilityExercisePath: string = "/flexibility-training/exercises/:exerciseId";
+    static readonly FlexibilityPracticePath: string = "/flexibility-training/practice";
     static readonly StudiesLoginPath: string = "/studies/login";
     static readonly CKStudyPath: string = "/studies/ck-study/";
     static readonly CKConcreteStudyPath: string = "/studies/ck-study/:studyId";
@@ -30,8 +36,13 @@ export class Paths {
     static readonly FlexibilityStudySubstitutionDemoPath: string = "/studies/flexibility-study/:studyId/substitution-demo";
     static readonly FlexibilityStudyEliminationDemoPath: string = "/studies/flexibility-study/:studyId/elimination-demo";
     static readonly FlexibilityStudyEndPath: string = "/studies/flexibility-study/end";
+    static readonly TeacherLoginPath: string = "/teacher/login";
+    static readonly TeacherDashboardPath: string = "/teacher/";
+    static readonly TeacherStudentPath: string = "/teacher/students/:studentId";
     static readonly ExercisesSubPath: string = "exercises/";
     static readonly TutorialSubPath: string = "tutorial";
+    static readonly ReplaySubPath: string = "replay/";
+    static readonly StudentsSubPath: string = "students/";
 }
 
 export function getPathToExercises(path: string): string {
@@ -42,6 +53,10 @@ export function getPathToExercise(path: string, exerciseId: string | number): st
     return path + Paths.ExercisesSubPath + `getExercise/${exerciseId}`;
 }
 
+export function getPathToFlexibilityExercises(): string {
+    return Paths.FlexibilityPath + "getFlexibilityExercises";
+}
+
 export function getPathToStudyExercise(path: string, exerciseId: string | number): string {
     return path + Paths.ExercisesSubPath + `getExerciseForStudy/${exerciseId}`;
 }
@@ -1,4 +1,5 @@
 import { LanguageExtension } from "@/i18n.ts";
+import { SolutionType } from "@/types/math/enums.ts";
 import { TranslationInterpolation } from "@/types/shared/translationInterpolation.ts";
 import { appendLanguageExtension } from "@utils/translations.ts";
 
@@ -69,6 +70,18 @@ export class EliminationTranslations {
         return new TranslationInterpolation("neutral-choice", null);
     };
 
+    // Classification of systems without a unique solution
+    static readonly CLASSIFICATION_INSTR: string = "classification-instruction";
+    static readonly CLASSIFICATION_QUESTION: string = "classification-question";
+    static readonly CLASSIFICATION_UNIQUE: string = "classification-unique";
+    static readonly CLASSIFICATION_NONE: string = "classification-none";
+    static readonly CLASSIFICATION_INFINITE: string = "classification-infinite";
+    static readonly CLASSIFICATION_ERROR: string = "classification-error";
+
+    static readonly getTextForClassificationResult = (solutionType: SolutionType): TranslationInterpolation => {
+        return new TranslationInterpolation(solutionType === SolutionType.None ? "classification-result-none" : "classification-result-infinite", null);
+    };
+
     // Input field
     static readonly INPUT_ERROR_INSTR: string = "input-field-error-instr";
     static readonly INPUT_EVAL_ERROR: string = "input-field-evaluation-error";
@@ -8,7 +8,9 @@ export enum NotebookState {
     EquationSelection,
     GoodChoice,
     BadChoice,
-    NeutralChoice
+    NeutralChoice,
+    SystemClassification,
+    ClassificationResult
 }
 
 export enum InputError {
@@ -1,10 +1,11 @@
 import { Fraction } from "mathjs";
 import { EliminationExercise } from "@/types/elimination/eliminationExercise.ts";
 import { OperationOutOfRangeError } from "@/types/elimination/operationOutOfRangeError.ts";
-import { NumberType, Operator } from "@/types/math/enums.ts";
+import { NumberType, Operator, SolutionType } from "@/types/math/enums.ts";
 import { LinearEquation } from "@/types/math/linearEquation.ts";
 import { math } from "@/types/math/math.ts";
 import { Term } from "@/types/math/term.ts";
+import { classifyNormalizedEquation, solveNormalizedSystem } from "@utils/solverUtils.ts";
 import { addOrSubtractCoefficients, multiplyCoefficientWithScalar, satisfiesBounds } from "@utils/utils.ts";
 
 export interface IRow {
@@ -46,6 +47,16 @@ export class Row implements IRow {
         return term.operator !== null && term.operator === Operator.Minus ? (term.coefficient.type === NumberType.Fraction ? math.fraction("-" + term.coefficient.value) : math.fraction(-(term.coefficient.value as number))) : math.fraction(term.coefficient.value);
     }
 
+    // Whether the system given by the initial rows has a unique solution, no solution or infinitely many solutions
+    public static solveRows(rows: Row[]): SolutionType {
+        return solveNormalizedSystem([rows[0].first, rows[0].second, rows[0].costs], [rows[1].first, rows[1].second, rows[1].costs]).type;
+    }
+
+    // A row in which both variables are zero reads 0 = costs, which is only possible if the system has no unique solution
+    public static classify(row: Row): SolutionType | undefined {
+        return classifyNormalizedEquation([row.first, row.second, row.costs]);
+    }
+
     static add(row1: Row, row2: Row): Row {
         return new Row(this.addCoefficients(row1.first, row2.first), this.addCoefficients(row1.second, row2.second), this.addCoefficients(row1.costs, row2.costs));
     }
@@ -7,7 +7,8 @@ export enum FlexibilityExerciseType {
 export enum Method {
     Equalization,
     Substitution,
-    Elimination
+    Elimination,
+    Graphical
 }
 
 export enum AgentCondition {
@@ -31,7 +32,10 @@ export enum SuitabilityExerciseState {
     ResolveWithSubstitutionMethod,
     ResolveWithEliminationMethod,
     ResolveConclusion,
-    Comparison
+    Comparison,
+    GraphicalMethod,
+    GraphicalSolution,
+    ResolveWithGraphicalMethod
 }
 
 export enum EfficiencyExerciseState {
@@ -44,7 +48,10 @@ export enum EfficiencyExerciseState {
     FirstSolution,
     EquationSelection,
     SecondSolution,
-    SystemSolution
+    SystemSolution,
+    SystemClassification,
+    GraphicalMethod,
+    GraphicalSolution
 }
 
 export enum MatchingExerciseState {
@@ -87,7 +94,12 @@ export enum PlainExerciseState {
     FirstSolution,
     EquationSelection,
     SecondSolution,
-    SystemSolution
+    SystemSolution,
+    SystemReduction,
+    RemainingSolution,
+    SystemClassification,
+    GraphicalMethod,
+    GraphicalSolution
 }
 
 export enum AgentType {
@@ -125,6 +137,18 @@ export enum SubstitutionError {
     NotExchangeable
 }
 
+// Likely errors in an equation a student transformed by themselves, detected by comparing it with the previous equation
+export enum TransformationStepError {
+    InvalidInput,
+    SignError,
+    OneSideOnly,
+    DroppedTerm,
+    NotEquivalent,
+    // Only used when a system is reduced by combining two of its equations
+    VariableNotEliminated,
+    NotCombined
+}
+
 export enum IsolatedIn {
     First,
     Second,
@@ -165,4 +189,27 @@ export enum CompletedDemo {
     Equalization,
     Substitution,
     Elimination
-}
\ No newline at end of file
+}
+
+export enum ExerciseValidationIssue {
+    UnknownVariable,
+    WrongFirstVariableValue,
+    WrongSecondVariableValue,
+    WrongIsolationFirstEquation,
+    WrongIsolationSecondEquation,
+    WrongAdditionalVariableValue,
+    UnsupportedAdditionalEquations
+}
+
+export enum SystemStructure {
+    IsolatedInFirst,
+    IsolatedInSecond,
+    IsolatedInBoth,
+    IsolatedInOne,
+    Multiples,
+    EliminationReady,
+    ThreeEquations,
+    FourEquations,
+    NoSolution,
+    InfiniteSolutions
+}
@@ -12,4 +12,8 @@ export interface IFlexibilityExercise {
     readonly secondEquationIsIsolatedIn: IsolatedIn;
     readonly firstVariable: IVariable;
     readonly secondVariable: IVariable;
+    // Equations and unknowns beyond the first two, only set for systems that are reduced to two equations before they are solved.
+    // Only plain exercises support them, the other exercise types and their solution flow are limited to two equations and two unknowns.
+    readonly additionalEquations?: FlexibilityEquation[];
+    readonly additionalVariables?: IVariable[];
 }
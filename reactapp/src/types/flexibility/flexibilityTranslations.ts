@@ -6,6 +6,7 @@ export class FlexibilityTranslations {
     static readonly EQUALIZATION: string = "equalization-method";
     static readonly SUBSTITUTION: string = "substitution-method";
     static readonly ELIMINATION: string = "elimination-method";
+    static readonly GRAPHICAL: string = "graphical-method";
 
     static readonly BUTTON_SELECT_INITIAL_SYSTEM: string = "button-select-initial-system";
     static readonly BUTTON_SELECT_TRANSFORMED_SYSTEM: string = "button-select-transformed-system";
@@ -14,6 +15,7 @@ export class FlexibilityTranslations {
     static readonly BUTTON_ADD: string = "button-add";
     static readonly BUTTON_SUBTRACT: string = "button-subtract";
     static readonly BUTTON_TRY_AGAIN: string = "button-try-again";
+    static readonly BUTTON_NO_INTERSECTION: string = "button-no-intersection";
 
     static readonly INTRO_SYSTEM: string = "system-introduction";
 
@@ -26,6 +28,7 @@ export class FlexibilityTranslations {
     static readonly EQUALIZATION_NOT_EFFICIENT_NO_TRANSFORMATION: string = "equalization-not-efficient-no-transformation";
     static readonly SUBSTITUTION_NOT_EFFICIENT_NO_TRANSFORMATION: string = "substitution-not-efficient-no-transformation";
     static readonly ELIMINATION_NOT_EFFICIENT_NO_TRANSFORMATION: string = "elimination-not-efficient-no-transformation";
+    static readonly GRAPHICAL_NOT_EFFICIENT: string = "graphical-not-efficient";
 
     static readonly EXPLANATION_SINGLE_CHOICE: string = "self-explanation-single-choice";
     static readonly EXPLANATION_MULTIPLE_CHOICE: string = "self-explanation-multiple-choice";
@@ -119,6 +122,41 @@ export class FlexibilityTranslations {
     static readonly ELIMINATION_DEMO_ERROR: string = "elimination-demo-error";
     static readonly DEMO_TRY_AGAIN: string = "demo-try-again";
 
+    static readonly SWITCH_WRITE_STEPS: string = "switch-write-steps";
+    static readonly STEP_INPUT_INSTRUCTION: string = "step-input-instruction";
+    static readonly STEP_ERROR_INVALID: string = "step-error-invalid";
+    static readonly STEP_ERROR_SIGN: string = "step-error-sign";
+    static readonly STEP_ERROR_ONE_SIDE: string = "step-error-one-side";
+    static readonly STEP_ERROR_DROPPED_TERM: string = "step-error-dropped-term";
+    static readonly STEP_ERROR_NOT_EQUIVALENT: string = "step-error-not-equivalent";
+    static readonly STEP_ERROR_NOT_ELIMINATED: string = "step-error-not-eliminated";
+    static readonly STEP_ERROR_NOT_COMBINED: string = "step-error-not-combined";
+    static readonly REDUCTION_INTRODUCTION: string = "reduction-introduction";
+    static readonly REDUCTION_INSTRUCTION: string = "reduction-instruction";
+    static readonly REDUCTION_SAMPLE_SOLUTION: string = "reduction-sample-solution";
+    static readonly REDUCTION_CONTINUE: string = "reduction-continue";
+    static readonly REMAINING_SOLUTION_INSTRUCTION: string = "remaining-solution-instruction";
+    static readonly CLASSIFICATION_INSTRUCTION: string = "classification-instruction";
+    static readonly CLASSIFICATION_QUESTION: string = "classification-question";
+    static readonly CLASSIFICATION_UNIQUE: string = "classification-unique";
+    static readonly CLASSIFICATION_NONE: string = "classification-none";
+    static readonly CLASSIFICATION_INFINITE: string = "classification-infinite";
+    static readonly CLASSIFICATION_ERROR: string = "classification-error";
+    static readonly CLASSIFICATION_RESULT_NONE: string = "classification-result-none";
+    static readonly CLASSIFICATION_RESULT_INFINITE: string = "classification-result-infinite";
+    static readonly GRAPHICAL_INSTRUCTION: string = "graphical-instruction";
+    static readonly GRAPHICAL_HINT: string = "graphical-hint";
+    static readonly GRAPHICAL_SELECTED_POINT: string = "graphical-selected-point";
+    static readonly GRAPHICAL_NO_POINT: string = "graphical-no-point";
+    static readonly GRAPHICAL_NO_LINE: string = "graphical-no-line";
+    static readonly GRAPHICAL_ONE_LINE: string = "graphical-one-line";
+    static readonly GRAPHICAL_NOT_UNIQUE: string = "graphical-not-unique";
+    static readonly GRAPHICAL_INTERSECTION_EXISTS: string = "graphical-intersection-exists";
+    static readonly GRAPHICAL_SUCCESS: string = "graphical-success";
+    static readonly GRAPHICAL_RESULT_NONE: string = "graphical-result-none";
+    static readonly GRAPHICAL_RESULT_INFINITE: string = "graphical-result-infinite";
+    static readonly GRAPHICAL_COMPARISON_DESCRIPTION: string = "graphical-comparison-description";
+
     static readonly getInstructionForSolvingSystem = (method: Method): TranslationInterpolation => {
         return new TranslationInterpolation("solving-system-instruction", {
             method: `$t(${getMethodTranslation(method)})`
@@ -324,6 +362,9 @@ export function getMethodTranslation(method: Method): string {
 
         case Method.Elimination:
             return FlexibilityTranslations.ELIMINATION;
+
+        case Method.Graphical:
+            return FlexibilityTranslations.GRAPHICAL;
     }
 }
 
@@ -354,5 +395,8 @@ export function getDefinitionByMethod(method: Method): string {
 
         case Method.Elimination:
             return "elimination-def";
+
+        case Method.Graphical:
+            return "graphical-def";
     }
 }
@@ -26,12 +26,19 @@ export class PlainExercise implements IFlexibilityExercise {
     @Type(() => Variable)
     public readonly secondVariable: Variable;
 
+    @Type(() => FlexibilityEquation)
+    public readonly additionalEquations?: FlexibilityEquation[];
+
+    @Type(() => Variable)
+    public readonly additionalVariables?: Variable[];
+
     public readonly agentMessageForFirstSolution?: string | undefined;
 
     public readonly agentMessageForSecondSolution?: string | undefined;
 
     constructor(id: number, firstEquation: FlexibilityEquation, secondEquation: FlexibilityEquation, firstEquationIsIsolatedIn: IsolatedIn, secondEquationIsIsolatedIn: IsolatedIn,
-                firstVariable: Variable, secondVariable: Variable, agentMessageForFirstSolution?: string | null, agentMessageForSecondSolution?: string | null) {
+                firstVariable: Variable, secondVariable: Variable, agentMessageForFirstSolution?: string | null, agentMessageForSecondSolution?: string | null,
+                additionalEquations?: FlexibilityEquation[], additionalVariables?: Variable[]) {
         this.id = id;
         this.firstEquation = firstEquation;
         this.secondEquation = secondEquation;
@@ -41,5 +48,7 @@ export class PlainExercise implements IFlexibilityExercise {
         this.secondVariable = secondVariable;
         this.agentMessageForFirstSolution = agentMessageForFirstSolution === null ? undefined : agentMessageForFirstSolution;
         this.agentMessageForSecondSolution = agentMessageForSecondSolution === null ? undefined : agentMessageForSecondSolution;
+        this.additionalEquations = additionalEquations;
+        this.additionalVariables = additionalVariables;
     }
 }
\ No newline at end of file
@@ -0,0 +1,9 @@
+import { Variable } from "@/types/flexibility/variable.ts";
+import { FlexibilityEquation } from "@/types/math/linearEquation.ts";
+
+// Elimination of one unknown from a system, which leaves a system with one equation less
+export interface SystemReduction {
+    readonly variable: Variable;
+    // Equations of the system before the unknown was eliminated
+    readonly system: FlexibilityEquation[];
+}
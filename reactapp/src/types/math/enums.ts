@@ -26,3 +26,14 @@ export enum Parenthesis {
     RightSmall,
     RightLarge
 }
+
+export enum SolutionType {
+    Unique,
+    None,
+    Infinite
+}
+
+export enum EquationFormat {
+    PlainText,
+    Latex
+}
@@ -0,0 +1,24 @@
+import { Fraction } from "mathjs";
+import { SolutionType } from "./enums";
+
+export class LinearSystemSolution {
+    constructor(
+        public readonly type: SolutionType,
+        public readonly firstValue?: Fraction,
+        public readonly secondValue?: Fraction,
+        // Values of the unknowns beyond the first two, in the order of the unknowns
+        public readonly additionalValues: Fraction[] = []
+    ) {}
+
+    public static unique(firstValue: Fraction, secondValue: Fraction, ...additionalValues: Fraction[]): LinearSystemSolution {
+        return new LinearSystemSolution(SolutionType.Unique, firstValue, secondValue, additionalValues);
+    }
+
+    public static none(): LinearSystemSolution {
+        return new LinearSystemSolution(SolutionType.None);
+    }
+
+    public static infinite(): LinearSystemSolution {
+        return new LinearSystemSolution(SolutionType.Infinite);
+    }
+}
@@ -1,4 +1,5 @@
 import Axios, { AxiosInstance } from "axios";
+import { mockTeacherApi } from "@utils/teacherApiMock.ts";
 
 const axiosInstance: AxiosInstance = Axios.create({
     baseURL: "https://algespace-goal-setting.onrender.com",
@@ -9,4 +10,9 @@ const axiosInstance: AxiosInstance = Axios.create({
     }
 });
 
+// Set VITE_MOCK_TEACHER_API=true to use the teacher dashboard without a backend providing the teacher API
+if (import.meta.env.VITE_MOCK_TEACHER_API === "true") {
+    mockTeacherApi(axiosInstance);
+}
+
 export default axiosInstance;
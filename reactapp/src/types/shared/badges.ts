@@ -0,0 +1,31 @@
+import { ExerciseModule } from "@/types/shared/exerciseOutcome.ts";
+import { GoalDefinition, GoalProgress } from "@/types/shared/goals.ts";
+
+export enum BadgeConditionType {
+    // Complete the threshold of goals
+    GoalsCompleted,
+    // Reach the goal of the badge, which is evaluated by the goal engine independently of the active goal
+    Goal,
+    // Complete every exercise of the module of the badge
+    ModuleCompleted
+}
+
+export interface BadgeDefinition {
+    // Also used as the translation key of the badge
+    readonly id: string;
+    readonly icon: string;
+    readonly condition: BadgeConditionType;
+    readonly threshold?: number;
+    readonly goal?: GoalDefinition;
+    readonly module?: ExerciseModule;
+}
+
+export interface BadgeStore {
+    readonly version: number;
+    // Time each earned badge was earned at, by the id of the badge
+    readonly earned: Readonly<Record<string, number>>;
+    // Progress of the goals of the badges that are not earned yet, by the id of the badge
+    readonly progress: Readonly<Record<string, GoalProgress>>;
+}
+
+export type BadgeStoreListener = (store: BadgeStore) => void;
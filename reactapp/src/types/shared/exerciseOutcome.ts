@@ -0,0 +1,28 @@
+import { CKExerciseType } from "@/types/studies/enums.ts";
+
+export enum ExerciseOutcomeType {
+    Started,
+    StepCorrect,
+    Error,
+    HintUsed,
+    Solved
+}
+
+// The values match the main routes, so that outcomes can be related to the module shown in the navigation bar
+export enum ExerciseModule {
+    Equalization = "equalization",
+    Substitution = "substitution",
+    Elimination = "elimination",
+    Flexibility = "flexibility-training"
+}
+
+export interface ExerciseOutcome {
+    readonly type: ExerciseOutcomeType;
+    readonly module: ExerciseModule;
+    readonly exerciseId: number;
+    // Exercise list the exercise belongs to, only set by the conceptual knowledge games
+    readonly exerciseType?: CKExerciseType;
+    readonly timestamp: number;
+}
+
+export type ExerciseOutcomeListener = (outcome: ExerciseOutcome) => void;
@@ -1,3 +1,6 @@
+import { ExerciseModule } from "@/types/shared/exerciseOutcome.ts";
+import { GoalDifficulty } from "@/types/shared/goals.ts";
+
 export class GeneralTranslations {
     static readonly BUTTON_CONTINUE: string = "button-continue";
     static readonly BUTTON_VERIFY: string = "button-verify-solution";
@@ -22,6 +25,7 @@ export class GeneralTranslations {
     static readonly PROJECT_DESCRIPTION_2: string = "project-description-2";
     static readonly EQUALIZATION_INFO: string = "equalization-info";
     static readonly HEADER_EQUALIZATION_GAME: string = "header-equalization-game";
+    static readonly HEADER_EQUALIZATION_PRACTICE: string = "header-equalization-practice";
     static readonly SUBSTITUTION_INFO: string = "substitution-info";
     static readonly HEADER_BARTERING_GAME: string = "header-bartering-game";
     static readonly HEADER_SUBSTITUTION_GAME: string = "header-substitution-game";
@@ -29,9 +33,15 @@ export class GeneralTranslations {
     static readonly HEADER_ELIMINATION_GAME: string = "header-elimination-game";
     static readonly HEADER_FLEXIBILITY_TRAINING: string = "header-flexibility-training";
     static readonly FLEXIBILITY_TRAINING_INFO: string = "flexibility-training-info";
+    static readonly HEADER_FLEXIBILITY_PRACTICE: string = "header-flexibility-practice";
+    static readonly FLEXIBILITY_PRACTICE_INFO: string = "flexibility-practice-info";
+    static readonly FLEXIBILITY_PRACTICE_MIXED: string = "flexibility-practice-mixed";
+    static readonly FLEXIBILITY_PRACTICE_FRACTIONS: string = "flexibility-practice-fractions";
     static readonly NAV_EXERCISE: string = "navigation-exercise";
     static readonly NAV_GAME: string = "navigation-game";
     static readonly COMPLETED: string = "exercise-completed";
+    static readonly RECOMMENDED: string = "exercise-recommended";
+    static readonly PRACTICE_LEVEL: string = "practice-level";
     static readonly TUTORIAL: string = "tutorial";
     static readonly TUTORIAL_END: string = "tutorial-end";
     static readonly TUTORIAL_END_PLAIN: string = "tutorial-end-plain";
@@ -54,4 +64,92 @@ export class GeneralTranslations {
     static readonly LOGIN_NAME: string = "login-name";
     static readonly LOGIN_PW: string = "login-password";
     static readonly FLEXIBILITY_STUDY: string = "flexibility-study";
+    static readonly INTERACTION_LOG: string = "interaction-log";
+    static readonly INTERACTION_LOG_EMPTY: string = "interaction-log-empty";
+    static readonly BUTTON_EXPORT: string = "button-export";
+    static readonly BUTTON_CLEAR: string = "button-clear";
+    static readonly BUTTON_IMPORT: string = "button-import";
+    static readonly BUTTON_REPLAY: string = "button-replay";
+    static readonly SESSION_REPLAY: string = "session-replay";
+    static readonly SESSION_REPLAY_EMPTY: string = "session-replay-empty";
+    static readonly SESSION_REPLAY_STATE: string = "session-replay-state";
+    static readonly STUDY_DATA_EXPORT: string = "study-data-export";
+    static readonly STUDY_DATA_EMPTY: string = "study-data-empty";
+    static readonly STUDY_DATA_RECORDS: string = "study-data-records";
+    static readonly STUDY_DATA_LOCAL: string = "study-data-local";
+    static readonly BUTTON_EXPORT_CSV: string = "button-export-csv";
+    static readonly BUTTON_EXPORT_JSON: string = "button-export-json";
+    static readonly GOAL_HISTORY: string = "goal-history";
+    static readonly GOAL_HISTORY_EMPTY: string = "goal-history-empty";
+    static readonly GOAL_HISTORY_GOAL: string = "goal-history-goal";
+    static readonly GOAL_HISTORY_METHOD: string = "goal-history-method";
+    static readonly GOAL_HISTORY_STARTED: string = "goal-history-started";
+    static readonly GOAL_HISTORY_DURATION: string = "goal-history-duration";
+    static readonly GOAL_HISTORY_ATTEMPTS: string = "goal-history-attempts";
+    static readonly GOAL_HISTORY_STATUS: string = "goal-history-status";
+    static readonly GOAL_HISTORY_STRATEGY: string = "goal-history-strategy";
+    static readonly GOAL_HISTORY_REFLECTION: string = "goal-history-reflection";
+    static readonly GOAL_COMPLETED: string = "goal-completed";
+    static readonly GOAL_ABANDONED: string = "goal-abandoned";
+    static readonly GOAL_IN_PROGRESS: string = "goal-in-progress";
+    static readonly GOAL_STRATEGY_KEPT: string = "goal-strategy-kept";
+    static readonly GOAL_STRATEGY_CHANGED: string = "goal-strategy-changed";
+    static readonly GOAL_DURATION_MINUTES: string = "goal-duration-minutes";
+    static readonly REFLECTION_PROMPT: string = "reflection-prompt";
+    static readonly REFLECTION_TOO_EASY: string = "reflection-too-easy";
+    static readonly REFLECTION_JUST_RIGHT: string = "reflection-just-right";
+    static readonly REFLECTION_TOO_HARD: string = "reflection-too-hard";
+    static readonly REFLECTION_NOTE: string = "reflection-note";
+    static readonly BUTTON_SAVE: string = "button-save";
+    static readonly COUNTS_TOWARD_GOAL: string = "counts-toward-goal";
+    static readonly GOAL_SUGGESTION: string = "goal-suggestion";
+    static readonly BUTTON_APPLY_SUGGESTION: string = "button-apply-suggestion";
+    static readonly BUTTON_CONFIRM_GOAL: string = "button-confirm-goal";
+    static readonly RECOMMENDED_GOAL: string = "recommended-goal";
+    static readonly RECOMMEND_RECOVER: string = "recommend-recover";
+    static readonly RECOMMEND_STREAK: string = "recommend-streak";
+    static readonly RECOMMEND_NEXT_LEVEL: string = "recommend-next-level";
+    static readonly RECOMMEND_START: string = "recommend-start";
+    static readonly BUTTON_SET_GOAL: string = "button-set-goal";
+    static readonly PROGRESS_OVERVIEW: string = "progress-overview";
+    static readonly PROGRESS_PERCENT: string = "progress-percent";
+    static readonly PROGRESS_EXERCISES: string = "progress-exercises";
+    static readonly PROGRESS_LEVEL: string = "progress-level";
+    static readonly PROGRESS_TUTORIAL_COMPLETED: string = "progress-tutorial-completed";
+    static readonly PROGRESS_TUTORIAL_OPEN: string = "progress-tutorial-open";
+    static readonly PROGRESS_LOADING: string = "progress-loading";
+    static readonly GOAL_ASSIGNED: string = "goal-assigned";
+    static readonly GOAL_TIME_REMAINING: string = "goal-time-remaining";
+    static readonly GOAL_TIME_COMPLETED: string = "goal-time-completed";
+    static readonly GOAL_SESSION_TIME: string = "goal-session-time";
+    static readonly BADGES: string = "badges";
+    static readonly BADGES_EARNED: string = "badges-earned";
+    static readonly BADGE_EARNED_AT: string = "badge-earned-at";
+    static readonly BADGE_LOCKED: string = "badge-locked";
+
+    static readonly getGoalMethodTranslation = (method?: ExerciseModule): string => {
+        switch (method) {
+            case ExerciseModule.Equalization:
+                return "strat-equi";
+            case ExerciseModule.Substitution:
+                return "strat-subs";
+            case ExerciseModule.Elimination:
+                return "strat-elim";
+            case ExerciseModule.Flexibility:
+                return "strat-flex";
+            default:
+                return "any";
+        }
+    };
+
+    static readonly getReflectionTranslation = (difficulty: GoalDifficulty): string => {
+        switch (difficulty) {
+            case GoalDifficulty.TooEasy:
+                return GeneralTranslations.REFLECTION_TOO_EASY;
+            case GoalDifficulty.JustRight:
+                return GeneralTranslations.REFLECTION_JUST_RIGHT;
+            case GoalDifficulty.TooHard:
+                return GeneralTranslations.REFLECTION_TOO_HARD;
+        }
+    };
 }
@@ -0,0 +1,137 @@
+import { ExerciseModule, ExerciseOutcome } from "@/types/shared/exerciseOutcome.ts";
+
+export enum GoalConditionType {
+    // Solve exercises in a row, any error resets the streak of the method it occurred in
+    CorrectInARow,
+    // Solve exercises in which at least one error was made
+    RecoverAfterError,
+    // Solve exercises whose level lies within the level scope of the goal
+    SolveAtLevel,
+    // Solve exercises using fewer hints than the maximum of the goal
+    FewHints,
+    // Complete every exercise of a list whose level lies within the level scope of the goal
+    CompleteLevel,
+    // Practise for the threshold in minutes on the same day, only counting the time the app is visible
+    PracticeTime,
+    // Solve exercises within the same session, the progress starts over in every session
+    SessionExercises
+}
+
+export interface LevelScope {
+    readonly min: number;
+    readonly max?: number;
+}
+
+export interface GoalDefinition {
+    // Also used as the translation key of the goal
+    readonly id: string;
+    readonly condition: GoalConditionType;
+    // Number of exercises required to complete the goal, or minutes of practice for time goals
+    readonly threshold: number;
+    readonly maxHints?: number;
+    // Methods the goal can be pursued with, all methods if undefined
+    readonly methodScope?: ExerciseModule[];
+    readonly levelScope?: LevelScope;
+}
+
+export interface ExerciseTally {
+    readonly hints: number;
+    readonly errors: number;
+}
+
+export interface GoalProgress {
+    // Progress is counted per method, so that a goal set for any method is reached as soon as one method reaches the threshold
+    readonly counts: Partial<Record<ExerciseModule, number>>;
+    // Hints and errors of the exercise currently worked on, reset whenever an exercise is started
+    readonly currentExercise: ExerciseTally;
+    readonly completed: boolean;
+    // Session the progress was last advanced in
+    readonly sessionId?: string;
+}
+
+export interface GoalContext {
+    readonly level?: number;
+    // Levels of all exercises of the list the exercise belongs to, by their id
+    readonly listLevels?: Readonly<Record<number, number>>;
+    // Exercises of that list that have been completed before
+    readonly completedExercises?: (number | string)[];
+    readonly sessionId?: string;
+    // Milliseconds practised on the current day
+    readonly practiceTime?: number;
+}
+
+// Returns the new count of the method the outcome was emitted by, given the count and tally before the outcome
+export type GoalEvaluator = (goal: GoalDefinition, count: number, exercise: ExerciseTally, outcome: ExerciseOutcome, context: GoalContext) => number;
+
+export enum GoalDifficulty {
+    TooEasy,
+    JustRight,
+    TooHard
+}
+
+export interface GoalReflection {
+    readonly difficulty: GoalDifficulty;
+    readonly note: string;
+    readonly timestamp: number;
+}
+
+export interface ActiveGoal {
+    readonly goalId: string;
+    // Method the goal is pursued with, any method of its scope if undefined
+    readonly method?: ExerciseModule;
+    // Method chosen when the goal was set, which tells whether the student kept the strategy
+    readonly initialMethod?: ExerciseModule;
+    readonly startTime: number;
+    // Number of exercises started while the goal was active
+    readonly attempts: number;
+    readonly progress: GoalProgress;
+    readonly reflection?: GoalReflection;
+    // Assigned goals are set by the study the student takes part in and cannot be changed by the student
+    readonly assigned?: boolean;
+}
+
+export interface GoalRecord {
+    readonly goalId: string;
+    readonly method?: ExerciseModule;
+    readonly initialMethod?: ExerciseModule;
+    readonly startTime: number;
+    readonly endTime: number;
+    readonly attempts: number;
+    // Goals that were not completed have been abandoned for another goal
+    readonly completed: boolean;
+    readonly reflection?: GoalReflection;
+    readonly assigned?: boolean;
+}
+
+export interface GoalStore {
+    readonly version: number;
+    readonly activeGoal?: ActiveGoal;
+    // Exercises solved in a row per method, kept independently of the active goal
+    readonly streaks: Partial<Record<ExerciseModule, number>>;
+    // Number of goals completed so far
+    readonly completions: number;
+    // Number of exercises opened in the four modules, used to pace the agent prompts
+    readonly questionsEncountered: number;
+    // Goals that were completed or replaced by another goal, the oldest first
+    readonly pastGoals: GoalRecord[];
+}
+
+export type GoalStoreListener = (store: GoalStore) => void;
+
+// Sent by exercises that ask the student to adjust their goal, e.g. when the agent notices that the student is unsure
+export interface GoalAdjustmentRequest {
+    readonly suggestedGoalId?: string;
+    readonly suggestedMethod?: ExerciseModule;
+    // Called once the student confirmed the goal, so that the exercise can continue
+    readonly onConfirm?: () => void;
+}
+
+export type GoalAdjustmentListener = (request: GoalAdjustmentRequest) => void;
+
+export interface GoalRecommendation {
+    readonly goalId: string;
+    readonly method?: ExerciseModule;
+    // Translation key explaining why the goal is recommended, interpolated with the values and the translated method
+    readonly reason: string;
+    readonly values: Readonly<Record<string, number>>;
+}
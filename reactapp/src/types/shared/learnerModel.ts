@@ -0,0 +1,23 @@
+export enum PerformanceRating {
+    Struggling,
+    Moderate,
+    Strong
+}
+
+export interface PhasePerformance {
+    readonly phase: number;
+    readonly time: number;
+    readonly hints: number;
+    readonly errors: number;
+}
+
+export interface ExercisePerformance {
+    readonly exerciseId: number;
+    readonly phases: PhasePerformance[];
+    readonly timestamp: number;
+}
+
+export interface RecommendationCandidate {
+    readonly id: number;
+    readonly level: number;
+}
@@ -0,0 +1,42 @@
+import { ExerciseModule } from "@/types/shared/exerciseOutcome.ts";
+
+// Exercise lists progress is counted for, the bartering game is counted separately from the substitution game
+export enum ExerciseListType {
+    Equalization = "equalization",
+    Bartering = "bartering",
+    Substitution = "substitution",
+    Elimination = "elimination",
+    Flexibility = "flexibility"
+}
+
+export type ExerciseCompletionListener = (storageKey: string, propertyKey: string, exerciseId: number | string) => void;
+
+export interface CatalogEntry {
+    readonly id: number;
+    readonly level: number | null;
+}
+
+export interface LevelProgress {
+    readonly level: number;
+    readonly completed: number;
+    readonly total: number;
+}
+
+export interface ExerciseListProgress {
+    readonly listType: ExerciseListType;
+    readonly completed: number;
+    readonly total: number;
+    // Tutorials are not counted as exercises
+    readonly tutorialCompleted: boolean;
+    // Exercises without a level are only contained in the totals of the list
+    readonly levels: LevelProgress[];
+}
+
+export interface ModuleProgress {
+    readonly module: ExerciseModule;
+    readonly completed: number;
+    readonly total: number;
+    // Zero as long as the exercises of the module have not been loaded
+    readonly percent: number;
+    readonly lists: ExerciseListProgress[];
+}
@@ -0,0 +1,15 @@
+export interface SessionState {
+    // A new session starts whenever the app is opened in a new tab
+    readonly sessionId: string;
+    readonly startTime: number;
+    // Milliseconds the app was visible during the session
+    readonly activeTime: number;
+    // Exercises solved during the session in any module
+    readonly exercisesSolved: number;
+    // Local date the daily practice time was counted on, formatted as YYYY-MM-DD
+    readonly day: string;
+    // Milliseconds the app was visible on that day, summed over all of its sessions
+    readonly dayActiveTime: number;
+}
+
+export type SessionListener = (session: SessionState) => void;
@@ -0,0 +1,47 @@
+import { Method } from "@/types/flexibility/enums.ts";
+import { CKExerciseType, FlexibilityExerciseChoicePhase, FlexibilityStudyExerciseType } from "@/types/studies/enums.ts";
+
+export interface PhaseProgress {
+    readonly phase: number;
+    readonly time: number; // Seconds
+    readonly hints: number;
+    readonly errors: number;
+}
+
+export interface CKExerciseProgress {
+    readonly exerciseType: CKExerciseType;
+    readonly exerciseId: number;
+    readonly completed: boolean;
+    readonly phases: PhaseProgress[];
+}
+
+export interface FlexibilityExerciseProgress {
+    readonly flexibilityId: number;
+    readonly exerciseType: FlexibilityStudyExerciseType;
+    readonly completed: boolean;
+    readonly phases: PhaseProgress[];
+    // Method the student decided to solve the system with, if the exercise asks for one
+    readonly selectedMethod?: Method;
+}
+
+export interface ChoiceProgress {
+    readonly flexibilityId: number;
+    readonly phase: FlexibilityExerciseChoicePhase;
+    readonly choice: string;
+}
+
+export interface StudentProgress {
+    readonly id: number;
+    readonly username: string;
+    readonly ckExercises: CKExerciseProgress[];
+    readonly flexibilityExercises: FlexibilityExerciseProgress[];
+    readonly choices: ChoiceProgress[];
+}
+
+export interface ProgressSummary {
+    readonly completedCKExercises: number;
+    readonly completedFlexibilityExercises: number;
+    readonly time: number; // Seconds
+    readonly hints: number;
+    readonly errors: number;
+}
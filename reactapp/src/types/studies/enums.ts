@@ -4,6 +4,11 @@ export enum StudyType {
     FlexibilityTest
 }
 
+export enum UserRole {
+    Student,
+    Teacher
+}
+
 export enum CKExerciseType {
     Equalization,
     Bartering,
@@ -53,7 +58,11 @@ export enum FlexibilityExerciseActionPhase {
     EliminationActions,
     FirstSolutionActions,
     EquationSelection,
-    SecondSolutionActions
+    SecondSolutionActions,
+    ReductionActions,
+    RemainingSolutionActions,
+    ClassificationActions,
+    GraphicalActions
 }
 
 export enum FlexibilityExercisePhase {
@@ -71,7 +80,12 @@ export enum FlexibilityExercisePhase {
     Elimination,
     EliminationResolve,
     FirstSolution,
-    SecondSolution
+    SecondSolution,
+    SystemReduction,
+    RemainingSolution,
+    SystemClassification,
+    Graphical,
+    GraphicalResolve
 }
 
 export enum FlexibilityExerciseChoicePhase {
@@ -81,5 +95,7 @@ export enum FlexibilityExerciseChoicePhase {
     ResolvingChoice,
     FirstSolutionChoice,
     SecondSolutionChoice,
-    TipChoice
+    TipChoice,
+    RemainingSolutionChoice,
+    SystemClassificationChoice
 }
\ No newline at end of file
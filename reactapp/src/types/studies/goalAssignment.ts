@@ -0,0 +1,22 @@
+import { ExerciseModule } from "@/types/shared/exerciseOutcome.ts";
+import { StudyType } from "@/types/studies/enums.ts";
+
+export enum GoalSettingCondition {
+    SelfSet,
+    Assigned
+}
+
+export interface GoalAssignment {
+    readonly goalId: string;
+    // Any method of the scope of the goal if undefined
+    readonly method?: ExerciseModule;
+}
+
+export interface StudyGoalConfiguration {
+    readonly studyId: number;
+    readonly studyType: StudyType;
+    // Every student of the assigned condition gets one of these goals, chosen at random if there is more than one
+    readonly assignedGoals: GoalAssignment[];
+    // Share of the students that are assigned a goal, the others set their own goals, all students if undefined
+    readonly assignedShare?: number;
+}
@@ -0,0 +1,122 @@
+import { DragSource } from "@/types/equalization/enums.ts";
+import { AgentCondition, AgentType } from "@/types/flexibility/enums.ts";
+import {
+    CKExerciseType,
+    EliminationChoice,
+    EqualizationPhase,
+    FlexibilityExerciseActionPhase,
+    FlexibilityExerciseChoicePhase,
+    FlexibilityExercisePhase,
+    FlexibilityStudyExerciseType,
+    SubstitutionPhase
+} from "@/types/studies/enums.ts";
+import { GoalSettingCondition } from "@/types/studies/goalAssignment.ts";
+import { GameSnapshot } from "@/types/studies/sessionReplay.ts";
+
+export enum InteractionEventType {
+    ExerciseStarted,
+    Action,
+    Hint,
+    Error,
+    Choice,
+    PhaseCompleted,
+    ExerciseCompleted,
+    StateSnapshot,
+    Drag
+}
+
+export enum ExerciseFamily {
+    ConceptualKnowledge,
+    Flexibility
+}
+
+export type InteractionPhase = EqualizationPhase | SubstitutionPhase | FlexibilityExercisePhase;
+
+export interface InteractionExercise {
+    readonly family: ExerciseFamily;
+    readonly exerciseType: CKExerciseType | FlexibilityStudyExerciseType;
+    readonly exerciseId: number;
+    readonly studyId?: number;
+    readonly flexibilityId?: number;
+    readonly agentCondition?: AgentCondition;
+    readonly agentType?: AgentType;
+    // Only set for students of goal-setting studies, together with the goal that was active when the event occurred
+    readonly goalCondition?: GoalSettingCondition;
+    readonly goalId?: string;
+}
+
+export interface ActionPayload {
+    // Label of the action as it is known to the backend, e.g. "Dragged item onto the scale"
+    readonly action: string;
+    readonly actionPhase?: FlexibilityExerciseActionPhase;
+}
+
+export interface ChoicePayload {
+    readonly choice: string | EliminationChoice;
+    readonly choicePhase?: FlexibilityExerciseChoicePhase;
+}
+
+export interface CompletionPayload {
+    readonly time: number; // Seconds
+    readonly hints: number;
+    readonly errors: number;
+    readonly choice?: string;
+}
+
+export interface SnapshotPayload {
+    // Index of the state in the game history, which decreases when a step is undone
+    readonly step: number;
+    readonly state: GameSnapshot;
+}
+
+export interface DragPayload {
+    readonly item: string;
+    readonly source: DragSource;
+    // Null if the item was dropped outside of any dropzone
+    readonly target: DragSource | null;
+}
+
+export type EmptyPayload = Record<string, never>;
+
+export interface InteractionPayloads {
+    [InteractionEventType.ExerciseStarted]: EmptyPayload;
+    [InteractionEventType.Action]: ActionPayload;
+    [InteractionEventType.Hint]: EmptyPayload;
+    [InteractionEventType.Error]: EmptyPayload;
+    [InteractionEventType.Choice]: ChoicePayload;
+    [InteractionEventType.PhaseCompleted]: CompletionPayload;
+    [InteractionEventType.ExerciseCompleted]: CompletionPayload;
+    [InteractionEventType.StateSnapshot]: SnapshotPayload;
+    [InteractionEventType.Drag]: DragPayload;
+}
+
+interface InteractionEventBase {
+    // Identifies all events of one attempt at an exercise
+    readonly entryKey: string;
+    // Position of the event within its attempt
+    readonly sequence: number;
+    // Missing in events that were recorded before the user was stored with them
+    readonly userId?: number;
+    readonly exercise: InteractionExercise;
+    readonly phase?: InteractionPhase;
+    readonly timestamp: number;
+    // Session the event occurred in and the time the app was visible in that session until then
+    readonly sessionId?: string;
+    readonly sessionTime?: number; // Seconds
+}
+
+// Discriminated by its type, so that the payload of an event is known once its type has been checked
+export type InteractionEvent = {
+    [T in InteractionEventType]: InteractionEventBase & { readonly type: T; readonly payload: InteractionPayloads[T] };
+}[InteractionEventType];
+
+export type InteractionListener = (event: InteractionEvent) => void;
+
+// Describes how an interaction event is transmitted to the study backend, events without a request are only kept locally
+export interface InteractionRequest {
+    readonly method?: "put" | "post";
+    readonly url: string;
+    readonly data: object;
+    readonly createsEntry?: boolean;
+    readonly completesEntry?: boolean;
+}
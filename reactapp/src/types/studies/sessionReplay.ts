@@ -0,0 +1,24 @@
+import { IEqualizationGameState } from "@/types/equalization/equalizationGameState.ts";
+import { InteractionEvent, InteractionEventType } from "@/types/studies/interactionEvent.ts";
+
+export interface EqualizationSnapshot extends IEqualizationGameState {
+    readonly isolatedVariable: string;
+    readonly secondVariable: string;
+}
+
+export interface EliminationSnapshot {
+    readonly firstVariable: string;
+    readonly secondVariable: string;
+    // Coefficients of both variables and the costs of each row, formatted as ratios, e.g. "-3/2"
+    readonly rows: [string, string, string][];
+}
+
+export type GameSnapshot = EqualizationSnapshot | EliminationSnapshot;
+
+export type SnapshotEvent = Extract<InteractionEvent, { type: InteractionEventType.StateSnapshot }>;
+
+export interface ReplayFrame {
+    readonly snapshot: SnapshotEvent;
+    // All other events recorded since the previous snapshot, i.e. the interactions that led to this state
+    readonly events: InteractionEvent[];
+}
@@ -0,0 +1,29 @@
+export enum StudyDataRecordType {
+    Phase,
+    Choice,
+    Exercise
+}
+
+// All enums are decoded to their names and missing values are exported as empty strings, so that every record has the same columns
+export interface StudyDataRecord {
+    readonly study: string;
+    readonly userId: number | "";
+    readonly studyId: number | "";
+    readonly entryKey: string;
+    readonly exerciseType: string;
+    readonly exerciseId: number;
+    readonly flexibilityId: number | "";
+    readonly agentCondition: string;
+    readonly agentType: string;
+    readonly record: string;
+    readonly phase: string;
+    readonly time: number | ""; // Seconds
+    readonly hints: number | "";
+    readonly errors: number | "";
+    readonly choice: string;
+    readonly timestamp: string;
+    readonly goalCondition: string;
+    readonly goalId: string;
+    readonly sessionId: string;
+    readonly sessionTime: number | ""; // Seconds
+}
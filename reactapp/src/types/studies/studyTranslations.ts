@@ -1,3 +1,5 @@
+import { CKExerciseType } from "@/types/studies/enums.ts";
+
 export class StudyTranslations {
     static readonly STUDY: string = "study";
     static readonly CK_STUDY: string = "ck-study-info";
@@ -17,4 +19,38 @@ export class StudyTranslations {
     static readonly TRY_EQUALIZATION: string = "try-equalization";
     static readonly TRY_SUBSTITUTION: string = "try-substitution";
     static readonly TRY_ELIMINATION: string = "try-elimination";
+    static readonly TEACHER_DASHBOARD: string = "teacher-dashboard";
+    static readonly TEACHER_STUDENT_PROGRESS: string = "teacher-student-progress";
+    static readonly TEACHER_STUDENTS: string = "teacher-students";
+    static readonly TEACHER_NO_STUDENTS: string = "teacher-no-students";
+    static readonly TEACHER_NAME: string = "teacher-name";
+    static readonly TEACHER_CK_EXERCISES: string = "teacher-ck-exercises";
+    static readonly TEACHER_FLEXIBILITY_EXERCISES: string = "teacher-flexibility-exercises";
+    static readonly TEACHER_COMPLETED: string = "teacher-completed";
+    static readonly TEACHER_EXERCISE: string = "teacher-exercise";
+    static readonly TEACHER_PHASE: string = "teacher-phase";
+    static readonly TEACHER_TIME: string = "teacher-time";
+    static readonly TEACHER_HINTS: string = "teacher-hints";
+    static readonly TEACHER_ERRORS: string = "teacher-errors";
+    static readonly TEACHER_METHOD: string = "teacher-method";
+    static readonly TEACHER_COUNT: string = "teacher-count";
+    static readonly TEACHER_CHOICES: string = "teacher-choices";
+    static readonly TEACHER_CHOICE: string = "teacher-choice";
+    static readonly TEACHER_METHOD_CHOICES: string = "teacher-method-choices";
+    static readonly TEACHER_MISTAKES_PER_GAME: string = "teacher-mistakes-per-game";
+    static readonly TEACHER_DETAILS: string = "teacher-details";
+    static readonly TEACHER_NO_DATA: string = "teacher-no-data";
+
+    static readonly getCKExerciseTranslation = (exerciseType: CKExerciseType): string => {
+        switch (exerciseType) {
+            case CKExerciseType.Equalization:
+                return StudyTranslations.CK_EQUALIZATION;
+            case CKExerciseType.Bartering:
+                return StudyTranslations.CK_BARTERING;
+            case CKExerciseType.Substitution:
+                return StudyTranslations.CK_SUBSTITUTION;
+            case CKExerciseType.Elimination:
+                return StudyTranslations.CK_ELIMINATION;
+        }
+    };
 }
@@ -0,0 +1,18 @@
+export interface TrackingRequest {
+    // Unique per tracked event, so that the same event is never queued twice
+    readonly requestId: string;
+    // Client-side key of the study entry, which is replaced by the id assigned by the server before sending
+    readonly entryKey: string;
+    readonly method: "put" | "post";
+    readonly url: string;
+    readonly data: object;
+    readonly userId: number;
+    readonly token: string;
+    readonly createsEntry?: boolean;
+    readonly completesEntry?: boolean;
+}
+
+export interface TrackingQueue {
+    requests: TrackingRequest[];
+    entries: { [entryKey: string]: number };
+}
@@ -1,11 +1,14 @@
-import { StudyType } from "@/types/studies/enums.ts";
+import { StudyType, UserRole } from "@/types/studies/enums.ts";
 import { AgentCondition } from "@/types/flexibility/enums.ts";
 
 export interface IUser {
     readonly id: number;
     readonly username: string;
     readonly studyType: StudyType;
+    // Teachers see the progress of all students of this study
     readonly studyId: number;
+    // Users without a role are students
+    readonly role?: UserRole;
     readonly agentCondition?: AgentCondition;
     readonly expirationDate?: string;
     readonly token: string;
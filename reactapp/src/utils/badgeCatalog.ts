@@ -0,0 +1,34 @@
+import { BadgeConditionType, BadgeDefinition } from "@/types/shared/badges.ts";
+import { ExerciseModule } from "@/types/shared/exerciseOutcome.ts";
+import { GoalConditionType } from "@/types/shared/goals.ts";
+import FirstGoalBadge from "@images/badges/badge-first-goal.svg";
+import ModuleBadge from "@images/badges/badge-module.svg";
+import RecoverBadge from "@images/badges/badge-recover.svg";
+import StreakBadge from "@images/badges/badge-streak.svg";
+
+const STREAK_THRESHOLD: number = 5;
+
+/**
+ * Badges students can earn, in the order they are shown in the badge shelf.
+ * New badges only require an entry here and a translation of their id in the general namespace.
+ */
+export const BADGE_CATALOG: BadgeDefinition[] = [
+    { id: "badge-first-goal", icon: FirstGoalBadge, condition: BadgeConditionType.GoalsCompleted, threshold: 1 },
+    createStreakBadge("badge-streak-equalization", ExerciseModule.Equalization),
+    createStreakBadge("badge-streak-substitution", ExerciseModule.Substitution),
+    createStreakBadge("badge-streak-elimination", ExerciseModule.Elimination),
+    createStreakBadge("badge-streak-flexibility", ExerciseModule.Flexibility),
+    { id: "badge-recover", icon: RecoverBadge, condition: BadgeConditionType.Goal, goal: { id: "badge-recover", condition: GoalConditionType.RecoverAfterError, threshold: 1 } },
+    { id: "badge-complete-equalization", icon: ModuleBadge, condition: BadgeConditionType.ModuleCompleted, module: ExerciseModule.Equalization },
+    { id: "badge-complete-substitution", icon: ModuleBadge, condition: BadgeConditionType.ModuleCompleted, module: ExerciseModule.Substitution },
+    { id: "badge-complete-elimination", icon: ModuleBadge, condition: BadgeConditionType.ModuleCompleted, module: ExerciseModule.Elimination },
+    { id: "badge-complete-flexibility", icon: ModuleBadge, condition: BadgeConditionType.ModuleCompleted, module: ExerciseModule.Flexibility }
+];
+
+export function getBadgeDefinition(badgeId: string): BadgeDefinition | undefined {
+    return BADGE_CATALOG.find((badge: BadgeDefinition): boolean => badge.id === badgeId);
+}
+
+function createStreakBadge(id: string, module: ExerciseModule): BadgeDefinition {
+    return { id, icon: StreakBadge, condition: BadgeConditionType.Goal, goal: { id, condition: GoalConditionType.CorrectInARow, threshold: STREAK_THRESHOLD, methodScope: [module] } };
+}
@@ -0,0 +1,98 @@
+import { BadgeConditionType, BadgeDefinition, BadgeStore, BadgeStoreListener } from "@/types/shared/badges.ts";
+import { ExerciseOutcome } from "@/types/shared/exerciseOutcome.ts";
+import { GoalProgress, GoalStore } from "@/types/shared/goals.ts";
+import { ModuleProgress } from "@/types/shared/progress.ts";
+import { BADGE_CATALOG } from "@utils/badgeCatalog.ts";
+import { advanceGoalProgress, createGoalProgress } from "@utils/goalEngine.ts";
+import { getModuleProgress } from "@utils/progressService.ts";
+
+const BADGE_STORE_STORAGE_KEY: string = "badges";
+const BADGE_STORE_VERSION: number = 1;
+
+const listeners: Set<BadgeStoreListener> = new Set<BadgeStoreListener>();
+
+export function getBadgeStore(): BadgeStore {
+    const jsonString: string | null = localStorage.getItem(BADGE_STORE_STORAGE_KEY);
+    if (jsonString === null) {
+        return createBadgeStore();
+    }
+    try {
+        return { ...createBadgeStore(), ...JSON.parse(jsonString), version: BADGE_STORE_VERSION };
+    } catch (error) {
+        console.error("Discarding the badge store because it cannot be read.", error);
+        const store: BadgeStore = createBadgeStore();
+        saveBadgeStore(store);
+        return store;
+    }
+}
+
+/**
+ * Advances the goals of the badges by an outcome and awards every badge whose condition is met.
+ * The goals of the badges are evaluated by the goal engine like the active goal, but independently of it.
+ */
+export function recordBadgeOutcome(outcome: ExerciseOutcome, goalStore: GoalStore): BadgeStore {
+    const store: BadgeStore = getBadgeStore();
+    const progress: Record<string, GoalProgress> = { ...store.progress };
+    BADGE_CATALOG.forEach((badge: BadgeDefinition): void => {
+        if (badge.goal !== undefined && store.earned[badge.id] === undefined) {
+            progress[badge.id] = advanceGoalProgress(badge.goal, store.progress[badge.id] ?? createGoalProgress(), outcome);
+        }
+    });
+    return awardBadges({ ...store, progress }, goalStore);
+}
+
+// Awards the badges that are earned without an outcome, e.g. when a time goal is completed by the session clock or the last exercise of a module is stored as completed
+export function recordBadgeGoals(goalStore: GoalStore): BadgeStore {
+    return awardBadges(getBadgeStore(), goalStore);
+}
+
+/**
+ * Registers a listener that is notified whenever the badge store changes.
+ * Returns a function that removes the listener again, which can be used directly as the cleanup of an effect.
+ */
+export function subscribeToBadgeStore(listener: BadgeStoreListener): () => void {
+    listeners.add(listener);
+    return (): void => {
+        listeners.delete(listener);
+    };
+}
+
+function awardBadges(store: BadgeStore, goalStore: GoalStore): BadgeStore {
+    const moduleProgress: ModuleProgress[] = getModuleProgress();
+    const earned: Record<string, number> = { ...store.earned };
+    BADGE_CATALOG.filter((badge: BadgeDefinition): boolean => earned[badge.id] === undefined && isBadgeEarned(badge, store, goalStore, moduleProgress)).forEach(
+        (badge: BadgeDefinition): void => {
+            earned[badge.id] = Date.now();
+        }
+    );
+
+    // The progress of earned badges is not needed anymore
+    const progress: Record<string, GoalProgress> = Object.fromEntries(Object.entries(store.progress).filter(([badgeId]: [string, GoalProgress]): boolean => earned[badgeId] === undefined));
+    return updateBadgeStore({ ...store, earned, progress });
+}
+
+// Exercises are stored as completed after their outcome is emitted, so completed modules are also checked whenever an exercise is completed
+function isBadgeEarned(badge: BadgeDefinition, store: BadgeStore, goalStore: GoalStore, moduleProgress: ModuleProgress[]): boolean {
+    switch (badge.condition) {
+        case BadgeConditionType.GoalsCompleted:
+            return goalStore.completions >= (badge.threshold ?? 1);
+        case BadgeConditionType.Goal:
+            return store.progress[badge.id]?.completed ?? false;
+        case BadgeConditionType.ModuleCompleted:
+            return moduleProgress.some((progress: ModuleProgress): boolean => progress.module === badge.module && progress.total > 0 && progress.completed >= progress.total);
+    }
+}
+
+function updateBadgeStore(store: BadgeStore): BadgeStore {
+    saveBadgeStore(store);
+    listeners.forEach((listener: BadgeStoreListener) => listener(store));
+    return store;
+}
+
+function saveBadgeStore(store: BadgeStore): void {
+    localStorage.setItem(BADGE_STORE_STORAGE_KEY, JSON.stringify(store));
+}
+
+function createBadgeStore(): BadgeStore {
+    return { version: BADGE_STORE_VERSION, earned: {}, progress: {} };
+}
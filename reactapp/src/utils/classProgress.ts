@@ -0,0 +1,79 @@
+import { Method } from "@/types/flexibility/enums.ts";
+import { CKExerciseProgress, FlexibilityExerciseProgress, PhaseProgress, ProgressSummary, StudentProgress } from "@/types/studies/classProgress.ts";
+import { CKExerciseType, EqualizationPhase, FlexibilityExercisePhase, FlexibilityStudyExerciseType, SubstitutionPhase } from "@/types/studies/enums.ts";
+
+export function getPathToClassProgress(studyId: number): string {
+    return `/teacher/classes/${studyId}/students`;
+}
+
+export function getPathToStudentProgress(studyId: number, studentId: number | string): string {
+    return `${getPathToClassProgress(studyId)}/${studentId}`;
+}
+
+export function summarizePhases(phases: PhaseProgress[]): Pick<ProgressSummary, "time" | "hints" | "errors"> {
+    return phases.reduce(
+        (summary, phase: PhaseProgress) => ({ time: summary.time + phase.time, hints: summary.hints + phase.hints, errors: summary.errors + phase.errors }),
+        { time: 0, hints: 0, errors: 0 }
+    );
+}
+
+export function summarizeProgress(student: StudentProgress): ProgressSummary {
+    const phases: PhaseProgress[] = [...student.ckExercises.flatMap((exercise: CKExerciseProgress) => exercise.phases), ...student.flexibilityExercises.flatMap((exercise: FlexibilityExerciseProgress) => exercise.phases)];
+    return {
+        completedCKExercises: student.ckExercises.filter((exercise: CKExerciseProgress) => exercise.completed).length,
+        completedFlexibilityExercises: student.flexibilityExercises.filter((exercise: FlexibilityExerciseProgress) => exercise.completed).length,
+        ...summarizePhases(phases)
+    };
+}
+
+// Counts how often each method was selected across the class, all methods are contained even if nobody selected them
+export function countSelectedMethods(students: StudentProgress[], exerciseType: FlexibilityStudyExerciseType = FlexibilityStudyExerciseType.Efficiency): Map<Method, number> {
+    const counts: Map<Method, number> = new Map<Method, number>([
+        [Method.Equalization, 0],
+        [Method.Substitution, 0],
+        [Method.Elimination, 0],
+        [Method.Graphical, 0]
+    ]);
+
+    students.forEach((student: StudentProgress): void => {
+        student.flexibilityExercises.forEach((exercise: FlexibilityExerciseProgress): void => {
+            if (exercise.exerciseType === exerciseType && exercise.selectedMethod !== undefined) {
+                counts.set(exercise.selectedMethod, (counts.get(exercise.selectedMethod) ?? 0) + 1);
+            }
+        });
+    });
+    return counts;
+}
+
+// Averages hints and errors over all completed exercises of each game, games without completed exercises are omitted
+export function averageMistakesPerGame(students: StudentProgress[]): Map<CKExerciseType, Pick<ProgressSummary, "hints" | "errors">> {
+    const completedExercises: Map<CKExerciseType, PhaseProgress[][]> = new Map<CKExerciseType, PhaseProgress[][]>();
+    students.forEach((student: StudentProgress): void => {
+        student.ckExercises
+            .filter((exercise: CKExerciseProgress) => exercise.completed)
+            .forEach((exercise: CKExerciseProgress): void => {
+                completedExercises.set(exercise.exerciseType, [...(completedExercises.get(exercise.exerciseType) ?? []), exercise.phases]);
+            });
+    });
+
+    const averages: Map<CKExerciseType, Pick<ProgressSummary, "hints" | "errors">> = new Map<CKExerciseType, Pick<ProgressSummary, "hints" | "errors">>();
+    completedExercises.forEach((exercises: PhaseProgress[][], exerciseType: CKExerciseType): void => {
+        const summary = summarizePhases(exercises.flat());
+        averages.set(exerciseType, { hints: summary.hints / exercises.length, errors: summary.errors / exercises.length });
+    });
+    return averages;
+}
+
+export function getCKPhaseName(exerciseType: CKExerciseType, phase: number): string {
+    if (exerciseType === CKExerciseType.Equalization) {
+        return EqualizationPhase[phase];
+    } else if (exerciseType === CKExerciseType.Substitution) {
+        return SubstitutionPhase[phase];
+    }
+    // Bartering and elimination are tracked as a single phase
+    return "-";
+}
+
+export function getFlexibilityPhaseName(phase: number): string {
+    return FlexibilityExercisePhase[phase];
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { ScaleAllocation, Weight } from "@/types/equalization/enums.ts";
+import { EqualizationConstants } from "@/types/equalization/equalizationConstants.ts";
+import { EqualizationEquation } from "@/types/equalization/equalizationEquation.ts";
+import { EqualizationExercise } from "@/types/equalization/equalizationExercise.ts";
+import { Term } from "@/types/math/term.ts";
+import { MAX_EQUALIZATION_LEVEL, MIN_EQUALIZATION_LEVEL, decomposeWeight, generateEqualizationExercise } from "@utils/equalizationGenerator.ts";
+
+const EXERCISES_PER_LEVEL: number = 25;
+const LEVELS: number[] = Array.from({ length: MAX_EQUALIZATION_LEVEL - MIN_EQUALIZATION_LEVEL + 1 }, (_: unknown, index: number) => MIN_EQUALIZATION_LEVEL + index);
+
+// Linear congruential generator, so that every run checks the same exercises
+function createRandom(seed: number): () => number {
+    let state: number = seed;
+    return (): number => {
+        state = (state * 1664525 + 1013904223) % 4294967296;
+        return state / 4294967296;
+    };
+}
+
+function generateExercises(level: number, maximumCapacity?: number): EqualizationExercise[] {
+    const random: () => number = createRandom(level);
+    return Array.from({ length: EXERCISES_PER_LEVEL }, (_: unknown, index: number) => generateEqualizationExercise(index, { level, maximumCapacity, random }));
+}
+
+// Total weight of the items on one side of an equation, weights are written as terms of the weight variable
+function getSideWeight(terms: Term[], exercise: EqualizationExercise): number {
+    return terms.reduce((sum: number, term: Term) => {
+        const itemWeight: number =
+            term.variable === exercise.isolatedVariable.name ? exercise.isolatedVariable.weight : term.variable === exercise.secondVariable.name ? exercise.secondVariable.weight : 1;
+        return sum + Number(term.coefficient.value) * itemWeight;
+    }, 0);
+}
+
+function getWeightTerm(terms: Term[]): number {
+    return Number(terms.find((term: Term): boolean => term.variable === EqualizationConstants.WEIGHT_VAR)?.coefficient.value ?? 0);
+}
+
+function sumWeights(weights: Map<Weight, number> | null): number {
+    return [...(weights ?? new Map<Weight, number>()).entries()].reduce((sum: number, [weight, count]: [Weight, number]) => sum + (EqualizationConstants.WEIGHT_WEIGHTS.get(weight) as number) * count, 0);
+}
+
+function countItems(weights: Map<Weight, number> | null): number {
+    return [...(weights ?? new Map<Weight, number>()).values()].reduce((sum: number, count: number) => sum + count, 0);
+}
+
+function getEquations(exercise: EqualizationExercise): EqualizationEquation[] {
+    return [exercise.firstEquation, exercise.secondEquation];
+}
+
+describe("generateEqualizationExercise", () => {
+    it.each(LEVELS)("generates balanced equations at level %i", (level: number) => {
+        generateExercises(level).forEach((exercise: EqualizationExercise): void => {
+            expect(exercise.level).toBe(level);
+            expect(exercise.isolatedVariable.name).not.toBe(exercise.secondVariable.name);
+            getEquations(exercise).forEach(({ equation }: EqualizationEquation): void => {
+                expect(getSideWeight(equation.leftTerms, exercise)).toBe(getSideWeight(equation.rightTerms, exercise));
+            });
+        });
+    });
+
+    it.each(LEVELS)("provides the weights of the equations at level %i", (level: number) => {
+        generateExercises(level).forEach((exercise: EqualizationExercise): void => {
+            getEquations(exercise).forEach((equation: EqualizationEquation): void => {
+                expect(sumWeights(equation.weightsLeft)).toBe(getWeightTerm(equation.equation.leftTerms));
+                expect(sumWeights(equation.weightsRight)).toBe(getWeightTerm(equation.equation.rightTerms));
+            });
+        });
+    });
+
+    it("equalizes the equations to the common multiple of the isolated variable", () => {
+        generateExercises(3).forEach((exercise: EqualizationExercise): void => {
+            const [firstMultiple, secondMultiple] = getEquations(exercise).map(({ equation }: EqualizationEquation) =>
+                Number([...equation.leftTerms, ...equation.rightTerms].find((term: Term): boolean => term.variable === exercise.isolatedVariable.name)?.coefficient.value)
+            );
+
+            expect([2, 3]).toContain(firstMultiple);
+            expect(secondMultiple).toBe(firstMultiple);
+            expect(exercise.equalizedScale.totalWeight).toBe(firstMultiple * exercise.isolatedVariable.weight);
+        });
+    });
+
+    it("only places one equation on the scale at the first level", () => {
+        generateExercises(1).forEach((exercise: EqualizationExercise): void => {
+            expect(exercise.scaleAllocation).not.toBe(ScaleAllocation.None);
+        });
+        generateExercises(2).forEach((exercise: EqualizationExercise): void => {
+            expect(exercise.scaleAllocation).toBe(ScaleAllocation.None);
+        });
+    });
+
+    it("keeps the items of every equation within the capacity of the scale", () => {
+        generateExercises(5, 8).forEach((exercise: EqualizationExercise): void => {
+            expect(exercise.maximumCapacity).toBe(8);
+            getEquations(exercise).forEach((equation: EqualizationEquation): void => {
+                const secondVariableCount: number = Number(
+                    [...equation.equation.leftTerms, ...equation.equation.rightTerms].find((term: Term): boolean => term.variable === exercise.secondVariable.name)?.coefficient.value
+                );
+                expect(secondVariableCount + countItems(equation.weightsLeft) + countItems(equation.weightsRight)).toBeLessThanOrEqual(8);
+            });
+        });
+    });
+
+    it("rejects levels without settings", () => {
+        expect(() => generateEqualizationExercise(1, { level: MAX_EQUALIZATION_LEVEL + 1 })).toThrow();
+    });
+});
+
+describe("decomposeWeight", () => {
+    it("decomposes a weight into the fewest available weights", () => {
+        expect(decomposeWeight(1450)).toEqual(
+            new Map<Weight, number>([
+                [Weight.W1000, 1],
+                [Weight.W250, 1],
+                [Weight.W200, 1]
+            ])
+        );
+        expect(decomposeWeight(400)).toEqual(new Map<Weight, number>([[Weight.W200, 2]]));
+        expect(decomposeWeight(0)).toEqual(new Map<Weight, number>());
+    });
+
+    it("rejects weights that cannot be put together from the available weights", () => {
+        expect(() => decomposeWeight(75)).toThrow();
+        expect(() => decomposeWeight(-50)).toThrow();
+    });
+});
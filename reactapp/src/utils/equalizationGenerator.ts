@@ -0,0 +1,298 @@
+import { ScaleAllocation, Weight } from "@/types/equalization/enums.ts";
+import { EqualizationConstants } from "@/types/equalization/equalizationConstants.ts";
+import { EqualizationEquation } from "@/types/equalization/equalizationEquation.ts";
+import { EqualizationExercise } from "@/types/equalization/equalizationExercise.ts";
+import { EqualizationVariable } from "@/types/equalization/equalizationVariable.ts";
+import { Goal } from "@/types/equalization/goal.ts";
+import { Scale } from "@/types/equalization/scale.ts";
+import { Coefficient } from "@/types/math/coefficient.ts";
+import { Operator } from "@/types/math/enums.ts";
+import { LinearEquation } from "@/types/math/linearEquation.ts";
+import { Term } from "@/types/math/term.ts";
+import { GameError, GameErrorType } from "@/types/shared/error.ts";
+
+const FRUITS: string[] = ["apple", "aubergine", "banana", "carrot", "coconut", "lemon", "lime", "melon", "papaya", "pear", "pineapple", "pumpkin"];
+const SECOND_VARIABLE_WEIGHTS: number[] = [50, 75, 100, 125, 150, 175, 200, 225, 250, 275, 300, 325, 350, 375, 400];
+const MIN_SECOND_VARIABLE_AMOUNT: number = 10;
+const ADDITIONAL_ISOLATED_VARIABLES: number = 2;
+const MAX_ATTEMPTS: number = 500;
+
+export const MIN_EQUALIZATION_LEVEL: number = 1;
+export const MAX_EQUALIZATION_LEVEL: number = 5;
+
+interface LevelSettings {
+    // Possible multiples of the isolated variable in the first and second equation
+    readonly firstMultiples: number[];
+    readonly secondMultiples: number[];
+    readonly maxSecondVariableCount: number;
+    // Whether both equations contain weights or only the one with fewer instances of the second variable
+    readonly weightsInBothEquations: boolean;
+    readonly allocateScale: boolean;
+}
+
+// The levels mirror the structure of the exercises authored in the backend
+const LEVEL_SETTINGS: Map<number, LevelSettings> = new Map<number, LevelSettings>([
+    [1, { firstMultiples: [1], secondMultiples: [1], maxSecondVariableCount: 6, weightsInBothEquations: false, allocateScale: true }],
+    [2, { firstMultiples: [1], secondMultiples: [1], maxSecondVariableCount: 7, weightsInBothEquations: true, allocateScale: false }],
+    [3, { firstMultiples: [2, 3], secondMultiples: [], maxSecondVariableCount: 6, weightsInBothEquations: true, allocateScale: false }],
+    [4, { firstMultiples: [2], secondMultiples: [1], maxSecondVariableCount: 5, weightsInBothEquations: false, allocateScale: false }],
+    [5, { firstMultiples: [2, 3], secondMultiples: [1], maxSecondVariableCount: 5, weightsInBothEquations: true, allocateScale: false }]
+]);
+
+export interface EqualizationGeneratorOptions {
+    readonly level: number;
+    readonly maximumCapacity?: number;
+    readonly random?: () => number;
+}
+
+// Equation of the form multiple * isolatedVariable = count * secondVariable + weight
+interface GeneratedSide {
+    readonly multiple: number;
+    readonly count: number;
+    readonly weight: number;
+}
+
+export function generateEqualizationExercise(id: number, options: EqualizationGeneratorOptions): EqualizationExercise {
+    const settings: LevelSettings | undefined = LEVEL_SETTINGS.get(options.level);
+    if (settings === undefined) {
+        throw new GameError(GameErrorType.EXERCISE_ERROR);
+    }
+
+    const random: () => number = options.random ?? Math.random;
+    const capacity: number = options.maximumCapacity ?? EqualizationConstants.MAX_ITEMS_SCALE;
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+        const exercise: EqualizationExercise | undefined = tryGenerateExercise(id, options, settings, capacity, random);
+        if (exercise !== undefined) {
+            return exercise;
+        }
+    }
+
+    throw new GameError(GameErrorType.EXERCISE_ERROR);
+}
+
+export function getGoals(exercise: EqualizationExercise): Goal[] {
+    return [Goal.getEqualizationGoal(exercise), Goal.getSimplificationGoal(exercise), Goal.getSolutionGoal()];
+}
+
+function tryGenerateExercise(id: number, options: EqualizationGeneratorOptions, settings: LevelSettings, capacity: number, random: () => number): EqualizationExercise | undefined {
+    const firstMultiple: number = pick(settings.firstMultiples, random);
+    // An empty list of multiples for the second equation means that both equations use the same multiple
+    const secondMultiple: number = settings.secondMultiples.length === 0 ? firstMultiple : pick(settings.secondMultiples, random);
+    const commonMultiple: number = lcm(firstMultiple, secondMultiple);
+    const firstFactor: number = commonMultiple / firstMultiple;
+    const secondFactor: number = commonMultiple / secondMultiple;
+
+    const firstCount: number = randomInt(1, settings.maxSecondVariableCount, random);
+    const secondCount: number = randomInt(1, settings.maxSecondVariableCount, random);
+    const secondVariableWeight: number = pick(SECOND_VARIABLE_WEIGHTS, random);
+
+    // On the equalized scale, the side with fewer instances of the second variable has to carry more weights
+    const firstIsHeavier: boolean = firstFactor * firstCount < secondFactor * secondCount;
+    const heavierFactor: number = firstIsHeavier ? firstFactor : secondFactor;
+    const lighterFactor: number = firstIsHeavier ? secondFactor : firstFactor;
+    const countDifference: number = Math.abs(firstFactor * firstCount - secondFactor * secondCount);
+    if (countDifference === 0) {
+        return undefined;
+    }
+
+    const lighterWeight: number = settings.weightsInBothEquations ? randomInt(1, 8, random) * smallestWeight() : 0;
+    const heavierWeight: number = (lighterFactor * lighterWeight + countDifference * secondVariableWeight) / heavierFactor;
+    if (!isExpressibleWeight(heavierWeight)) {
+        return undefined;
+    }
+
+    const firstSide: GeneratedSide = { multiple: firstMultiple, count: firstCount, weight: firstIsHeavier ? heavierWeight : lighterWeight };
+    const secondSide: GeneratedSide = { multiple: secondMultiple, count: secondCount, weight: firstIsHeavier ? lighterWeight : heavierWeight };
+
+    const isolatedVariableWeight: number = (firstSide.count * secondVariableWeight + firstSide.weight) / firstSide.multiple;
+    if (!Number.isInteger(isolatedVariableWeight)) {
+        return undefined;
+    }
+
+    if (!fitsOnScale(firstSide, firstFactor, capacity) || !fitsOnScale(secondSide, secondFactor, capacity)) {
+        return undefined;
+    }
+
+    const secondVariableAmount: number = Math.max(MIN_SECOND_VARIABLE_AMOUNT, firstFactor * firstCount + secondFactor * secondCount + 2);
+    const solutionWeights: Map<Weight, number> | undefined = findWeightsForIsolatedVariable(isolatedVariableWeight, secondVariableWeight, secondVariableAmount);
+    if (solutionWeights === undefined) {
+        return undefined;
+    }
+
+    const scaleAllocation: ScaleAllocation = settings.allocateScale ? pick([ScaleAllocation.LeftFirst, ScaleAllocation.LeftSecond, ScaleAllocation.RightFirst, ScaleAllocation.RightSecond], random) : ScaleAllocation.None;
+
+    // Weights required to put both sides of the equalized scale together, except for the side that is already placed on the scale
+    const additionalWeights: Map<Weight, number> = new Map<Weight, number>();
+    if (!isFirstAllocated(scaleAllocation)) {
+        addWeights(additionalWeights, decomposeWeight(firstSide.weight), firstFactor);
+    }
+    if (!isSecondAllocated(scaleAllocation)) {
+        addWeights(additionalWeights, decomposeWeight(secondSide.weight), secondFactor);
+    }
+    // Exchanging weights might be necessary to simplify the scale and weighing the isolated variable requires appropriate weights as well
+    mergeWeights(additionalWeights, decomposeWeight(countDifference * secondVariableWeight));
+    mergeWeights(additionalWeights, solutionWeights);
+
+    const [isolatedName, secondName] = pickDistinct(FRUITS, random);
+    const equalizedScale: Scale = new Scale(commonMultiple * isolatedVariableWeight, firstFactor * firstCount, secondFactor * secondCount);
+    const simplifiedScale: Scale = new Scale(countDifference * secondVariableWeight, Math.max(equalizedScale.variablesLeft - equalizedScale.variablesRight, 0), Math.max(equalizedScale.variablesRight - equalizedScale.variablesLeft, 0));
+
+    return new EqualizationExercise(
+        id,
+        options.level,
+        "",
+        createEquation(firstSide, isolatedName, secondName, random),
+        createEquation(secondSide, isolatedName, secondName, random),
+        new EqualizationVariable(isolatedName, isolatedVariableWeight, commonMultiple + ADDITIONAL_ISOLATED_VARIABLES),
+        new EqualizationVariable(secondName, secondVariableWeight, secondVariableAmount),
+        equalizedScale,
+        simplifiedScale,
+        sortWeights(additionalWeights),
+        scaleAllocation,
+        options.maximumCapacity ?? null
+    );
+}
+
+function createEquation(side: GeneratedSide, isolatedName: string, secondName: string, random: () => number): EqualizationEquation {
+    const isolatedTerms: Term[] = [new Term(null, Coefficient.createNumberCoefficient(side.multiple), isolatedName)];
+    const secondCoefficient: Coefficient = Coefficient.createNumberCoefficient(side.count);
+
+    let otherTerms: Term[] = [new Term(null, secondCoefficient, secondName)];
+    let weights: Map<Weight, number> | null = null;
+    if (side.weight > 0) {
+        const weightCoefficient: Coefficient = Coefficient.createNumberCoefficient(side.weight);
+        otherTerms = random() < 0.5
+            ? [new Term(null, weightCoefficient, EqualizationConstants.WEIGHT_VAR), new Term(Operator.Plus, secondCoefficient, secondName)]
+            : [new Term(null, secondCoefficient, secondName), new Term(Operator.Plus, weightCoefficient, EqualizationConstants.WEIGHT_VAR)];
+        weights = decomposeWeight(side.weight);
+    }
+
+    if (random() < 0.5) {
+        return new EqualizationEquation(new LinearEquation(isolatedTerms, otherTerms), null, weights);
+    }
+    return new EqualizationEquation(new LinearEquation(otherTerms, isolatedTerms), weights, null);
+}
+
+function fitsOnScale(side: GeneratedSide, factor: number, capacity: number): boolean {
+    return factor * (side.count + countWeights(decomposeWeight(side.weight))) <= capacity;
+}
+
+// The isolated variable is weighed on the digital scale using instances of the second variable and weights
+function findWeightsForIsolatedVariable(isolatedVariableWeight: number, secondVariableWeight: number, secondVariableAmount: number): Map<Weight, number> | undefined {
+    for (let count = 0; count <= secondVariableAmount; count++) {
+        const remainingWeight: number = isolatedVariableWeight - count * secondVariableWeight;
+        if (remainingWeight < 0) {
+            break;
+        }
+        if (isExpressibleWeight(remainingWeight)) {
+            const weights: Map<Weight, number> = decomposeWeight(remainingWeight);
+            if (count + countWeights(weights) <= EqualizationConstants.MAX_ITEMS_DIG_SCALE) {
+                return weights;
+            }
+        }
+    }
+    return undefined;
+}
+
+function isFirstAllocated(allocation: ScaleAllocation): boolean {
+    return allocation === ScaleAllocation.LeftFirst || allocation === ScaleAllocation.RightFirst;
+}
+
+function isSecondAllocated(allocation: ScaleAllocation): boolean {
+    return allocation === ScaleAllocation.LeftSecond || allocation === ScaleAllocation.RightSecond;
+}
+
+function smallestWeight(): number {
+    return Math.min(...EqualizationConstants.WEIGHT_WEIGHTS.values());
+}
+
+function isExpressibleWeight(weight: number): boolean {
+    return Number.isInteger(weight) && weight >= 0 && weight % smallestWeight() === 0;
+}
+
+// Decomposes the weight into the minimal number of available weights
+export function decomposeWeight(weight: number): Map<Weight, number> {
+    if (!isExpressibleWeight(weight)) {
+        throw new GameError(GameErrorType.EXERCISE_ERROR);
+    }
+
+    const unit: number = smallestWeight();
+    const steps: number = weight / unit;
+    const minimalCounts: number[] = [0];
+    const lastWeight: (Weight | undefined)[] = [undefined];
+
+    for (let step = 1; step <= steps; step++) {
+        minimalCounts[step] = Infinity;
+        EqualizationConstants.WEIGHT_WEIGHTS.forEach((value: number, key: Weight): void => {
+            const previous: number = step - value / unit;
+            if (previous >= 0 && minimalCounts[previous] + 1 < minimalCounts[step]) {
+                minimalCounts[step] = minimalCounts[previous] + 1;
+                lastWeight[step] = key;
+            }
+        });
+    }
+
+    const weights: Map<Weight, number> = new Map<Weight, number>();
+    for (let step = steps; step > 0; ) {
+        const key: Weight = lastWeight[step] as Weight;
+        weights.set(key, (weights.get(key) ?? 0) + 1);
+        step -= (EqualizationConstants.WEIGHT_WEIGHTS.get(key) as number) / unit;
+    }
+    return sortWeights(weights);
+}
+
+function countWeights(weights: Map<Weight, number>): number {
+    let count: number = 0;
+    weights.forEach((value: number): void => {
+        count += value;
+    });
+    return count;
+}
+
+function addWeights(target: Map<Weight, number>, weights: Map<Weight, number>, factor: number): void {
+    weights.forEach((value: number, key: Weight): void => {
+        target.set(key, (target.get(key) ?? 0) + factor * value);
+    });
+}
+
+// Ensures that the target contains at least the given number of each weight
+function mergeWeights(target: Map<Weight, number>, weights: Map<Weight, number>): void {
+    weights.forEach((value: number, key: Weight): void => {
+        target.set(key, Math.max(target.get(key) ?? 0, value));
+    });
+}
+
+// Orders the weights like the available weights, i.e. from heaviest to lightest
+function sortWeights(weights: Map<Weight, number>): Map<Weight, number> {
+    const sorted: Map<Weight, number> = new Map<Weight, number>();
+    EqualizationConstants.WEIGHT_WEIGHTS.forEach((_value: number, key: Weight): void => {
+        const count: number | undefined = weights.get(key);
+        if (count !== undefined && count > 0) {
+            sorted.set(key, count);
+        }
+    });
+    return sorted;
+}
+
+function gcd(a: number, b: number): number {
+    return b === 0 ? a : gcd(b, a % b);
+}
+
+function lcm(a: number, b: number): number {
+    return (a * b) / gcd(a, b);
+}
+
+function randomInt(min: number, max: number, random: () => number): number {
+    return min + Math.floor(random() * (max - min + 1));
+}
+
+function pick<T>(values: T[], random: () => number): T {
+    return values[Math.floor(random() * values.length)];
+}
+
+function pickDistinct<T>(values: T[], random: () => number): [T, T] {
+    const first: T = pick(values, random);
+    const remaining: T[] = values.filter((value: T): boolean => value !== first);
+    return [first, pick(remaining, random)];
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { EquationFormat, Operator, RelationSymbol } from "@/types/math/enums.ts";
+import { FlexibilityEquation, LinearEquation, ParenthesisEquation } from "@/types/math/linearEquation.ts";
+import { math } from "@/types/math/math.ts";
+import { FlexibilityTerm } from "@/types/math/term.ts";
+import { parseFlexibilityEquation, parseLinearEquation, parseParenthesisEquation } from "@utils/equationParser.ts";
+import { serializeFlexibilityEquation, serializeLinearEquation, serializeParenthesisEquation } from "@utils/equationSerializer.ts";
+
+// Coefficients and variables of the terms, which are easier to compare than the fractions
+function describeTerms(terms: FlexibilityTerm[]): [number, string | null][] {
+    return terms.map((term: FlexibilityTerm) => [math.number(term.coefficient), term.variable]);
+}
+
+describe("parseFlexibilityEquation", () => {
+    it("parses the terms of both sides", () => {
+        const equation: FlexibilityEquation | undefined = parseFlexibilityEquation("y = 3/2 - 1/2x");
+
+        expect(describeTerms(equation?.leftTerms ?? [])).toEqual([[1, "y"]]);
+        expect(describeTerms(equation?.rightTerms ?? [])).toEqual([
+            [1.5, null],
+            [-0.5, "x"]
+        ]);
+    });
+
+    it("accepts the symbols students copy from the rendered equations", () => {
+        const equation: FlexibilityEquation | undefined = parseFlexibilityEquation("2·x − 3⋅y = 4,5 : 3");
+
+        expect(describeTerms(equation?.leftTerms ?? [])).toEqual([
+            [2, "x"],
+            [-3, "y"]
+        ]);
+        expect(describeTerms(equation?.rightTerms ?? [])).toEqual([[1.5, null]]);
+    });
+
+    it("divides a variable by the divisor behind it", () => {
+        expect(describeTerms(parseFlexibilityEquation("3x/2 = y")?.leftTerms ?? [])).toEqual([[1.5, "x"]]);
+    });
+
+    it("rejects inputs that are not linear equations in the given variables", () => {
+        expect(parseFlexibilityEquation("2x + = 3")).toBeUndefined();
+        expect(parseFlexibilityEquation("x^2 = 1")).toBeUndefined();
+        expect(parseFlexibilityEquation("x < 3")).toBeUndefined();
+        expect(parseFlexibilityEquation("2(x + 1) = 3")).toBeUndefined();
+        expect(parseFlexibilityEquation("x/0 = 3")).toBeUndefined();
+        expect(parseFlexibilityEquation("a = 1", ["x", "y"])).toBeUndefined();
+    });
+});
+
+describe("parseLinearEquation", () => {
+    it("keeps the relation and stores the signs in the operators", () => {
+        const equation: LinearEquation | undefined = parseLinearEquation("-2x + 3 > y");
+
+        expect(equation?.relation).toBe(RelationSymbol.Larger);
+        expect(equation?.leftTerms.map((term) => term.operator)).toEqual([Operator.Minus, Operator.Plus]);
+        expect(equation?.leftTerms.map((term) => term.coefficient.value)).toEqual([2, 3]);
+    });
+});
+
+describe("equation serialization", () => {
+    it.each(["2x - 3y = 4", "y = 3/2 - 1/2x", "-x + y = 0", "x = -4", "0 = 2y - 5/3"])("serializes the parsed equation %s to the same text", (input: string) => {
+        const equation: FlexibilityEquation | undefined = parseFlexibilityEquation(input);
+
+        expect(equation).toBeDefined();
+        expect(serializeFlexibilityEquation(equation as FlexibilityEquation)).toBe(input);
+    });
+
+    it("writes equations the way they are rendered", () => {
+        expect(serializeFlexibilityEquation(parseFlexibilityEquation("2*x−3·y=4") as FlexibilityEquation)).toBe("2x - 3y = 4");
+        expect(serializeFlexibilityEquation(parseFlexibilityEquation("y = 4 - 1.5x") as FlexibilityEquation, EquationFormat.Latex)).toBe("y = 4 - \\frac{3}{2}x");
+    });
+
+    it.each(["2x + 3 > y", "x - 1/2y < 4", "-y = 7"])("serializes the parsed linear equation %s to the same text", (input: string) => {
+        expect(serializeLinearEquation(parseLinearEquation(input) as LinearEquation)).toBe(input);
+    });
+
+    it.each(["2(x + 3) = (y - 1/2) · 4", "-(x - y) = 3", "x - 3(2 - y) = 1/2(x + 1)"])("serializes the parsed parenthesis equation %s to the same text", (input: string) => {
+        const equation: ParenthesisEquation | undefined = parseParenthesisEquation(input);
+
+        expect(equation).toBeDefined();
+        expect(serializeParenthesisEquation(equation as ParenthesisEquation)).toBe(input);
+    });
+
+    it("parses the serialized equation to the same terms", () => {
+        const equation: FlexibilityEquation = new FlexibilityEquation(
+            [new FlexibilityTerm(math.fraction(-7, 3), "x"), new FlexibilityTerm(math.fraction(0), "y")],
+            [new FlexibilityTerm(math.fraction(5, 2), null), new FlexibilityTerm(math.fraction(-1), "y")]
+        );
+        const parsed: FlexibilityEquation | undefined = parseFlexibilityEquation(serializeFlexibilityEquation(equation));
+
+        // Zero terms are left out, as they are when rendered
+        expect(describeTerms(parsed?.leftTerms ?? [])).toEqual([[-7 / 3, "x"]]);
+        expect(describeTerms(parsed?.rightTerms ?? [])).toEqual(describeTerms(equation.rightTerms));
+    });
+});
@@ -0,0 +1,294 @@
+import { Fraction } from "mathjs";
+import { Coefficient } from "@/types/math/coefficient.ts";
+import { NumberType, Operator, Parenthesis, RelationSymbol } from "@/types/math/enums.ts";
+import { FlexibilityEquation, LinearEquation, ParenthesisEquation } from "@/types/math/linearEquation.ts";
+import { math } from "@/types/math/math.ts";
+import { FlexibilityTerm, ParenthesisTerm, Term } from "@/types/math/term.ts";
+import { GameError, GameErrorType } from "@/types/shared/error.ts";
+
+enum TokenType {
+    Number,
+    Variable,
+    Plus,
+    Minus,
+    Times,
+    Divide,
+    LeftParenthesis,
+    RightParenthesis,
+    Relation
+}
+
+interface Token {
+    readonly type: TokenType;
+    readonly value: string;
+}
+
+// Symbols besides numbers and variables, including the ones students copy from the rendered equations
+const SYMBOL_TOKENS: Record<string, TokenType> = {
+    "+": TokenType.Plus,
+    "-": TokenType.Minus,
+    "−": TokenType.Minus,
+    "*": TokenType.Times,
+    "·": TokenType.Times,
+    "⋅": TokenType.Times,
+    "/": TokenType.Divide,
+    ":": TokenType.Divide,
+    "(": TokenType.LeftParenthesis,
+    ")": TokenType.RightParenthesis,
+    "=": TokenType.Relation,
+    "<": TokenType.Relation,
+    ">": TokenType.Relation
+};
+
+const RELATION_SYMBOLS: Record<string, RelationSymbol> = {
+    "=": RelationSymbol.Equal,
+    "<": RelationSymbol.Smaller,
+    ">": RelationSymbol.Larger
+};
+
+interface ParsedTerm {
+    readonly coefficient: Fraction;
+    readonly variable: string | null;
+}
+
+// A parenthesis with the factor in front of it, e.g. -2(x + 3), and the number it is multiplied with behind it, e.g. (x + 3) * 2
+interface ParsedParenthesis {
+    readonly factor: Fraction;
+    readonly terms: ParsedTerm[];
+    readonly multiplier?: Fraction;
+}
+
+type ParsedItem = ParsedTerm | ParsedParenthesis;
+
+interface ParsedEquation {
+    readonly relation: RelationSymbol;
+    readonly leftItems: ParsedItem[];
+    readonly rightItems: ParsedItem[];
+}
+
+// Position of the parser in the tokens of the equation
+interface Cursor {
+    readonly tokens: Token[];
+    position: number;
+}
+
+/**
+ * Parses an equation typed by a student, e.g. "2x - 3y = 4" or "y = 3/2 - 1/2x", into its terms.
+ * Returns undefined if the input is not a linear equation in the given variables, so that the student can be asked to correct it.
+ * Any single letter is accepted as a variable if no variables are given.
+ */
+export function parseFlexibilityEquation(input: string, variables?: string[]): FlexibilityEquation | undefined {
+    const equation: ParsedEquation | undefined = parseEquation(input, variables);
+    if (equation === undefined || equation.relation !== RelationSymbol.Equal || !isWithoutParentheses(equation)) {
+        return undefined;
+    }
+    return new FlexibilityEquation(toFlexibilityTerms(equation.leftItems as ParsedTerm[]), toFlexibilityTerms(equation.rightItems as ParsedTerm[]));
+}
+
+// Parses an equation or inequality of the conceptual knowledge games, e.g. "2x + 3 > y"
+export function parseLinearEquation(input: string, variables?: string[]): LinearEquation | undefined {
+    const equation: ParsedEquation | undefined = parseEquation(input, variables);
+    if (equation === undefined || !isWithoutParentheses(equation)) {
+        return undefined;
+    }
+    return new LinearEquation(toTerms(equation.leftItems as ParsedTerm[]), toTerms(equation.rightItems as ParsedTerm[]), equation.relation);
+}
+
+// Parses an equation whose terms may be grouped in parentheses, e.g. "2(x + 3) = (y - 1/2) * 4", parentheses cannot be nested
+export function parseParenthesisEquation(input: string, variables?: string[]): ParenthesisEquation | undefined {
+    const equation: ParsedEquation | undefined = parseEquation(input, variables);
+    if (equation === undefined || equation.relation !== RelationSymbol.Equal) {
+        return undefined;
+    }
+    return new ParenthesisEquation(toParenthesisTerms(equation.leftItems), toParenthesisTerms(equation.rightItems));
+}
+
+// Used for equations written by authors, which are expected to be valid
+export function createFlexibilityEquation(input: string): FlexibilityEquation {
+    const equation: FlexibilityEquation | undefined = parseFlexibilityEquation(input);
+    if (equation === undefined) {
+        throw new GameError(GameErrorType.EXERCISE_ERROR);
+    }
+    return equation;
+}
+
+function parseEquation(input: string, variables?: string[]): ParsedEquation | undefined {
+    const tokens: Token[] | undefined = tokenize(input);
+    if (tokens === undefined) {
+        return undefined;
+    }
+
+    const cursor: Cursor = { tokens, position: 0 };
+    const leftItems: ParsedItem[] | undefined = parseSide(cursor, variables, true);
+    const relation: Token | undefined = consume(cursor, TokenType.Relation);
+    if (leftItems === undefined || relation === undefined) {
+        return undefined;
+    }
+    const rightItems: ParsedItem[] | undefined = parseSide(cursor, variables, true);
+    if (rightItems === undefined || cursor.position !== tokens.length) {
+        return undefined;
+    }
+    return { relation: RELATION_SYMBOLS[relation.value], leftItems, rightItems };
+}
+
+function tokenize(input: string): Token[] | undefined {
+    const tokens: Token[] = [];
+    let position: number = 0;
+    while (position < input.length) {
+        const character: string = input[position];
+        const number: RegExpMatchArray | null = input.substring(position).match(/^\d+(?:[.,]\d+)?/);
+        if (number !== null) {
+            tokens.push({ type: TokenType.Number, value: number[0].replace(",", ".") });
+            position += number[0].length;
+            continue;
+        }
+
+        if (/[a-z]/i.test(character)) {
+            tokens.push({ type: TokenType.Variable, value: character });
+        } else if (character in SYMBOL_TOKENS) {
+            tokens.push({ type: SYMBOL_TOKENS[character], value: character });
+        } else if (!/\s/.test(character)) {
+            return undefined;
+        }
+        position++;
+    }
+    return tokens;
+}
+
+// Terms on a side are separated by signs, only the first term may omit its sign
+function parseSide(cursor: Cursor, variables: string[] | undefined, allowParentheses: boolean): ParsedItem[] | undefined {
+    const items: ParsedItem[] = [];
+    do {
+        const sign: Token | undefined = consume(cursor, TokenType.Plus) ?? consume(cursor, TokenType.Minus);
+        if (sign === undefined && items.length > 0) {
+            return items;
+        }
+
+        const item: ParsedItem | undefined = parseItem(cursor, variables, allowParentheses);
+        if (item === undefined) {
+            return undefined;
+        }
+        items.push(sign?.type === TokenType.Minus ? negateItem(item) : item);
+    } while (cursor.position < cursor.tokens.length);
+    return items;
+}
+
+// A term is a number, a variable with an optional coefficient in front of it or divisor behind it, or a parenthesis with an optional factor
+function parseItem(cursor: Cursor, variables: string[] | undefined, allowParentheses: boolean): ParsedItem | undefined {
+    const start: number = cursor.position;
+    const coefficient: Fraction | undefined = parseNumber(cursor);
+    const isFraction: boolean = cursor.position - start > 1;
+    const hasTimes: boolean = consume(cursor, TokenType.Times) !== undefined;
+
+    if (allowParentheses && consume(cursor, TokenType.LeftParenthesis) !== undefined) {
+        return parseParenthesis(cursor, variables, coefficient ?? math.fraction(1));
+    }
+
+    const variable: Token | undefined = consume(cursor, TokenType.Variable);
+    if (variable === undefined) {
+        return coefficient !== undefined && !hasTimes ? { coefficient, variable: null } : undefined;
+    }
+    if ((hasTimes && coefficient === undefined) || (variables !== undefined && !variables.includes(variable.value))) {
+        return undefined;
+    }
+
+    // The divisor behind the variable, e.g. x/2, cannot be combined with a fraction in front of it
+    if (consume(cursor, TokenType.Divide) !== undefined) {
+        const divisor: Token | undefined = consume(cursor, TokenType.Number);
+        if (divisor === undefined || isFraction || math.isZero(math.fraction(divisor.value))) {
+            return undefined;
+        }
+        return { coefficient: math.divide(coefficient ?? math.fraction(1), math.fraction(divisor.value)) as Fraction, variable: variable.value };
+    }
+    return { coefficient: coefficient ?? math.fraction(1), variable: variable.value };
+}
+
+function parseParenthesis(cursor: Cursor, variables: string[] | undefined, factor: Fraction): ParsedParenthesis | undefined {
+    const terms: ParsedItem[] | undefined = parseSide(cursor, variables, false);
+    if (terms === undefined || consume(cursor, TokenType.RightParenthesis) === undefined) {
+        return undefined;
+    }
+    if (consume(cursor, TokenType.Times) === undefined) {
+        return { factor, terms: terms as ParsedTerm[] };
+    }
+
+    const multiplier: Fraction | undefined = parseNumber(cursor);
+    return multiplier !== undefined ? { factor, terms: terms as ParsedTerm[], multiplier } : undefined;
+}
+
+// A number or a fraction of two numbers, e.g. 3, 1.5 or 3/2
+function parseNumber(cursor: Cursor): Fraction | undefined {
+    const numerator: Token | undefined = consume(cursor, TokenType.Number);
+    if (numerator === undefined) {
+        return undefined;
+    }
+
+    const start: number = cursor.position;
+    if (consume(cursor, TokenType.Divide) !== undefined) {
+        const denominator: Token | undefined = consume(cursor, TokenType.Number);
+        if (denominator !== undefined && !math.isZero(math.fraction(denominator.value))) {
+            return math.divide(math.fraction(numerator.value), math.fraction(denominator.value)) as Fraction;
+        }
+        // Without a number behind it, the division belongs to a variable, e.g. in 3x/2
+        cursor.position = start;
+    }
+    return math.fraction(numerator.value);
+}
+
+function consume(cursor: Cursor, type: TokenType): Token | undefined {
+    const token: Token | undefined = cursor.tokens[cursor.position];
+    if (token?.type !== type) {
+        return undefined;
+    }
+    cursor.position++;
+    return token;
+}
+
+function isParenthesis(item: ParsedItem): item is ParsedParenthesis {
+    return "factor" in item;
+}
+
+function isWithoutParentheses(equation: ParsedEquation): boolean {
+    return !equation.leftItems.some(isParenthesis) && !equation.rightItems.some(isParenthesis);
+}
+
+function negateItem(item: ParsedItem): ParsedItem {
+    return isParenthesis(item) ? { ...item, factor: math.unaryMinus(item.factor) } : { ...item, coefficient: math.unaryMinus(item.coefficient) };
+}
+
+function toFlexibilityTerms(terms: ParsedTerm[]): FlexibilityTerm[] {
+    return terms.map((term: ParsedTerm) => new FlexibilityTerm(term.coefficient, term.variable));
+}
+
+// The sign of a term is kept in its operator, the first term has no operator unless it is negative
+function toTerms(terms: ParsedTerm[]): Term[] {
+    return terms.map((term: ParsedTerm, index: number): Term => {
+        const isNegative: boolean = term.coefficient.s < 0;
+        const operator: Operator.Plus | Operator.Minus | null = isNegative ? Operator.Minus : index !== 0 ? Operator.Plus : null;
+        const value: Fraction = math.abs(term.coefficient);
+        const coefficient: Coefficient = value.d === 1 ? new Coefficient(Number(value.n), NumberType.Number) : new Coefficient(math.format(value, { fraction: "ratio" }), NumberType.Fraction);
+        return new Term(operator, coefficient, term.variable);
+    });
+}
+
+/**
+ * A parenthesis is stored as the factor in front of it, which opens the parenthesis, followed by the terms inside it, the last of which closes it.
+ * A number it is multiplied with behind it is stored as a separate multiplication.
+ */
+function toParenthesisTerms(items: ParsedItem[]): ParenthesisTerm[] {
+    return items.flatMap((item: ParsedItem): ParenthesisTerm[] => {
+        if (!isParenthesis(item)) {
+            return [new ParenthesisTerm(false, null, item.coefficient, item.variable)];
+        }
+
+        const containsFraction: boolean = item.terms.some((term: ParsedTerm): boolean => term.coefficient.d !== 1);
+        const innerTerms: ParsedTerm[] = item.terms.slice(0, -1);
+        const lastTerm: ParsedTerm = item.terms[item.terms.length - 1];
+        return [
+            new ParenthesisTerm(false, containsFraction ? Parenthesis.LeftLarge : Parenthesis.LeftSmall, item.factor, null),
+            ...innerTerms.map((term: ParsedTerm) => new ParenthesisTerm(false, null, term.coefficient, term.variable)),
+            new ParenthesisTerm(false, containsFraction ? Parenthesis.RightLarge : Parenthesis.RightSmall, lastTerm.coefficient, lastTerm.variable),
+            ...(item.multiplier !== undefined ? [new ParenthesisTerm(true, null, item.multiplier, null)] : [])
+        ];
+    });
+}
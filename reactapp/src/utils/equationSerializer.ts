@@ -0,0 +1,83 @@
+import { Fraction } from "mathjs";
+import { EquationFormat, Operator, Parenthesis, RelationSymbol } from "@/types/math/enums.ts";
+import { FlexibilityEquation, LinearEquation, ParenthesisEquation } from "@/types/math/linearEquation.ts";
+import { math } from "@/types/math/math.ts";
+import { FlexibilityTerm, ParenthesisTerm, Term } from "@/types/math/term.ts";
+
+const RELATION_SYMBOLS: Record<RelationSymbol, string> = {
+    [RelationSymbol.Equal]: "=",
+    [RelationSymbol.Smaller]: "<",
+    [RelationSymbol.Larger]: ">"
+};
+
+/**
+ * Writes an equation the way it is rendered, e.g. "y = 4 - 3/2x" as plain text or "y = 4 - \frac{3}{2}x" as LaTeX.
+ * The plain text can be parsed again by the equation parser.
+ */
+export function serializeFlexibilityEquation(equation: FlexibilityEquation, format: EquationFormat = EquationFormat.PlainText): string {
+    return `${serializeTerms(equation.leftTerms, format)} = ${serializeTerms(equation.rightTerms, format)}`;
+}
+
+export function serializeLinearEquation(equation: LinearEquation, format: EquationFormat = EquationFormat.PlainText): string {
+    const relation: string = RELATION_SYMBOLS[equation.relation ?? RelationSymbol.Equal];
+    return `${serializeTerms(equation.leftTerms.map(termToFlexibilityTerm), format)} ${relation} ${serializeTerms(equation.rightTerms.map(termToFlexibilityTerm), format)}`;
+}
+
+export function serializeParenthesisEquation(equation: ParenthesisEquation, format: EquationFormat = EquationFormat.PlainText): string {
+    return `${serializeParenthesisTerms(equation.leftTerms, format)} = ${serializeParenthesisTerms(equation.rightTerms, format)}`;
+}
+
+function serializeTerms(terms: FlexibilityTerm[], format: EquationFormat): string {
+    return terms.map((term: FlexibilityTerm, index: number) => serializeTerm(term, index === 0, format)).join("");
+}
+
+// Like the rendered terms, zero terms are left out unless they are the first term of their side
+function serializeTerm(term: FlexibilityTerm, isFirst: boolean, format: EquationFormat): string {
+    if (math.isZero(term.coefficient)) {
+        return isFirst ? "0" : "";
+    }
+    const coefficient: string = term.variable !== null && math.equal(math.abs(term.coefficient), 1) ? "" : serializeNumber(term.coefficient, format);
+    return `${serializeSign(term.coefficient, isFirst)}${coefficient}${term.variable ?? ""}`;
+}
+
+// A parenthesis opens with its factor and closes after its last term, the term right after the opening parenthesis has no sign unless it is negative
+function serializeParenthesisTerms(terms: ParenthesisTerm[], format: EquationFormat): string {
+    return terms
+        .map((term: ParenthesisTerm, index: number): string => {
+            const isFirst: boolean = index === 0 || isLeftParenthesis(terms[index - 1]);
+            if (term.isMultiplication) {
+                return ` ${format === EquationFormat.Latex ? "\\cdot" : "·"} ${serializeNumber(term.coefficient, format)}`;
+            } else if (term.parenthesis === null) {
+                return serializeTerm(new FlexibilityTerm(term.coefficient, term.variable), isFirst, format);
+            } else if (isLeftParenthesis(term)) {
+                const factor: string = math.equal(math.abs(term.coefficient), 1) ? "" : serializeNumber(term.coefficient, format);
+                return `${serializeSign(term.coefficient, isFirst)}${factor}${format === EquationFormat.Latex ? "\\left(" : "("}`;
+            }
+            return `${serializeTerm(new FlexibilityTerm(term.coefficient, term.variable), isFirst, format)}${format === EquationFormat.Latex ? "\\right)" : ")"}`;
+        })
+        .join("");
+}
+
+function serializeSign(coefficient: Fraction, isFirst: boolean): string {
+    if (isFirst) {
+        return coefficient.s < 0 ? "-" : "";
+    }
+    return coefficient.s < 0 ? " - " : " + ";
+}
+
+// The sign is written separately, so only the absolute value of the number is serialized
+function serializeNumber(number: Fraction, format: EquationFormat): string {
+    if (number.d === 1) {
+        return `${number.n}`;
+    }
+    return format === EquationFormat.Latex ? `\\frac{${number.n}}{${number.d}}` : `${number.n}/${number.d}`;
+}
+
+function isLeftParenthesis(term: ParenthesisTerm): boolean {
+    return term.parenthesis === Parenthesis.LeftSmall || term.parenthesis === Parenthesis.LeftLarge;
+}
+
+function termToFlexibilityTerm(term: Term): FlexibilityTerm {
+    const coefficient: Fraction = math.fraction(term.coefficient.value);
+    return new FlexibilityTerm(term.operator === Operator.Minus ? math.unaryMinus(coefficient) : coefficient, term.variable);
+}
@@ -0,0 +1,61 @@
+import { CKExerciseResponse } from "@/types/shared/ckExerciseResponse.ts";
+import { ExerciseModule } from "@/types/shared/exerciseOutcome.ts";
+import { CKExerciseType, FlexibilityStudyExerciseType } from "@/types/studies/enums.ts";
+
+const EXERCISE_LEVELS_STORAGE_KEY: string = "exercise-levels";
+
+// Worked examples only require reading, whereas plain exercises leave the whole solution process to the student.
+// The difficulties only order the exercises for recommendations, flexibility exercises have no levels that goals or the progress refer to.
+export const FLEXIBILITY_EXERCISE_TYPE_DIFFICULTIES: Record<FlexibilityStudyExerciseType, number> = {
+    [FlexibilityStudyExerciseType.WorkedExamples]: 1,
+    [FlexibilityStudyExerciseType.Suitability]: 2,
+    [FlexibilityStudyExerciseType.Efficiency]: 3,
+    [FlexibilityStudyExerciseType.TipExercise]: 3,
+    [FlexibilityStudyExerciseType.Matching]: 4,
+    [FlexibilityStudyExerciseType.PlainExercise]: 4
+};
+
+const CK_EXERCISE_MODULES: Record<CKExerciseType, ExerciseModule> = {
+    [CKExerciseType.Equalization]: ExerciseModule.Equalization,
+    [CKExerciseType.Bartering]: ExerciseModule.Substitution,
+    [CKExerciseType.Substitution]: ExerciseModule.Substitution,
+    [CKExerciseType.Elimination]: ExerciseModule.Elimination
+};
+
+export function getCKExerciseModule(exerciseType: CKExerciseType): ExerciseModule {
+    return CK_EXERCISE_MODULES[exerciseType];
+}
+
+// The levels are remembered whenever an exercise list is loaded, so that goals are evaluated by the levels the backend returns
+export function saveExerciseLevels(exerciseType: CKExerciseType, exercises: CKExerciseResponse[]): void {
+    const jsonObject: { [key: string]: Record<number, number> } = loadExerciseLevels();
+
+    const levels: Record<number, number> = {};
+    exercises.forEach((exercise: CKExerciseResponse): void => {
+        if (exercise.level !== null) {
+            levels[exercise.id] = exercise.level;
+        }
+    });
+    jsonObject[CKExerciseType[exerciseType]] = levels;
+    localStorage.setItem(EXERCISE_LEVELS_STORAGE_KEY, JSON.stringify(jsonObject));
+}
+
+// Returns the levels of the exercises of a list by their id, exercises without a level are left out
+export function getExerciseLevels(exerciseType: CKExerciseType): Record<number, number> {
+    return loadExerciseLevels()[CKExerciseType[exerciseType]] ?? {};
+}
+
+// Levels that cannot be read are discarded, they are saved again as soon as the exercise lists are loaded the next time
+function loadExerciseLevels(): { [key: string]: Record<number, number> } {
+    const jsonString: string | null = localStorage.getItem(EXERCISE_LEVELS_STORAGE_KEY);
+    if (jsonString === null) {
+        return {};
+    }
+    try {
+        return JSON.parse(jsonString);
+    } catch (error) {
+        console.error("Discarding the exercise levels because they cannot be read.", error);
+        localStorage.removeItem(EXERCISE_LEVELS_STORAGE_KEY);
+        return {};
+    }
+}
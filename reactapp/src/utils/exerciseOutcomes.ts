@@ -0,0 +1,20 @@
+import { ExerciseModule, ExerciseOutcome, ExerciseOutcomeListener, ExerciseOutcomeType } from "@/types/shared/exerciseOutcome.ts";
+import { CKExerciseType } from "@/types/studies/enums.ts";
+
+const listeners: Set<ExerciseOutcomeListener> = new Set<ExerciseOutcomeListener>();
+
+export function emitExerciseOutcome(type: ExerciseOutcomeType, module: ExerciseModule, exerciseId: number, exerciseType?: CKExerciseType): void {
+    const outcome: ExerciseOutcome = { type, module, exerciseId, exerciseType, timestamp: Date.now() };
+    listeners.forEach((listener: ExerciseOutcomeListener) => listener(outcome));
+}
+
+/**
+ * Registers a listener that is notified about every outcome emitted by the games and exercises.
+ * Returns a function that removes the listener again, which can be used directly as the cleanup of an effect.
+ */
+export function subscribeToExerciseOutcomes(listener: ExerciseOutcomeListener): () => void {
+    listeners.add(listener);
+    return (): void => {
+        listeners.delete(listener);
+    };
+}
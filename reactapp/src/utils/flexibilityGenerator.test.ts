@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { EfficiencyExercise } from "@/types/flexibility/efficiencyExercise.ts";
+import { IsolatedIn, Method, SystemStructure } from "@/types/flexibility/enums.ts";
+import { PlainExercise } from "@/types/flexibility/plainExercise.ts";
+import { IVariable } from "@/types/flexibility/variable.ts";
+import { SolutionType } from "@/types/math/enums.ts";
+import { LinearSystemSolution } from "@/types/math/linearSystemSolution.ts";
+import { math } from "@/types/math/math.ts";
+import { generateEfficiencyExercise, generatePlainExercise, hasAdditionalEquations } from "@utils/flexibilityGenerator.ts";
+import { getSystemVariables, solveExercise, validateFlexibilityExercise } from "@utils/solverUtils.ts";
+
+const EXERCISES_PER_STRUCTURE: number = 25;
+
+const UNIQUE_STRUCTURES: SystemStructure[] = [
+    SystemStructure.IsolatedInFirst,
+    SystemStructure.IsolatedInSecond,
+    SystemStructure.IsolatedInBoth,
+    SystemStructure.IsolatedInOne,
+    SystemStructure.Multiples,
+    SystemStructure.EliminationReady,
+    SystemStructure.ThreeEquations,
+    SystemStructure.FourEquations
+];
+
+// Linear congruential generator, so that every run checks the same exercises
+function createRandom(seed: number): () => number {
+    let state: number = seed;
+    return (): number => {
+        state = (state * 1664525 + 1013904223) % 4294967296;
+        return state / 4294967296;
+    };
+}
+
+function generateExercises(structure: SystemStructure, allowFractions: boolean = false): PlainExercise[] {
+    const random: () => number = createRandom(structure + 1);
+    return Array.from({ length: EXERCISES_PER_STRUCTURE }, (_: unknown, index: number) => generatePlainExercise(index, { structure, allowFractions, random }));
+}
+
+describe("generatePlainExercise", () => {
+    it.each(UNIQUE_STRUCTURES.map((structure: SystemStructure) => [SystemStructure[structure], structure]))("generates valid systems of the structure %s", (_: string, structure: SystemStructure) => {
+        generateExercises(structure, true).forEach((exercise: PlainExercise): void => {
+            expect(solveExercise(exercise).type).toBe(SolutionType.Unique);
+            expect(validateFlexibilityExercise(exercise)).toEqual([]);
+        });
+    });
+
+    it("generates the unknowns of systems with more than two equations", () => {
+        const [threeEquations] = generateExercises(SystemStructure.ThreeEquations);
+        const [fourEquations] = generateExercises(SystemStructure.FourEquations);
+
+        expect(threeEquations.additionalEquations).toHaveLength(1);
+        expect(getSystemVariables(threeEquations).map((variable: IVariable) => variable.name)).toEqual(["x", "y", "z"]);
+        expect(fourEquations.additionalEquations).toHaveLength(2);
+        expect(getSystemVariables(fourEquations).map((variable: IVariable) => variable.name)).toEqual(["x", "y", "z", "w"]);
+    });
+
+    it("only generates integer solutions unless fractions are allowed", () => {
+        generateExercises(SystemStructure.IsolatedInOne).forEach((exercise: PlainExercise): void => {
+            expect(Number.isInteger(exercise.firstVariable.value.value)).toBe(true);
+            expect(Number.isInteger(exercise.secondVariable.value.value)).toBe(true);
+        });
+    });
+
+    it("solves systems of the isolating structures for the same variable", () => {
+        generateExercises(SystemStructure.IsolatedInFirst).forEach((exercise: PlainExercise): void => {
+            expect([exercise.firstEquationIsIsolatedIn, exercise.secondEquationIsIsolatedIn]).toEqual([IsolatedIn.First, IsolatedIn.First]);
+        });
+        generateExercises(SystemStructure.IsolatedInSecond).forEach((exercise: PlainExercise): void => {
+            expect([exercise.firstEquationIsIsolatedIn, exercise.secondEquationIsIsolatedIn]).toEqual([IsolatedIn.Second, IsolatedIn.Second]);
+        });
+    });
+
+    it.each([
+        ["NoSolution", SystemStructure.NoSolution, SolutionType.None],
+        ["InfiniteSolutions", SystemStructure.InfiniteSolutions, SolutionType.Infinite]
+    ])("generates systems of the structure %s without a unique solution", (_: string, structure: SystemStructure, solutionType: SolutionType) => {
+        generateExercises(structure).forEach((exercise: PlainExercise): void => {
+            expect(solveExercise(exercise).type).toBe(solutionType);
+            expect(validateFlexibilityExercise(exercise)).toEqual([]);
+        });
+    });
+
+    it("generates the same exercise for the same random numbers", () => {
+        const first: PlainExercise = generatePlainExercise(1, { structure: SystemStructure.Multiples, random: createRandom(42) });
+        const second: PlainExercise = generatePlainExercise(1, { structure: SystemStructure.Multiples, random: createRandom(42) });
+
+        expect(second).toEqual(first);
+    });
+});
+
+describe("generateEfficiencyExercise", () => {
+    function generate(structure: SystemStructure): EfficiencyExercise {
+        return generateEfficiencyExercise(1, { structure, random: createRandom(structure + 1) });
+    }
+
+    it("derives the efficient methods from the structure of the system", () => {
+        expect(generate(SystemStructure.IsolatedInFirst).efficientMethods).toEqual([Method.Equalization, Method.Substitution]);
+        expect(generate(SystemStructure.IsolatedInOne).efficientMethods).toEqual([Method.Substitution]);
+        expect(generate(SystemStructure.EliminationReady).efficientMethods).toEqual([Method.Elimination]);
+    });
+
+    it("sets the solution of the system as the values of the variables", () => {
+        const exercise: EfficiencyExercise = generate(SystemStructure.IsolatedInBoth);
+        const solution: LinearSystemSolution = solveExercise(exercise);
+
+        expect(math.equal(math.fraction(exercise.firstVariable.value.value), solution.firstValue ?? math.fraction(0))).toBe(true);
+        expect(math.equal(math.fraction(exercise.secondVariable.value.value), solution.secondValue ?? math.fraction(0))).toBe(true);
+    });
+
+    it("rejects systems with more than two equations", () => {
+        expect(hasAdditionalEquations(SystemStructure.ThreeEquations)).toBe(true);
+        expect(() => generate(SystemStructure.ThreeEquations)).toThrow();
+    });
+});
@@ -0,0 +1,300 @@
+import { Fraction } from "mathjs";
+import { EfficiencyExercise } from "@/types/flexibility/efficiencyExercise.ts";
+import { IsolatedIn, Method, SystemStructure } from "@/types/flexibility/enums.ts";
+import { IFlexibilityExercise } from "@/types/flexibility/flexibilityExercise.ts";
+import { PlainExercise } from "@/types/flexibility/plainExercise.ts";
+import { Variable } from "@/types/flexibility/variable.ts";
+import { Coefficient } from "@/types/math/coefficient.ts";
+import { NumberType, SolutionType } from "@/types/math/enums.ts";
+import { FlexibilityEquation } from "@/types/math/linearEquation.ts";
+import { math } from "@/types/math/math.ts";
+import { FlexibilityTerm } from "@/types/math/term.ts";
+import { GameError, GameErrorType } from "@/types/shared/error.ts";
+import { determineIsolations, solveExercise, validateFlexibilityExercise } from "@utils/solverUtils.ts";
+
+const FIRST_VARIABLE: string = "x";
+const SECOND_VARIABLE: string = "y";
+// Unknowns of systems with more than two equations, in the order of the equations they are added with
+const ADDITIONAL_VARIABLES: string[] = ["z", "w"];
+const MAX_SOLUTION: number = 9;
+const MAX_FACTOR: number = 5;
+const FRACTION_DENOMINATORS: number[] = [2, 3, 4];
+const MAX_ATTEMPTS: number = 100;
+
+export interface GeneratorOptions {
+    readonly structure: SystemStructure;
+    readonly allowFractions?: boolean;
+    readonly random?: () => number;
+}
+
+interface GeneratedSystem {
+    readonly firstEquation: FlexibilityEquation;
+    readonly secondEquation: FlexibilityEquation;
+    readonly firstIsolation: IsolatedIn;
+    readonly secondIsolation: IsolatedIn;
+    readonly firstValue: Fraction;
+    readonly secondValue: Fraction;
+    readonly additionalEquations: FlexibilityEquation[];
+    readonly additionalValues: Fraction[];
+}
+
+export function generatePlainExercise(id: number, options: GeneratorOptions): PlainExercise {
+    return toPlainExercise(id, generateSystem(options));
+}
+
+// Efficient methods are only defined for systems of two equations
+export function generateEfficiencyExercise(id: number, options: GeneratorOptions): EfficiencyExercise {
+    if (hasAdditionalEquations(options.structure)) {
+        throw new GameError(GameErrorType.EXERCISE_ERROR);
+    }
+    const system: GeneratedSystem = generateSystem(options);
+    return new EfficiencyExercise(
+        id,
+        false,
+        false,
+        system.firstEquation,
+        system.secondEquation,
+        system.firstIsolation,
+        system.secondIsolation,
+        toVariable(FIRST_VARIABLE, system.firstValue),
+        toVariable(SECOND_VARIABLE, system.secondValue),
+        deriveEfficientMethods(system.firstEquation, system.secondEquation, system.firstIsolation, system.secondIsolation),
+        [],
+        null
+    );
+}
+
+// Systems with more than two equations are reduced to two equations before a method is chosen, so they are only generated as plain exercises
+export function hasAdditionalEquations(structure: SystemStructure): boolean {
+    return getEquationCount(structure) > 2;
+}
+
+/**
+ * A method is considered efficient if it can be applied to the system without any transformation:
+ * equalization requires both equations to be solved for the same multiple of a variable, substitution requires at least one solved equation
+ * and elimination is the method of choice for systems in which no equation is solved for a variable.
+ */
+export function deriveEfficientMethods(firstEquation: FlexibilityEquation, secondEquation: FlexibilityEquation, firstIsolation: IsolatedIn, secondIsolation: IsolatedIn): Method[] {
+    if (firstIsolation === IsolatedIn.None && secondIsolation === IsolatedIn.None) {
+        return [Method.Elimination];
+    }
+    if (firstIsolation === secondIsolation && (math.equal(isolatedCoefficient(firstEquation), isolatedCoefficient(secondEquation)) as boolean)) {
+        return [Method.Equalization, Method.Substitution];
+    }
+    return [Method.Substitution];
+}
+
+export function deriveEfficientMethodsOfExercise(exercise: IFlexibilityExercise): Method[] {
+    return deriveEfficientMethods(exercise.firstEquation, exercise.secondEquation, exercise.firstEquationIsIsolatedIn, exercise.secondEquationIsIsolatedIn);
+}
+
+function generateSystem(options: GeneratorOptions): GeneratedSystem {
+    const random: () => number = options.random ?? Math.random;
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+        const values: Fraction[] = Array.from({ length: getEquationCount(options.structure) }, () => randomSolution(random, options.allowFractions ?? false));
+        const system: GeneratedSystem | undefined = buildSystem(options.structure, values, random);
+
+        if (system !== undefined && isConsistent(system, options.structure)) {
+            return system;
+        }
+    }
+
+    throw new GameError(GameErrorType.EXERCISE_ERROR);
+}
+
+function buildSystem(structure: SystemStructure, values: Fraction[], random: () => number): GeneratedSystem | undefined {
+    const [x, y] = values;
+    switch (structure) {
+        case SystemStructure.IsolatedInFirst: {
+            const [m1, m2] = distinctFactors(random);
+            return createSystem(isolatedEquation(1, FIRST_VARIABLE, m1, SECOND_VARIABLE, x, y), isolatedEquation(1, FIRST_VARIABLE, m2, SECOND_VARIABLE, x, y), x, y);
+        }
+        case SystemStructure.IsolatedInSecond: {
+            const [m1, m2] = distinctFactors(random);
+            return createSystem(isolatedEquation(1, SECOND_VARIABLE, m1, FIRST_VARIABLE, y, x), isolatedEquation(1, SECOND_VARIABLE, m2, FIRST_VARIABLE, y, x), x, y);
+        }
+        case SystemStructure.IsolatedInBoth: {
+            const m1: number = randomFactor(random);
+            const m2: number = randomFactor(random);
+            if (m1 * m2 === 1) {
+                return undefined;
+            }
+            return createSystem(isolatedEquation(1, FIRST_VARIABLE, m1, SECOND_VARIABLE, x, y), isolatedEquation(1, SECOND_VARIABLE, m2, FIRST_VARIABLE, y, x), x, y);
+        }
+        case SystemStructure.IsolatedInOne: {
+            const isolated: FlexibilityEquation = random() < 0.5 ? isolatedEquation(1, FIRST_VARIABLE, randomFactor(random), SECOND_VARIABLE, x, y) : isolatedEquation(1, SECOND_VARIABLE, randomFactor(random), FIRST_VARIABLE, y, x);
+            const standard: FlexibilityEquation = standardEquation(randomFactor(random, 2), randomFactor(random, 2), x, y);
+            return random() < 0.5 ? createSystem(isolated, standard, x, y) : createSystem(standard, isolated, x, y);
+        }
+        case SystemStructure.Multiples: {
+            const multiple: number = 2 + Math.floor(random() * (MAX_FACTOR - 1));
+            const [m1, m2] = distinctFactors(random);
+            if (random() < 0.5) {
+                return createSystem(isolatedEquation(multiple, FIRST_VARIABLE, m1, SECOND_VARIABLE, x, y), isolatedEquation(multiple, FIRST_VARIABLE, m2, SECOND_VARIABLE, x, y), x, y);
+            }
+            return createSystem(isolatedEquation(multiple, SECOND_VARIABLE, m1, FIRST_VARIABLE, y, x), isolatedEquation(multiple, SECOND_VARIABLE, m2, FIRST_VARIABLE, y, x), x, y);
+        }
+        case SystemStructure.EliminationReady: {
+            // One variable has equal or opposite coefficients in both equations, so it vanishes after a single addition or subtraction
+            const shared: number = randomFactor(random, 2);
+            const sign: number = random() < 0.5 ? 1 : -1;
+            const [a1, a2] = distinctFactors(random, 2);
+            if (Math.abs(a1) === Math.abs(a2)) {
+                return undefined;
+            }
+            if (random() < 0.5) {
+                return createSystem(standardEquation(a1, shared, x, y), standardEquation(a2, sign * shared, x, y), x, y);
+            }
+            return createSystem(standardEquation(shared, a1, x, y), standardEquation(sign * shared, a2, x, y), x, y);
+        }
+        case SystemStructure.ThreeEquations:
+        case SystemStructure.FourEquations: {
+            // Systems without a unique solution are sorted out by the consistency check
+            const variables: string[] = [FIRST_VARIABLE, SECOND_VARIABLE, ...ADDITIONAL_VARIABLES].slice(0, values.length);
+            const equations: FlexibilityEquation[] = values.map(() => spatialEquation(variables.map(() => randomFactor(random)), variables, values));
+            return createSystem(equations[0], equations[1], x, y, equations.slice(2), values.slice(2));
+        }
+        case SystemStructure.NoSolution: {
+            // Parallel lines, the values only satisfy the first equation, as the second one is shifted by a constant
+            const shift: Fraction = math.fraction(randomFactor(random));
+            const shiftedY: Fraction = math.add(y, shift) as Fraction;
+            if (random() < 0.5) {
+                const factor: number = randomFactor(random);
+                return createSystem(isolatedEquation(1, SECOND_VARIABLE, factor, FIRST_VARIABLE, y, x), isolatedEquation(1, SECOND_VARIABLE, factor, FIRST_VARIABLE, shiftedY, x), x, y);
+            }
+            const a: number = randomFactor(random);
+            const b: number = randomFactor(random);
+            const multiple: number = randomFactor(random);
+            return createSystem(standardEquation(a, b, x, y), standardEquation(multiple * a, multiple * b, x, shiftedY), x, y);
+        }
+        case SystemStructure.InfiniteSolutions: {
+            // Identical lines, the second equation is a multiple of the first and the values are one of the solutions
+            const multiple: number = randomFactor(random, 2);
+            if (random() < 0.5) {
+                const factor: number = randomFactor(random);
+                return createSystem(isolatedEquation(1, SECOND_VARIABLE, factor, FIRST_VARIABLE, y, x), isolatedEquation(multiple, SECOND_VARIABLE, multiple * factor, FIRST_VARIABLE, y, x), x, y);
+            }
+            const a: number = randomFactor(random);
+            const b: number = randomFactor(random);
+            return createSystem(standardEquation(a, b, x, y), standardEquation(multiple * a, multiple * b, x, y), x, y);
+        }
+    }
+}
+
+function getSolutionType(structure: SystemStructure): SolutionType {
+    switch (structure) {
+        case SystemStructure.NoSolution:
+            return SolutionType.None;
+        case SystemStructure.InfiniteSolutions:
+            return SolutionType.Infinite;
+        default:
+            return SolutionType.Unique;
+    }
+}
+
+function getEquationCount(structure: SystemStructure): number {
+    switch (structure) {
+        case SystemStructure.ThreeEquations:
+            return 3;
+        case SystemStructure.FourEquations:
+            return 4;
+        default:
+            return 2;
+    }
+}
+
+function createSystem(firstEquation: FlexibilityEquation, secondEquation: FlexibilityEquation, firstValue: Fraction, secondValue: Fraction,
+                      additionalEquations: FlexibilityEquation[] = [], additionalValues: Fraction[] = []): GeneratedSystem {
+    return {
+        firstEquation,
+        secondEquation,
+        firstIsolation: determineIsolations(firstEquation, FIRST_VARIABLE, SECOND_VARIABLE)[0],
+        secondIsolation: determineIsolations(secondEquation, FIRST_VARIABLE, SECOND_VARIABLE)[0],
+        firstValue,
+        secondValue,
+        additionalEquations,
+        additionalValues
+    };
+}
+
+// multiple * isolated = factor * other + constant
+function isolatedEquation(multiple: number, isolated: string, factor: number, other: string, isolatedValue: Fraction, otherValue: Fraction): FlexibilityEquation {
+    const constant: Fraction = math.subtract(math.multiply(multiple, isolatedValue), math.multiply(factor, otherValue)) as Fraction;
+    const rightTerms: FlexibilityTerm[] = [new FlexibilityTerm(math.fraction(factor), other)];
+    if (!math.isZero(constant)) {
+        rightTerms.push(new FlexibilityTerm(constant, null));
+    }
+    return new FlexibilityEquation([new FlexibilityTerm(math.fraction(multiple), isolated)], rightTerms);
+}
+
+// a * x + b * y = constant
+function standardEquation(a: number, b: number, x: Fraction, y: Fraction): FlexibilityEquation {
+    const constant: Fraction = math.add(math.multiply(a, x), math.multiply(b, y)) as Fraction;
+    return new FlexibilityEquation([new FlexibilityTerm(math.fraction(a), FIRST_VARIABLE), new FlexibilityTerm(math.fraction(b), SECOND_VARIABLE)], [new FlexibilityTerm(constant, null)]);
+}
+
+// a1 * x1 + ... + an * xn = constant
+function spatialEquation(coefficients: number[], variables: string[], values: Fraction[]): FlexibilityEquation {
+    const constant: Fraction = coefficients.reduce((sum: Fraction, coefficient: number, index: number) => math.add(sum, math.multiply(coefficient, values[index])) as Fraction, math.fraction(0));
+    return new FlexibilityEquation(
+        coefficients.map((coefficient: number, index: number) => new FlexibilityTerm(math.fraction(coefficient), variables[index])),
+        [new FlexibilityTerm(constant, null)]
+    );
+}
+
+// The system must have the kind of solution its structure asks for, apart from that the exercise must be valid
+function isConsistent(system: GeneratedSystem, structure: SystemStructure): boolean {
+    const exercise: PlainExercise = toPlainExercise(0, system);
+    return solveExercise(exercise).type === getSolutionType(structure) && validateFlexibilityExercise(exercise).length === 0;
+}
+
+function toPlainExercise(id: number, system: GeneratedSystem): PlainExercise {
+    return new PlainExercise(
+        id,
+        system.firstEquation,
+        system.secondEquation,
+        system.firstIsolation,
+        system.secondIsolation,
+        toVariable(FIRST_VARIABLE, system.firstValue),
+        toVariable(SECOND_VARIABLE, system.secondValue),
+        undefined,
+        undefined,
+        system.additionalEquations.length > 0 ? system.additionalEquations : undefined,
+        system.additionalEquations.length > 0 ? system.additionalValues.map((value: Fraction, index: number) => toVariable(ADDITIONAL_VARIABLES[index], value)) : undefined
+    );
+}
+
+function isolatedCoefficient(equation: FlexibilityEquation): Fraction {
+    return equation.leftTerms.length === 1 ? equation.leftTerms[0].coefficient : equation.rightTerms[0].coefficient;
+}
+
+function randomSolution(random: () => number, allowFractions: boolean): Fraction {
+    const numerator: number = Math.floor(random() * (2 * MAX_SOLUTION + 1)) - MAX_SOLUTION;
+    if (allowFractions && random() < 0.5) {
+        const denominator: number = FRACTION_DENOMINATORS[Math.floor(random() * FRACTION_DENOMINATORS.length)];
+        return math.fraction(numerator, denominator);
+    }
+    return math.fraction(numerator);
+}
+
+function randomFactor(random: () => number, minimum: number = 1): number {
+    const value: number = minimum + Math.floor(random() * (MAX_FACTOR - minimum + 1));
+    return random() < 0.5 ? -value : value;
+}
+
+function distinctFactors(random: () => number, minimum: number = 1): [number, number] {
+    const first: number = randomFactor(random, minimum);
+    let second: number = randomFactor(random, minimum);
+    while (second === first) {
+        second = randomFactor(random, minimum);
+    }
+    return [first, second];
+}
+
+function toVariable(name: string, value: Fraction): Variable {
+    if (value.d === 1) {
+        return new Variable(name, Coefficient.createNumberCoefficient(value.s * value.n));
+    }
+    return new Variable(name, new Coefficient(math.format(value, { fraction: "ratio" }), NumberType.Fraction));
+}
@@ -0,0 +1,26 @@
+import { GoalAdjustmentListener, GoalAdjustmentRequest } from "@/types/shared/goals.ts";
+
+const listeners: Set<GoalAdjustmentListener> = new Set<GoalAdjustmentListener>();
+
+/**
+ * Asks the navigation bar to open the goal overlay with the suggestions of the request.
+ * Without a navigation bar to adjust the goal in, the request is confirmed right away so that the exercise is not blocked.
+ */
+export function requestGoalAdjustment(request: GoalAdjustmentRequest): void {
+    if (listeners.size === 0) {
+        request.onConfirm?.();
+        return;
+    }
+    listeners.forEach((listener: GoalAdjustmentListener) => listener(request));
+}
+
+/**
+ * Registers a listener that is notified whenever an exercise requests a goal adjustment.
+ * Returns a function that removes the listener again, which can be used directly as the cleanup of an effect.
+ */
+export function subscribeToGoalAdjustments(listener: GoalAdjustmentListener): () => void {
+    listeners.add(listener);
+    return (): void => {
+        listeners.delete(listener);
+    };
+}
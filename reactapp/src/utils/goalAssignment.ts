@@ -0,0 +1,60 @@
+import { GoalAssignment, GoalSettingCondition, StudyGoalConfiguration } from "@/types/studies/goalAssignment.ts";
+import { IUser } from "@/types/studies/user.ts";
+import { getGoalDefinition } from "@utils/goalCatalog.ts";
+
+/**
+ * Goals handed out in goal-setting studies, keyed by the study id and type of the students taking part.
+ * They are configured per deployment as a JSON array in VITE_STUDY_GOAL_CONFIGURATIONS, see the README.
+ * Students of studies without a configuration set their own goals and are not assigned a goal setting condition.
+ */
+export const STUDY_GOAL_CONFIGURATIONS: StudyGoalConfiguration[] = parseStudyGoalConfigurations(import.meta.env.VITE_STUDY_GOAL_CONFIGURATIONS);
+
+export function getStudyGoalConfiguration(user?: IUser): StudyGoalConfiguration | undefined {
+    if (user === undefined) {
+        return undefined;
+    }
+    return STUDY_GOAL_CONFIGURATIONS.find((configuration: StudyGoalConfiguration): boolean => configuration.studyId === user.studyId && configuration.studyType === user.studyType);
+}
+
+export function getGoalSettingCondition(user?: IUser): GoalSettingCondition | undefined {
+    const configuration: StudyGoalConfiguration | undefined = getStudyGoalConfiguration(user);
+    if (user === undefined || configuration === undefined) {
+        return undefined;
+    }
+    const isAssigned: boolean = configuration.assignedGoals.length > 0 && drawFraction(user, 0) < (configuration.assignedShare ?? 1);
+    return isAssigned ? GoalSettingCondition.Assigned : GoalSettingCondition.SelfSet;
+}
+
+export function getAssignedGoal(user?: IUser): GoalAssignment | undefined {
+    const configuration: StudyGoalConfiguration | undefined = getStudyGoalConfiguration(user);
+    if (user === undefined || configuration === undefined || getGoalSettingCondition(user) !== GoalSettingCondition.Assigned) {
+        return undefined;
+    }
+    return configuration.assignedGoals[Math.floor(drawFraction(user, 1) * configuration.assignedGoals.length)];
+}
+
+// Goals missing from the catalog are left out, so that a typo in the configuration does not assign an unknown goal
+function parseStudyGoalConfigurations(jsonString?: string): StudyGoalConfiguration[] {
+    if (jsonString === undefined || jsonString.trim() === "") {
+        return [];
+    }
+    try {
+        const configurations: StudyGoalConfiguration[] = JSON.parse(jsonString) as StudyGoalConfiguration[];
+        return configurations.map((configuration: StudyGoalConfiguration) => ({
+            ...configuration,
+            assignedGoals: configuration.assignedGoals.filter((assignment: GoalAssignment): boolean => getGoalDefinition(assignment.goalId) !== undefined)
+        }));
+    } catch (error) {
+        console.error("Ignoring the goal configurations of the studies because they cannot be read.", error);
+        return [];
+    }
+}
+
+// Randomizes by the id of the user, so that students keep their condition and goal across devices and logins
+function drawFraction(user: IUser, draw: number): number {
+    let hash: number = 2166136261;
+    `${user.studyType}-${user.studyId}-${user.id}-${draw}`.split("").forEach((character: string): void => {
+        hash = Math.imul(hash ^ character.charCodeAt(0), 16777619);
+    });
+    return (hash >>> 0) / 4294967296;
+}
@@ -0,0 +1,42 @@
+import { ExerciseModule } from "@/types/shared/exerciseOutcome.ts";
+import { GoalConditionType, GoalDefinition } from "@/types/shared/goals.ts";
+
+const CK_MODULES: ExerciseModule[] = [ExerciseModule.Equalization, ExerciseModule.Substitution, ExerciseModule.Elimination];
+
+/**
+ * Goals students can choose from in the navigation bar, in the order they are offered.
+ * New goals only require an entry here and a translation of their id in the general namespace.
+ */
+export const GOAL_CATALOG: GoalDefinition[] = [
+    { id: "goal-1-correct", condition: GoalConditionType.CorrectInARow, threshold: 1 },
+    { id: "goal-3-correct", condition: GoalConditionType.CorrectInARow, threshold: 3 },
+    { id: "goal-5-correct", condition: GoalConditionType.CorrectInARow, threshold: 5 },
+    { id: "goal-recover", condition: GoalConditionType.RecoverAfterError, threshold: 1 },
+    // Flexibility exercises have no levels
+    { id: "goal-level-5-correct", condition: GoalConditionType.SolveAtLevel, threshold: 1, methodScope: CK_MODULES, levelScope: { min: 5 } },
+    { id: "goal-few-hints-elimination", condition: GoalConditionType.FewHints, threshold: 3, maxHints: 2, methodScope: [ExerciseModule.Elimination] },
+    { id: "goal-level-4-any", condition: GoalConditionType.SolveAtLevel, threshold: 1, methodScope: CK_MODULES, levelScope: { min: 4 } },
+    { id: "goal-complete-level-3", condition: GoalConditionType.CompleteLevel, threshold: 1, methodScope: CK_MODULES, levelScope: { min: 3, max: 3 } },
+    { id: "goal-practice-15-minutes", condition: GoalConditionType.PracticeTime, threshold: 15 },
+    { id: "goal-session-4-exercises", condition: GoalConditionType.SessionExercises, threshold: 4 }
+];
+
+// Methods a goal can be pursued with, in the order they are offered, undefined stands for any method
+export const GOAL_METHODS: (ExerciseModule | undefined)[] = [undefined, ExerciseModule.Equalization, ExerciseModule.Substitution, ExerciseModule.Elimination, ExerciseModule.Flexibility];
+
+export function getGoalDefinition(goalId: string): GoalDefinition | undefined {
+    return GOAL_CATALOG.find((goal: GoalDefinition): boolean => goal.id === goalId);
+}
+
+// Suggests the goal of the same condition with the next lower threshold, or the first goal of the catalog if there is none
+export function getEasierGoal(goalId?: string): GoalDefinition | undefined {
+    const goal: GoalDefinition | undefined = goalId !== undefined ? getGoalDefinition(goalId) : undefined;
+    if (goal === undefined) {
+        return GOAL_CATALOG[0];
+    }
+    const easierGoals: GoalDefinition[] = GOAL_CATALOG.filter((candidate: GoalDefinition): boolean => candidate.condition === goal.condition && candidate.threshold < goal.threshold);
+    if (easierGoals.length > 0) {
+        return easierGoals.reduce((easiest: GoalDefinition, candidate: GoalDefinition) => (candidate.threshold > easiest.threshold ? candidate : easiest));
+    }
+    return goal.id !== GOAL_CATALOG[0].id ? GOAL_CATALOG[0] : undefined;
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import { ExerciseModule, ExerciseOutcome, ExerciseOutcomeType } from "@/types/shared/exerciseOutcome.ts";
+import { GoalConditionType, GoalContext, GoalDefinition, GoalProgress } from "@/types/shared/goals.ts";
+import { advanceGoalProgress, advanceGoalTime, countsTowardGoal, createGoalProgress, getGoalModules, getGoalValue } from "@utils/goalEngine.ts";
+
+const MINUTE: number = 60000;
+
+function outcome(type: ExerciseOutcomeType, module: ExerciseModule = ExerciseModule.Equalization, exerciseId: number = 1): ExerciseOutcome {
+    return { type, module, exerciseId, timestamp: 0 };
+}
+
+// Advances the progress by the outcomes in the given order, starting without any progress
+function advance(goal: GoalDefinition, outcomes: ExerciseOutcome[], context: GoalContext = {}, selectedModule?: ExerciseModule): GoalProgress {
+    return outcomes.reduce((progress: GoalProgress, next: ExerciseOutcome) => advanceGoalProgress(goal, progress, next, context, selectedModule), createGoalProgress());
+}
+
+describe("getGoalModules", () => {
+    const goal: GoalDefinition = { id: "goal", condition: GoalConditionType.CorrectInARow, threshold: 1, methodScope: [ExerciseModule.Equalization, ExerciseModule.Elimination] };
+
+    it("returns the selected method if it lies within the method scope", () => {
+        expect(getGoalModules(goal, ExerciseModule.Elimination)).toEqual([ExerciseModule.Elimination]);
+    });
+
+    it("returns the whole method scope if the selected method lies outside of it", () => {
+        expect(getGoalModules(goal, ExerciseModule.Flexibility)).toEqual([ExerciseModule.Equalization, ExerciseModule.Elimination]);
+    });
+
+    it("returns all methods for goals without a method scope", () => {
+        expect(getGoalModules({ ...goal, methodScope: undefined })).toHaveLength(4);
+    });
+});
+
+describe("countsTowardGoal", () => {
+    const goal: GoalDefinition = { id: "goal", condition: GoalConditionType.SolveAtLevel, threshold: 1, levelScope: { min: 3, max: 4 } };
+
+    it("only counts exercises within the level scope", () => {
+        expect(countsTowardGoal(goal, ExerciseModule.Substitution, 3)).toBe(true);
+        expect(countsTowardGoal(goal, ExerciseModule.Substitution, 5)).toBe(false);
+        expect(countsTowardGoal(goal, ExerciseModule.Substitution, 2)).toBe(false);
+    });
+
+    it("does not count exercises without a level for goals with a level scope", () => {
+        expect(countsTowardGoal(goal, ExerciseModule.Flexibility)).toBe(false);
+        expect(countsTowardGoal({ ...goal, levelScope: undefined }, ExerciseModule.Flexibility)).toBe(true);
+    });
+});
+
+describe("advanceGoalProgress", () => {
+    it("counts solved exercises in a row and resets the streak on an error", () => {
+        const goal: GoalDefinition = { id: "goal", condition: GoalConditionType.CorrectInARow, threshold: 3 };
+        const progress: GoalProgress = advance(goal, [outcome(ExerciseOutcomeType.Solved), outcome(ExerciseOutcomeType.Solved), outcome(ExerciseOutcomeType.Error), outcome(ExerciseOutcomeType.Solved)]);
+
+        expect(progress.counts[ExerciseModule.Equalization]).toBe(1);
+        expect(progress.completed).toBe(false);
+    });
+
+    it("completes a goal as soon as one method reaches the threshold", () => {
+        const goal: GoalDefinition = { id: "goal", condition: GoalConditionType.CorrectInARow, threshold: 2 };
+        const progress: GoalProgress = advance(goal, [
+            outcome(ExerciseOutcomeType.Solved, ExerciseModule.Equalization),
+            outcome(ExerciseOutcomeType.Solved, ExerciseModule.Substitution),
+            outcome(ExerciseOutcomeType.Solved, ExerciseModule.Substitution)
+        ]);
+
+        expect(getGoalValue(goal, progress)).toBe(2);
+        expect(progress.completed).toBe(true);
+    });
+
+    it("keeps a completed goal completed", () => {
+        const goal: GoalDefinition = { id: "goal", condition: GoalConditionType.CorrectInARow, threshold: 1 };
+        const progress: GoalProgress = advance(goal, [outcome(ExerciseOutcomeType.Solved), outcome(ExerciseOutcomeType.Error)]);
+
+        expect(progress.completed).toBe(true);
+        expect(progress.counts[ExerciseModule.Equalization]).toBe(1);
+    });
+
+    it("ignores outcomes of methods the goal is not pursued with", () => {
+        const goal: GoalDefinition = { id: "goal", condition: GoalConditionType.CorrectInARow, threshold: 1 };
+        const progress: GoalProgress = advance(goal, [outcome(ExerciseOutcomeType.Solved, ExerciseModule.Flexibility)], {}, ExerciseModule.Equalization);
+
+        expect(progress).toEqual(createGoalProgress());
+    });
+
+    it("only counts recovered exercises in which an error was made", () => {
+        const goal: GoalDefinition = { id: "goal", condition: GoalConditionType.RecoverAfterError, threshold: 1 };
+
+        expect(advance(goal, [outcome(ExerciseOutcomeType.Started), outcome(ExerciseOutcomeType.Solved)]).completed).toBe(false);
+        expect(advance(goal, [outcome(ExerciseOutcomeType.Started), outcome(ExerciseOutcomeType.Error), outcome(ExerciseOutcomeType.Solved)]).completed).toBe(true);
+    });
+
+    it("resets the hints and errors whenever an exercise is started", () => {
+        const goal: GoalDefinition = { id: "goal", condition: GoalConditionType.FewHints, threshold: 1, maxHints: 2 };
+        const hints: ExerciseOutcome[] = [outcome(ExerciseOutcomeType.HintUsed), outcome(ExerciseOutcomeType.HintUsed)];
+
+        expect(advance(goal, [outcome(ExerciseOutcomeType.Started), ...hints, outcome(ExerciseOutcomeType.Solved)]).completed).toBe(false);
+        expect(advance(goal, [...hints, outcome(ExerciseOutcomeType.Started), outcome(ExerciseOutcomeType.HintUsed), outcome(ExerciseOutcomeType.Solved)]).completed).toBe(true);
+    });
+
+    it("only counts exercises solved at a level within the level scope", () => {
+        const goal: GoalDefinition = { id: "goal", condition: GoalConditionType.SolveAtLevel, threshold: 1, levelScope: { min: 4 } };
+
+        expect(advance(goal, [outcome(ExerciseOutcomeType.Solved)], { level: 3 }).completed).toBe(false);
+        expect(advance(goal, [outcome(ExerciseOutcomeType.Solved)], { level: 4 }).completed).toBe(true);
+    });
+
+    it("completes a level goal once every exercise of the level has been completed", () => {
+        const goal: GoalDefinition = { id: "goal", condition: GoalConditionType.CompleteLevel, threshold: 1, levelScope: { min: 3, max: 3 } };
+        const listLevels: Record<number, number> = { 1: 2, 2: 3, 3: 3 };
+
+        expect(advance(goal, [outcome(ExerciseOutcomeType.Solved, ExerciseModule.Equalization, 2)], { level: 3, listLevels, completedExercises: [] }).completed).toBe(false);
+        expect(advance(goal, [outcome(ExerciseOutcomeType.Solved, ExerciseModule.Equalization, 2)], { level: 3, listLevels, completedExercises: [3] }).completed).toBe(true);
+    });
+
+    it("starts the progress of a session goal over in a new session", () => {
+        const goal: GoalDefinition = { id: "goal", condition: GoalConditionType.SessionExercises, threshold: 2 };
+        const firstSession: GoalProgress = advance(goal, [outcome(ExerciseOutcomeType.Solved)], { sessionId: "first" });
+        const secondSession: GoalProgress = advanceGoalProgress(goal, firstSession, outcome(ExerciseOutcomeType.Solved), { sessionId: "second" });
+
+        expect(secondSession.counts[ExerciseModule.Equalization]).toBe(1);
+        expect(secondSession.sessionId).toBe("second");
+        expect(secondSession.completed).toBe(false);
+    });
+});
+
+describe("advanceGoalTime", () => {
+    const goal: GoalDefinition = { id: "goal", condition: GoalConditionType.PracticeTime, threshold: 15 };
+
+    it("counts the minutes practised for every method of the goal", () => {
+        const progress: GoalProgress = advanceGoalTime(goal, createGoalProgress(), 14.5 * MINUTE, ExerciseModule.Elimination);
+
+        expect(progress.counts).toEqual({ [ExerciseModule.Elimination]: 14 });
+        expect(progress.completed).toBe(false);
+        expect(advanceGoalTime(goal, progress, 15 * MINUTE, ExerciseModule.Elimination).completed).toBe(true);
+    });
+
+    it("leaves the progress of other goals unchanged", () => {
+        const progress: GoalProgress = createGoalProgress();
+
+        expect(advanceGoalTime({ ...goal, condition: GoalConditionType.CorrectInARow }, progress, 20 * MINUTE)).toBe(progress);
+    });
+});
@@ -0,0 +1,121 @@
+import { ExerciseModule, ExerciseOutcome, ExerciseOutcomeType } from "@/types/shared/exerciseOutcome.ts";
+import { ExerciseTally, GoalConditionType, GoalContext, GoalDefinition, GoalEvaluator, GoalProgress, LevelScope } from "@/types/shared/goals.ts";
+
+const ALL_MODULES: ExerciseModule[] = [ExerciseModule.Equalization, ExerciseModule.Substitution, ExerciseModule.Elimination, ExerciseModule.Flexibility];
+const DEFAULT_MAX_HINTS: number = 1;
+const MINUTE: number = 60000; // Milliseconds
+
+// Every condition type is evaluated by its own evaluator, new condition types only require a new entry here
+const GOAL_EVALUATORS: Record<GoalConditionType, GoalEvaluator> = {
+    [GoalConditionType.CorrectInARow]: (goal: GoalDefinition, count: number, exercise: ExerciseTally, outcome: ExerciseOutcome): number => {
+        if (outcome.type === ExerciseOutcomeType.Error) {
+            return 0;
+        }
+        return outcome.type === ExerciseOutcomeType.Solved ? count + 1 : count;
+    },
+    [GoalConditionType.RecoverAfterError]: (goal: GoalDefinition, count: number, exercise: ExerciseTally, outcome: ExerciseOutcome): number => {
+        return outcome.type === ExerciseOutcomeType.Solved && exercise.errors > 0 ? count + 1 : count;
+    },
+    [GoalConditionType.SolveAtLevel]: (goal: GoalDefinition, count: number, exercise: ExerciseTally, outcome: ExerciseOutcome, context: GoalContext): number => {
+        return outcome.type === ExerciseOutcomeType.Solved && isWithinLevelScope(goal.levelScope, context.level) ? count + 1 : count;
+    },
+    [GoalConditionType.FewHints]: (goal: GoalDefinition, count: number, exercise: ExerciseTally, outcome: ExerciseOutcome): number => {
+        return outcome.type === ExerciseOutcomeType.Solved && exercise.hints < (goal.maxHints ?? DEFAULT_MAX_HINTS) ? count + 1 : count;
+    },
+    // Counts the lists that were completed, the solved exercise itself may not have been stored as completed yet
+    [GoalConditionType.CompleteLevel]: (goal: GoalDefinition, count: number, exercise: ExerciseTally, outcome: ExerciseOutcome, context: GoalContext): number => {
+        if (outcome.type !== ExerciseOutcomeType.Solved || !isWithinLevelScope(goal.levelScope, context.level)) {
+            return count;
+        }
+        const completedExercises: (number | string)[] = [...(context.completedExercises ?? []), outcome.exerciseId];
+        const isLevelCompleted: boolean = Object.entries(context.listLevels ?? {}).every(
+            ([exerciseId, level]: [string, number]): boolean => !isWithinLevelScope(goal.levelScope, level) || completedExercises.includes(parseInt(exerciseId, 10))
+        );
+        return isLevelCompleted ? count + 1 : count;
+    },
+    [GoalConditionType.PracticeTime]: (goal: GoalDefinition, count: number, exercise: ExerciseTally, outcome: ExerciseOutcome, context: GoalContext): number => {
+        return Math.floor((context.practiceTime ?? 0) / MINUTE);
+    },
+    [GoalConditionType.SessionExercises]: (goal: GoalDefinition, count: number, exercise: ExerciseTally, outcome: ExerciseOutcome): number => {
+        return outcome.type === ExerciseOutcomeType.Solved ? count + 1 : count;
+    }
+};
+
+export function createGoalProgress(): GoalProgress {
+    return { counts: {}, currentExercise: { hints: 0, errors: 0 }, completed: false };
+}
+
+// Methods a goal is pursued with: the selected method if it lies within the method scope of the goal, otherwise the whole scope
+export function getGoalModules(goal: GoalDefinition, selectedModule?: ExerciseModule): ExerciseModule[] {
+    const scope: ExerciseModule[] = goal.methodScope ?? ALL_MODULES;
+    return selectedModule !== undefined && scope.includes(selectedModule) ? [selectedModule] : scope;
+}
+
+// Whether solving an exercise of the given method and level can advance the goal, exercises without a level only count for goals without a level scope
+export function countsTowardGoal(goal: GoalDefinition, module: ExerciseModule, level?: number, selectedModule?: ExerciseModule): boolean {
+    return getGoalModules(goal, selectedModule).includes(module) && isWithinLevelScope(goal.levelScope, level);
+}
+
+export function getGoalValue(goal: GoalDefinition, progress: GoalProgress, selectedModule?: ExerciseModule): number {
+    return Math.max(0, ...getGoalModules(goal, selectedModule).map((module: ExerciseModule) => progress.counts[module] ?? 0));
+}
+
+/**
+ * Advances the progress of a goal by an outcome emitted by a game or exercise.
+ * Outcomes of methods the goal is not pursued with are ignored and completed goals stay completed until their progress is reset.
+ */
+export function advanceGoalProgress(goal: GoalDefinition, progress: GoalProgress, outcome: ExerciseOutcome, context: GoalContext = {}, selectedModule?: ExerciseModule): GoalProgress {
+    if (progress.completed || !getGoalModules(goal, selectedModule).includes(outcome.module)) {
+        return progress;
+    }
+
+    const currentProgress: GoalProgress = isProgressOfOtherSession(goal, progress, context.sessionId) ? createGoalProgress() : progress;
+    const count: number = GOAL_EVALUATORS[goal.condition](goal, currentProgress.counts[outcome.module] ?? 0, currentProgress.currentExercise, outcome, context);
+    const nextProgress: GoalProgress = {
+        counts: { ...currentProgress.counts, [outcome.module]: count },
+        currentExercise: tallyOutcome(currentProgress.currentExercise, outcome),
+        completed: false,
+        sessionId: context.sessionId
+    };
+    return { ...nextProgress, completed: getGoalValue(goal, nextProgress, selectedModule) >= goal.threshold };
+}
+
+// Time goals also advance while no exercise is worked on, so their progress is updated by the session clock as well
+export function advanceGoalTime(goal: GoalDefinition, progress: GoalProgress, practiceTime: number, selectedModule?: ExerciseModule): GoalProgress {
+    const minutes: number = Math.floor(practiceTime / MINUTE);
+    const modules: ExerciseModule[] = getGoalModules(goal, selectedModule);
+    if (goal.condition !== GoalConditionType.PracticeTime || progress.completed || modules.every((module: ExerciseModule): boolean => progress.counts[module] === minutes)) {
+        return progress;
+    }
+
+    const counts: Partial<Record<ExerciseModule, number>> = { ...progress.counts };
+    modules.forEach((module: ExerciseModule): void => {
+        counts[module] = minutes;
+    });
+    return { ...progress, counts, completed: minutes >= goal.threshold };
+}
+
+// Whether the progress of a session goal was counted in an earlier session and has to start over
+export function isProgressOfOtherSession(goal: GoalDefinition, progress: GoalProgress, sessionId?: string): boolean {
+    return goal.condition === GoalConditionType.SessionExercises && progress.sessionId !== sessionId;
+}
+
+function tallyOutcome(exercise: ExerciseTally, outcome: ExerciseOutcome): ExerciseTally {
+    switch (outcome.type) {
+        case ExerciseOutcomeType.Started:
+            return { hints: 0, errors: 0 };
+        case ExerciseOutcomeType.HintUsed:
+            return { ...exercise, hints: exercise.hints + 1 };
+        case ExerciseOutcomeType.Error:
+            return { ...exercise, errors: exercise.errors + 1 };
+        default:
+            return exercise;
+    }
+}
+
+function isWithinLevelScope(scope: LevelScope | undefined, level: number | undefined): boolean {
+    if (scope === undefined) {
+        return true;
+    }
+    return level !== undefined && level >= scope.min && (scope.max === undefined || level <= scope.max);
+}
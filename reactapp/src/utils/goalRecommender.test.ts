@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ExerciseModule } from "@/types/shared/exerciseOutcome.ts";
+import { GeneralTranslations } from "@/types/shared/generalTranslations.ts";
+import { GoalStore } from "@/types/shared/goals.ts";
+import { ExercisePerformance } from "@/types/shared/learnerModel.ts";
+import { ExerciseListType, LevelProgress, ModuleProgress } from "@/types/shared/progress.ts";
+import { GOAL_CATALOG } from "@utils/goalCatalog.ts";
+import { recommendGoal } from "@utils/goalRecommender.ts";
+import { getExerciseHistory } from "@utils/learnerModel.ts";
+import { getModuleProgress } from "@utils/progressService.ts";
+
+vi.mock("@utils/progressService.ts", () => ({ getModuleProgress: vi.fn() }));
+vi.mock("@utils/learnerModel.ts", async (importOriginal) => ({ ...(await importOriginal<object>()), getExerciseHistory: vi.fn() }));
+
+const LIST_TYPES: Record<ExerciseModule, ExerciseListType> = {
+    [ExerciseModule.Equalization]: ExerciseListType.Equalization,
+    [ExerciseModule.Substitution]: ExerciseListType.Substitution,
+    [ExerciseModule.Elimination]: ExerciseListType.Elimination,
+    [ExerciseModule.Flexibility]: ExerciseListType.Flexibility
+};
+
+function createStore(streaks: Partial<Record<ExerciseModule, number>> = {}): GoalStore {
+    return { version: 1, streaks, completions: 0, questionsEncountered: 0, pastGoals: [] };
+}
+
+// Progress of a module with a single exercise list, modules without levels are left empty
+function moduleProgress(module: ExerciseModule, levels: LevelProgress[] = []): ModuleProgress {
+    const completed: number = levels.reduce((sum: number, level: LevelProgress) => sum + level.completed, 0);
+    const total: number = levels.reduce((sum: number, level: LevelProgress) => sum + level.total, 0);
+    return {
+        module,
+        completed,
+        total,
+        percent: total > 0 ? Math.round((completed / total) * 100) : 0,
+        lists: [{ listType: LIST_TYPES[module], completed, total, tutorialCompleted: false, levels }]
+    };
+}
+
+function setProgress(progress: Partial<Record<ExerciseModule, LevelProgress[]>>): void {
+    vi.mocked(getModuleProgress).mockReturnValue(Object.values(ExerciseModule).map((module: ExerciseModule) => moduleProgress(module, progress[module])));
+}
+
+function setHistory(history: Record<string, ExercisePerformance[]>): void {
+    vi.mocked(getExerciseHistory).mockImplementation((modelKey: string) => history[modelKey] ?? []);
+}
+
+function performance(errors: number, timestamp: number): ExercisePerformance {
+    return { exerciseId: timestamp, phases: [{ phase: 0, time: 30, hints: 0, errors }], timestamp };
+}
+
+describe("recommendGoal", () => {
+    beforeEach(() => {
+        setProgress({});
+        setHistory({});
+    });
+
+    it("asks struggling students to recover after a mistake in the method with the most errors", () => {
+        setHistory({ equalization: [performance(1, 1), performance(1, 2)], elimination: [performance(2, 3), performance(1, 4)] });
+
+        expect(recommendGoal(createStore({ [ExerciseModule.Equalization]: 2 }))).toEqual({
+            goalId: "goal-recover",
+            method: ExerciseModule.Elimination,
+            reason: GeneralTranslations.RECOMMEND_RECOVER,
+            values: { errors: 1.5 }
+        });
+    });
+
+    it("extends the longest running streak", () => {
+        expect(recommendGoal(createStore({ [ExerciseModule.Equalization]: 1, [ExerciseModule.Substitution]: 3 }))).toEqual({
+            goalId: "goal-5-correct",
+            method: ExerciseModule.Substitution,
+            reason: GeneralTranslations.RECOMMEND_STREAK,
+            values: { count: 3, threshold: 5 }
+        });
+    });
+
+    it("suggests the level goal closest to the next level, raised to the lowest level of the goal", () => {
+        setProgress({
+            [ExerciseModule.Elimination]: [
+                { level: 1, completed: 2, total: 2 },
+                { level: 2, completed: 1, total: 2 },
+                { level: 3, completed: 0, total: 2 },
+                { level: 4, completed: 0, total: 2 },
+                { level: 5, completed: 0, total: 2 }
+            ]
+        });
+
+        expect(recommendGoal(createStore())).toEqual({
+            goalId: "goal-complete-level-3",
+            method: ExerciseModule.Elimination,
+            reason: GeneralTranslations.RECOMMEND_NEXT_LEVEL,
+            values: { percent: 30, level: 3 }
+        });
+    });
+
+    it("skips level goals whose level scope lies below the next level", () => {
+        setProgress({
+            [ExerciseModule.Equalization]: [
+                { level: 3, completed: 2, total: 2 },
+                { level: 4, completed: 0, total: 2 }
+            ]
+        });
+
+        expect(recommendGoal(createStore())).toMatchObject({ goalId: "goal-level-4-any", method: ExerciseModule.Equalization, values: { percent: 50, level: 4 } });
+    });
+
+    it("suggests a first exercise of the method with the fewest completed exercises to students who have not started", () => {
+        setProgress({ [ExerciseModule.Equalization]: [{ level: 1, completed: 2, total: 2 }] });
+
+        expect(recommendGoal(createStore())).toEqual({ goalId: GOAL_CATALOG[0].id, method: ExerciseModule.Substitution, reason: GeneralTranslations.RECOMMEND_START, values: {} });
+    });
+});
@@ -0,0 +1,132 @@
+import { ExerciseModule } from "@/types/shared/exerciseOutcome.ts";
+import { GeneralTranslations } from "@/types/shared/generalTranslations.ts";
+import { GoalConditionType, GoalDefinition, GoalRecommendation, GoalStore } from "@/types/shared/goals.ts";
+import { ExercisePerformance, PhasePerformance } from "@/types/shared/learnerModel.ts";
+import { ExerciseListProgress, LevelProgress, ModuleProgress } from "@/types/shared/progress.ts";
+import { CKExerciseType } from "@/types/studies/enums.ts";
+import { getCKExerciseModule } from "@utils/exerciseLevels.ts";
+import { GOAL_CATALOG } from "@utils/goalCatalog.ts";
+import { countsTowardGoal } from "@utils/goalEngine.ts";
+import { FLEXIBILITY_LEARNER_MODEL_KEY, getCKLearnerModelKey, getExerciseHistory } from "@utils/learnerModel.ts";
+import { getModuleProgress } from "@utils/progressService.ts";
+
+const RECENT_EXERCISES: number = 5;
+const STRUGGLING_ERROR_RATE: number = 1.5; // Errors per exercise
+
+interface LevelGoal {
+    readonly goal: GoalDefinition;
+    // Level the student is asked to try, which lies within the level scope of the goal
+    readonly level: number;
+}
+
+interface MethodPerformance {
+    readonly module: ExerciseModule;
+    readonly streak: number;
+    readonly completed: number;
+    // Number of exercises of the module, undefined as long as the exercises have not been loaded
+    readonly total?: number;
+    // Level of the easiest exercise that has not been completed yet
+    readonly nextLevel?: number;
+    // Average errors of the recent exercises, undefined if no exercise was recorded
+    readonly errorRate?: number;
+}
+
+/**
+ * Recommends a goal the student can reach next, based on the completed exercises, the streaks and the recent errors per method.
+ * Struggling students are asked to recover after a mistake, running streaks are extended, otherwise the next level or a first exercise is suggested.
+ */
+export function recommendGoal(store: GoalStore): GoalRecommendation {
+    const performances: MethodPerformance[] = getModuleProgress().map((progress: ModuleProgress) => getMethodPerformance(progress, store.streaks[progress.module] ?? 0));
+
+    const struggling: MethodPerformance | undefined = findBest(
+        performances.filter((performance: MethodPerformance): boolean => (performance.errorRate ?? 0) >= STRUGGLING_ERROR_RATE),
+        (performance: MethodPerformance) => performance.errorRate ?? 0
+    );
+    if (struggling !== undefined) {
+        return { goalId: "goal-recover", method: struggling.module, reason: GeneralTranslations.RECOMMEND_RECOVER, values: { errors: Math.round((struggling.errorRate ?? 0) * 10) / 10 } };
+    }
+
+    const streak: MethodPerformance | undefined = findBest(
+        performances.filter((performance: MethodPerformance): boolean => performance.streak > 0 && getNextStreakGoal(performance.streak) !== undefined),
+        (performance: MethodPerformance) => performance.streak
+    );
+    const streakGoal: GoalDefinition | undefined = streak !== undefined ? getNextStreakGoal(streak.streak) : undefined;
+    if (streak !== undefined && streakGoal !== undefined) {
+        return { goalId: streakGoal.id, method: streak.module, reason: GeneralTranslations.RECOMMEND_STREAK, values: { count: streak.streak, threshold: streakGoal.threshold } };
+    }
+
+    const started: MethodPerformance | undefined = findBest(
+        performances.filter((performance: MethodPerformance): boolean => performance.completed > 0 && findLevelGoal(performance) !== undefined),
+        (performance: MethodPerformance) => performance.completed / (performance.total ?? 1)
+    );
+    const levelGoal: LevelGoal | undefined = started !== undefined ? findLevelGoal(started) : undefined;
+    if (started !== undefined && levelGoal !== undefined) {
+        return {
+            goalId: levelGoal.goal.id,
+            method: started.module,
+            reason: GeneralTranslations.RECOMMEND_NEXT_LEVEL,
+            values: { percent: Math.round((started.completed / (started.total ?? started.completed)) * 100), level: levelGoal.level }
+        };
+    }
+
+    // Students who have not started yet begin with a single exercise of the method they have completed the fewest exercises of
+    const least: MethodPerformance = performances.reduce((fewest: MethodPerformance, performance: MethodPerformance) => (performance.completed < fewest.completed ? performance : fewest));
+    return { goalId: GOAL_CATALOG[0].id, method: least.module, reason: GeneralTranslations.RECOMMEND_START, values: {} };
+}
+
+function getMethodPerformance(progress: ModuleProgress, streak: number): MethodPerformance {
+    const openLevels: number[] = progress.lists.flatMap((list: ExerciseListProgress) => list.levels.filter((level: LevelProgress): boolean => level.completed < level.total).map((level: LevelProgress) => level.level));
+    const modelKeys: string[] =
+        progress.module === ExerciseModule.Flexibility
+            ? [FLEXIBILITY_LEARNER_MODEL_KEY]
+            : [CKExerciseType.Equalization, CKExerciseType.Bartering, CKExerciseType.Substitution, CKExerciseType.Elimination]
+                  .filter((exerciseType: CKExerciseType): boolean => getCKExerciseModule(exerciseType) === progress.module)
+                  .map((exerciseType: CKExerciseType) => getCKLearnerModelKey(exerciseType));
+    const history: ExercisePerformance[] = modelKeys
+        .flatMap((modelKey: string) => getExerciseHistory(modelKey))
+        .sort((first: ExercisePerformance, second: ExercisePerformance) => first.timestamp - second.timestamp);
+
+    return {
+        module: progress.module,
+        streak,
+        completed: progress.completed,
+        total: progress.total > 0 ? progress.total : undefined,
+        nextLevel: openLevels.length > 0 ? Math.min(...openLevels) : undefined,
+        errorRate: getErrorRate(history)
+    };
+}
+
+function getErrorRate(history: ExercisePerformance[]): number | undefined {
+    const recent: ExercisePerformance[] = history.slice(-RECENT_EXERCISES);
+    if (recent.length === 0) {
+        return undefined;
+    }
+    const errors: number = recent.reduce(
+        (sum: number, performance: ExercisePerformance) => sum + performance.phases.reduce((phaseSum: number, phase: PhasePerformance) => phaseSum + phase.errors, 0),
+        0
+    );
+    return errors / recent.length;
+}
+
+// The level goal of the method closest to its next level, a goal starting above that level asks for the lowest level of the goal instead
+function findLevelGoal(performance: MethodPerformance): LevelGoal | undefined {
+    const { module, nextLevel } = performance;
+    if (nextLevel === undefined) {
+        return undefined;
+    }
+    return GOAL_CATALOG.filter((goal: GoalDefinition): boolean => goal.levelScope !== undefined)
+        .map((goal: GoalDefinition): LevelGoal => ({ goal, level: Math.max(nextLevel, goal.levelScope?.min ?? nextLevel) }))
+        .filter((levelGoal: LevelGoal): boolean => countsTowardGoal(levelGoal.goal, module, levelGoal.level))
+        .sort((first: LevelGoal, second: LevelGoal) => first.level - second.level)[0];
+}
+
+// The streak goal with the lowest threshold above the current streak
+function getNextStreakGoal(streak: number): GoalDefinition | undefined {
+    return GOAL_CATALOG.filter((goal: GoalDefinition): boolean => goal.condition === GoalConditionType.CorrectInARow && goal.threshold > streak).sort(
+        (first: GoalDefinition, second: GoalDefinition) => first.threshold - second.threshold
+    )[0];
+}
+
+function findBest(performances: MethodPerformance[], getScore: (performance: MethodPerformance) => number): MethodPerformance | undefined {
+    return performances.reduce<MethodPerformance | undefined>((best: MethodPerformance | undefined, performance: MethodPerformance) => (best === undefined || getScore(performance) > getScore(best) ? performance : best), undefined);
+}
@@ -0,0 +1,274 @@
+import { ExerciseModule, ExerciseOutcome, ExerciseOutcomeType } from "@/types/shared/exerciseOutcome.ts";
+import { ActiveGoal, GoalContext, GoalDefinition, GoalProgress, GoalRecord, GoalReflection, GoalStore, GoalStoreListener } from "@/types/shared/goals.ts";
+import { SessionState } from "@/types/shared/session.ts";
+import { CKExerciseType } from "@/types/studies/enums.ts";
+import { GoalAssignment } from "@/types/studies/goalAssignment.ts";
+import { getExerciseLevels } from "@utils/exerciseLevels.ts";
+import { GOAL_CATALOG, GOAL_METHODS, getGoalDefinition } from "@utils/goalCatalog.ts";
+import { advanceGoalProgress, advanceGoalTime, createGoalProgress } from "@utils/goalEngine.ts";
+import { loadExerciseCatalog } from "@utils/progressService.ts";
+import { getSessionState } from "@utils/sessionClock.ts";
+import { getCompletedCKExercises } from "@utils/storageUtils.ts";
+
+const GOAL_STORE_STORAGE_KEY: string = "goal-progress";
+const GOAL_STORE_VERSION: number = 1;
+
+// Cookies the goal state was kept in before the goal store existed
+const LEGACY_STREAK_COOKIES: Record<ExerciseModule, string> = {
+    [ExerciseModule.Equalization]: "EqualizationStreak",
+    [ExerciseModule.Substitution]: "SubstitutionStreak",
+    [ExerciseModule.Elimination]: "EliminationStreak",
+    [ExerciseModule.Flexibility]: "FlexibilityStreak"
+};
+const LEGACY_COOKIES: string[] = ["GlobalTask", "GlobalStrat", "TaskSuccess", "Task5Completed", "IncorrectFlag", "questionsEncountered", "GoalProgress", ...Object.values(LEGACY_STREAK_COOKIES)];
+
+const listeners: Set<GoalStoreListener> = new Set<GoalStoreListener>();
+
+export function getGoalStore(): GoalStore {
+    const jsonString: string | null = localStorage.getItem(GOAL_STORE_STORAGE_KEY);
+    if (jsonString === null) {
+        // The cookies are only migrated once, afterwards the store is the only source of the goal state
+        const store: GoalStore = migrateLegacyCookies();
+        saveGoalStore(store);
+        return store;
+    }
+    try {
+        return upgradeGoalStore(JSON.parse(jsonString));
+    } catch (error) {
+        // The goal store is read on every page, so a store that cannot be read is replaced instead of breaking the app
+        console.error("Discarding the goal store because it cannot be read.", error);
+        const store: GoalStore = createGoalStore();
+        saveGoalStore(store);
+        return store;
+    }
+}
+
+// Replaces the active goal, which is kept in the past goals
+export function setActiveGoal(goalId?: string, method?: ExerciseModule): GoalStore {
+    const store: GoalStore = getGoalStore();
+    const activeGoal: ActiveGoal | undefined = goalId !== undefined ? { goalId, method, initialMethod: method, startTime: Date.now(), attempts: 0, progress: createGoalProgress() } : undefined;
+    return updateGoalStore({ ...store, activeGoal, pastGoals: archiveActiveGoal(store) });
+}
+
+export function restartActiveGoal(): GoalStore {
+    const { activeGoal } = getGoalStore();
+    const store: GoalStore = setActiveGoal(activeGoal?.goalId, activeGoal?.method);
+    return activeGoal?.assigned && store.activeGoal !== undefined ? updateGoalStore({ ...store, activeGoal: { ...store.activeGoal, assigned: true } }) : store;
+}
+
+/**
+ * Makes the goal assigned by a study the active goal, unless it already is.
+ * Without an assignment, a previously assigned goal is handed back to the student, who can change it again.
+ */
+export function applyGoalAssignment(assignment?: GoalAssignment): GoalStore {
+    const store: GoalStore = getGoalStore();
+    const { activeGoal } = store;
+    if (assignment === undefined) {
+        return activeGoal?.assigned ? updateGoalStore({ ...store, activeGoal: { ...activeGoal, assigned: false } }) : store;
+    }
+    if (activeGoal?.assigned && activeGoal.goalId === assignment.goalId && activeGoal.method === assignment.method) {
+        return store;
+    }
+
+    const assignedStore: GoalStore = setActiveGoal(assignment.goalId, assignment.method);
+    return assignedStore.activeGoal !== undefined ? updateGoalStore({ ...assignedStore, activeGoal: { ...assignedStore.activeGoal, assigned: true } }) : assignedStore;
+}
+
+// Switches the method of the active goal, whose progress starts over as it is counted per method
+export function changeGoalMethod(method?: ExerciseModule): GoalStore {
+    const store: GoalStore = getGoalStore();
+    if (store.activeGoal === undefined) {
+        return store;
+    }
+    if (store.activeGoal.progress.completed) {
+        // A completed goal has already been archived, so pursuing it with another method counts as a new goal
+        return setActiveGoal(store.activeGoal.goalId, method);
+    }
+    return updateGoalStore({ ...store, activeGoal: { ...store.activeGoal, method, progress: createGoalProgress() } });
+}
+
+export function saveGoalReflection(reflection: GoalReflection): GoalStore {
+    const store: GoalStore = getGoalStore();
+    if (store.activeGoal === undefined) {
+        return store;
+    }
+    const activeGoal: ActiveGoal = { ...store.activeGoal, reflection };
+    // The reflection on a completed goal is added to its archived record as well
+    const pastGoals: GoalRecord[] = store.pastGoals.map((record: GoalRecord): GoalRecord => isRecordOf(record, activeGoal) ? { ...record, reflection } : record);
+    return updateGoalStore({ ...store, activeGoal, pastGoals });
+}
+
+/**
+ * Returns every goal that was set, the oldest first.
+ * The active goal is included with the current time as its end, unless it is completed and therefore already archived.
+ */
+export function getGoalHistory(store: GoalStore): GoalRecord[] {
+    const { activeGoal } = store;
+    return activeGoal !== undefined && !activeGoal.progress.completed ? [...store.pastGoals, toGoalRecord(activeGoal)] : store.pastGoals;
+}
+
+export function recordGoalOutcome(outcome: ExerciseOutcome): GoalStore {
+    if (outcome.type === ExerciseOutcomeType.Started) {
+        // Level goals are evaluated by the levels of the exercise lists, which are loaded by the time the exercise is solved
+        loadExerciseCatalog().catch((error: unknown): void => console.error(error));
+    }
+
+    const store: GoalStore = getGoalStore();
+    const streak: number = store.streaks[outcome.module] ?? 0;
+    const streaks = { ...store.streaks, [outcome.module]: outcome.type === ExerciseOutcomeType.Error ? 0 : outcome.type === ExerciseOutcomeType.Solved ? streak + 1 : streak };
+
+    const goal: GoalDefinition | undefined = store.activeGoal !== undefined ? getGoalDefinition(store.activeGoal.goalId) : undefined;
+    if (store.activeGoal === undefined || goal === undefined) {
+        return updateGoalStore({ ...store, streaks });
+    }
+
+    const progress: GoalProgress = advanceGoalProgress(goal, store.activeGoal.progress, outcome, getGoalContext(outcome), store.activeGoal.method);
+    const attempts: number = store.activeGoal.attempts + (outcome.type === ExerciseOutcomeType.Started ? 1 : 0);
+    return updateGoalStore(completeGoal({ ...store, streaks, activeGoal: { ...store.activeGoal, attempts, progress } }, store.activeGoal));
+}
+
+// Advances a time goal by the practice time of the session, the store is only updated once another minute has passed
+export function recordPracticeTime(session: SessionState): GoalStore {
+    const store: GoalStore = getGoalStore();
+    const goal: GoalDefinition | undefined = store.activeGoal !== undefined ? getGoalDefinition(store.activeGoal.goalId) : undefined;
+    if (store.activeGoal === undefined || goal === undefined) {
+        return store;
+    }
+
+    const progress: GoalProgress = advanceGoalTime(goal, store.activeGoal.progress, session.dayActiveTime, store.activeGoal.method);
+    if (progress === store.activeGoal.progress) {
+        return store;
+    }
+    return updateGoalStore(completeGoal({ ...store, activeGoal: { ...store.activeGoal, progress } }, store.activeGoal));
+}
+
+export function recordQuestionEncountered(): GoalStore {
+    const store: GoalStore = getGoalStore();
+    return updateGoalStore({ ...store, questionsEncountered: store.questionsEncountered + 1 });
+}
+
+/**
+ * Registers a listener that is notified whenever the goal store changes.
+ * Returns a function that removes the listener again, which can be used directly as the cleanup of an effect.
+ */
+export function subscribeToGoalStore(listener: GoalStoreListener): () => void {
+    listeners.add(listener);
+    return (): void => {
+        listeners.delete(listener);
+    };
+}
+
+function updateGoalStore(store: GoalStore): GoalStore {
+    saveGoalStore(store);
+    listeners.forEach((listener: GoalStoreListener) => listener(store));
+    return store;
+}
+
+function saveGoalStore(store: GoalStore): void {
+    localStorage.setItem(GOAL_STORE_STORAGE_KEY, JSON.stringify(store));
+}
+
+function createGoalStore(): GoalStore {
+    return { version: GOAL_STORE_VERSION, streaks: {}, completions: 0, questionsEncountered: 0, pastGoals: [] };
+}
+
+// Stores of older versions are completed with the defaults of the fields they are missing
+function upgradeGoalStore(store: Partial<GoalStore>): GoalStore {
+    if (store.version === GOAL_STORE_VERSION) {
+        return store as GoalStore;
+    }
+    return { ...createGoalStore(), ...store, version: GOAL_STORE_VERSION };
+}
+
+// Levels are taken from the exercise list the outcome was emitted for, exercises of other lists have no level
+function getGoalContext(outcome: ExerciseOutcome): GoalContext {
+    const { sessionId, dayActiveTime }: SessionState = getSessionState();
+    const sessionContext: GoalContext = { sessionId, practiceTime: dayActiveTime };
+    if (outcome.exerciseType === undefined) {
+        return sessionContext;
+    }
+    const listLevels: Record<number, number> = getExerciseLevels(outcome.exerciseType);
+    const completedExercises: (number | string)[] = getCompletedCKExercises(outcome.module, outcome.exerciseType === CKExerciseType.Bartering ? "bartering" : undefined) ?? [];
+    return { ...sessionContext, level: listLevels[outcome.exerciseId], listLevels, completedExercises };
+}
+
+// Goals are archived as soon as they are completed, whereas goals that are replaced before are archived as abandoned
+function archiveActiveGoal(store: GoalStore): GoalRecord[] {
+    const { activeGoal } = store;
+    if (activeGoal === undefined || activeGoal.progress.completed) {
+        return store.pastGoals;
+    }
+    return [...store.pastGoals, toGoalRecord(activeGoal)];
+}
+
+// Counts and archives the active goal of the updated store if it has just been completed
+function completeGoal(store: GoalStore, previousGoal: ActiveGoal): GoalStore {
+    const { activeGoal } = store;
+    if (activeGoal === undefined || !activeGoal.progress.completed || previousGoal.progress.completed) {
+        return store;
+    }
+    return { ...store, completions: store.completions + 1, pastGoals: [...store.pastGoals, toGoalRecord(activeGoal)] };
+}
+
+function toGoalRecord(activeGoal: ActiveGoal): GoalRecord {
+    return {
+        goalId: activeGoal.goalId,
+        method: activeGoal.method,
+        initialMethod: activeGoal.initialMethod,
+        startTime: activeGoal.startTime,
+        endTime: Date.now(),
+        attempts: activeGoal.attempts,
+        completed: activeGoal.progress.completed,
+        reflection: activeGoal.reflection,
+        assigned: activeGoal.assigned
+    };
+}
+
+function isRecordOf(record: GoalRecord, activeGoal: ActiveGoal): boolean {
+    return record.goalId === activeGoal.goalId && record.startTime === activeGoal.startTime;
+}
+
+function migrateLegacyCookies(): GoalStore {
+    const streaks: Partial<Record<ExerciseModule, number>> = {};
+    Object.entries(LEGACY_STREAK_COOKIES).forEach(([module, cookieName]: [string, string]): void => {
+        streaks[module as ExerciseModule] = parseInt(getCookie(cookieName) ?? "0", 10) || 0;
+    });
+
+    // The goal was stored as its index in the dropdown, in which the first option means that no goal is set
+    const goalIndex: number = parseInt(getCookie("GlobalTask") ?? "0", 10) || 0;
+    const goal: GoalDefinition | undefined = GOAL_CATALOG[goalIndex - 1];
+    const method: ExerciseModule | undefined = GOAL_METHODS[parseInt(getCookie("GlobalStrat") ?? "0", 10) || 0];
+    const completed: boolean = getCookie("TaskSuccess") === "1" || getCookie("Task5Completed") === "1";
+    const progress: GoalProgress = parseLegacyProgress() ?? { counts: streaks, currentExercise: { hints: 0, errors: getCookie("IncorrectFlag") === "1" ? 1 : 0 }, completed };
+
+    const store: GoalStore = {
+        ...createGoalStore(),
+        streaks,
+        questionsEncountered: parseInt(getCookie("questionsEncountered") ?? "0", 10) || 0,
+        activeGoal: goal !== undefined ? { goalId: goal.id, method, initialMethod: method, startTime: Date.now(), attempts: 0, progress } : undefined
+    };
+    LEGACY_COOKIES.forEach(deleteCookie);
+    return store;
+}
+
+// A malformed cookie is ignored, the progress is then derived from the other cookies
+function parseLegacyProgress(): GoalProgress | undefined {
+    const legacyProgress: string | null = getCookie("GoalProgress");
+    if (legacyProgress === null) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(legacyProgress) as GoalProgress;
+    } catch {
+        return undefined;
+    }
+}
+
+function getCookie(name: string): string | null {
+    const cookie: string | undefined = document.cookie.split("; ").find((entry: string): boolean => entry.startsWith(`${name}=`));
+    return cookie !== undefined ? decodeURIComponent(cookie.substring(name.length + 1)) : null;
+}
+
+function deleteCookie(name: string): void {
+    document.cookie = `${name}=; expires=Thu, 01 Jan 1970 00:00:00 GMT; path=/`;
+}
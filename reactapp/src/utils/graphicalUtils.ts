@@ -0,0 +1,74 @@
+import { Fraction } from "mathjs";
+import { SolutionType } from "@/types/math/enums.ts";
+import { LinearSystemSolution } from "@/types/math/linearSystemSolution.ts";
+import { math } from "@/types/math/math.ts";
+import { NormalizedEquation } from "@utils/solverUtils.ts";
+
+// Half of the width of the smallest coordinate plane, in units
+const MIN_EXTENT: number = 6;
+// Units that are kept between the relevant points and the border of the coordinate plane
+const MARGIN: number = 2;
+
+// Coordinates of a point on the coordinate plane, the first one belonging to the first variable
+export type PlanePoint = [Fraction, Fraction];
+
+/**
+ * Half of the width of a square coordinate plane centered at the origin that shows the relevant points of the system.
+ * For a unique solution this is the intersection, otherwise the points in which the lines cross the axes.
+ */
+export function getPlaneExtent(equations: NormalizedEquation[], solution: LinearSystemSolution): number {
+    const points: Fraction[] = solution.type === SolutionType.Unique ? [solution.firstValue as Fraction, solution.secondValue as Fraction] : equations.flatMap(getAxisIntercepts);
+    const maximum: number = Math.max(0, ...points.map((value: Fraction) => Math.abs(math.number(value) as number)));
+    return Math.max(MIN_EXTENT, Math.ceil(maximum) + MARGIN);
+}
+
+// Positions per unit the point snaps to, chosen such that the intersection can be placed exactly
+export function getGridResolution(solution: LinearSystemSolution): number {
+    if (solution.type !== SolutionType.Unique) {
+        return 1;
+    }
+    return math.lcm((solution.firstValue as Fraction).d, (solution.secondValue as Fraction).d) as number;
+}
+
+export function snapToGrid(value: number, resolution: number, extent: number): Fraction {
+    const position: number = Math.min(extent * resolution, Math.max(-extent * resolution, Math.round(value * resolution)));
+    return math.fraction(position, resolution);
+}
+
+/**
+ * End points of the line of an equation a * x + b * y = c between the left and the right border of the coordinate plane.
+ * Lines parallel to the y-axis run from the bottom to the top border, equations without unknowns do not describe a line.
+ */
+export function getLineSegment([a, b, c]: NormalizedEquation, extent: number): [[number, number], [number, number]] | undefined {
+    if (!math.isZero(b)) {
+        const slope: number = math.number(math.divide(math.unaryMinus(a), b) as Fraction) as number;
+        const intercept: number = math.number(math.divide(c, b) as Fraction) as number;
+        return [[-extent, intercept - slope * extent], [extent, intercept + slope * extent]];
+    }
+    if (!math.isZero(a)) {
+        const x: number = math.number(math.divide(c, a) as Fraction) as number;
+        return [[x, -extent], [x, extent]];
+    }
+    return undefined;
+}
+
+export function isOnLine([a, b, c]: NormalizedEquation, [x, y]: PlanePoint): boolean {
+    return math.equal(math.add(math.multiply(a, x), math.multiply(b, y)), c) as boolean;
+}
+
+export function isIntersection(solution: LinearSystemSolution, [x, y]: PlanePoint): boolean {
+    return solution.type === SolutionType.Unique && (math.equal(x, solution.firstValue as Fraction) as boolean) && (math.equal(y, solution.secondValue as Fraction) as boolean);
+}
+
+export function formatPoint([x, y]: PlanePoint): string {
+    return `(${formatCoordinate(x)} | ${formatCoordinate(y)})`;
+}
+
+function getAxisIntercepts([a, b, c]: NormalizedEquation): Fraction[] {
+    return [a, b].filter((coefficient: Fraction) => !math.isZero(coefficient)).map((coefficient: Fraction) => math.divide(c, coefficient) as Fraction);
+}
+
+function formatCoordinate(value: Fraction): string {
+    const numerator: number = value.s * value.n;
+    return value.d === 1 ? `${numerator}` : `${numerator}/${value.d}`;
+}
@@ -0,0 +1,92 @@
+import { InteractionEvent, InteractionListener } from "@/types/studies/interactionEvent.ts";
+import { downloadFile } from "@utils/utils.ts";
+
+const INTERACTION_LOG_STORAGE_KEY: string = "interaction-log";
+export const MAX_LOG_LENGTH: number = 1000;
+const WRITE_DELAY: number = 2000; // Milliseconds
+
+const listeners: Set<InteractionListener> = new Set<InteractionListener>();
+
+// Events that are recorded but not written yet, so that a burst of interactions rewrites the stored log only once
+let pendingEvents: InteractionEvent[] = [];
+let writeTimer: number | undefined;
+
+window.addEventListener("pagehide", writePendingEvents);
+document.addEventListener("visibilitychange", (): void => {
+    if (document.visibilityState === "hidden") {
+        writePendingEvents();
+    }
+});
+
+export function getInteractionLog(): InteractionEvent[] {
+    return [...getStoredLog(), ...pendingEvents].slice(-MAX_LOG_LENGTH);
+}
+
+// Only the most recent events are kept, older events are expected to have reached the backend or an export by then
+export function recordInteraction(event: InteractionEvent): void {
+    pendingEvents.push(event);
+    if (writeTimer === undefined) {
+        writeTimer = setTimeout(writePendingEvents, WRITE_DELAY);
+    }
+    listeners.forEach((listener: InteractionListener) => listener(event));
+}
+
+export function clearInteractionLog(): void {
+    clearTimeout(writeTimer);
+    writeTimer = undefined;
+    pendingEvents = [];
+    localStorage.removeItem(INTERACTION_LOG_STORAGE_KEY);
+}
+
+export function exportInteractionLog(): void {
+    downloadFile(JSON.stringify(getInteractionLog(), null, 2), `interaction-log-${new Date().toISOString()}.json`, "application/json");
+}
+
+function getStoredLog(): InteractionEvent[] {
+    const jsonString: string | null = localStorage.getItem(INTERACTION_LOG_STORAGE_KEY);
+    if (jsonString === null) {
+        return [];
+    }
+    try {
+        return JSON.parse(jsonString) as InteractionEvent[];
+    } catch (error) {
+        console.error("The interaction log could not be read and is reset.", error);
+        localStorage.removeItem(INTERACTION_LOG_STORAGE_KEY);
+        return [];
+    }
+}
+
+function writePendingEvents(): void {
+    clearTimeout(writeTimer);
+    writeTimer = undefined;
+    if (pendingEvents.length === 0) {
+        return;
+    }
+
+    let log: InteractionEvent[] = getInteractionLog();
+    pendingEvents = [];
+    // When the storage is full, the older half of the log is given up to make room for the recent events
+    while (log.length > 0) {
+        try {
+            localStorage.setItem(INTERACTION_LOG_STORAGE_KEY, JSON.stringify(log));
+            return;
+        } catch (error) {
+            if (!(error instanceof DOMException && error.name === "QuotaExceededError")) {
+                throw error;
+            }
+            log = log.slice(Math.ceil(log.length / 2));
+        }
+    }
+    console.warn("The interaction log could not be stored because the storage is full.");
+}
+
+/**
+ * Registers a listener that is notified about every interaction recorded by the trackers.
+ * Returns a function that removes the listener again, which can be used directly as the cleanup of an effect.
+ */
+export function subscribeToInteractions(listener: InteractionListener): () => void {
+    listeners.add(listener);
+    return (): void => {
+        listeners.delete(listener);
+    };
+}
@@ -0,0 +1,112 @@
+import { ExercisePerformance, PerformanceRating, PhasePerformance, RecommendationCandidate } from "@/types/shared/learnerModel.ts";
+import { CKExerciseType } from "@/types/studies/enums.ts";
+
+const LEARNER_MODEL_STORAGE_KEY: string = "learner-model";
+const MAX_HISTORY_LENGTH: number = 50;
+const RECENT_EXERCISES: number = 3;
+
+const STRUGGLING_ERRORS: number = 3;
+const STRUGGLING_HINTS: number = 3;
+const STRUGGLING_MISTAKES: number = 4; // Errors and hints combined
+const STRUGGLING_PHASE_TIME: number = 600; // Seconds
+const STRONG_PHASE_TIME: number = 120; // Seconds
+
+export const FLEXIBILITY_LEARNER_MODEL_KEY: string = "flexibility";
+
+export function getCKLearnerModelKey(exerciseType: CKExerciseType): string {
+    return CKExerciseType[exerciseType].toLowerCase();
+}
+
+export function getExerciseHistory(modelKey: string): ExercisePerformance[] {
+    const jsonString: string | null = localStorage.getItem(LEARNER_MODEL_STORAGE_KEY);
+    if (jsonString === null) {
+        return [];
+    }
+
+    const jsonObject = JSON.parse(jsonString);
+    return (jsonObject[modelKey] ?? []) as ExercisePerformance[];
+}
+
+export function recordExercisePerformance(modelKey: string, exerciseId: number, phases: PhasePerformance[]): void {
+    const jsonString: string | null = localStorage.getItem(LEARNER_MODEL_STORAGE_KEY);
+    const jsonObject: { [key: string]: ExercisePerformance[] } = jsonString === null ? {} : JSON.parse(jsonString);
+
+    const history: ExercisePerformance[] = [...(jsonObject[modelKey] ?? []), { exerciseId, phases, timestamp: Date.now() }];
+    jsonObject[modelKey] = history.slice(-MAX_HISTORY_LENGTH);
+    localStorage.setItem(LEARNER_MODEL_STORAGE_KEY, JSON.stringify(jsonObject));
+}
+
+export function ratePerformance(performance: ExercisePerformance): PerformanceRating {
+    let errors: number = 0;
+    let hints: number = 0;
+    let slowestPhase: number = 0;
+    performance.phases.forEach((phase: PhasePerformance): void => {
+        errors += phase.errors;
+        hints += phase.hints;
+        slowestPhase = Math.max(slowestPhase, phase.time);
+    });
+
+    if (errors >= STRUGGLING_ERRORS || hints >= STRUGGLING_HINTS || errors + hints >= STRUGGLING_MISTAKES || slowestPhase > STRUGGLING_PHASE_TIME) {
+        return PerformanceRating.Struggling;
+    }
+    if (errors === 0 && hints === 0 && slowestPhase <= STRONG_PHASE_TIME) {
+        return PerformanceRating.Strong;
+    }
+    return PerformanceRating.Moderate;
+}
+
+// Averages the ratings of the most recent exercises, so that a single slip does not change the recommendation
+export function rateLearner(history: ExercisePerformance[]): PerformanceRating | undefined {
+    const recent: ExercisePerformance[] = history.slice(-RECENT_EXERCISES);
+    if (recent.length === 0) {
+        return undefined;
+    }
+
+    const average: number = recent.reduce((sum: number, performance: ExercisePerformance) => sum + ratePerformance(performance), 0) / recent.length;
+    if (average >= (PerformanceRating.Moderate + PerformanceRating.Strong) / 2) {
+        return PerformanceRating.Strong;
+    }
+    if (average <= (PerformanceRating.Struggling + PerformanceRating.Moderate) / 2) {
+        return PerformanceRating.Struggling;
+    }
+    return PerformanceRating.Moderate;
+}
+
+/**
+ * Recommends the open exercise whose level is closest to the level the learner should continue with:
+ * struggling learners step down one level, strong learners skip ahead to the next level and all others stay at their current level.
+ * Without any recorded performance, the first open exercise is recommended.
+ */
+export function recommendNextExercise(modelKey: string, candidates: RecommendationCandidate[], completedExercises?: (number | string)[]): number | undefined {
+    const candidateIds: number[] = candidates.map((candidate: RecommendationCandidate) => candidate.id);
+    const history: ExercisePerformance[] = getExerciseHistory(modelKey).filter((performance: ExercisePerformance) => candidateIds.includes(performance.exerciseId));
+
+    const lastExercise: RecommendationCandidate | undefined = history.length > 0 ? candidates.find((candidate: RecommendationCandidate): boolean => candidate.id === history[history.length - 1].exerciseId) : undefined;
+    const openCandidates: RecommendationCandidate[] = candidates.filter((candidate: RecommendationCandidate): boolean => !(completedExercises ?? []).includes(candidate.id) && candidate.id !== lastExercise?.id);
+    if (openCandidates.length === 0) {
+        return undefined;
+    }
+    if (lastExercise === undefined) {
+        return openCandidates[0].id;
+    }
+
+    const rating: PerformanceRating = rateLearner(history) ?? PerformanceRating.Moderate;
+    let targetLevel: number = lastExercise.level;
+    if (rating === PerformanceRating.Strong) {
+        targetLevel++;
+    } else if (rating === PerformanceRating.Struggling) {
+        targetLevel--;
+    }
+
+    let recommendation: RecommendationCandidate = openCandidates[0];
+    openCandidates.forEach((candidate: RecommendationCandidate): void => {
+        const distance: number = Math.abs(candidate.level - targetLevel);
+        const bestDistance: number = Math.abs(recommendation.level - targetLevel);
+        // On equal distance, struggling learners get the easier exercise and all others the harder one
+        const isPreferredOnTie: boolean = rating === PerformanceRating.Struggling ? candidate.level < recommendation.level : candidate.level > recommendation.level;
+        if (distance < bestDistance || (distance === bestDistance && isPreferredOnTie)) {
+            recommendation = candidate;
+        }
+    });
+    return recommendation.id;
+}
@@ -0,0 +1,147 @@
+import axiosInstance from "@/types/shared/axiosInstance.ts";
+import { CKExerciseResponse } from "@/types/shared/ckExerciseResponse.ts";
+import { ExerciseModule } from "@/types/shared/exerciseOutcome.ts";
+import { FlexibilityExerciseResponse } from "@/types/flexibility/flexibilityExerciseResponse.ts";
+import { CatalogEntry, ExerciseListProgress, ExerciseListType, LevelProgress, ModuleProgress } from "@/types/shared/progress.ts";
+import { CKExerciseType } from "@/types/studies/enums.ts";
+import { Paths, getPathToExercises, getPathToFlexibilityExercises } from "@routes/paths.ts";
+import { saveExerciseLevels } from "@utils/exerciseLevels.ts";
+import { getCompletedExercises } from "@utils/storageUtils.ts";
+
+const EXERCISE_CATALOG_STORAGE_KEY: string = "exercise-catalog";
+const TUTORIAL_ID: string = "tutorial";
+
+interface ExerciseListSource {
+    readonly module: ExerciseModule;
+    readonly route: string;
+    // Location of the completed exercises in the local storage
+    readonly storageKey: string;
+    readonly propertyKey: string;
+    readonly exerciseType?: CKExerciseType;
+}
+
+const EXERCISE_LISTS: Record<ExerciseListType, ExerciseListSource> = {
+    [ExerciseListType.Equalization]: {
+        module: ExerciseModule.Equalization,
+        route: getPathToExercises(Paths.EqualizationGamePath),
+        storageKey: "equalization",
+        propertyKey: "conceptual-knowledge",
+        exerciseType: CKExerciseType.Equalization
+    },
+    [ExerciseListType.Bartering]: {
+        module: ExerciseModule.Substitution,
+        route: getPathToExercises(Paths.BarteringGamePath),
+        storageKey: "substitution",
+        propertyKey: "bartering",
+        exerciseType: CKExerciseType.Bartering
+    },
+    [ExerciseListType.Substitution]: {
+        module: ExerciseModule.Substitution,
+        route: getPathToExercises(Paths.SubstitutionGamePath),
+        storageKey: "substitution",
+        propertyKey: "conceptual-knowledge",
+        exerciseType: CKExerciseType.Substitution
+    },
+    [ExerciseListType.Elimination]: {
+        module: ExerciseModule.Elimination,
+        route: getPathToExercises(Paths.EliminationGamePath),
+        storageKey: "elimination",
+        propertyKey: "conceptual-knowledge",
+        exerciseType: CKExerciseType.Elimination
+    },
+    [ExerciseListType.Flexibility]: {
+        module: ExerciseModule.Flexibility,
+        route: getPathToFlexibilityExercises(),
+        storageKey: "flexibility-training",
+        propertyKey: "procedural-knowledge"
+    }
+};
+
+// The exercise lists are requested at most once per page load unless a request fails, in between the cached lists of the last request are used
+let catalogRequest: Promise<void> | undefined = undefined;
+
+export function loadExerciseCatalog(): Promise<void> {
+    if (catalogRequest === undefined) {
+        catalogRequest = requestExerciseCatalog();
+    }
+    return catalogRequest;
+}
+
+export function getModuleProgress(): ModuleProgress[] {
+    const catalog: Partial<Record<ExerciseListType, CatalogEntry[]>> = getExerciseCatalog();
+    const lists: ExerciseListProgress[] = Object.values(ExerciseListType).map((listType: ExerciseListType) => getListProgress(listType, catalog[listType] ?? []));
+
+    return [ExerciseModule.Equalization, ExerciseModule.Substitution, ExerciseModule.Elimination, ExerciseModule.Flexibility].map((module: ExerciseModule) => {
+        const moduleLists: ExerciseListProgress[] = lists.filter((list: ExerciseListProgress): boolean => EXERCISE_LISTS[list.listType].module === module);
+        const completed: number = moduleLists.reduce((sum: number, list: ExerciseListProgress) => sum + list.completed, 0);
+        const total: number = moduleLists.reduce((sum: number, list: ExerciseListProgress) => sum + list.total, 0);
+        return { module, completed, total, percent: total > 0 ? Math.round((completed / total) * 100) : 0, lists: moduleLists };
+    });
+}
+
+async function requestExerciseCatalog(): Promise<void> {
+    const catalog: Partial<Record<ExerciseListType, CatalogEntry[]>> = getExerciseCatalog();
+    let isComplete: boolean = true;
+    await Promise.all(
+        Object.values(ExerciseListType).map(async (listType: ExerciseListType): Promise<void> => {
+            const source: ExerciseListSource = EXERCISE_LISTS[listType];
+            try {
+                const response = await axiosInstance.get(source.route);
+                if (source.exerciseType !== undefined) {
+                    const exercises: CKExerciseResponse[] = response.data as CKExerciseResponse[];
+                    saveExerciseLevels(source.exerciseType, exercises);
+                    catalog[listType] = exercises.map((exercise: CKExerciseResponse) => ({ id: exercise.id, level: exercise.level }));
+                } else {
+                    const exercises: FlexibilityExerciseResponse[] = response.data as FlexibilityExerciseResponse[];
+                    // Flexibility exercises have no levels, their progress is only counted for the whole list
+                    catalog[listType] = exercises.map((exercise: FlexibilityExerciseResponse) => ({ id: exercise.id, level: null }));
+                }
+            } catch (error) {
+                // The cached list stays in use until the lists are requested again
+                console.error(error);
+                isComplete = false;
+            }
+        })
+    );
+    localStorage.setItem(EXERCISE_CATALOG_STORAGE_KEY, JSON.stringify(catalog));
+    if (!isComplete) {
+        catalogRequest = undefined;
+    }
+}
+
+function getExerciseCatalog(): Partial<Record<ExerciseListType, CatalogEntry[]>> {
+    const jsonString: string | null = localStorage.getItem(EXERCISE_CATALOG_STORAGE_KEY);
+    if (jsonString === null) {
+        return {};
+    }
+    try {
+        return JSON.parse(jsonString);
+    } catch (error) {
+        console.error("Discarding the exercise catalog because it cannot be read.", error);
+        localStorage.removeItem(EXERCISE_CATALOG_STORAGE_KEY);
+        return {};
+    }
+}
+
+function getListProgress(listType: ExerciseListType, entries: CatalogEntry[]): ExerciseListProgress {
+    const source: ExerciseListSource = EXERCISE_LISTS[listType];
+    const completedExercises: (number | string)[] = getCompletedExercises(source.storageKey, source.propertyKey) ?? [];
+    // Only exercises of the current list are counted, which leaves out the tutorial and exercises removed from the backend
+    const isCompleted = (entry: CatalogEntry): boolean => completedExercises.includes(entry.id);
+
+    const levels: LevelProgress[] = [...new Set(entries.map((entry: CatalogEntry) => entry.level))]
+        .filter((level: number | null): level is number => level !== null)
+        .sort((first: number, second: number) => first - second)
+        .map((level: number) => {
+            const levelEntries: CatalogEntry[] = entries.filter((entry: CatalogEntry): boolean => entry.level === level);
+            return { level, completed: levelEntries.filter(isCompleted).length, total: levelEntries.length };
+        });
+
+    return {
+        listType,
+        completed: entries.filter(isCompleted).length,
+        total: entries.length,
+        tutorialCompleted: completedExercises.includes(TUTORIAL_ID),
+        levels
+    };
+}
@@ -0,0 +1,128 @@
+import { ExerciseOutcome, ExerciseOutcomeType } from "@/types/shared/exerciseOutcome.ts";
+import { SessionListener, SessionState } from "@/types/shared/session.ts";
+import { subscribeToExerciseOutcomes } from "@utils/exerciseOutcomes.ts";
+import { createEntryKey } from "@utils/trackingQueue.ts";
+
+// The session storage is cleared when the tab is closed, while the practice time of the day is shared by all tabs
+const SESSION_STORAGE_KEY: string = "practice-session";
+const PRACTICE_DAY_STORAGE_KEY: string = "practice-day";
+const TICK_INTERVAL: number = 1000; // Milliseconds
+
+const listeners: Set<SessionListener> = new Set<SessionListener>();
+
+// Time the clock was last resumed or its active time was stored at, undefined while the clock is paused
+let resumedAt: number | undefined;
+
+type StoredSession = Omit<SessionState, "day" | "dayActiveTime">;
+
+interface PracticeDay {
+    readonly day: string;
+    readonly activeTime: number;
+}
+
+// Includes the time that passed since the clock was last resumed, so the state is up to date while the clock is running
+export function getSessionState(): SessionState {
+    return addActiveTime(loadSession(), resumedAt !== undefined ? Date.now() - resumedAt : 0);
+}
+
+/**
+ * Starts the clock of the session, which only runs while the app is visible and notifies its listeners every second.
+ * Returns a function that stops the clock again, which can be used directly as the cleanup of an effect.
+ */
+export function startSessionClock(): () => void {
+    const handleVisibilityChange = (): void => {
+        if (document.hidden) {
+            pauseClock();
+        } else {
+            resumeClock();
+        }
+    };
+
+    if (!document.hidden) {
+        resumeClock();
+    }
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("pagehide", pauseClock);
+    const timer: number = window.setInterval(tick, TICK_INTERVAL);
+    const unsubscribe: () => void = subscribeToExerciseOutcomes((outcome: ExerciseOutcome): void => {
+        if (outcome.type === ExerciseOutcomeType.Solved) {
+            const session: SessionState = storeActiveTime();
+            saveSession({ ...session, exercisesSolved: session.exercisesSolved + 1 });
+        }
+    });
+
+    return (): void => {
+        document.removeEventListener("visibilitychange", handleVisibilityChange);
+        window.removeEventListener("pagehide", pauseClock);
+        clearInterval(timer);
+        unsubscribe();
+        pauseClock();
+    };
+}
+
+/**
+ * Registers a listener that is notified about the session every second while the clock is running.
+ * Returns a function that removes the listener again, which can be used directly as the cleanup of an effect.
+ */
+export function subscribeToSessionClock(listener: SessionListener): () => void {
+    listeners.add(listener);
+    return (): void => {
+        listeners.delete(listener);
+    };
+}
+
+function tick(): void {
+    if (resumedAt === undefined) {
+        return;
+    }
+    const session: SessionState = storeActiveTime();
+    listeners.forEach((listener: SessionListener) => listener(session));
+}
+
+function resumeClock(): void {
+    resumedAt ??= Date.now();
+}
+
+function pauseClock(): void {
+    storeActiveTime();
+    resumedAt = undefined;
+}
+
+// The active time is stored every second, so that at most a second is lost if the page is closed without being hidden first
+function storeActiveTime(): SessionState {
+    const session: SessionState = getSessionState();
+    if (resumedAt !== undefined) {
+        resumedAt = Date.now();
+    }
+    saveSession(session);
+    return session;
+}
+
+function addActiveTime(session: SessionState, time: number): SessionState {
+    return { ...session, activeTime: session.activeTime + time, dayActiveTime: session.dayActiveTime + time };
+}
+
+// A new session starts in every tab, the daily practice time starts over on a new day even if the session started on the day before
+function loadSession(): SessionState {
+    const day: string = getCurrentDay();
+    const sessionString: string | null = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    const dayString: string | null = localStorage.getItem(PRACTICE_DAY_STORAGE_KEY);
+    const practiceDay: PracticeDay | undefined = dayString !== null ? JSON.parse(dayString) : undefined;
+
+    const session: StoredSession = sessionString !== null ? JSON.parse(sessionString) : { sessionId: createEntryKey(), startTime: Date.now(), activeTime: 0, exercisesSolved: 0 };
+    if (sessionString === null) {
+        sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    }
+    return { ...session, day, dayActiveTime: practiceDay?.day === day ? practiceDay.activeTime : 0 };
+}
+
+function saveSession(session: SessionState): void {
+    const { day, dayActiveTime, ...storedSession } = session;
+    sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(storedSession));
+    localStorage.setItem(PRACTICE_DAY_STORAGE_KEY, JSON.stringify({ day, activeTime: dayActiveTime }));
+}
+
+function getCurrentDay(): string {
+    const now: Date = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+}
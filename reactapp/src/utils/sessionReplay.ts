@@ -0,0 +1,48 @@
+import { DragSource } from "@/types/equalization/enums.ts";
+import { EliminationChoice } from "@/types/studies/enums.ts";
+import { InteractionEvent, InteractionEventType } from "@/types/studies/interactionEvent.ts";
+import { ReplayFrame } from "@/types/studies/sessionReplay.ts";
+
+export function getReplayableEntryKeys(events: InteractionEvent[]): Set<string> {
+    return new Set<string>(events.filter((event: InteractionEvent): boolean => event.type === InteractionEventType.StateSnapshot).map((event: InteractionEvent) => event.entryKey));
+}
+
+/**
+ * Splits the events of one attempt into frames, each consisting of a recorded game state and the interactions that led to it.
+ * Interactions after the last recorded state, e.g. the completion of the exercise, are added to the last frame.
+ */
+export function buildReplay(events: InteractionEvent[], entryKey: string): ReplayFrame[] {
+    const frames: ReplayFrame[] = [];
+    let pendingEvents: InteractionEvent[] = [];
+
+    events
+        .filter((event: InteractionEvent): boolean => event.entryKey === entryKey)
+        .sort((first: InteractionEvent, second: InteractionEvent) => first.sequence - second.sequence)
+        .forEach((event: InteractionEvent): void => {
+            if (event.type === InteractionEventType.StateSnapshot) {
+                frames.push({ snapshot: event, events: pendingEvents });
+                pendingEvents = [];
+            } else {
+                pendingEvents.push(event);
+            }
+        });
+
+    if (frames.length > 0 && pendingEvents.length > 0) {
+        const lastFrame: ReplayFrame = frames[frames.length - 1];
+        frames[frames.length - 1] = { snapshot: lastFrame.snapshot, events: [...lastFrame.events, ...pendingEvents] };
+    }
+    return frames;
+}
+
+export function describeInteraction(event: InteractionEvent): string {
+    switch (event.type) {
+        case InteractionEventType.Action:
+            return event.payload.action;
+        case InteractionEventType.Drag:
+            return `${event.payload.item}: ${DragSource[event.payload.source]} → ${event.payload.target === null ? "-" : DragSource[event.payload.target]}`;
+        case InteractionEventType.Choice:
+            return `${InteractionEventType[event.type]} ${typeof event.payload.choice === "number" ? EliminationChoice[event.payload.choice] : event.payload.choice}`;
+        default:
+            return InteractionEventType[event.type];
+    }
+}
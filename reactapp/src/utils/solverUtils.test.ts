@@ -0,0 +1,99 @@
+import { Fraction } from "mathjs";
+import { describe, expect, it } from "vitest";
+import { SolutionType } from "@/types/math/enums.ts";
+import { LinearSystemSolution } from "@/types/math/linearSystemSolution.ts";
+import { math } from "@/types/math/math.ts";
+import { createFlexibilityEquation } from "@utils/equationParser.ts";
+import { classifyEquation, classifyNormalizedEquation, solveLinearSystem, solveNormalizedSystem, solveSystem } from "@utils/solverUtils.ts";
+
+function solve(equations: string[], variables: string[] = ["x", "y"]): LinearSystemSolution {
+    return solveSystem(equations.map(createFlexibilityEquation), variables);
+}
+
+// Values of all unknowns of a unique solution, in the order of the unknowns
+function getValues(solution: LinearSystemSolution): number[] {
+    return [solution.firstValue, solution.secondValue, ...solution.additionalValues].map((value: Fraction | undefined) => math.number(value as Fraction));
+}
+
+describe("solveSystem", () => {
+    it("solves a system with a unique solution", () => {
+        const solution: LinearSystemSolution = solve(["2x + y = 7", "x - y = -1"]);
+
+        expect(solution.type).toBe(SolutionType.Unique);
+        expect(getValues(solution)).toEqual([2, 3]);
+    });
+
+    it("keeps fractional solutions exact", () => {
+        const solution: LinearSystemSolution = solve(["y = 1/2x + 1", "3x + y = 5"]);
+
+        expect(solution.type).toBe(SolutionType.Unique);
+        expect(math.equal(solution.firstValue as Fraction, math.fraction(8, 7))).toBe(true);
+        expect(math.equal(solution.secondValue as Fraction, math.fraction(11, 7))).toBe(true);
+    });
+
+    it("solves systems with more than two unknowns", () => {
+        const solution: LinearSystemSolution = solve(["x + y + z = 6", "2x - y = 0", "y - z = -1"], ["x", "y", "z"]);
+
+        expect(solution.type).toBe(SolutionType.Unique);
+        expect(getValues(solution)).toEqual([1, 2, 3]);
+    });
+
+    it("detects parallel lines", () => {
+        expect(solve(["x + y = 2", "2x + 2y = 5"]).type).toBe(SolutionType.None);
+        expect(solve(["x + y + z = 1", "x + y + z = 2", "x - z = 0"], ["x", "y", "z"]).type).toBe(SolutionType.None);
+    });
+
+    it("detects identical lines", () => {
+        expect(solve(["x + y = 2", "2x + 2y = 4"]).type).toBe(SolutionType.Infinite);
+        expect(solve(["y = 2x - 1", "4x - 2y = 2"]).type).toBe(SolutionType.Infinite);
+    });
+
+    it("fails for equations containing other unknowns", () => {
+        expect(() => solve(["x + z = 2", "x - y = 1"])).toThrow();
+    });
+});
+
+describe("solveLinearSystem", () => {
+    it("solves for the unknowns in the given order", () => {
+        const solution: LinearSystemSolution = solveLinearSystem(createFlexibilityEquation("y = 2x"), createFlexibilityEquation("x + y = 6"), "y", "x");
+
+        expect(getValues(solution)).toEqual([4, 2]);
+    });
+});
+
+describe("solveNormalizedSystem", () => {
+    const fractions = (...values: number[]): [Fraction, Fraction, Fraction] => values.map((value: number) => math.fraction(value)) as [Fraction, Fraction, Fraction];
+
+    it("agrees with the elimination of the general solver", () => {
+        expect(getValues(solveNormalizedSystem(fractions(2, 1, 7), fractions(1, -1, -1)))).toEqual([2, 3]);
+        expect(solveNormalizedSystem(fractions(1, 1, 2), fractions(2, 2, 5)).type).toBe(SolutionType.None);
+        expect(solveNormalizedSystem(fractions(1, 1, 2), fractions(2, 2, 4)).type).toBe(SolutionType.Infinite);
+    });
+
+    it("detects equations in which all unknowns have vanished", () => {
+        expect(solveNormalizedSystem(fractions(0, 0, 1), fractions(0, 0, 0)).type).toBe(SolutionType.None);
+        expect(solveNormalizedSystem(fractions(0, 0, 0), fractions(0, 0, 0)).type).toBe(SolutionType.Infinite);
+    });
+});
+
+describe("classifyEquation", () => {
+    it("classifies a contradiction as a system without a solution", () => {
+        expect(classifyEquation(createFlexibilityEquation("0 = 3"), ["x", "y"])).toBe(SolutionType.None);
+        expect(classifyEquation(createFlexibilityEquation("2x - 2x = 1/2"), ["x", "y"])).toBe(SolutionType.None);
+    });
+
+    it("classifies an equation that is always true as a system with infinitely many solutions", () => {
+        expect(classifyEquation(createFlexibilityEquation("0 = 0"), ["x", "y"])).toBe(SolutionType.Infinite);
+        expect(classifyEquation(createFlexibilityEquation("x + 2y = 2y + x"), ["x", "y"])).toBe(SolutionType.Infinite);
+    });
+
+    it("does not classify equations that still contain an unknown", () => {
+        expect(classifyEquation(createFlexibilityEquation("x = 1"), ["x", "y"])).toBeUndefined();
+        expect(classifyEquation(createFlexibilityEquation("0 = 3z"), ["x", "y", "z"])).toBeUndefined();
+    });
+
+    it("classifies normalized equations of any number of unknowns", () => {
+        expect(classifyNormalizedEquation([math.fraction(0), math.fraction(0), math.fraction(0), math.fraction(-2)])).toBe(SolutionType.None);
+        expect(classifyNormalizedEquation([math.fraction(0), math.fraction(0)])).toBe(SolutionType.Infinite);
+    });
+});
@@ -0,0 +1,259 @@
+import { Fraction } from "mathjs";
+import { ExerciseValidationIssue, IsolatedIn } from "@/types/flexibility/enums.ts";
+import { IFlexibilityExercise } from "@/types/flexibility/flexibilityExercise.ts";
+import { PlainExercise } from "@/types/flexibility/plainExercise.ts";
+import { IVariable } from "@/types/flexibility/variable.ts";
+import { SolutionType } from "@/types/math/enums.ts";
+import { FlexibilityEquation } from "@/types/math/linearEquation.ts";
+import { LinearSystemSolution } from "@/types/math/linearSystemSolution.ts";
+import { math } from "@/types/math/math.ts";
+import { FlexibilityTerm } from "@/types/math/term.ts";
+import { GameError, GameErrorType } from "@/types/shared/error.ts";
+
+// Coefficients [a, b, c] of an equation in the normal form a * first + b * second = c
+export type NormalizedEquation = [Fraction, Fraction, Fraction];
+
+export function equationContainsOnlyVariables(equation: FlexibilityEquation, variables: string[]): boolean {
+    return [...equation.leftTerms, ...equation.rightTerms].every((term: FlexibilityTerm): boolean => term.variable === null || variables.includes(term.variable));
+}
+
+export function normalizeEquation(equation: FlexibilityEquation, firstVariable: string, secondVariable: string): NormalizedEquation {
+    return normalizeSystemEquation(equation, [firstVariable, secondVariable]) as NormalizedEquation;
+}
+
+// Coefficients of an equation in the normal form a1 * x1 + ... + an * xn = c for any number of unknowns, the constant being the last entry
+export function normalizeSystemEquation(equation: FlexibilityEquation, variables: string[]): Fraction[] {
+    const coefficients: Fraction[] = variables.map(() => math.fraction(0));
+    let constant: Fraction = math.fraction(0);
+
+    const addTerm = (term: FlexibilityTerm, isLeft: boolean): void => {
+        // Variables are collected on the left side, constants on the right side
+        if (term.variable === null) {
+            constant = isLeft ? math.subtract(constant, term.coefficient) : math.add(constant, term.coefficient);
+            return;
+        }
+        const index: number = variables.indexOf(term.variable);
+        if (index === -1) {
+            throw new GameError(GameErrorType.EXERCISE_ERROR);
+        }
+        coefficients[index] = math.add(coefficients[index], isLeft ? term.coefficient : math.unaryMinus(term.coefficient));
+    };
+
+    equation.leftTerms.forEach((term: FlexibilityTerm) => addTerm(term, true));
+    equation.rightTerms.forEach((term: FlexibilityTerm) => addTerm(term, false));
+
+    return [...coefficients, constant];
+}
+
+export function solveNormalizedSystem(firstEquation: NormalizedEquation, secondEquation: NormalizedEquation): LinearSystemSolution {
+    const [a1, b1, c1] = firstEquation;
+    const [a2, b2, c2] = secondEquation;
+
+    const determinant: Fraction = math.subtract(math.multiply(a1, b2), math.multiply(a2, b1)) as Fraction;
+    if (!math.isZero(determinant)) {
+        // Cramer's rule
+        const first: Fraction = math.divide(math.subtract(math.multiply(c1, b2), math.multiply(c2, b1)), determinant) as Fraction;
+        const second: Fraction = math.divide(math.subtract(math.multiply(a1, c2), math.multiply(a2, c1)), determinant) as Fraction;
+        return LinearSystemSolution.unique(first, second);
+    }
+
+    if (isContradiction(firstEquation) || isContradiction(secondEquation)) {
+        return LinearSystemSolution.none();
+    }
+
+    // The coefficient matrix has rank <= 1, so the system is consistent iff the augmented matrix has the same rank
+    const firstMinor: Fraction = math.subtract(math.multiply(a1, c2), math.multiply(a2, c1)) as Fraction;
+    const secondMinor: Fraction = math.subtract(math.multiply(b1, c2), math.multiply(b2, c1)) as Fraction;
+    if (math.isZero(firstMinor) && math.isZero(secondMinor)) {
+        return LinearSystemSolution.infinite();
+    }
+    return LinearSystemSolution.none();
+}
+
+export function solveLinearSystem(firstEquation: FlexibilityEquation, secondEquation: FlexibilityEquation, firstVariable: string, secondVariable: string): LinearSystemSolution {
+    return solveNormalizedSystem(normalizeEquation(firstEquation, firstVariable, secondVariable), normalizeEquation(secondEquation, firstVariable, secondVariable));
+}
+
+/**
+ * Solves a system with any number of equations and unknowns by Gaussian elimination.
+ * The solution is unique if every unknown becomes a pivot, the system has no solution if an equation reduces to 0 = c with c != 0.
+ */
+export function solveSystem(equations: FlexibilityEquation[], variables: string[]): LinearSystemSolution {
+    const rows: Fraction[][] = equations.map((equation: FlexibilityEquation) => normalizeSystemEquation(equation, variables));
+
+    let rank: number = 0;
+    for (let column: number = 0; column < variables.length && rank < rows.length; column++) {
+        const pivot: number = rows.findIndex((row: Fraction[], index: number): boolean => index >= rank && !math.isZero(row[column]));
+        if (pivot === -1) {
+            continue;
+        }
+        [rows[rank], rows[pivot]] = [rows[pivot], rows[rank]];
+        const pivotRow: Fraction[] = rows[rank].map((coefficient: Fraction) => math.divide(coefficient, rows[rank][column]) as Fraction);
+        rows.forEach((row: Fraction[], index: number): void => {
+            rows[index] = index === rank ? pivotRow : row.map((coefficient: Fraction, j: number) => math.subtract(coefficient, math.multiply(row[column], pivotRow[j])) as Fraction);
+        });
+        rank++;
+    }
+
+    if (rows.some(isContradiction)) {
+        return LinearSystemSolution.none();
+    }
+    if (rank < variables.length) {
+        return LinearSystemSolution.infinite();
+    }
+    // Every unknown is a pivot, so the i-th row reads x_i = c_i
+    const [firstValue, secondValue, ...additionalValues] = variables.map((_: string, index: number) => rows[index][variables.length]);
+    return LinearSystemSolution.unique(firstValue, secondValue, ...additionalValues);
+}
+
+export function solveExercise(exercise: IFlexibilityExercise): LinearSystemSolution {
+    return solveSystem(getSystemEquations(exercise), getSystemVariables(exercise).map((variable: IVariable) => variable.name));
+}
+
+export function getSystemEquations(exercise: IFlexibilityExercise): FlexibilityEquation[] {
+    return [exercise.firstEquation, exercise.secondEquation, ...(exercise.additionalEquations ?? [])];
+}
+
+export function getSystemVariables(exercise: IFlexibilityExercise): IVariable[] {
+    return [exercise.firstVariable, exercise.secondVariable, ...(exercise.additionalVariables ?? [])];
+}
+
+export function isSolutionOfEquation(equation: FlexibilityEquation, firstVariable: string, secondVariable: string, firstValue: Fraction, secondValue: Fraction): boolean {
+    const [a, b, c] = normalizeEquation(equation, firstVariable, secondVariable);
+    return math.equal(math.add(math.multiply(a, firstValue), math.multiply(b, secondValue)), c) as boolean;
+}
+
+export function determineIsolations(equation: FlexibilityEquation, firstVariable: string, secondVariable: string): IsolatedIn[] {
+    const isolations: IsolatedIn[] = [];
+    addIsolation(isolations, equation.leftTerms, equation.rightTerms, firstVariable, secondVariable);
+    addIsolation(isolations, equation.rightTerms, equation.leftTerms, firstVariable, secondVariable);
+    return isolations.length === 0 ? [IsolatedIn.None] : isolations;
+}
+
+function addIsolation(isolations: IsolatedIn[], isolatedSide: FlexibilityTerm[], otherSide: FlexibilityTerm[], firstVariable: string, secondVariable: string): void {
+    if (isolatedSide.length !== 1 || isolatedSide[0].variable === null || math.isZero(isolatedSide[0].coefficient)) {
+        return;
+    }
+
+    const term: FlexibilityTerm = isolatedSide[0];
+    if (otherSide.some((entry: FlexibilityTerm): boolean => entry.variable === term.variable)) {
+        return;
+    }
+
+    const isOne: boolean = math.equal(term.coefficient, 1) as boolean;
+    let isolation: IsolatedIn | undefined;
+    if (term.variable === firstVariable) {
+        isolation = isOne ? IsolatedIn.First : IsolatedIn.FirstMultiple;
+    } else if (term.variable === secondVariable) {
+        isolation = isOne ? IsolatedIn.Second : IsolatedIn.SecondMultiple;
+    }
+
+    if (isolation !== undefined && !isolations.includes(isolation)) {
+        isolations.push(isolation);
+    }
+}
+
+// Exercises meant for the elimination method flag their equations with the transformation status, see getTransformationStatus
+function matchesIsolation(isolatedIn: IsolatedIn, isolations: IsolatedIn[]): boolean {
+    switch (isolatedIn) {
+        case IsolatedIn.Elimination:
+            return !isolations.includes(IsolatedIn.First) && !isolations.includes(IsolatedIn.Second);
+        case IsolatedIn.EliminationFirst:
+            return isolations.includes(IsolatedIn.First);
+        case IsolatedIn.EliminationSecond:
+            return isolations.includes(IsolatedIn.Second);
+        default:
+            return isolations.includes(isolatedIn);
+    }
+}
+
+export function validateFlexibilityExercise(exercise: IFlexibilityExercise): ExerciseValidationIssue[] {
+    const firstName: string = exercise.firstVariable.name;
+    const secondName: string = exercise.secondVariable.name;
+    const variables: IVariable[] = getSystemVariables(exercise);
+    const variableNames: string[] = variables.map((variable: IVariable) => variable.name);
+
+    if (!getSystemEquations(exercise).every((equation: FlexibilityEquation) => equationContainsOnlyVariables(equation, variableNames))) {
+        return [ExerciseValidationIssue.UnknownVariable];
+    }
+
+    const issues: ExerciseValidationIssue[] = [];
+    if (!(exercise instanceof PlainExercise) && (exercise.additionalEquations?.length ?? 0) > 0) {
+        issues.push(ExerciseValidationIssue.UnsupportedAdditionalEquations);
+    }
+
+    // Systems without a unique solution are classified by the students, so the values of their variables are not checked
+    const solution: LinearSystemSolution = solveExercise(exercise);
+    if (solution.type === SolutionType.Unique) {
+        if (!variableHasValue(exercise.firstVariable, solution.firstValue as Fraction)) {
+            issues.push(ExerciseValidationIssue.WrongFirstVariableValue);
+        }
+        if (!variableHasValue(exercise.secondVariable, solution.secondValue as Fraction)) {
+            issues.push(ExerciseValidationIssue.WrongSecondVariableValue);
+        }
+        if (solution.additionalValues.some((value: Fraction, index: number): boolean => !variableHasValue(variables[index + 2], value))) {
+            issues.push(ExerciseValidationIssue.WrongAdditionalVariableValue);
+        }
+    }
+
+    if (!matchesIsolation(exercise.firstEquationIsIsolatedIn, determineIsolations(exercise.firstEquation, firstName, secondName))) {
+        issues.push(ExerciseValidationIssue.WrongIsolationFirstEquation);
+    }
+    if (!matchesIsolation(exercise.secondEquationIsIsolatedIn, determineIsolations(exercise.secondEquation, firstName, secondName))) {
+        issues.push(ExerciseValidationIssue.WrongIsolationSecondEquation);
+    }
+
+    return issues;
+}
+
+export function warnOnInvalidExercise(exercise: IFlexibilityExercise): void {
+    const issues: ExerciseValidationIssue[] = validateFlexibilityExercise(exercise);
+    if (issues.length > 0) {
+        console.warn(`Flexibility exercise ${exercise.id} is inconsistent: ${issues.map((issue: ExerciseValidationIssue) => ExerciseValidationIssue[issue]).join(", ")}`);
+    }
+}
+
+function variableHasValue(variable: IVariable, value: Fraction): boolean {
+    try {
+        return math.equal(math.fraction(variable.value.value), value) as boolean;
+    } catch {
+        return false;
+    }
+}
+
+// Finds the factors [a, b] with a * first + b * second = target, undefined if there are none or the first two are parallel
+export function combineLinearly(first: Fraction[], second: Fraction[], target: Fraction[]): [Fraction, Fraction] | undefined {
+    for (let i: number = 0; i < first.length; i++) {
+        for (let j: number = i + 1; j < first.length; j++) {
+            const determinant: Fraction = math.subtract(math.multiply(first[i], second[j]), math.multiply(first[j], second[i])) as Fraction;
+            if (math.isZero(determinant)) {
+                continue;
+            }
+            const a: Fraction = math.divide(math.subtract(math.multiply(target[i], second[j]), math.multiply(target[j], second[i])), determinant) as Fraction;
+            const b: Fraction = math.divide(math.subtract(math.multiply(first[i], target[j]), math.multiply(first[j], target[i])), determinant) as Fraction;
+            const matches: boolean = target.every((coefficient: Fraction, index: number) => math.equal(math.add(math.multiply(a, first[index]), math.multiply(b, second[index])), coefficient) as boolean);
+            return matches ? [a, b] : undefined;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * An equation in which all unknowns have vanished only remains in systems without a unique solution:
+ * 0 = c with c != 0 is never true (the lines are parallel), 0 = 0 is always true (the lines are identical).
+ * Returns undefined if the equation still contains an unknown.
+ */
+export function classifyNormalizedEquation(equation: Fraction[]): SolutionType | undefined {
+    if (!equation.slice(0, -1).every((coefficient: Fraction) => math.isZero(coefficient))) {
+        return undefined;
+    }
+    return math.isZero(equation[equation.length - 1]) ? SolutionType.Infinite : SolutionType.None;
+}
+
+export function classifyEquation(equation: FlexibilityEquation, variables: string[]): SolutionType | undefined {
+    return classifyNormalizedEquation(normalizeSystemEquation(equation, variables));
+}
+
+function isContradiction(equation: Fraction[]): boolean {
+    return classifyNormalizedEquation(equation) === SolutionType.None;
+}
@@ -1,4 +1,7 @@
 import { AgentType, CompletedDemo } from "@/types/flexibility/enums.ts";
+import { ExerciseCompletionListener } from "@/types/shared/progress.ts";
+
+const completionListeners: Set<ExerciseCompletionListener> = new Set<ExerciseCompletionListener>();
 
 function setExerciseCompleted(storageKey: string, propertyKey: string, exerciseId: number | string, isSession: boolean = false): void {
     const jsonString: string | null = isSession ? sessionStorage.getItem(storageKey) : localStorage.getItem(storageKey);
@@ -22,6 +25,19 @@ function setExerciseCompleted(storageKey: string, propertyKey: string, exerciseI
 
         isSession ? sessionStorage.setItem(storageKey, JSON.stringify(jsonObject)) : localStorage.setItem(storageKey, JSON.stringify(jsonObject));
     }
+
+    completionListeners.forEach((listener: ExerciseCompletionListener) => listener(storageKey, propertyKey, exerciseId));
+}
+
+/**
+ * Registers a listener that is notified whenever an exercise is stored as completed for the first time.
+ * Returns a function that removes the listener again, which can be used directly as the cleanup of an effect.
+ */
+export function subscribeToExerciseCompletions(listener: ExerciseCompletionListener): () => void {
+    completionListeners.add(listener);
+    return (): void => {
+        completionListeners.delete(listener);
+    };
 }
 
 export function setCKTutorialCompleted(storageKey: string, propertyKey: string = "conceptual-knowledge") {
@@ -0,0 +1,118 @@
+import { AgentCondition, AgentType } from "@/types/flexibility/enums.ts";
+import { CKExerciseType, EliminationChoice, FlexibilityExerciseChoicePhase, FlexibilityStudyExerciseType } from "@/types/studies/enums.ts";
+import { CompletionPayload, ExerciseFamily, InteractionEvent, InteractionEventType } from "@/types/studies/interactionEvent.ts";
+import { GoalSettingCondition } from "@/types/studies/goalAssignment.ts";
+import { StudyDataRecord, StudyDataRecordType } from "@/types/studies/studyDataExport.ts";
+import { getCKPhaseName, getFlexibilityPhaseName } from "@utils/classProgress.ts";
+import { downloadFile } from "@utils/utils.ts";
+
+// Order of the columns in the CSV export, which must not change between exports so that analysis scripts keep working
+export const STUDY_DATA_COLUMNS: (keyof StudyDataRecord)[] = [
+    "study",
+    "userId",
+    "studyId",
+    "entryKey",
+    "exerciseType",
+    "exerciseId",
+    "flexibilityId",
+    "agentCondition",
+    "agentType",
+    "record",
+    "phase",
+    "time",
+    "hints",
+    "errors",
+    "choice",
+    "timestamp",
+    "goalCondition",
+    "goalId",
+    "sessionId",
+    "sessionTime"
+];
+
+/**
+ * Converts interaction events into one record per completed phase, choice and completed exercise.
+ * Actions, hints, errors, snapshots and drags are only contained as counts of the phases and exercises they occurred in.
+ */
+export function toStudyDataRecords(events: InteractionEvent[]): StudyDataRecord[] {
+    const records: StudyDataRecord[] = [];
+    [...events]
+        .sort((first: InteractionEvent, second: InteractionEvent) => first.timestamp - second.timestamp || first.sequence - second.sequence)
+        .forEach((event: InteractionEvent): void => {
+            switch (event.type) {
+                case InteractionEventType.PhaseCompleted:
+                    records.push(toRecord(event, StudyDataRecordType.Phase, decodePhase(event), event.payload));
+                    break;
+                case InteractionEventType.Choice:
+                    records.push(toRecord(event, StudyDataRecordType.Choice, event.payload.choicePhase !== undefined ? FlexibilityExerciseChoicePhase[event.payload.choicePhase] : "", undefined, decodeChoice(event.payload.choice, event.exercise.family)));
+                    break;
+                case InteractionEventType.ExerciseCompleted:
+                    records.push(toRecord(event, StudyDataRecordType.Exercise, "", event.payload));
+                    break;
+            }
+        });
+    return records;
+}
+
+export function toCSV(records: StudyDataRecord[]): string {
+    const rows: string[] = records.map((record: StudyDataRecord) => STUDY_DATA_COLUMNS.map((column: keyof StudyDataRecord) => escapeCSVValue(record[column])).join(","));
+    return [STUDY_DATA_COLUMNS.join(","), ...rows].join("\n");
+}
+
+export function exportStudyDataAsCSV(records: StudyDataRecord[]): void {
+    downloadFile(toCSV(records), `study-data-${new Date().toISOString()}.csv`, "text/csv");
+}
+
+export function exportStudyDataAsJSON(records: StudyDataRecord[]): void {
+    downloadFile(JSON.stringify(records, null, 2), `study-data-${new Date().toISOString()}.json`, "application/json");
+}
+
+// Merges interaction logs, e.g. exported from several devices, without duplicating events that are contained in more than one of them
+export function mergeInteractionLogs(...logs: InteractionEvent[][]): InteractionEvent[] {
+    const events: Map<string, InteractionEvent> = new Map<string, InteractionEvent>();
+    logs.flat().forEach((event: InteractionEvent) => events.set(`${event.entryKey}-${event.sequence}`, event));
+    return [...events.values()];
+}
+
+function toRecord(event: InteractionEvent, record: StudyDataRecordType, phase: string, completion?: CompletionPayload, choice?: string): StudyDataRecord {
+    const { family, exerciseType, exerciseId, studyId, flexibilityId, agentCondition, agentType, goalCondition, goalId } = event.exercise;
+    return {
+        study: ExerciseFamily[family],
+        userId: event.userId ?? "",
+        studyId: studyId ?? "",
+        entryKey: event.entryKey,
+        exerciseType: family === ExerciseFamily.ConceptualKnowledge ? CKExerciseType[exerciseType] : FlexibilityStudyExerciseType[exerciseType],
+        exerciseId,
+        flexibilityId: flexibilityId ?? "",
+        agentCondition: agentCondition !== undefined ? AgentCondition[agentCondition] : "",
+        agentType: agentType !== undefined ? AgentType[agentType] : "",
+        record: StudyDataRecordType[record],
+        phase,
+        time: completion?.time ?? "",
+        hints: completion?.hints ?? "",
+        errors: completion?.errors ?? "",
+        choice: choice ?? completion?.choice ?? "",
+        timestamp: new Date(event.timestamp).toISOString(),
+        goalCondition: goalCondition !== undefined ? GoalSettingCondition[goalCondition] : "",
+        goalId: goalId ?? "",
+        sessionId: event.sessionId ?? "",
+        sessionTime: event.sessionTime ?? ""
+    };
+}
+
+function decodePhase(event: InteractionEvent): string {
+    if (event.phase === undefined) {
+        return "";
+    }
+    return event.exercise.family === ExerciseFamily.ConceptualKnowledge ? getCKPhaseName(event.exercise.exerciseType as CKExerciseType, event.phase) : getFlexibilityPhaseName(event.phase);
+}
+
+// Choices of the elimination game are tracked as enum values, whereas flexibility choices are already tracked as text
+function decodeChoice(choice: string | EliminationChoice, family: ExerciseFamily): string {
+    return family === ExerciseFamily.ConceptualKnowledge && typeof choice === "number" ? EliminationChoice[choice] : String(choice);
+}
+
+function escapeCSVValue(value: string | number): string {
+    const text: string = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
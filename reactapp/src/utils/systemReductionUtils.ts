@@ -0,0 +1,87 @@
+import { Fraction } from "mathjs";
+import { TransformationStepError } from "@/types/flexibility/enums.ts";
+import { PlainExercise } from "@/types/flexibility/plainExercise.ts";
+import { Variable } from "@/types/flexibility/variable.ts";
+import { FlexibilityEquation } from "@/types/math/linearEquation.ts";
+import { math } from "@/types/math/math.ts";
+import { FlexibilityTerm } from "@/types/math/term.ts";
+import { combineLinearly, determineIsolations, normalizeSystemEquation } from "@utils/solverUtils.ts";
+
+export function containsVariable(equation: FlexibilityEquation, variable: string): boolean {
+    return [...equation.leftTerms, ...equation.rightTerms].some((term: FlexibilityTerm): boolean => term.variable === variable && !math.isZero(term.coefficient));
+}
+
+/**
+ * Returns the indices of the equations that are combined to eliminate the variable.
+ * Every equation containing the variable is combined with the first one that contains it, the other equations are kept as they are.
+ */
+export function getReductionPairs(system: FlexibilityEquation[], variable: string): [number, number][] {
+    const pivot: number = system.findIndex((equation: FlexibilityEquation) => containsVariable(equation, variable));
+    return system
+        .map((equation: FlexibilityEquation, index: number): [number, number] => [pivot, index])
+        .filter(([, index]: [number, number]): boolean => index > pivot && containsVariable(system[index], variable));
+}
+
+// The equation written by the student has to follow from the two equations, i.e. be a linear combination of them that no longer contains the variable
+export function evaluateReduction(first: FlexibilityEquation, second: FlexibilityEquation, step: FlexibilityEquation, variables: string[], variable: string): TransformationStepError | undefined {
+    const normalizedStep: Fraction[] = normalizeSystemEquation(step, variables);
+    if (!math.isZero(normalizedStep[variables.indexOf(variable)])) {
+        return TransformationStepError.VariableNotEliminated;
+    }
+
+    const factors: [Fraction, Fraction] | undefined = combineLinearly(normalizeSystemEquation(first, variables), normalizeSystemEquation(second, variables), normalizedStep);
+    if (factors === undefined || factors.every((factor: Fraction) => math.isZero(factor))) {
+        return TransformationStepError.NotCombined;
+    }
+    return undefined;
+}
+
+// Sample solution of a reduction, which multiplies each equation with the coefficient of the variable in the other one and subtracts them
+export function reduceEquations(first: FlexibilityEquation, second: FlexibilityEquation, variables: string[], variable: string): FlexibilityEquation {
+    const normalizedFirst: Fraction[] = normalizeSystemEquation(first, variables);
+    const normalizedSecond: Fraction[] = normalizeSystemEquation(second, variables);
+    const index: number = variables.indexOf(variable);
+
+    const reduced: Fraction[] = normalizedFirst.map((coefficient: Fraction, i: number) =>
+        math.subtract(math.multiply(coefficient, normalizedSecond[index]), math.multiply(normalizedSecond[i], normalizedFirst[index])) as Fraction
+    );
+    const leftTerms: FlexibilityTerm[] = variables
+        .map((name: string, i: number) => new FlexibilityTerm(reduced[i], name))
+        .filter((term: FlexibilityTerm) => !math.isZero(term.coefficient));
+    return new FlexibilityEquation(leftTerms.length > 0 ? leftTerms : [new FlexibilityTerm(math.fraction(0), null)], [new FlexibilityTerm(reduced[variables.length], null)]);
+}
+
+// Replaces each equation that contains the variable with the equation it was combined into, in the order of the system
+export function reduceSystem(system: FlexibilityEquation[], variable: string, reducedEquations: FlexibilityEquation[]): FlexibilityEquation[] {
+    const pairs: [number, number][] = getReductionPairs(system, variable);
+    return system.flatMap((equation: FlexibilityEquation, index: number): FlexibilityEquation[] => {
+        const pair: number = pairs.findIndex(([, second]: [number, number]) => second === index);
+        if (pair !== -1) {
+            return [reducedEquations[pair]];
+        }
+        return containsVariable(equation, variable) ? [] : [equation];
+    });
+}
+
+// Replaces the variable with its value, so that its terms become constants
+export function substituteVariable(equation: FlexibilityEquation, variable: Variable): FlexibilityEquation {
+    const value: Fraction = math.fraction(variable.value.value);
+    const substitute = (term: FlexibilityTerm): FlexibilityTerm => (term.variable === variable.name ? new FlexibilityTerm(math.multiply(term.coefficient, value) as Fraction, null) : term);
+    return new FlexibilityEquation(equation.leftTerms.map(substitute), equation.rightTerms.map(substitute));
+}
+
+// The system of two equations that remains after all reductions, on which the methods for two equations are applied
+export function createReducedExercise(exercise: PlainExercise, system: FlexibilityEquation[], variables: Variable[]): PlainExercise {
+    const [firstVariable, secondVariable] = variables;
+    return new PlainExercise(
+        exercise.id,
+        system[0],
+        system[1],
+        determineIsolations(system[0], firstVariable.name, secondVariable.name)[0],
+        determineIsolations(system[1], firstVariable.name, secondVariable.name)[0],
+        firstVariable,
+        secondVariable,
+        exercise.agentMessageForFirstSolution,
+        exercise.agentMessageForSecondSolution
+    );
+}
@@ -0,0 +1,118 @@
+import { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import { Method } from "@/types/flexibility/enums.ts";
+import { CKExerciseProgress, FlexibilityExerciseProgress, PhaseProgress, StudentProgress } from "@/types/studies/classProgress.ts";
+import { CKExerciseType, FlexibilityExerciseChoicePhase, FlexibilityExercisePhase, FlexibilityStudyExerciseType, StudyType, UserRole } from "@/types/studies/enums.ts";
+import { IUser } from "@/types/studies/user.ts";
+
+export const MOCK_TEACHER_USERNAME: string = "teacher";
+const MOCK_CLASS_ID: number = 1;
+
+const CLASS_PROGRESS_URL: RegExp = /^\/?teacher\/classes\/(\d+)\/students$/;
+const STUDENT_PROGRESS_URL: RegExp = /^\/?teacher\/classes\/(\d+)\/students\/(\d+)$/;
+const LOGIN_URL: RegExp = /^\/?user\/authenticate$/;
+
+/**
+ * Answers the requests of the teacher dashboard locally, so that it can be used without a backend providing the teacher API.
+ * Logging in as "teacher" with any password returns a teacher of the mocked class, all other requests are sent to the backend as usual.
+ */
+export function mockTeacherApi(instance: AxiosInstance): void {
+    instance.interceptors.request.use((config: InternalAxiosRequestConfig): InternalAxiosRequestConfig => {
+        const response: [number, unknown] | undefined = resolveMockRequest(config);
+        if (response !== undefined) {
+            config.adapter = (): Promise<AxiosResponse> => {
+                const [status, data] = response;
+                const axiosResponse: AxiosResponse = { data, status, statusText: status === 200 ? "OK" : "Not Found", headers: {}, config };
+                if (status !== 200) {
+                    return Promise.reject(new AxiosError(`Request failed with status code ${status}`, AxiosError.ERR_BAD_REQUEST, config, undefined, axiosResponse));
+                }
+                return Promise.resolve(axiosResponse);
+            };
+        }
+        return config;
+    });
+}
+
+function resolveMockRequest(config: InternalAxiosRequestConfig): [number, unknown] | undefined {
+    const url: string = config.url ?? "";
+
+    if (LOGIN_URL.test(url)) {
+        return config.data?.username === MOCK_TEACHER_USERNAME ? [200, MOCK_TEACHER] : undefined;
+    }
+
+    const studentMatch: RegExpMatchArray | null = url.match(STUDENT_PROGRESS_URL);
+    if (studentMatch !== null) {
+        const student: StudentProgress | undefined = Number(studentMatch[1]) === MOCK_CLASS_ID ? MOCK_STUDENTS.find((entry: StudentProgress): boolean => entry.id === Number(studentMatch[2])) : undefined;
+        return student !== undefined ? [200, student] : [404, null];
+    }
+
+    const classMatch: RegExpMatchArray | null = url.match(CLASS_PROGRESS_URL);
+    if (classMatch !== null) {
+        return Number(classMatch[1]) === MOCK_CLASS_ID ? [200, MOCK_STUDENTS] : [404, null];
+    }
+    return undefined;
+}
+
+const MOCK_TEACHER: IUser = {
+    id: 0,
+    username: MOCK_TEACHER_USERNAME,
+    studyType: StudyType.FlexibilityStudy,
+    studyId: MOCK_CLASS_ID,
+    role: UserRole.Teacher,
+    token: "mock-token"
+};
+
+// Phases are given as [phase, hints, errors], the time is derived from the mistakes to keep the data plausible
+function phases(...entries: [number, number, number][]): PhaseProgress[] {
+    return entries.map(([phase, hints, errors]) => ({ phase, time: 45 + 30 * (hints + errors), hints, errors }));
+}
+
+function ckExercise(exerciseType: CKExerciseType, exerciseId: number, completed: boolean, ...entries: [number, number, number][]): CKExerciseProgress {
+    return { exerciseType, exerciseId, completed, phases: phases(...entries) };
+}
+
+function efficiencyExercise(flexibilityId: number, selectedMethod: Method, errors: number): FlexibilityExerciseProgress {
+    return {
+        flexibilityId,
+        exerciseType: FlexibilityStudyExerciseType.Efficiency,
+        completed: true,
+        phases: phases([FlexibilityExercisePhase.EfficiencySelection, 0, 0], [FlexibilityExercisePhase.Transformation, 0, errors], [FlexibilityExercisePhase.FirstSolution, 0, 0]),
+        selectedMethod
+    };
+}
+
+const MOCK_STUDENTS: StudentProgress[] = [
+    {
+        id: 1,
+        username: "student-01",
+        ckExercises: [ckExercise(CKExerciseType.Equalization, 1, true, [0, 0, 1], [1, 1, 0], [2, 0, 0], [3, 0, 0]), ckExercise(CKExerciseType.Elimination, 1, true, [0, 1, 2])],
+        flexibilityExercises: [efficiencyExercise(1, Method.Substitution, 0), efficiencyExercise(2, Method.Elimination, 1)],
+        choices: [
+            { flexibilityId: 1, phase: FlexibilityExerciseChoicePhase.SelfExplanationChoice, choice: "isolated variable" },
+            { flexibilityId: 2, phase: FlexibilityExerciseChoicePhase.FirstSolutionChoice, choice: "Yes" }
+        ]
+    },
+    {
+        id: 2,
+        username: "student-02",
+        ckExercises: [ckExercise(CKExerciseType.Equalization, 1, true, [0, 2, 3], [1, 1, 1], [2, 0, 1], [3, 1, 0]), ckExercise(CKExerciseType.Substitution, 1, false, [0, 1, 1])],
+        flexibilityExercises: [efficiencyExercise(1, Method.Equalization, 2)],
+        choices: [{ flexibilityId: 1, phase: FlexibilityExerciseChoicePhase.SelfExplanationChoice, choice: "same coefficients" }]
+    },
+    {
+        id: 3,
+        username: "student-03",
+        ckExercises: [ckExercise(CKExerciseType.Bartering, 1, true, [0, 0, 0]), ckExercise(CKExerciseType.Substitution, 1, true, [0, 0, 0], [1, 0, 1], [2, 0, 0], [3, 0, 0])],
+        flexibilityExercises: [efficiencyExercise(1, Method.Substitution, 0), efficiencyExercise(2, Method.Substitution, 0)],
+        choices: [
+            { flexibilityId: 1, phase: FlexibilityExerciseChoicePhase.SelfExplanationChoice, choice: "isolated variable" },
+            { flexibilityId: 2, phase: FlexibilityExerciseChoicePhase.SelfExplanationChoice, choice: "isolated variable" }
+        ]
+    },
+    {
+        id: 4,
+        username: "student-04",
+        ckExercises: [],
+        flexibilityExercises: [],
+        choices: []
+    }
+];
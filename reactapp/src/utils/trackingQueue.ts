@@ -0,0 +1,170 @@
+import { isAxiosError } from "axios";
+import axiosInstance from "@/types/shared/axiosInstance.ts";
+import { TrackingQueue, TrackingRequest } from "@/types/studies/trackingRequest.ts";
+
+const TRACKING_QUEUE_STORAGE_KEY: string = "tracking-queue";
+const INITIAL_RETRY_DELAY: number = 1000; // Milliseconds
+const MAX_RETRY_DELAY: number = 60000; // Milliseconds
+const MAX_QUEUE_LENGTH: number = 1000;
+const TRACKING_QUEUE_LOCK: string = "tracking-queue-flush";
+
+let isFlushing: boolean = false;
+// Users whose token was rejected, their requests are held back until they log in again
+const usersAwaitingLogin: Set<number> = new Set<number>();
+let failedAttempts: number = 0;
+let retryTimer: number | undefined;
+
+export function createEntryKey(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`;
+}
+
+/**
+ * Persists a tracking request and tries to send all queued requests in order.
+ * Requests that refer to an entry which has not been created by the server yet are held back until its id is known.
+ */
+export function enqueueTrackingRequest(request: TrackingRequest): void {
+    const queue: TrackingQueue = loadQueue();
+    if (queue.requests.some((queued: TrackingRequest): boolean => queued.requestId === request.requestId)) {
+        return;
+    }
+
+    queue.requests.push(request);
+    if (queue.requests.length > MAX_QUEUE_LENGTH) {
+        const dropped: TrackingRequest[] = queue.requests.splice(0, queue.requests.length - MAX_QUEUE_LENGTH);
+        console.warn(`Discarding ${dropped.length} tracking requests because the queue is full.`);
+    }
+    saveQueue(queue);
+    flushTrackingQueue();
+}
+
+/**
+ * Replaces the token of the queued requests of a user who logged in again and sends the requests that were held back.
+ */
+export function renewTrackingToken(userId: number, token: string): void {
+    const queue: TrackingQueue = loadQueue();
+    queue.requests = queue.requests.map((request: TrackingRequest): TrackingRequest => request.userId === userId ? { ...request, token } : request);
+    saveQueue(queue);
+
+    usersAwaitingLogin.delete(userId);
+    flushTrackingQueue();
+}
+
+/**
+ * Sends the queued requests in order. Only one tab at a time sends the queue, as the requests of all tabs share the same storage.
+ */
+export async function flushTrackingQueue(): Promise<void> {
+    if (isFlushing || !navigator.onLine) {
+        return;
+    }
+    isFlushing = true;
+    clearTimeout(retryTimer);
+    retryTimer = undefined;
+
+    try {
+        if (navigator.locks === undefined) {
+            await sendQueuedRequests();
+            return;
+        }
+        await navigator.locks.request(TRACKING_QUEUE_LOCK, { ifAvailable: true }, async (lock: Lock | null): Promise<void> => {
+            if (lock === null) {
+                // Another tab is sending the queue, check again later in case it finished before seeing the latest requests
+                scheduleRetry();
+                return;
+            }
+            await sendQueuedRequests();
+        });
+    } finally {
+        isFlushing = false;
+    }
+}
+
+async function sendQueuedRequests(): Promise<void> {
+    let queue: TrackingQueue = loadQueue();
+    let request: TrackingRequest | undefined;
+    while ((request = queue.requests.find((queued: TrackingRequest): boolean => !usersAwaitingLogin.has(queued.userId))) !== undefined) {
+        const entryId: number | undefined = queue.entries[request.entryKey];
+
+        // The entry of the request is always created by an earlier request, so a missing id means that its creation was rejected
+        if (!request.createsEntry && entryId === undefined) {
+            console.error(`Discarding tracking request ${request.url} because its entry does not exist.`);
+            queue = removeRequest(request);
+            continue;
+        }
+
+        try {
+            const response = await axiosInstance.request({
+                method: request.method,
+                url: request.url,
+                data: request.createsEntry ? request.data : { ...request.data, id: entryId },
+                headers: {
+                    Authorization: "Bearer " + request.token
+                }
+            });
+            queue = removeRequest(request, response.data);
+            failedAttempts = 0;
+        } catch (error) {
+            if (isUnauthorized(error)) {
+                console.warn(`Holding back tracking requests of user ${request.userId} until they log in again.`);
+                usersAwaitingLogin.add(request.userId);
+                continue;
+            }
+            if (isRejected(error)) {
+                console.error(error);
+                queue = removeRequest(request);
+                continue;
+            }
+
+            console.error(error);
+            scheduleRetry();
+            return;
+        }
+    }
+}
+
+function removeRequest(request: TrackingRequest, responseData?: number): TrackingQueue {
+    // Reload the queue, as further requests may have been enqueued while the request was pending
+    const queue: TrackingQueue = loadQueue();
+    queue.requests = queue.requests.filter((queued: TrackingRequest): boolean => queued.requestId !== request.requestId);
+
+    if (request.createsEntry && responseData !== undefined) {
+        queue.entries[request.entryKey] = responseData;
+    }
+    if (request.completesEntry) {
+        delete queue.entries[request.entryKey];
+    }
+
+    saveQueue(queue);
+    return queue;
+}
+
+function scheduleRetry(): void {
+    failedAttempts++;
+    const delay: number = Math.min(INITIAL_RETRY_DELAY * 2 ** (failedAttempts - 1), MAX_RETRY_DELAY);
+    retryTimer = setTimeout(flushTrackingQueue, delay);
+}
+
+// An expired or invalid token is accepted again once the user has logged in with a new one
+function isUnauthorized(error: unknown): boolean {
+    return isAxiosError(error) && (error.response?.status === 401 || error.response?.status === 403);
+}
+
+// Client errors other than timeouts and rate limiting will fail again on every retry and would block the queue forever
+function isRejected(error: unknown): boolean {
+    if (!isAxiosError(error) || error.response === undefined) {
+        return false;
+    }
+    const status: number = error.response.status;
+    return status >= 400 && status < 500 && status !== 408 && status !== 429;
+}
+
+function loadQueue(): TrackingQueue {
+    const jsonString: string | null = localStorage.getItem(TRACKING_QUEUE_STORAGE_KEY);
+    if (jsonString === null) {
+        return { requests: [], entries: {} };
+    }
+    return JSON.parse(jsonString) as TrackingQueue;
+}
+
+function saveQueue(queue: TrackingQueue): void {
+    localStorage.setItem(TRACKING_QUEUE_STORAGE_KEY, JSON.stringify(queue));
+}
@@ -0,0 +1,116 @@
+import { Fraction } from "mathjs";
+import { IsolatedIn, TransformationStepError } from "@/types/flexibility/enums.ts";
+import { FlexibilityTranslations } from "@/types/flexibility/flexibilityTranslations.ts";
+import { FlexibilityEquation } from "@/types/math/linearEquation.ts";
+import { math } from "@/types/math/math.ts";
+import { FlexibilityTerm } from "@/types/math/term.ts";
+import { determineIsolations, NormalizedEquation, normalizeEquation } from "@utils/solverUtils.ts";
+
+export function getTransformationStepErrorMessage(error: TransformationStepError): string {
+    switch (error) {
+        case TransformationStepError.InvalidInput:
+            return FlexibilityTranslations.STEP_ERROR_INVALID;
+        case TransformationStepError.SignError:
+            return FlexibilityTranslations.STEP_ERROR_SIGN;
+        case TransformationStepError.OneSideOnly:
+            return FlexibilityTranslations.STEP_ERROR_ONE_SIDE;
+        case TransformationStepError.DroppedTerm:
+            return FlexibilityTranslations.STEP_ERROR_DROPPED_TERM;
+        case TransformationStepError.NotEquivalent:
+            return FlexibilityTranslations.STEP_ERROR_NOT_EQUIVALENT;
+        case TransformationStepError.VariableNotEliminated:
+            return FlexibilityTranslations.STEP_ERROR_NOT_ELIMINATED;
+        case TransformationStepError.NotCombined:
+            return FlexibilityTranslations.STEP_ERROR_NOT_COMBINED;
+    }
+}
+
+/**
+ * Checks whether a step is an equivalent transformation of the previous equation, i.e. a non-zero multiple of it in the normal form.
+ * Otherwise the error that most likely explains the difference is returned, starting with the most specific one.
+ */
+export function evaluateTransformationStep(previous: FlexibilityEquation, step: FlexibilityEquation, firstVariable: string, secondVariable: string): TransformationStepError | undefined {
+    const previousNormalized: NormalizedEquation = normalizeEquation(previous, firstVariable, secondVariable);
+    const stepNormalized: NormalizedEquation = normalizeEquation(step, firstVariable, secondVariable);
+    if (isMultiple(previousNormalized, stepNormalized)) {
+        return undefined;
+    }
+
+    const matchesStep = (candidate: FlexibilityEquation): boolean => isMultiple(normalizeEquation(candidate, firstVariable, secondVariable), stepNormalized);
+    // A term was moved to the other side without changing its sign, which is the same as flipping its sign on its side
+    if (modifyEachTerm(previous, (term: FlexibilityTerm) => [new FlexibilityTerm(math.unaryMinus(term.coefficient), term.variable)]).some(matchesStep)) {
+        return TransformationStepError.SignError;
+    }
+    if (modifyEachTerm(previous, () => []).some(matchesStep)) {
+        return TransformationStepError.DroppedTerm;
+    }
+
+    if (isOneSideOnly(previous, step, firstVariable, secondVariable)) {
+        return TransformationStepError.OneSideOnly;
+    }
+    return TransformationStepError.NotEquivalent;
+}
+
+// Whether one side of the step consists of the variable alone, as it would after the one-click transformation
+export function isVariableIsolated(step: FlexibilityEquation, isolatedIn: IsolatedIn, firstVariable: string, secondVariable: string): boolean {
+    return determineIsolations(step, firstVariable, secondVariable).includes(isolatedIn);
+}
+
+// Both equations are non-zero and all of their 2x2 minors vanish, so one is a non-zero multiple of the other
+function isMultiple(first: NormalizedEquation, second: NormalizedEquation): boolean {
+    if (isZeroEquation(first) || isZeroEquation(second)) {
+        return false;
+    }
+    return first.every((coefficient: Fraction, i: number) =>
+        first.every((otherCoefficient: Fraction, j: number) => math.equal(math.multiply(coefficient, second[j]), math.multiply(otherCoefficient, second[i])) as boolean)
+    );
+}
+
+/**
+ * Whether one side of the step is a side of the previous equation as it was and the other side is the other side multiplied or divided by a whole number,
+ * e.g. only one side was divided by the coefficient of the variable. Other differences, like a miscalculated constant, are not explained by this.
+ */
+function isOneSideOnly(previous: FlexibilityEquation, step: FlexibilityEquation, firstVariable: string, secondVariable: string): boolean {
+    const normalizeSide = (terms: FlexibilityTerm[]): NormalizedEquation => normalizeEquation(new FlexibilityEquation(terms, []), firstVariable, secondVariable);
+    const previousSides: [NormalizedEquation, NormalizedEquation][] = [
+        [normalizeSide(previous.leftTerms), normalizeSide(previous.rightTerms)],
+        [normalizeSide(previous.rightTerms), normalizeSide(previous.leftTerms)]
+    ];
+    const stepSides: [NormalizedEquation, NormalizedEquation][] = [
+        [normalizeSide(step.leftTerms), normalizeSide(step.rightTerms)],
+        [normalizeSide(step.rightTerms), normalizeSide(step.leftTerms)]
+    ];
+    return previousSides.some(([previousKept, previousScaled]: [NormalizedEquation, NormalizedEquation]) =>
+        stepSides.some(([stepKept, stepScaled]: [NormalizedEquation, NormalizedEquation]) => isSameSide(previousKept, stepKept) && isScaledSide(previousScaled, stepScaled))
+    );
+}
+
+function isSameSide(first: NormalizedEquation, second: NormalizedEquation): boolean {
+    return first.every((coefficient: Fraction, i: number) => math.equal(coefficient, second[i]) as boolean);
+}
+
+// The side is multiplied with a whole number or its reciprocal other than one
+function isScaledSide(side: NormalizedEquation, scaled: NormalizedEquation): boolean {
+    const index: number = side.findIndex((coefficient: Fraction) => !math.isZero(coefficient));
+    if (index === -1) {
+        return false;
+    }
+    const factor: Fraction = math.divide(scaled[index], side[index]) as Fraction;
+    if (math.isZero(factor) || math.equal(factor, 1) || (factor.n !== 1 && factor.d !== 1)) {
+        return false;
+    }
+    return side.every((coefficient: Fraction, i: number) => math.equal(math.multiply(coefficient, factor), scaled[i]) as boolean);
+}
+
+function isZeroEquation(equation: NormalizedEquation): boolean {
+    return equation.every((coefficient: Fraction) => math.isZero(coefficient));
+}
+
+// Returns one equation per term of the equation, in which only that term is replaced by the given terms
+function modifyEachTerm(equation: FlexibilityEquation, modify: (term: FlexibilityTerm) => FlexibilityTerm[]): FlexibilityEquation[] {
+    const replaceTerm = (terms: FlexibilityTerm[], index: number): FlexibilityTerm[] => [...terms.slice(0, index), ...modify(terms[index]), ...terms.slice(index + 1)];
+    return [
+        ...equation.leftTerms.map((_: FlexibilityTerm, index: number) => new FlexibilityEquation(replaceTerm(equation.leftTerms, index), equation.rightTerms)),
+        ...equation.rightTerms.map((_: FlexibilityTerm, index: number) => new FlexibilityEquation(equation.leftTerms, replaceTerm(equation.rightTerms, index)))
+    ];
+}
@@ -74,6 +74,10 @@ export function formatNumber(input: number): string {
     }
 }
 
+export function formatFraction(fraction: Fraction): string {
+    return math.format(fraction, { fraction: "ratio" });
+}
+
 export function increaseTableEntryHeight(row: Row, showImages: boolean): RowHeight {
     if (!showImages) {
         return RowHeight.Single;
@@ -235,4 +239,13 @@ export function navigateToNextExercise(studyId: number, currentExerciseId: numbe
     } else {
         navigate(Paths.FlexibilityStudyEndPath);
     }
+}
+
+export function downloadFile(content: string, fileName: string, mimeType: string): void {
+    const url: string = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link: HTMLAnchorElement = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
 }
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { TranslationNamespaces } from "@/i18n.ts";
+import { ReactElement } from "react";
+import { useTranslation } from "react-i18next";
+import { GeneralTranslations } from "@/types/shared/generalTranslations.ts";
+import { GoalRecord, GoalStore } from "@/types/shared/goals.ts";
+import { getGoalHistory } from "@utils/goalStore.ts";
+import ViewLayout from "@components/views/ViewLayout.tsx";
+import useGoalStore from "@hooks/useGoalStore.ts";
+import "@styles/views/goal-history.scss";
+
+const MILLISECONDS_PER_MINUTE: number = 60000;
+
+export default function GoalHistoryView(): ReactElement {
+    const { t } = useTranslation(TranslationNamespaces.General);
+    const goalStore: GoalStore = useGoalStore();
+    const history: GoalRecord[] = getGoalHistory(goalStore);
+
+    return (
+        <ViewLayout title={GeneralTranslations.GOAL_HISTORY}>
+            <div className={"goal-history"}>
+                {history.length === 0 ? (
+                    <p>{t(GeneralTranslations.GOAL_HISTORY_EMPTY)}</p>
+                ) : (
+                    <table className={"goal-history__table"}>
+                        <thead>
+                            <tr>
+                                <th>{t(GeneralTranslations.GOAL_HISTORY_GOAL)}</th>
+                                <th>{t(GeneralTranslations.GOAL_HISTORY_METHOD)}</th>
+                                <th>{t(GeneralTranslations.GOAL_HISTORY_STARTED)}</th>
+                                <th>{t(GeneralTranslations.GOAL_HISTORY_DURATION)}</th>
+                                <th>{t(GeneralTranslations.GOAL_HISTORY_ATTEMPTS)}</th>
+                                <th>{t(GeneralTranslations.GOAL_HISTORY_STATUS)}</th>
+                                <th>{t(GeneralTranslations.GOAL_HISTORY_STRATEGY)}</th>
+                                <th>{t(GeneralTranslations.GOAL_HISTORY_REFLECTION)}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {[...history].reverse().map((record: GoalRecord) => (
+                                <tr key={record.startTime}>
+                                    <td>{t(record.goalId)}</td>
+                                    <td>{t(GeneralTranslations.getGoalMethodTranslation(record.method))}</td>
+                                    <td>{new Date(record.startTime).toLocaleString()}</td>
+                                    <td>{t(GeneralTranslations.GOAL_DURATION_MINUTES, { count: Math.round((record.endTime - record.startTime) / MILLISECONDS_PER_MINUTE) })}</td>
+                                    <td>{record.attempts}</td>
+                                    <td>{t(getGoalStatus(record))}</td>
+                                    <td>
+                                        {record.initialMethod === record.method
+                                            ? t(GeneralTranslations.GOAL_STRATEGY_KEPT)
+                                            : t(GeneralTranslations.GOAL_STRATEGY_CHANGED, { method: t(GeneralTranslations.getGoalMethodTranslation(record.initialMethod)) })}
+                                    </td>
+                                    <td>
+                                        {record.reflection !== undefined ? (
+                                            <>
+                                                {t(GeneralTranslations.getReflectionTranslation(record.reflection.difficulty))}
+                                                {record.reflection.note !== "" && <p className={"goal-history__note"}>{record.reflection.note}</p>}
+                                            </>
+                                        ) : (
+                                            "-"
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        </ViewLayout>
+    );
+
+    function getGoalStatus(record: GoalRecord): string {
+        if (record.completed) {
+            return GeneralTranslations.GOAL_COMPLETED;
+        }
+        return record.startTime === goalStore.activeGoal?.startTime ? GeneralTranslations.GOAL_IN_PROGRESS : GeneralTranslations.GOAL_ABANDONED;
+    }
+}
@@ -2,9 +2,13 @@ import { TranslationNamespaces } from "@/i18n.ts";
 import { ReactElement } from "react";
 import { useTranslation } from "react-i18next";
 import { useNavigate } from "react-router-dom";
+import { ExerciseModule } from "@/types/shared/exerciseOutcome.ts";
 import { GeneralTranslations } from "@/types/shared/generalTranslations.ts";
+import { ModuleProgress } from "@/types/shared/progress.ts";
+import BadgeShelf from "@components/views/BadgeShelf.tsx";
 import LanguageSwitch from "@components/views/LanguageSwitch.tsx";
 import NavLink from "@components/views/NavLink.tsx";
+import useModuleProgress from "@hooks/useModuleProgress.ts";
 import { Paths } from "@routes/paths.ts";
 import Logo from "@images/home/logo640.png";
 import "@styles/views/homepage.scss";
@@ -12,6 +16,15 @@ import "@styles/views/homepage.scss";
 export default function Home(): ReactElement {
     const { t } = useTranslation(TranslationNamespaces.General);
     const navigate = useNavigate();
+    const moduleProgress: ModuleProgress[] = useModuleProgress();
+
+    function renderProgress(module: ExerciseModule): ReactElement | null {
+        const progress: ModuleProgress | undefined = moduleProgress.find((entry: ModuleProgress): boolean => entry.module === module);
+        if (progress === undefined || progress.completed === 0) {
+            return null;
+        }
+        return <span className={"homepage__progress"}>{t(GeneralTranslations.PROGRESS_PERCENT, { percent: progress.percent })}</span>;
+    }
 
     return (
         <div className={"homepage"}>
@@ -31,18 +44,23 @@ export default function Home(): ReactElement {
                 <div className={"homepage__contents-right"}>
                     <div className={"homepage__navigation-item equalization-item"} onClick={() => navigate(Paths.EqualizationPath)}>
                         <p> {t(GeneralTranslations.EQUALIZATION, { ns: TranslationNamespaces.General })}</p>
+                        {renderProgress(ExerciseModule.Equalization)}
                     </div>
                     <div className={"homepage__navigation-item substitution-item"} onClick={() => navigate(Paths.SubstitutionPath)}>
                         <p> {t(GeneralTranslations.SUBSTITUTION, { ns: TranslationNamespaces.General })}</p>
+                        {renderProgress(ExerciseModule.Substitution)}
                     </div>
                     <div className={"homepage__navigation-item elimination-item"} onClick={() => navigate(Paths.EliminationPath)}>
                         <p> {t(GeneralTranslations.ELIMINATION, { ns: TranslationNamespaces.General })}</p>
+                        {renderProgress(ExerciseModule.Elimination)}
                     </div>
                     <div className={"homepage__navigation-item flexibility-item"} onClick={() => navigate(Paths.FlexibilityPath)}>
                         <p> {t(GeneralTranslations.FLEXIBILITY_TRAINING, { ns: TranslationNamespaces.General })}</p>
+                        {renderProgress(ExerciseModule.Flexibility)}
                     </div>
                 </div>
             </div>
+            <BadgeShelf />
         </div>
     );
 }
@@ -0,0 +1,102 @@
+import { TranslationNamespaces } from "@/i18n.ts";
+import { ChangeEvent, ReactElement, useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useNavigate } from "react-router-dom";
+import { GeneralTranslations } from "@/types/shared/generalTranslations.ts";
+import { ExerciseFamily, InteractionEvent, InteractionEventType } from "@/types/studies/interactionEvent.ts";
+import ViewLayout from "@components/views/ViewLayout.tsx";
+import { Paths } from "@routes/paths.ts";
+import { clearInteractionLog, exportInteractionLog, getInteractionLog, subscribeToInteractions } from "@utils/interactionLog.ts";
+import { getReplayableEntryKeys } from "@utils/sessionReplay.ts";
+import "@styles/views/interaction-log.scss";
+
+export default function InteractionLogView(): ReactElement {
+    const { t } = useTranslation(TranslationNamespaces.General);
+    const navigate = useNavigate();
+    const [events, setEvents] = useState<InteractionEvent[]>(getInteractionLog);
+    const replayableEntries: Set<string> = useMemo(() => getReplayableEntryKeys(events), [events]);
+
+    useEffect(() => {
+        return subscribeToInteractions((event: InteractionEvent) => setEvents((previousEvents: InteractionEvent[]) => [...previousEvents, event]));
+    }, []);
+
+    return (
+        <ViewLayout title={GeneralTranslations.INTERACTION_LOG}>
+            <div className={"interaction-log"}>
+                <div className={"interaction-log__actions"}>
+                    <button className={"button primary-button"} disabled={events.length === 0} onClick={exportInteractionLog}>
+                        {t(GeneralTranslations.BUTTON_EXPORT)}
+                    </button>
+                    <label className={"button primary-button"}>
+                        {t(GeneralTranslations.BUTTON_IMPORT)}
+                        <input type={"file"} accept={".json"} hidden onChange={importLog} />
+                    </label>
+                    <button className={"button dark-button"} disabled={events.length === 0}
+                            onClick={(): void => {
+                                clearInteractionLog();
+                                setEvents([]);
+                            }}
+                    >
+                        {t(GeneralTranslations.BUTTON_CLEAR)}
+                    </button>
+                    <button className={"button primary-button"} onClick={() => navigate(Paths.StudyDataExportPath)}>
+                        {t(GeneralTranslations.STUDY_DATA_EXPORT)}
+                    </button>
+                </div>
+                {events.length === 0 ? (
+                    <p>{t(GeneralTranslations.INTERACTION_LOG_EMPTY)}</p>
+                ) : (
+                    <table className={"interaction-log__table"}>
+                        <thead>
+                            <tr>
+                                <th>Time</th>
+                                <th>Exercise</th>
+                                <th>Phase</th>
+                                <th>Event</th>
+                                <th>Payload</th>
+                                <th />
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {[...events].reverse().map((event: InteractionEvent) => (
+                                <tr key={`${event.entryKey}-${event.sequence}`}>
+                                    <td>{new Date(event.timestamp).toLocaleTimeString()}</td>
+                                    <td>{`${ExerciseFamily[event.exercise.family]} #${event.exercise.exerciseId}`}</td>
+                                    <td>{event.phase ?? "-"}</td>
+                                    <td>{InteractionEventType[event.type]}</td>
+                                    <td className={"interaction-log__payload"}>{JSON.stringify(event.payload)}</td>
+                                    <td>
+                                        {event.type === InteractionEventType.ExerciseStarted && replayableEntries.has(event.entryKey) && (
+                                            <button className={"text-button--blue"}
+                                                    onClick={() => navigate(Paths.InteractionLogPath + Paths.ReplaySubPath + event.entryKey, { state: { events } })}
+                                            >
+                                                {t(GeneralTranslations.BUTTON_REPLAY)}
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        </ViewLayout>
+    );
+
+    // Exported logs, e.g. of other devices, are only displayed and never merged into the local log
+    function importLog(event: ChangeEvent<HTMLInputElement>): void {
+        const file: File | undefined = event.target.files?.[0];
+        if (file === undefined) {
+            return;
+        }
+
+        file.text().then((content: string): void => {
+            try {
+                setEvents(JSON.parse(content) as InteractionEvent[]);
+            } catch (error) {
+                console.error(`Could not import interaction log ${file.name}.`);
+            }
+        });
+        event.target.value = "";
+    }
+}
@@ -0,0 +1,91 @@
+import { TranslationNamespaces } from "@/i18n.ts";
+import { faBackwardStep, faForwardStep, faPause, faPlay } from "@fortawesome/free-solid-svg-icons";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { ReactElement, useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useLocation, useParams } from "react-router-dom";
+import { GeneralTranslations } from "@/types/shared/generalTranslations.ts";
+import { CKExerciseType } from "@/types/studies/enums.ts";
+import { InteractionEvent } from "@/types/studies/interactionEvent.ts";
+import { EliminationSnapshot, EqualizationSnapshot, ReplayFrame } from "@/types/studies/sessionReplay.ts";
+import EliminationReplay from "@components/elimination/EliminationReplay.tsx";
+import EqualizationReplay from "@components/equalization/EqualizationReplay.tsx";
+import ViewLayout from "@components/views/ViewLayout.tsx";
+import { getInteractionLog } from "@utils/interactionLog.ts";
+import { buildReplay, describeInteraction } from "@utils/sessionReplay.ts";
+import "@styles/views/session-replay.scss";
+
+const REPLAY_INTERVAL: number = 1000; // Milliseconds
+
+export default function SessionReplayView(): ReactElement {
+    const { t } = useTranslation(TranslationNamespaces.General);
+    const { entryKey } = useParams();
+    const location = useLocation();
+
+    // Imported logs are handed over by the interaction log view, otherwise the events recorded on this device are replayed
+    const frames: ReplayFrame[] = useMemo(() => buildReplay(location.state?.events ?? getInteractionLog(), entryKey as string), [location.state, entryKey]);
+    const [currentFrame, setCurrentFrame] = useState<number>(0);
+    const [isPlaying, setIsPlaying] = useState<boolean>(false);
+
+    useEffect(() => {
+        if (!isPlaying) {
+            return undefined;
+        }
+        if (currentFrame >= frames.length - 1) {
+            setIsPlaying(false);
+            return undefined;
+        }
+
+        const timer: number = window.setTimeout(() => setCurrentFrame(currentFrame + 1), REPLAY_INTERVAL);
+        return (): void => clearTimeout(timer);
+    }, [isPlaying, currentFrame, frames.length]);
+
+    if (frames.length === 0) {
+        return (
+            <ViewLayout title={GeneralTranslations.SESSION_REPLAY}>
+                <p>{t(GeneralTranslations.SESSION_REPLAY_EMPTY)}</p>
+            </ViewLayout>
+        );
+    }
+
+    const frame: ReplayFrame = frames[currentFrame];
+    return (
+        <ViewLayout title={GeneralTranslations.SESSION_REPLAY}>
+            <div className={"session-replay"}>
+                <p>{t(GeneralTranslations.SESSION_REPLAY_STATE, { state: currentFrame + 1, count: frames.length })}</p>
+                <div className={"session-replay__frame"}>
+                    {frame.snapshot.exercise.exerciseType === CKExerciseType.Equalization ? (
+                        <EqualizationReplay snapshot={frame.snapshot.payload.state as EqualizationSnapshot} />
+                    ) : (
+                        <EliminationReplay snapshot={frame.snapshot.payload.state as EliminationSnapshot} />
+                    )}
+                </div>
+                <ul className={"session-replay__events"}>
+                    {frame.events.map((event: InteractionEvent) => (
+                        <li key={event.sequence}>{describeInteraction(event)}</li>
+                    ))}
+                </ul>
+                <div className={"session-replay__controls"}>
+                    <button className={"button primary-button"} disabled={currentFrame === 0} onClick={() => setCurrentFrame(currentFrame - 1)}>
+                        <FontAwesomeIcon icon={faBackwardStep} />
+                    </button>
+                    <button className={"button primary-button"}
+                            onClick={(): void => {
+                                // Playing from the last state starts the replay again
+                                if (!isPlaying && currentFrame === frames.length - 1) {
+                                    setCurrentFrame(0);
+                                }
+                                setIsPlaying(!isPlaying);
+                            }}
+                    >
+                        <FontAwesomeIcon icon={isPlaying ? faPause : faPlay} />
+                    </button>
+                    <button className={"button primary-button"} disabled={currentFrame === frames.length - 1} onClick={() => setCurrentFrame(currentFrame + 1)}>
+                        <FontAwesomeIcon icon={faForwardStep} />
+                    </button>
+                    <input type={"range"} min={0} max={frames.length - 1} value={currentFrame} onChange={(event) => setCurrentFrame(Number(event.target.value))} />
+                </div>
+            </div>
+        </ViewLayout>
+    );
+}
@@ -0,0 +1,77 @@
+import { TranslationNamespaces } from "@/i18n.ts";
+import { ChangeEvent, ReactElement, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { GeneralTranslations } from "@/types/shared/generalTranslations.ts";
+import { InteractionEvent } from "@/types/studies/interactionEvent.ts";
+import { StudyDataRecord } from "@/types/studies/studyDataExport.ts";
+import ViewLayout from "@components/views/ViewLayout.tsx";
+import { MAX_LOG_LENGTH, getInteractionLog } from "@utils/interactionLog.ts";
+import { STUDY_DATA_COLUMNS, exportStudyDataAsCSV, exportStudyDataAsJSON, mergeInteractionLogs, toStudyDataRecords } from "@utils/studyDataExport.ts";
+import "@styles/views/interaction-log.scss";
+
+export default function StudyDataExportView(): ReactElement {
+    const { t } = useTranslation(TranslationNamespaces.General);
+    const [events, setEvents] = useState<InteractionEvent[]>(getInteractionLog);
+    const records: StudyDataRecord[] = useMemo(() => toStudyDataRecords(events), [events]);
+
+    return (
+        <ViewLayout title={GeneralTranslations.STUDY_DATA_EXPORT}>
+            <div className={"interaction-log"}>
+                <div className={"interaction-log__actions"}>
+                    <p>{t(GeneralTranslations.STUDY_DATA_RECORDS, { count: records.length })}</p>
+                    <label className={"button primary-button"}>
+                        {t(GeneralTranslations.BUTTON_IMPORT)}
+                        <input type={"file"} accept={".json"} multiple hidden onChange={importLogs} />
+                    </label>
+                    <button className={"button primary-button"} disabled={records.length === 0} onClick={() => exportStudyDataAsCSV(records)}>
+                        {t(GeneralTranslations.BUTTON_EXPORT_CSV)}
+                    </button>
+                    <button className={"button primary-button"} disabled={records.length === 0} onClick={() => exportStudyDataAsJSON(records)}>
+                        {t(GeneralTranslations.BUTTON_EXPORT_JSON)}
+                    </button>
+                </div>
+                <p>{t(GeneralTranslations.STUDY_DATA_LOCAL, { count: MAX_LOG_LENGTH })}</p>
+                {records.length === 0 ? (
+                    <p>{t(GeneralTranslations.STUDY_DATA_EMPTY)}</p>
+                ) : (
+                    <table className={"interaction-log__table"}>
+                        <thead>
+                            <tr>
+                                {STUDY_DATA_COLUMNS.map((column: keyof StudyDataRecord) => (
+                                    <th key={column}>{column}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {records.map((record: StudyDataRecord, index: number) => (
+                                <tr key={index}>
+                                    {STUDY_DATA_COLUMNS.map((column: keyof StudyDataRecord) => (
+                                        <td key={column}>{record[column]}</td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        </ViewLayout>
+    );
+
+    // Logs exported on the devices used in a study are merged with the local log, so that the data of all participants is exported at once
+    function importLogs(event: ChangeEvent<HTMLInputElement>): void {
+        const files: File[] = Array.from(event.target.files ?? []);
+        Promise.all(
+            files.map((file: File) =>
+                file.text().then((content: string): InteractionEvent[] => {
+                    try {
+                        return JSON.parse(content) as InteractionEvent[];
+                    } catch (error) {
+                        console.error(`Could not import interaction log ${file.name}.`);
+                        return [];
+                    }
+                })
+            )
+        ).then((logs: InteractionEvent[][]) => setEvents((previousEvents: InteractionEvent[]) => mergeInteractionLogs(previousEvents, ...logs)));
+        event.target.value = "";
+    }
+}
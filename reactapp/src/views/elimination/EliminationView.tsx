@@ -1,11 +1,14 @@
 import { TranslationNamespaces } from "@/i18n.ts";
 import React, { ReactElement } from "react";
 import { useTranslation } from "react-i18next";
+import { ExerciseModule } from "@/types/shared/exerciseOutcome.ts";
 import { GeneralTranslations } from "@/types/shared/generalTranslations.ts";
 import CollapsibleExerciseList from "@components/views/CollapsibleExerciseList.tsx";
 import ViewLayout from "@components/views/ViewLayout.tsx";
+import ModuleProgressSummary from "@components/views/ModuleProgressSummary.tsx";
 import { Paths, getPathToExercises } from "@routes/paths.ts";
 import { getCollapsibleState, getCompletedCKExercises, setCollapsibleState } from "@utils/storageUtils.ts";
+import { CKExerciseType } from "@/types/studies/enums.ts";
 
 export default function EliminationView(): ReactElement {
     const { t } = useTranslation(TranslationNamespaces.General);
@@ -16,7 +19,8 @@ export default function EliminationView(): ReactElement {
     const contents: ReactElement = (
         <React.Fragment>
             <p>{t(GeneralTranslations.ELIMINATION_INFO)}</p>
-            <CollapsibleExerciseList text={t(GeneralTranslations.HEADER_ELIMINATION_GAME)} route={getPathToExercises(Paths.EliminationGamePath)} navigateTo={Paths.EliminationGamePath} completedExercises={getCompletedCKExercises(elimination)} isOpen={getCollapsibleState(elimination, storageKey, true)} handleOpen={(isOpen: boolean) => setCollapsibleState(elimination, storageKey, isOpen)} />
+            <ModuleProgressSummary module={ExerciseModule.Elimination} />
+            <CollapsibleExerciseList text={t(GeneralTranslations.HEADER_ELIMINATION_GAME)} route={getPathToExercises(Paths.EliminationGamePath)} navigateTo={Paths.EliminationGamePath} completedExercises={getCompletedCKExercises(elimination)} exerciseType={CKExerciseType.Elimination} isOpen={getCollapsibleState(elimination, storageKey, true)} handleOpen={(isOpen: boolean) => setCollapsibleState(elimination, storageKey, isOpen)} />
         </React.Fragment>
     );
 
@@ -0,0 +1,51 @@
+import { ReactElement, useMemo, useState } from "react";
+import { ErrorBoundary } from "react-error-boundary";
+import { useLocation } from "react-router-dom";
+import { EqualizationExercise as EqualizationExerciseProps } from "@/types/equalization/equalizationExercise.ts";
+import { ErrorTranslations } from "@/types/shared/errorTranslations.ts";
+import { GeneralTranslations } from "@/types/shared/generalTranslations.ts";
+import EqualizationGame from "@components/equalization/EqualizationGame.tsx";
+import ErrorScreen from "@components/shared/ErrorScreen.tsx";
+import { ContinueWithNewExerciseOverlay, ExitExerciseOverlay } from "@components/shared/ExerciseOverlay.tsx";
+import NavigationBar from "@components/shared/NavigationBar.tsx";
+import OrientationModal from "@components/shared/OrientationModal.tsx";
+import { Paths } from "@routes/paths.ts";
+import { generateEqualizationExercise, MIN_EQUALIZATION_LEVEL } from "@utils/equalizationGenerator.ts";
+import { handleNavigationClick } from "@utils/utils.ts";
+import "@styles/equalization/equalization.scss";
+import "@styles/shared/draggable.scss";
+
+// Generated exercises use negative ids so they can never be confused with exercises provided by the backend
+const PRACTICE_EXERCISE_ID: number = -1;
+
+export default function EqualizationPracticeExercise(): ReactElement {
+    const [exitOverlay, setExitOverlay] = useState<[boolean, boolean]>([false, false]);
+    const [exerciseCount, setExerciseCount] = useState<number>(1);
+    const location = useLocation();
+
+    const level: number = location.state?.level ?? MIN_EQUALIZATION_LEVEL;
+
+    return (
+        <ErrorBoundary key={location.pathname} FallbackComponent={() => <ErrorScreen text={ErrorTranslations.ERROR_RETURN} routeToReturn={Paths.EqualizationPath} />}>
+            <div className="full-page">
+                <NavigationBar mainRoute={GeneralTranslations.EQUALIZATION} subRoute={GeneralTranslations.NAV_GAME}
+                               handleSelection={(isHome: boolean) => handleNavigationClick(isHome, setExitOverlay)} currentExercise={exerciseCount} />
+                <PracticeExercise key={exerciseCount} level={level} loadNewExercise={() => setExerciseCount((count: number) => count + 1)} />
+            </div>
+            {exitOverlay[0] && <ExitExerciseOverlay returnToHome={exitOverlay[1]} routeToReturn={Paths.EqualizationPath} closeOverlay={() => setExitOverlay([false, false])} />}
+            <OrientationModal />
+        </ErrorBoundary>
+    );
+}
+
+function PracticeExercise({ level, loadNewExercise }: { level: number; loadNewExercise: () => void }): ReactElement {
+    const exercise: EqualizationExerciseProps = useMemo(() => {
+        const generatedExercise: EqualizationExerciseProps = generateEqualizationExercise(PRACTICE_EXERCISE_ID, { level });
+        generatedExercise.firstEquation.initializeItemArrays(generatedExercise);
+        generatedExercise.secondEquation.initializeItemArrays(generatedExercise);
+        return generatedExercise;
+    }, [level]);
+
+    return <EqualizationGame exercise={exercise} collectData={false}
+                             actionOverlay={<ContinueWithNewExerciseOverlay routeToReturn={Paths.EqualizationPath} loadNewExercise={loadNewExercise} />} />;
+}
@@ -12,11 +12,14 @@ import { useTranslation } from "react-i18next";
 import { GeneralTranslations } from "@/types/shared/generalTranslations.ts";
 
 // Import a reusable component that displays a list of exercises in a collapsible (expandable/collapsible) panel.
-import CollapsibleExerciseList from "@components/views/CollapsibleExerciseList.tsx";
+import CollapsibleExerciseList, { CollapsiblePracticeList } from "@components/views/CollapsibleExerciseList.tsx";
 
 // Import the layout component used to wrap views with a consistent page structure, header, etc.
 import ViewLayout from "@components/views/ViewLayout.tsx";
 
+// Import the summary of the completed exercises of this module, broken down by game and level.
+import ModuleProgressSummary from "@components/views/ModuleProgressSummary.tsx";
+
 // Import predefined app routes and a helper function to get exercise paths.
 // Paths are constant URL strings; getPathToExercises builds URLs for exercise sections.
 import { Paths, getPathToExercises } from "@routes/paths.ts";
@@ -25,6 +28,15 @@ import { Paths, getPathToExercises } from "@routes/paths.ts";
 // These typically interact with local storage or some persistent browser storage.
 import { getCollapsibleState, getCompletedCKExercises, setCollapsibleState } from "@utils/storageUtils.ts";
 
+// Import the bounds of the difficulty levels offered by the exercise generator.
+import { MAX_EQUALIZATION_LEVEL, MIN_EQUALIZATION_LEVEL } from "@utils/equalizationGenerator.ts";
+
+// Import the enum of conceptual knowledge games.
+import { CKExerciseType } from "@/types/studies/enums.ts";
+
+// Import the enum of modules, which selects the module the progress summary is shown for.
+import { ExerciseModule } from "@/types/shared/exerciseOutcome.ts";
+
 // This React functional component renders the Equalization view screen.
 // It shows info about the equalization game and a collapsible list of exercises.
 export default function EqualizationView(): ReactElement {
@@ -38,12 +50,21 @@ export default function EqualizationView(): ReactElement {
     // A key prefix for saving and retrieving collapsible panel open/close state from storage.
     const storageKey: string = "ck-open";
 
+    // A key for saving and retrieving the open/close state of the practice panel.
+    const practiceStorageKey: string = "practice-open";
+
+    // Difficulty levels for which fresh balance puzzles can be generated.
+    const levels: number[] = Array.from({ length: MAX_EQUALIZATION_LEVEL - MIN_EQUALIZATION_LEVEL + 1 }, (_, index: number) => MIN_EQUALIZATION_LEVEL + index);
+
     // Prepare the main content of the view as a React fragment (a container that doesn't create extra DOM elements).
     const contents: ReactElement = (
         <React.Fragment>
             {/* Paragraph explaining info about the equalization game, translated */}
             <p>{t(GeneralTranslations.EQUALIZATION_INFO)}</p>
 
+            {/* Completed exercises of the equalization game, broken down by level */}
+            <ModuleProgressSummary module={ExerciseModule.Equalization} />
+
             {/*
             Render the CollapsibleExerciseList component, which shows a collapsible list of exercises.
             Props explanation:
@@ -51,6 +72,7 @@ export default function EqualizationView(): ReactElement {
             - route: The URL path to the exercises page, generated dynamically
             - navigateTo: The path used for navigation when user selects exercises
             - completedExercises: An array of IDs for exercises the user has already completed (retrieved from storage)
+            - exerciseType: Identifies the stored performance history and exercise levels, used to highlight the recommended next exercise and the exercises counting toward the goal
             - isOpen: Whether the collapsible panel is open or closed (retrieved from storage, defaults to true)
             - handleOpen: Callback that runs when the panel is toggled open or closed, updates the stored state
             */}
@@ -59,9 +81,19 @@ export default function EqualizationView(): ReactElement {
                 route={getPathToExercises(Paths.EqualizationGamePath)}
                 navigateTo={Paths.EqualizationGamePath}
                 completedExercises={getCompletedCKExercises(equalization)}
+                exerciseType={CKExerciseType.Equalization}
                 isOpen={getCollapsibleState(equalization, storageKey, true)}
                 handleOpen={(isOpen: boolean) => setCollapsibleState(equalization, storageKey, isOpen)}
             />
+
+            {/* Collapsible list of difficulty levels, each of which starts an endless series of generated exercises */}
+            <CollapsiblePracticeList
+                text={t(GeneralTranslations.HEADER_EQUALIZATION_PRACTICE)}
+                levels={levels}
+                navigateTo={Paths.EqualizationGamePracticePath}
+                isOpen={getCollapsibleState(equalization, practiceStorageKey, false)}
+                handleOpen={(isOpen: boolean) => setCollapsibleState(equalization, practiceStorageKey, isOpen)}
+            />
         </React.Fragment>
     );
 
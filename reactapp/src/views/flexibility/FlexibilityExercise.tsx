@@ -1,5 +1,5 @@
 import useAxios from "axios-hooks";
-import { plainToClass } from "class-transformer";
+import { ClassConstructor, plainToClass } from "class-transformer";
 import { ReactElement, useState } from "react";
 import { ErrorTranslations } from "@/types/shared/errorTranslations.ts";
 import { GeneralTranslations } from "@/types/shared/generalTranslations.ts";
@@ -26,6 +26,8 @@ import { WorkedExamples } from "@components/flexibility/exercises/WorkedExamples
 import { TipExercise } from "@components/flexibility/exercises/TipExercise.tsx";
 import { PlainExercise as PlainExerciseProps } from "@/types/flexibility/plainExercise.ts";
 import { PlainExercise } from "@components/flexibility/exercises/PlainExercise.tsx";
+import { warnOnInvalidExercise } from "@utils/solverUtils.ts";
+import { IFlexibilityExercise } from "@/types/flexibility/flexibilityExercise.ts";
 
 export default function FlexibilityExercise({ isStudyExample }: { isStudyExample: boolean }): ReactElement {
     const [exitOverlay, setExitOverlay] = useState<[boolean, boolean]>([false, false]);
@@ -126,7 +128,7 @@ function ExerciseForSuitability({ concreteExerciseId, flexibilityId, navigateBac
         return <ErrorScreen text={ErrorTranslations.ERROR_LOAD} routeToReturn={Paths.FlexibilityStudyExamplesPath} showFrownIcon={true} />;
     }
 
-    const exercise: SuitabilityExerciseProps = plainToClass(SuitabilityExerciseProps, data as SuitabilityExerciseProps);
+    const exercise: SuitabilityExerciseProps = toCheckedExercise(SuitabilityExerciseProps, data as SuitabilityExerciseProps);
 
     return <SuitabilityExercise flexibilityExerciseId={flexibilityId} exercise={exercise} condition={AgentCondition.MotivationalAgent}
                                 handleEnd={() => navigate(navigateBackTo)} />;
@@ -149,7 +151,7 @@ function ExerciseForEfficiency({ concreteExerciseId, flexibilityId, navigateBack
         return <ErrorScreen text={ErrorTranslations.ERROR_LOAD} routeToReturn={Paths.FlexibilityStudyExamplesPath} showFrownIcon={true} />;
     }
 
-    const exercise: EfficiencyExerciseProps = plainToClass(EfficiencyExerciseProps, data as EfficiencyExerciseProps);
+    const exercise: EfficiencyExerciseProps = toCheckedExercise(EfficiencyExerciseProps, data as EfficiencyExerciseProps);
 
     return <EfficiencyExercise flexibilityExerciseId={flexibilityId} exercise={exercise} condition={AgentCondition.MotivationalAgent}
                                handleEnd={() => navigate(navigateBackTo)} />;
@@ -172,7 +174,7 @@ function ExerciseForMatching({ concreteExerciseId, flexibilityId, navigateBackTo
         return <ErrorScreen text={ErrorTranslations.ERROR_LOAD} routeToReturn={Paths.FlexibilityStudyExamplesPath} showFrownIcon={true} />;
     }
 
-    const exercise: MatchingExerciseProps = plainToClass(MatchingExerciseProps, data as MatchingExerciseProps);
+    const exercise: MatchingExerciseProps = toCheckedExercise(MatchingExerciseProps, data as MatchingExerciseProps);
 
     return <MatchingExercise flexibilityExerciseId={flexibilityId} exercise={exercise} condition={AgentCondition.MotivationalAgent}
                              handleEnd={() => navigate(navigateBackTo)} isStudy={false} studyId={1} />;
@@ -195,7 +197,7 @@ function ExerciseWithTip({ concreteExerciseId, flexibilityId, navigateBackTo }:
         return <ErrorScreen text={ErrorTranslations.ERROR_LOAD} routeToReturn={Paths.FlexibilityStudyExamplesPath} showFrownIcon={true} />;
     }
 
-    const exercise: TipExerciseProps = plainToClass(TipExerciseProps, data as TipExerciseProps);
+    const exercise: TipExerciseProps = toCheckedExercise(TipExerciseProps, data as TipExerciseProps);
 
     return <TipExercise flexibilityExerciseId={flexibilityId} exercise={exercise} condition={AgentCondition.MotivationalAgent}
                         handleEnd={() => navigate(navigateBackTo)} />;
@@ -218,8 +220,16 @@ function PlainExerciseForStudy({ concreteExerciseId, flexibilityId, navigateBack
         return <ErrorScreen text={ErrorTranslations.ERROR_LOAD} routeToReturn={Paths.FlexibilityStudyExamplesPath} showFrownIcon={true} />;
     }
 
-    const exercise: PlainExerciseProps = plainToClass(PlainExerciseProps, data as PlainExerciseProps);
+    const exercise: PlainExerciseProps = toCheckedExercise(PlainExerciseProps, data as PlainExerciseProps);
 
     return <PlainExercise flexibilityExerciseId={flexibilityId} exercise={exercise} condition={AgentCondition.MotivationalAgent}
                           handleEnd={() => navigate(navigateBackTo)} />;
+}
+
+function toCheckedExercise<T extends IFlexibilityExercise>(type: ClassConstructor<T>, data: T): T {
+    const exercise: T = plainToClass(type, data);
+    if (import.meta.env.DEV) {
+        warnOnInvalidExercise(exercise);
+    }
+    return exercise;
 }
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { ReactElement, useMemo, useState } from "react";
+import { ErrorTranslations } from "@/types/shared/errorTranslations.ts";
+import { GeneralTranslations } from "@/types/shared/generalTranslations.ts";
+import ErrorScreen from "@components/shared/ErrorScreen.tsx";
+import { ExitExerciseOverlay } from "@components/shared/ExerciseOverlay.tsx";
+import { Paths } from "@routes/paths.ts";
+import "@styles/views/flexibility.scss";
+import { useLocation } from "react-router-dom";
+import { AgentCondition, SystemStructure } from "@/types/flexibility/enums.ts";
+import { handleNavigationClick } from "@utils/utils.ts";
+import { ErrorBoundary } from "react-error-boundary";
+import NavigationBar from "@components/shared/NavigationBar.tsx";
+import { EfficiencyExercise } from "@components/flexibility/exercises/EfficiencyExercise.tsx";
+import { EfficiencyExercise as EfficiencyExerciseProps } from "@/types/flexibility/efficiencyExercise.ts";
+import { PlainExercise } from "@components/flexibility/exercises/PlainExercise.tsx";
+import { PlainExercise as PlainExerciseProps } from "@/types/flexibility/plainExercise.ts";
+import { generateEfficiencyExercise, generatePlainExercise, hasAdditionalEquations } from "@utils/flexibilityGenerator.ts";
+
+// Generated exercises use negative ids so they can never be confused with exercises provided by the backend
+const PRACTICE_EXERCISE_ID: number = -1;
+
+export default function FlexibilityPracticeExercise(): ReactElement {
+    const [exitOverlay, setExitOverlay] = useState<[boolean, boolean]>([false, false]);
+    const [exerciseCount, setExerciseCount] = useState<number>(1);
+    const location = useLocation();
+
+    const structure: SystemStructure | undefined = location.state?.structure;
+    const allowFractions: boolean = location.state?.allowFractions ?? false;
+
+    return (
+        <ErrorBoundary key={location.pathname}
+                       FallbackComponent={() => <ErrorScreen text={ErrorTranslations.ERROR_RETURN} routeToReturn={Paths.FlexibilityPath} />}
+        >
+            <div className={"full-page"} style={{ background: "linear-gradient(180deg, var(--blue-background) 0%, #044a6d 100%)", paddingBottom: "1rem" }}>
+                <NavigationBar mainRoute={GeneralTranslations.FLEXIBILITY_TRAINING}
+                               handleSelection={(isHome: boolean) => handleNavigationClick(isHome, setExitOverlay)}
+                               currentExercise={exerciseCount} style={{ minHeight: "3.5rem" }} />
+                <div className={"flexibility-view__container"}>
+                    <div className={"flexibility-view__contents"}>
+                        <PracticeExercise key={exerciseCount} structure={structure} allowFractions={allowFractions}
+                                          handleEnd={() => setExerciseCount((count: number) => count + 1)} />
+                    </div>
+                </div>
+            </div>
+            {exitOverlay[0] &&
+                <ExitExerciseOverlay returnToHome={exitOverlay[1]} routeToReturn={Paths.FlexibilityPath} closeOverlay={() => setExitOverlay([false, false])} />}
+        </ErrorBoundary>
+    );
+}
+
+function PracticeExercise({ structure, allowFractions, handleEnd }: {
+    structure: SystemStructure | undefined;
+    allowFractions: boolean;
+    handleEnd: () => void;
+}): ReactElement {
+    // Without a concrete structure, a random one is chosen and the student may select any suitable method
+    const exercise: EfficiencyExerciseProps | PlainExerciseProps = useMemo(() => {
+        if (structure === undefined) {
+            return generatePlainExercise(PRACTICE_EXERCISE_ID, { structure: randomStructure(), allowFractions });
+        }
+        if (hasAdditionalEquations(structure)) {
+            return generatePlainExercise(PRACTICE_EXERCISE_ID, { structure, allowFractions });
+        }
+        return generateEfficiencyExercise(PRACTICE_EXERCISE_ID, { structure, allowFractions });
+    }, [structure, allowFractions]);
+
+    if (exercise instanceof EfficiencyExerciseProps) {
+        return <EfficiencyExercise flexibilityExerciseId={PRACTICE_EXERCISE_ID} exercise={exercise} condition={AgentCondition.MotivationalAgent}
+                                   handleEnd={handleEnd} isGenerated={true} />;
+    }
+    return <PlainExercise flexibilityExerciseId={PRACTICE_EXERCISE_ID} exercise={exercise} condition={AgentCondition.MotivationalAgent}
+                          handleEnd={handleEnd} isGenerated={true} />;
+}
+
+function randomStructure(): SystemStructure {
+    const structures: SystemStructure[] = Object.values(SystemStructure).filter((value): value is SystemStructure => typeof value === "number");
+    return structures[Math.floor(Math.random() * structures.length)];
+}
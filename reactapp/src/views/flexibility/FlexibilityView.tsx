@@ -1,10 +1,12 @@
 import { TranslationNamespaces } from "@/i18n.ts";
-import React, { ReactElement } from "react";
+import React, { ReactElement, useState } from "react";
 import { useTranslation } from "react-i18next";
+import { ExerciseModule } from "@/types/shared/exerciseOutcome.ts";
 import { GeneralTranslations } from "@/types/shared/generalTranslations.ts";
-import { Paths } from "@routes/paths.ts";
-import { getCompletedPKExercises, setCollapsibleState } from "@utils/storageUtils.ts";
+import { Paths, getPathToFlexibilityExercises } from "@routes/paths.ts";
+import { getCollapsibleState, getCompletedPKExercises, setCollapsibleState } from "@utils/storageUtils.ts";
 import ViewLayout from "@components/views/ViewLayout.tsx";
+import ModuleProgressSummary from "@components/views/ModuleProgressSummary.tsx";
 import { useNavigate } from "react-router-dom";
 import useAxios from "axios-hooks";
 import Loader from "@components/shared/Loader.tsx";
@@ -14,20 +16,28 @@ import { isExerciseCompleted } from "@utils/utils.ts";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import { faChevronRight } from "@fortawesome/free-solid-svg-icons";
 import { Collapsible } from "@components/views/CollapsibleExerciseList.tsx";
-import { FlexibilityExerciseType } from "@/types/flexibility/enums.ts";
+import { FlexibilityExerciseType, SystemStructure } from "@/types/flexibility/enums.ts";
+import Switch from "@components/shared/Switch.tsx";
+import { FLEXIBILITY_LEARNER_MODEL_KEY, recommendNextExercise } from "@utils/learnerModel.ts";
+import { FLEXIBILITY_EXERCISE_TYPE_DIFFICULTIES } from "@utils/exerciseLevels.ts";
 
 export default function FlexibilityView(): ReactElement {
     const { t } = useTranslation(TranslationNamespaces.General);
 
     const flexibility: string = "flexibility-training";
     const storageKey: string = "pk-open";
+    const practiceStorageKey: string = "practice-open";
 
     const exerciseList: ReactElement = <ExerciseList completedExercises={getCompletedPKExercises("flexibility-training")} />;
     const contents: ReactElement = (
         <React.Fragment>
             <p>{t(GeneralTranslations.FLEXIBILITY_TRAINING_INFO)}</p>
+            <ModuleProgressSummary module={ExerciseModule.Flexibility} />
             <Collapsible text={t(GeneralTranslations.HEADER_FLEXIBILITY_TRAINING)} children={exerciseList} isOpen={true}
                          handleClick={(isOpen: boolean) => setCollapsibleState(flexibility, storageKey, isOpen)} />
+            <Collapsible text={t(GeneralTranslations.HEADER_FLEXIBILITY_PRACTICE)} children={<PracticeList />}
+                         isOpen={getCollapsibleState(flexibility, practiceStorageKey, false)}
+                         handleClick={(isOpen: boolean) => setCollapsibleState(flexibility, practiceStorageKey, isOpen)} />
         </React.Fragment>
     );
 
@@ -38,7 +48,7 @@ function ExerciseList({ completedExercises }: { completedExercises?: (number | s
     const { t } = useTranslation([TranslationNamespaces.General, TranslationNamespaces.Error, TranslationNamespaces.Flexibility]);
     const navigate = useNavigate();
 
-    const [{ data, loading, error }] = useAxios(`/flexibility-training/getFlexibilityExercises`);
+    const [{ data, loading, error }] = useAxios(getPathToFlexibilityExercises());
 
     if (loading) return <Loader />;
     if (error) {
@@ -48,14 +58,17 @@ function ExerciseList({ completedExercises }: { completedExercises?: (number | s
 
     const exerciseList: FlexibilityExerciseResponse[] = data as FlexibilityExerciseResponse[];
     const exerciseIds: number[] = exerciseList.map((entry: FlexibilityExerciseResponse) => entry.id);
+    const recommendedExercise: number | undefined = recommendNextExercise(FLEXIBILITY_LEARNER_MODEL_KEY,
+        exerciseList.map((entry: FlexibilityExerciseResponse) => ({ id: entry.id, level: FLEXIBILITY_EXERCISE_TYPE_DIFFICULTIES[entry.exerciseType] })), completedExercises);
     return (
         <div className={"exercise-list"}>
             {exerciseList.map((entry: FlexibilityExerciseResponse, index) => {
                 const isCompleted: boolean = isExerciseCompleted(entry.id, completedExercises);
+                const isRecommended: boolean = entry.id === recommendedExercise;
                 return (
                     <div
                         key={index}
-                        className={"exercise-list__item" + (isCompleted ? "--completed" : "--todo")}
+                        className={"exercise-list__item" + (isCompleted ? "--completed" : "--todo") + (isRecommended ? " exercise-list__item--recommended" : "")}
                         onClick={() =>
                             navigate(Paths.FlexibilityPath + Paths.ExercisesSubPath + entry.id, {
                                 state: { exerciseType: entry.exerciseType, exerciseId: entry.exerciseId, exercises: exerciseIds }
@@ -66,7 +79,7 @@ function ExerciseList({ completedExercises }: { completedExercises?: (number | s
                             {t(GeneralTranslations.NAV_EXERCISE)} {index + 1}
                         </p>
                         <p>{t(FlexibilityExerciseType[entry.exerciseType], { ns: TranslationNamespaces.Flexibility })}</p>
-                        <p className={"exercise-list__status"}>{isCompleted ? t(GeneralTranslations.COMPLETED) : "To-Do"}</p>
+                        <p className={"exercise-list__status"}>{isCompleted ? t(GeneralTranslations.COMPLETED) : isRecommended ? t(GeneralTranslations.RECOMMENDED) : "To-Do"}</p>
                         <FontAwesomeIcon className={"exercise-font"} icon={faChevronRight} />
                     </div>
                 );
@@ -74,3 +87,33 @@ function ExerciseList({ completedExercises }: { completedExercises?: (number | s
         </div>
     );
 }
+
+function PracticeList(): ReactElement {
+    const { t } = useTranslation([TranslationNamespaces.General, TranslationNamespaces.Flexibility]);
+    const navigate = useNavigate();
+
+    const [allowFractions, setAllowFractions] = useState<boolean>(false);
+
+    const structures: SystemStructure[] = Object.values(SystemStructure).filter((value): value is SystemStructure => typeof value === "number");
+    const entries: { label: string; structure?: SystemStructure }[] = [
+        ...structures.map((structure: SystemStructure) => ({ label: t(SystemStructure[structure], { ns: TranslationNamespaces.Flexibility }), structure })),
+        { label: t(GeneralTranslations.FLEXIBILITY_PRACTICE_MIXED) }
+    ];
+
+    return (
+        <div className={"exercise-list"}>
+            <p>{t(GeneralTranslations.FLEXIBILITY_PRACTICE_INFO)}</p>
+            <Switch id={"practice-fractions"} label={t(GeneralTranslations.FLEXIBILITY_PRACTICE_FRACTIONS)} checked={allowFractions} setChecked={setAllowFractions}
+                    disabled={false} />
+            {entries.map((entry, index) => (
+                <div key={index} className={"exercise-list__item--todo"}
+                     onClick={() => navigate(Paths.FlexibilityPracticePath, { state: { structure: entry.structure, allowFractions } })}>
+                    <p className={"exercise-font"}>{entry.label}</p>
+                    <p>{t(entry.structure === undefined ? FlexibilityExerciseType[FlexibilityExerciseType.Suitability] : FlexibilityExerciseType[FlexibilityExerciseType.Efficiency],
+                        { ns: TranslationNamespaces.Flexibility })}</p>
+                    <FontAwesomeIcon className={"exercise-font"} icon={faChevronRight} />
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -9,7 +9,7 @@ import { useTranslation } from "react-i18next";
 import { useNavigate } from "react-router-dom";
 import { ErrorTranslations } from "@/types/shared/errorTranslations.ts";
 import { GeneralTranslations } from "@/types/shared/generalTranslations.ts";
-import { StudyType } from "@/types/studies/enums.ts";
+import { StudyType, UserRole } from "@/types/studies/enums.ts";
 import { IUser } from "@/types/studies/user.ts";
 import Loader from "@components/shared/Loader.tsx";
 import { Paths } from "@routes/paths.ts";
@@ -114,7 +114,7 @@ export default function LoginView(): ReactElement {
             if (user.expirationDate && isExpired(user.expirationDate)) {
                 setError([true, ErrorTranslations.ERROR_EXPIRED_STUDY]);
             } else {
-                const path: string | undefined = getPathToStudy(user.studyType, user.studyId);
+                const path: string | undefined = user.role === UserRole.Teacher ? Paths.TeacherDashboardPath : getPathToStudy(user.studyType, user.studyId);
                 if (path !== undefined) {
                     // Only set user if data is valid
                     login(user);
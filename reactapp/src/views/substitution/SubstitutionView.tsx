@@ -1,11 +1,14 @@
 import { TranslationNamespaces } from "@/i18n.ts";
 import React, { ReactElement } from "react";
 import { useTranslation } from "react-i18next";
+import { ExerciseModule } from "@/types/shared/exerciseOutcome.ts";
 import { GeneralTranslations } from "@/types/shared/generalTranslations.ts";
 import CollapsibleExerciseList from "@components/views/CollapsibleExerciseList.tsx";
 import ViewLayout from "@components/views/ViewLayout.tsx";
+import ModuleProgressSummary from "@components/views/ModuleProgressSummary.tsx";
 import { Paths, getPathToExercises } from "@routes/paths.ts";
 import { getCollapsibleState, getCompletedCKExercises, setCollapsibleState } from "@utils/storageUtils.ts";
+import { CKExerciseType } from "@/types/studies/enums.ts";
 
 export default function SubstitutionView(): ReactElement {
     const { t } = useTranslation(TranslationNamespaces.General);
@@ -18,11 +21,13 @@ export default function SubstitutionView(): ReactElement {
     const contents: ReactElement = (
         <React.Fragment>
             <p>{t(GeneralTranslations.SUBSTITUTION_INFO)}</p>
+            <ModuleProgressSummary module={ExerciseModule.Substitution} />
             <CollapsibleExerciseList
                 text={t(GeneralTranslations.HEADER_BARTERING_GAME)}
                 route={getPathToExercises(Paths.BarteringGamePath)}
                 navigateTo={Paths.BarteringGamePath}
                 completedExercises={getCompletedCKExercises(substitution, bartering)}
+                exerciseType={CKExerciseType.Bartering}
                 isOpen={getCollapsibleState(substitution, barteringStorageKey, true)}
                 handleOpen={(isOpen: boolean) => setCollapsibleState(substitution, barteringStorageKey, isOpen)}
             />
@@ -31,6 +36,7 @@ export default function SubstitutionView(): ReactElement {
                 route={getPathToExercises(Paths.SubstitutionGamePath)}
                 navigateTo={Paths.SubstitutionGamePath}
                 completedExercises={getCompletedCKExercises(substitution)}
+                exerciseType={CKExerciseType.Substitution}
                 isOpen={getCollapsibleState(substitution, substitutionStorageKey, false)}
                 handleOpen={(isOpen: boolean) => setCollapsibleState(substitution, substitutionStorageKey, isOpen)}
             />
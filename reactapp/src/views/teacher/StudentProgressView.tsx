@@ -0,0 +1,151 @@
+import { ReactElement } from "react";
+import { useAuth } from "@/contexts/AuthProvider.tsx";
+import { useNavigate, useParams } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { useErrorBoundary } from "react-error-boundary";
+import useAxios from "axios-hooks";
+import { TranslationNamespaces } from "@/i18n.ts";
+import { getMethodTranslation } from "@/types/flexibility/flexibilityTranslations.ts";
+import { ChoiceProgress, CKExerciseProgress, FlexibilityExerciseProgress, PhaseProgress, StudentProgress } from "@/types/studies/classProgress.ts";
+import { FlexibilityExerciseChoicePhase, FlexibilityStudyExerciseType } from "@/types/studies/enums.ts";
+import { StudyTranslations } from "@/types/studies/studyTranslations.ts";
+import Loader from "@components/shared/Loader.tsx";
+import ViewLayout from "@components/views/ViewLayout.tsx";
+import { Paths } from "@routes/paths.ts";
+import { getCKPhaseName, getFlexibilityPhaseName, getPathToStudentProgress } from "@utils/classProgress.ts";
+import "@styles/views/teacher.scss";
+
+export default function StudentProgressView(): ReactElement {
+    const { t } = useTranslation([TranslationNamespaces.Study, TranslationNamespaces.Flexibility]);
+    const { showBoundary } = useErrorBoundary();
+    const { user, logout } = useAuth();
+    const navigate = useNavigate();
+    const { studentId } = useParams();
+
+    const [{ data, loading, error }] = useAxios({
+        url: getPathToStudentProgress(user?.studyId ?? 0, studentId ?? ""),
+        headers: {
+            Authorization: "Bearer " + user?.token
+        }
+    });
+
+    if (loading) return <Loader />;
+    if (error) {
+        console.error(error);
+        if (error.response?.status === 401) {
+            logout();
+            navigate(Paths.TeacherLoginPath);
+        }
+        showBoundary(error);
+    }
+
+    const student: StudentProgress | undefined = data as StudentProgress | undefined;
+    if (student === undefined) {
+        return <Loader />;
+    }
+
+    return (
+        <ViewLayout title={t(StudyTranslations.TEACHER_STUDENT_PROGRESS, { username: student.username })} isStudy={true} loginPath={Paths.TeacherLoginPath}>
+            <div className={"teacher-view"}>
+                <section className={"teacher-view__section"}>
+                    <h3>{t(StudyTranslations.TEACHER_CK_EXERCISES)}</h3>
+                    {student.ckExercises.length === 0 ? (
+                        <p>{t(StudyTranslations.TEACHER_NO_DATA)}</p>
+                    ) : (
+                        <table className={"teacher-view__table"}>
+                            <thead>
+                                <tr>
+                                    <th>{t(StudyTranslations.TEACHER_EXERCISE)}</th>
+                                    <th>{t(StudyTranslations.TEACHER_COMPLETED)}</th>
+                                    <th>{t(StudyTranslations.TEACHER_PHASE)}</th>
+                                    <th>{t(StudyTranslations.TEACHER_TIME)}</th>
+                                    <th>{t(StudyTranslations.TEACHER_HINTS)}</th>
+                                    <th>{t(StudyTranslations.TEACHER_ERRORS)}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {student.ckExercises.flatMap((exercise: CKExerciseProgress) =>
+                                    exercise.phases.map((phase: PhaseProgress, index: number) => (
+                                        <tr key={`${exercise.exerciseType}-${exercise.exerciseId}-${phase.phase}`}>
+                                            <td>{index === 0 && `${t(StudyTranslations.getCKExerciseTranslation(exercise.exerciseType))} #${exercise.exerciseId}`}</td>
+                                            <td>{index === 0 && (exercise.completed ? "✓" : "-")}</td>
+                                            <td>{getCKPhaseName(exercise.exerciseType, phase.phase)}</td>
+                                            <td>{Math.round(phase.time)}</td>
+                                            <td>{phase.hints}</td>
+                                            <td>{phase.errors}</td>
+                                        </tr>
+                                    ))
+                                )}
+                            </tbody>
+                        </table>
+                    )}
+                </section>
+                <section className={"teacher-view__section"}>
+                    <h3>{t(StudyTranslations.TEACHER_FLEXIBILITY_EXERCISES)}</h3>
+                    {student.flexibilityExercises.length === 0 ? (
+                        <p>{t(StudyTranslations.TEACHER_NO_DATA)}</p>
+                    ) : (
+                        <table className={"teacher-view__table"}>
+                            <thead>
+                                <tr>
+                                    <th>{t(StudyTranslations.TEACHER_EXERCISE)}</th>
+                                    <th>{t(StudyTranslations.TEACHER_COMPLETED)}</th>
+                                    <th>{t(StudyTranslations.TEACHER_METHOD)}</th>
+                                    <th>{t(StudyTranslations.TEACHER_PHASE)}</th>
+                                    <th>{t(StudyTranslations.TEACHER_TIME)}</th>
+                                    <th>{t(StudyTranslations.TEACHER_HINTS)}</th>
+                                    <th>{t(StudyTranslations.TEACHER_ERRORS)}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {student.flexibilityExercises.flatMap((exercise: FlexibilityExerciseProgress) =>
+                                    exercise.phases.map((phase: PhaseProgress, index: number) => (
+                                        <tr key={`${exercise.flexibilityId}-${phase.phase}`}>
+                                            <td>{index === 0 && `${FlexibilityStudyExerciseType[exercise.exerciseType]} #${exercise.flexibilityId}`}</td>
+                                            <td>{index === 0 && (exercise.completed ? "✓" : "-")}</td>
+                                            <td>
+                                                {index === 0 && exercise.selectedMethod !== undefined && t(getMethodTranslation(exercise.selectedMethod), { ns: TranslationNamespaces.Flexibility })}
+                                            </td>
+                                            <td>{getFlexibilityPhaseName(phase.phase)}</td>
+                                            <td>{Math.round(phase.time)}</td>
+                                            <td>{phase.hints}</td>
+                                            <td>{phase.errors}</td>
+                                        </tr>
+                                    ))
+                                )}
+                            </tbody>
+                        </table>
+                    )}
+                </section>
+                <section className={"teacher-view__section"}>
+                    <h3>{t(StudyTranslations.TEACHER_CHOICES)}</h3>
+                    {student.choices.length === 0 ? (
+                        <p>{t(StudyTranslations.TEACHER_NO_DATA)}</p>
+                    ) : (
+                        <table className={"teacher-view__table"}>
+                            <thead>
+                                <tr>
+                                    <th>{t(StudyTranslations.TEACHER_EXERCISE)}</th>
+                                    <th>{t(StudyTranslations.TEACHER_PHASE)}</th>
+                                    <th>{t(StudyTranslations.TEACHER_CHOICE)}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {student.choices.map((choice: ChoiceProgress, index: number) => (
+                                    <tr key={index}>
+                                        <td>{`#${choice.flexibilityId}`}</td>
+                                        <td>{FlexibilityExerciseChoicePhase[choice.phase]}</td>
+                                        <td>{choice.choice}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </section>
+                <button className={"button primary-button"} onClick={() => navigate(Paths.TeacherDashboardPath)}>
+                    {t(StudyTranslations.TEACHER_DASHBOARD)}
+                </button>
+            </div>
+        </ViewLayout>
+    );
+}
@@ -0,0 +1,139 @@
+import { ReactElement } from "react";
+import { useAuth } from "@/contexts/AuthProvider.tsx";
+import { useNavigate } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { useErrorBoundary } from "react-error-boundary";
+import useAxios from "axios-hooks";
+import { TranslationNamespaces } from "@/i18n.ts";
+import { Method } from "@/types/flexibility/enums.ts";
+import { getMethodTranslation } from "@/types/flexibility/flexibilityTranslations.ts";
+import { ProgressSummary, StudentProgress } from "@/types/studies/classProgress.ts";
+import { StudyTranslations } from "@/types/studies/studyTranslations.ts";
+import Loader from "@components/shared/Loader.tsx";
+import ViewLayout from "@components/views/ViewLayout.tsx";
+import { Paths } from "@routes/paths.ts";
+import { averageMistakesPerGame, countSelectedMethods, getPathToClassProgress, summarizeProgress } from "@utils/classProgress.ts";
+import "@styles/views/teacher.scss";
+
+export default function TeacherDashboardView(): ReactElement {
+    const { t } = useTranslation([TranslationNamespaces.Study, TranslationNamespaces.Flexibility]);
+    const { showBoundary } = useErrorBoundary();
+    const { user, logout } = useAuth();
+    const navigate = useNavigate();
+
+    const [{ data, loading, error }] = useAxios({
+        url: getPathToClassProgress(user?.studyId ?? 0),
+        headers: {
+            Authorization: "Bearer " + user?.token
+        }
+    });
+
+    if (loading) return <Loader />;
+    if (error) {
+        console.error(error);
+        if (error.response?.status === 401) {
+            logout();
+            navigate(Paths.TeacherLoginPath);
+        }
+        showBoundary(error);
+    }
+
+    const students: StudentProgress[] = (data ?? []) as StudentProgress[];
+    const methodCounts: Map<Method, number> = countSelectedMethods(students);
+    const mistakesPerGame = averageMistakesPerGame(students);
+
+    return (
+        <ViewLayout title={t(StudyTranslations.TEACHER_DASHBOARD)} isStudy={true} loginPath={Paths.TeacherLoginPath}>
+            <div className={"teacher-view"}>
+                <div className={"teacher-view__aggregates"}>
+                    <section className={"teacher-view__section"}>
+                        <h3>{t(StudyTranslations.TEACHER_METHOD_CHOICES)}</h3>
+                        <table className={"teacher-view__table"}>
+                            <thead>
+                                <tr>
+                                    <th>{t(StudyTranslations.TEACHER_METHOD)}</th>
+                                    <th>{t(StudyTranslations.TEACHER_COUNT)}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {[...methodCounts.entries()].map(([method, count]: [Method, number]) => (
+                                    <tr key={method}>
+                                        <td>{t(getMethodTranslation(method), { ns: TranslationNamespaces.Flexibility })}</td>
+                                        <td>{count}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </section>
+                    <section className={"teacher-view__section"}>
+                        <h3>{t(StudyTranslations.TEACHER_MISTAKES_PER_GAME)}</h3>
+                        {mistakesPerGame.size === 0 ? (
+                            <p>{t(StudyTranslations.TEACHER_NO_DATA)}</p>
+                        ) : (
+                            <table className={"teacher-view__table"}>
+                                <thead>
+                                    <tr>
+                                        <th>{t(StudyTranslations.TEACHER_EXERCISE)}</th>
+                                        <th>{t(StudyTranslations.TEACHER_HINTS)}</th>
+                                        <th>{t(StudyTranslations.TEACHER_ERRORS)}</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {[...mistakesPerGame.entries()].map(([exerciseType, mistakes]) => (
+                                        <tr key={exerciseType}>
+                                            <td>{t(StudyTranslations.getCKExerciseTranslation(exerciseType))}</td>
+                                            <td>{mistakes.hints.toFixed(1)}</td>
+                                            <td>{mistakes.errors.toFixed(1)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </section>
+                </div>
+                <section className={"teacher-view__section"}>
+                    <h3>{t(StudyTranslations.TEACHER_STUDENTS)}</h3>
+                    {students.length === 0 ? (
+                        <p>{t(StudyTranslations.TEACHER_NO_STUDENTS)}</p>
+                    ) : (
+                        <table className={"teacher-view__table"}>
+                            <thead>
+                                <tr>
+                                    <th>{t(StudyTranslations.TEACHER_NAME)}</th>
+                                    <th>{t(StudyTranslations.TEACHER_CK_EXERCISES)}</th>
+                                    <th>{t(StudyTranslations.TEACHER_FLEXIBILITY_EXERCISES)}</th>
+                                    <th>{t(StudyTranslations.TEACHER_TIME)}</th>
+                                    <th>{t(StudyTranslations.TEACHER_HINTS)}</th>
+                                    <th>{t(StudyTranslations.TEACHER_ERRORS)}</th>
+                                    <th />
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {students.map((student: StudentProgress) => {
+                                    const summary: ProgressSummary = summarizeProgress(student);
+                                    return (
+                                        <tr key={student.id}>
+                                            <td>{student.username}</td>
+                                            <td>{summary.completedCKExercises}</td>
+                                            <td>{summary.completedFlexibilityExercises}</td>
+                                            <td>{Math.round(summary.time)}</td>
+                                            <td>{summary.hints}</td>
+                                            <td>{summary.errors}</td>
+                                            <td>
+                                                <button className={"text-button--blue"}
+                                                        onClick={() => navigate(Paths.TeacherDashboardPath + Paths.StudentsSubPath + student.id)}
+                                                >
+                                                    {t(StudyTranslations.TEACHER_DETAILS)}
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+                </section>
+            </div>
+        </ViewLayout>
+    );
+}
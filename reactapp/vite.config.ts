@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import { resolve } from 'path'
@@ -24,4 +25,8 @@ export default defineConfig({
             plugins: [autoprefixer],
         },
     },
+    test: {
+        // The decorators of the exercise types require the metadata polyfill the app imports on startup
+        setupFiles: ["reflect-metadata"],
+    },
 })
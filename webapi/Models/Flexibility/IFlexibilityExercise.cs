@@ -37,7 +37,8 @@ namespace webapi.Models.Flexibility
     {
         Equalization,
         Substitution,
-        Elimination
+        Elimination,
+        Graphical
     }
 
     public enum IsolatedIn
@@ -89,6 +89,28 @@ namespace webapi.Models.Studies.Flexibility
         public string SecondSolution { get; set; } = string.Empty;
 
         public string SecondSolutionActions { get; set; } = string.Empty;
+
+        public string RemainingSolutionChoice { get; set; } = string.Empty;
+
+        public string SystemClassificationChoice { get; set; } = string.Empty;
+
+        public string SystemReduction { get; set; } = string.Empty;
+
+        public string ReductionActions { get; set; } = string.Empty;
+
+        public string RemainingSolution { get; set; } = string.Empty;
+
+        public string RemainingSolutionActions { get; set; } = string.Empty;
+
+        public string SystemClassification { get; set; } = string.Empty;
+
+        public string ClassificationActions { get; set; } = string.Empty;
+
+        public string Graphical { get; set; } = string.Empty;
+
+        public string GraphicalResolve { get; set; } = string.Empty;
+
+        public string GraphicalActions { get; set; } = string.Empty;
     }
 
     public enum FlexibilityExerciseActionPhase
@@ -103,7 +125,11 @@ namespace webapi.Models.Studies.Flexibility
         EliminationActions,
         FirstSolutionActions,
         EquationSelection,
-        SecondSolutionActions
+        SecondSolutionActions,
+        ReductionActions,
+        RemainingSolutionActions,
+        ClassificationActions,
+        GraphicalActions
     }
 
     public enum FlexibilityExercisePhase
@@ -122,7 +148,12 @@ namespace webapi.Models.Studies.Flexibility
         Elimination,
         EliminationResolve,
         FirstSolution,
-        SecondSolution
+        SecondSolution,
+        SystemReduction,
+        RemainingSolution,
+        SystemClassification,
+        Graphical,
+        GraphicalResolve
     }
 
     public enum FlexibilityExerciseChoicePhase
@@ -133,7 +164,9 @@ namespace webapi.Models.Studies.Flexibility
         ResolvingChoice,
         FirstSolutionChoice,
         SecondSolutionChoice,
-        TipChoice
+        TipChoice,
+        RemainingSolutionChoice,
+        SystemClassificationChoice
     }
 
     public class FlexibilityExercisePhaseData
@@ -163,16 +196,19 @@ namespace webapi.Models.Studies.Flexibility
             + "WorkedExamplesChoice TEXT, SelfExplanationChoice TEXT, ComparisonChoice TEXT, ResolvingChoice TEXT, FirstSolutionChoice TEXT, SecondSolutionChoice TEXT, TipChoice TEXT, SelectedMethod TEXT, "
             + "EfficiencySelection TEXT, EfficiencySelectionActions TEXT, SystemSelection TEXT, SystemMatchingActions TEXT, SelfExplanation TEXT, SelfExplanationActions TEXT, Comparison TEXT, ResolveConclusion TEXT, Transformation TEXT, TransformationResolve TEXT, TransformationActions TEXT,  "
             + "Equalization TEXT, EqualizationResolve TEXT, EqualizationActions TEXT, Substitution TEXT, SubstitutionResolve TEXT, SubstitutionActions TEXT, Elimination TEXT, EliminationResolve TEXT, EliminationActions TEXT, "
-            + "FirstSolution TEXT, FirstSolutionActions TEXT, EquationSelection TEXT, SecondSolution TEXT, SecondSolutionActions TEXT";
+            + "FirstSolution TEXT, FirstSolutionActions TEXT, EquationSelection TEXT, SecondSolution TEXT, SecondSolutionActions TEXT, "
+            + "RemainingSolutionChoice TEXT, SystemClassificationChoice TEXT, SystemReduction TEXT, ReductionActions TEXT, RemainingSolution TEXT, RemainingSolutionActions TEXT, SystemClassification TEXT, ClassificationActions TEXT, Graphical TEXT, GraphicalResolve TEXT, GraphicalActions TEXT";
 
         public const string TableColumns = "(Id, UserId, StudyId, FlexibilityId, ExerciseId, ExerciseType, AgentCondition, AgentType, TotalTime, TotalErrors, WorkedExamplesChoice, SelfExplanationChoice, ComparisonChoice, ResolvingChoice, FirstSolutionChoice, SecondSolutionChoice, TipChoice, SelectedMethod, "
             + "EfficiencySelection, EfficiencySelectionActions, SystemSelection, SystemMatchingActions, SelfExplanation, SelfExplanationActions, Comparison, ResolveConclusion, Transformation, TransformationResolve, TransformationActions, "
             + "Equalization, EqualizationResolve, EqualizationActions, Substitution, SubstitutionResolve, SubstitutionActions, Elimination, EliminationResolve, EliminationActions, "
-            + "FirstSolution, FirstSolutionActions, EquationSelection, SecondSolution, SecondSolutionActions, SubstitutionActions)";
+            + "FirstSolution, FirstSolutionActions, EquationSelection, SecondSolution, SecondSolutionActions, SubstitutionActions, "
+            + "RemainingSolutionChoice, SystemClassificationChoice, SystemReduction, ReductionActions, RemainingSolution, RemainingSolutionActions, SystemClassification, ClassificationActions, Graphical, GraphicalResolve, GraphicalActions)";
 
         public const string TableValues = "(@Id, @UserId, @StudyId, @FlexibilityId, @ExerciseId, @ExerciseType, @AgentCondition, @AgentType, @TotalTime, @TotalErrors, @WorkedExamplesChoice, @SelfExplanationChoice, @ComparisonChoice, @ResolvingChoice, @FirstSolutionChoice, @SecondSolutionChoice, @TipChoice, @SelectedMethod, "
             + "@EfficiencySelection, @EfficiencySelectionActions, @SystemSelection, @SystemMatchingActions, @SelfExplanation, @SelfExplanationActions, @Comparison, @ResolveConclusion, @Transformation, @TransformationResolve, @TransformationActions, "
             + "@Equalization, @EqualizationResolve, @EqualizationActions, @Substitution, @SubstitutionResolve, @SubstitutionActions, @Elimination, @EliminationResolve, @EliminationActions, "
-            + "@FirstSolution, @FirstSolutionActions, @EquationSelection, @SecondSolution, @SecondSolutionActions, @SubstitutionActions)";
+            + "@FirstSolution, @FirstSolutionActions, @EquationSelection, @SecondSolution, @SecondSolutionActions, @SubstitutionActions, "
+            + "@RemainingSolutionChoice, @SystemClassificationChoice, @SystemReduction, @ReductionActions, @RemainingSolution, @RemainingSolutionActions, @SystemClassification, @ClassificationActions, @Graphical, @GraphicalResolve, @GraphicalActions)";
     }
 }